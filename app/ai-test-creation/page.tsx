@@ -1,114 +1,252 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useEffectEvent, useCallback } from "react";
 import { Button } from "@/components/ui/button";
+import { AuthStatus } from "@/components/auth-status";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Progress } from "@/components/ui/progress";
 import { LoadingState } from "@/components/ui/skeleton";
-import { DatabaseService } from "@/lib/database";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import type { TestRunResult } from "@/lib/test-runner";
+import type { TestRevision } from "@/lib/self-heal";
+import type { ValidationWarning } from "@/lib/test-validator";
+import { FRAMEWORK_LABELS, TEST_FRAMEWORKS, frameworkOf, type TestFramework } from "@/lib/frameworks";
+import type { CrawledPage, SiteMapNode } from "@/lib/crawler";
+import { readEventStream, type GenerationEvent, type TestSource } from "@/lib/generation-stream";
+import type { PreviewTest, ScanJob, ScanJobStatus } from "@/lib/jobs";
+import type { FinishedTest, GenerationResult } from "@/lib/generation";
+import type { CaptureOptions, WaitStrategy } from "@/lib/capture";
+import { ISSUE_LABELS, type PageIssue } from "@/lib/page-health";
+import type { VisualCheck } from "@/lib/visual";
+import {
+  createProject,
+  deleteStoredUrl,
+  importLocalSessions,
+  listProjects,
+  loadLatestSession,
+  LOCAL_SESSION_PREFIX,
+  saveSession,
+  StorageUnavailableError,
+  type ProjectSummary,
+  type SessionTest,
+  type StoredSession
+} from "@/lib/session-api";
 
-interface StoredTestData {
+// Background scan this tab is following, so it can be picked up again after a reload
+const ACTIVE_JOB_KEY = "testflow_active_job";
+// Project scans are saved to, remembered between visits
+const ACTIVE_PROJECT_KEY = "testflow_active_project";
+const JOB_POLL_INTERVAL_MS = 1500;
+
+interface ActiveJob {
+  jobId: string;
   url: string;
-  tests: any[];
-  summary: string;
-  timestamp: number;
-  userDescription?: string;
+  projectId?: string;
+}
+
+// The background scan saved under ACTIVE_JOB_KEY; a value that isn't one is removed
+function readActiveJob(): ActiveJob | null {
+  const stored = localStorage.getItem(ACTIVE_JOB_KEY);
+  if (!stored) return null;
+  try {
+    const job = JSON.parse(stored);
+    if (typeof job?.jobId === "string" && typeof job.url === "string") {
+      return { jobId: job.jobId, url: job.url, ...(typeof job.projectId === "string" && { projectId: job.projectId }) };
+    }
+  } catch {
+    // Fall through and forget it
+  }
+  localStorage.removeItem(ACTIVE_JOB_KEY);
+  return null;
 }
 
+// Playwright device descriptors offered for capture; any other device name works through the API
+const DEVICE_PRESETS = ["iPhone 13", "iPhone 15 Pro Max", "Pixel 7", "Galaxy S9+", "iPad Pro 11", "Desktop Chrome"];
+
+const WAIT_LABELS: Record<WaitStrategy, string> = {
+  networkidle: "Network idle",
+  load: "Load event",
+  domcontentloaded: "DOM ready",
+  selector: "Selector appears",
+  delay: "Fixed delay"
+};
+
+const SOURCE_LABELS: Record<TestSource, string> = {
+  general: "general",
+  elements: "element",
+  api: "API"
+};
+
+const JOB_STAGES: Record<ScanJobStatus, 'scanning' | 'generating' | 'validating' | 'complete'> = {
+  queued: 'scanning',
+  snapshotting: 'scanning',
+  generating: 'generating',
+  validating: 'validating',
+  done: 'complete',
+  failed: 'complete'
+};
+
 export default function AiTestGen() {
   const [url, setUrl] = useState("");
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [projectsAvailable, setProjectsAvailable] = useState(false);
+  const [projectId, setProjectId] = useState("");
+  const [newProjectName, setNewProjectName] = useState("");
+  const [projectError, setProjectError] = useState<string | null>(null);
   const [screenshot, setScreenshot] = useState<string | null>(null);
   const [analysis, setAnalysis] = useState("");
 
-  const [aiTests, setAiTests] = useState<any[]>([]);
+  const [aiTests, setAiTests] = useState<SessionTest[]>([]);
   const [aiSummary, setAiSummary] = useState("");
   const [hasError, setHasError] = useState(false);
   const [loading, setLoading] = useState(false);
   const [previousTestsCount, setPreviousTestsCount] = useState(0);
   const [newTestsAdded, setNewTestsAdded] = useState(false);
-  const [testSources, setTestSources] = useState<{general: number, elements: number} | null>(null);
+  const [testSources, setTestSources] = useState<{general: number, elements: number, api: number} | null>(null);
+  const [runningTests, setRunningTests] = useState<Set<number>>(new Set());
+  const [selfHeal, setSelfHeal] = useState(false);
+  const [framework, setFramework] = useState<TestFramework>("cypress");
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [crawl, setCrawl] = useState(false);
+  const [crawlDepth, setCrawlDepth] = useState(1);
+  const [crawlPages, setCrawlPages] = useState(5);
+  const [device, setDevice] = useState("");
+  const [waitUntil, setWaitUntil] = useState<WaitStrategy>("networkidle");
+  const [waitForSelector, setWaitForSelector] = useState("");
+  const [waitDelayMs, setWaitDelayMs] = useState(2000);
+  const [siteMap, setSiteMap] = useState<SiteMapNode[] | null>(null);
+  // Errors seen while the scanned pages loaded
+  const [pageIssues, setPageIssues] = useState<(PageIssue & { pageUrl?: string })[]>([]);
+  // The screenshot compared with its baseline; only background scans save screenshots
+  const [visualCheck, setVisualCheck] = useState<VisualCheck | null>(null);
+  const [streamedTests, setStreamedTests] = useState<PreviewTest[]>([]);
 
   const [progress, setProgress] = useState<{
-    stage: 'idle' | 'scanning' | 'analyzing' | 'generating' | 'complete';
+    stage: 'idle' | 'scanning' | 'analyzing' | 'generating' | 'validating' | 'saving' | 'complete';
     message: string;
     percent: number;
   } | null>(null);
 
-  // Database/localStorage operations with fallback
-  const loadStoredTests = async (url: string): Promise<StoredTestData | null> => {
+  // Saved tests live on the server. Only when it has no database are they kept in localStorage,
+  // from where they are imported once a database is set up.
+  const loadStoredTests = useCallback(async (url: string): Promise<StoredSession | null> => {
     try {
-      // Try database first
-      const dbResult = await DatabaseService.getLatestTestsForUrl(url);
-      if (dbResult) {
-        return {
-          url: dbResult.url,
-          tests: dbResult.tests,
-          summary: dbResult.summary,
-          timestamp: dbResult.timestamp,
-        };
-      }
+      return await loadLatestSession(url, projectId || undefined);
     } catch (error) {
-      console.warn("Database not available, falling back to localStorage:", error);
+      if (!(error instanceof StorageUnavailableError)) {
+        console.error("Error loading stored tests:", error);
+        return null;
+      }
     }
 
-    // Fallback to localStorage
     try {
-      const stored = localStorage.getItem(`testflow_tests_${url}`);
+      const stored = localStorage.getItem(`${LOCAL_SESSION_PREFIX}${url}`);
       return stored ? JSON.parse(stored) : null;
     } catch (error) {
       console.error("Error loading from localStorage:", error);
       return null;
     }
-  };
+  }, [projectId]);
 
-  const saveStoredTests = async (url: string, tests: any[], summary: string, userDescription?: string) => {
+  const saveStoredTests = async (url: string, tests: SessionTest[], summary: string, userDescription?: string, siteMap?: SiteMapNode[]) => {
     try {
-      // Try database first
-      await DatabaseService.saveTestSession(url, tests, summary, navigator.userAgent);
+      const saved = await saveSession({ url, tests, summary, siteMap, ...(projectId && { projectId }) });
+      setSessionId(saved.sessionId);
+      return;
     } catch (error) {
-      console.warn("Database not available, falling back to localStorage:", error);
-
-      // Fallback to localStorage
-      try {
-        const data: StoredTestData = {
-          url,
-          tests,
-          summary,
-          timestamp: Date.now(),
-          userDescription,
-        };
-        localStorage.setItem(`testflow_tests_${url}`, JSON.stringify(data));
-      } catch (storageError) {
-        console.error("Error saving to localStorage:", storageError);
+      if (!(error instanceof StorageUnavailableError)) {
+        console.error("Error saving tests:", error);
+        return;
       }
     }
+
+    console.warn("The server has no database, saving tests in localStorage");
+    try {
+      const data: StoredSession = {
+        url,
+        tests,
+        summary,
+        timestamp: Date.now(),
+        userDescription,
+        siteMap,
+      };
+      localStorage.setItem(`${LOCAL_SESSION_PREFIX}${url}`, JSON.stringify(data));
+    } catch (storageError) {
+      console.error("Error saving to localStorage:", storageError);
+    }
+  };
+
+  // Execute a saved test in the sandboxed runner and attach the result to it
+  const runTest = async (index: number) => {
+    const test = aiTests[index];
+    if (!test?.id) return;
+
+    setRunningTests(prev => new Set(prev).add(index));
+    let lastRun: TestRunResult;
+    try {
+      const res = await fetch("/api/run", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ testId: test.id })
+      });
+      const data = await res.json();
+      lastRun = res.ok
+        ? data
+        : { status: "error", durationMs: 0, error: data.error || `HTTP ${res.status}`, runner: "playwright", cases: [] };
+    } catch (error) {
+      lastRun = {
+        status: "error",
+        durationMs: 0,
+        error: error instanceof Error ? error.message : "Unknown error",
+        runner: "playwright",
+        cases: []
+      };
+    }
+
+    const updatedTests = aiTests.map((t, i) => (i === index ? { ...t, lastRun } : t));
+    setAiTests(updatedTests);
+    setRunningTests(prev => {
+      const next = new Set(prev);
+      next.delete(index);
+      return next;
+    });
   };
 
   // Load stored tests when URL changes
   useEffect(() => {
     const loadTests = async () => {
+      // Findings belong to the last scan, which was of another URL
+      setPageIssues([]);
+      setVisualCheck(null);
       if (url) {
         try {
           const stored = await loadStoredTests(url);
           if (stored && stored.tests.length > 0) {
+            setSessionId(stored.sessionId || null);
+            setSiteMap(stored.siteMap || null);
             setAiTests(stored.tests);
             setAiSummary(stored.summary || "");
             setPreviousTestsCount(stored.tests.length);
             console.log(`Loaded ${stored.tests.length} previous tests for ${url}`);
           } else {
+            setSessionId(null);
+            setSiteMap(null);
             setAiTests([]);
             setAiSummary("");
             setPreviousTestsCount(0);
           }
         } catch (error) {
           console.error("Error loading tests:", error);
+          setSessionId(null);
+          setSiteMap(null);
           setAiTests([]);
           setAiSummary("");
           setPreviousTestsCount(0);
         }
       } else {
         // Clear when URL is empty
+        setSiteMap(null);
         setAiTests([]);
         setAiSummary("");
         setPreviousTestsCount(0);
@@ -116,160 +254,356 @@ export default function AiTestGen() {
     };
 
     loadTests();
-  }, [url]);
+  }, [url, loadStoredTests]);
 
-  const scanPage = async () => {
-    setLoading(true);
-    setHasError(false);
-    setNewTestsAdded(false);
-    setTestSources(null);
-    setProgress({
-      stage: 'scanning',
-      message: 'Taking screenshot and analyzing page structure...',
-      percent: 10
-    });
+  // Switch the target project; an empty URL, or the previous project's base URL, is replaced by the new one's
+  const selectProject = (id: string) => {
+    const previous = projects.find(project => project.id === projectId);
+    const next = projects.find(project => project.id === id);
+    setProjectId(id);
+    if (id) localStorage.setItem(ACTIVE_PROJECT_KEY, id);
+    else localStorage.removeItem(ACTIVE_PROJECT_KEY);
+    if (next?.baseUrl && (!url || url === previous?.baseUrl)) setUrl(next.baseUrl);
+  };
 
+  const addProject = async () => {
+    setProjectError(null);
     try {
-      const res = await fetch("/api/snapshot", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ url })
-      });
+      const project = await createProject({ name: newProjectName.trim(), ...(url && { baseUrl: url }) });
+      setProjects(prev => [...prev, project].sort((a, b) => a.name.localeCompare(b.name)));
+      setNewProjectName("");
+      setProjectId(project.id);
+      localStorage.setItem(ACTIVE_PROJECT_KEY, project.id);
+    } catch (error) {
+      setProjectError(error instanceof Error ? error.message : String(error));
+    }
+  };
 
-      const data = await res.json();
-      setScreenshot(data.screenshot);
-      setProgress({
-        stage: 'analyzing',
-        message: 'Analyzing page elements and structure...',
-        percent: 40
+  // Projects need a database; without one the picker stays hidden
+  useEffect(() => {
+    listProjects()
+      .then(list => {
+        setProjects(list);
+        setProjectsAvailable(true);
+        const remembered = localStorage.getItem(ACTIVE_PROJECT_KEY);
+        if (remembered && list.some(project => project.id === remembered)) setProjectId(remembered);
+        else localStorage.removeItem(ACTIVE_PROJECT_KEY);
+      })
+      .catch(error => {
+        if (!(error instanceof StorageUnavailableError)) console.error("Error loading projects:", error);
       });
+  }, []);
+
+  // How pages are loaded: emulated device and wait strategy
+  const capture: CaptureOptions = {
+    ...(device && { device }),
+    waitUntil,
+    ...(waitUntil === "selector" && { waitForSelector }),
+    ...(waitUntil === "delay" && { delayMs: waitDelayMs })
+  };
+
+  // POST JSON, waiting out the rate limit once (a crawl makes many requests in a row)
+  const postJson = async (path: string, body: object) => {
+    const send = () => fetch(path, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body)
+    });
+
+    const res = await send();
+    if (res.status !== 429) return res;
+
+    const { resetTime } = await res.json().catch(() => ({ resetTime: 0 }));
+    const waitMs = Math.min(60000, Math.max(1000, (resetTime || 0) - Date.now()));
+    setProgress(prev => prev ? {
+      ...prev,
+      message: `Rate limit reached, retrying in ${Math.ceil(waitMs / 1000)}s...`
+    } : null);
+    await new Promise(resolve => setTimeout(resolve, waitMs));
+    return send();
+  };
+
+  // Generate general, element-specific and API tests for one page over the streaming endpoint.
+  // Without a captured page the server takes the snapshot itself. Tests are shown as soon as
+  // they parse and replaced by the validated versions once each generation finishes.
+  const generateForPage = async (page: CrawledPage | null, pageIdx: number, pageCount: number) => {
+    const pageUrl = page?.url || url;
+    const span = (page ? 50 : 85) / pageCount;
+    const base = (page ? 40 : 10) + span * pageIdx;
+    const at = (fraction: number) => Math.round(base + span * fraction);
+    const where = pageCount > 1 ? ` (${pageIdx + 1}/${pageCount}: ${new URL(pageUrl).pathname})` : "";
+
+    const res = await postJson("/api/ai-testgen/stream", {
+      ...(page && {
+        screenshot: page.screenshot,
+        domData: page.domData,
+        htmlElements: page.htmlElements,
+        accessibleElements: page.accessibleElements,
+        apiCalls: page.apiCalls,
+        pageIssues: page.pageIssues,
+        criticalAssets: page.criticalAssets
+      }),
+      url: pageUrl,
+      userDescription: analysis,
+      framework,
+      selfHeal,
+      capture
+    });
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}));
+      throw new Error(data.details?.join(", ") || data.error || `Generation failed with HTTP ${res.status}`);
+    }
 
-      // Make parallel API calls: one for general tests, one for element-specific tests
-      const [generalTestsRes, elementTestsRes] = await Promise.allSettled([
-        // General tests based on DOM structure
-        fetch("/api/ai-testgen", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            screenshot: data.screenshot,
-            domData: data.domData,
-            url,
-            userDescription: analysis
-          })
-        }).then(res => {
+    const results: Record<TestSource, Pick<GenerationResult, "tests" | "summary" | "_error">> = {
+      general: { tests: [], summary: "" },
+      elements: { tests: [], summary: "" },
+      api: { tests: [], summary: "" }
+    };
+    const tokens: Record<TestSource, number> = { general: 0, elements: 0, api: 0 };
+
+    await readEventStream(res, (event: GenerationEvent) => {
+      switch (event.type) {
+        case "stage":
+          setProgress({
+            stage: event.stage === "snapshot" ? "scanning"
+              : event.stage === "prompt" ? "analyzing"
+              : event.stage === "generating" ? "generating"
+              : "validating",
+            message: `${event.message}${where}`,
+            percent: at({ snapshot: 0, prompt: 0.15, generating: 0.2, validating: 0.8, healing: 0.85 }[event.stage])
+          });
+          break;
+        case "snapshot":
+          setScreenshot(event.screenshot || null);
+          setPageIssues(event.pageIssues);
+          setProgress({
+            stage: "analyzing",
+            message: `Page captured: ${event.htmlElements.length} interactive elements, ${event.accessibleElements.length} by role, ${event.apiCalls.length} API calls`,
+            percent: at(0.1)
+          });
+          break;
+        case "tokens": {
+          tokens[event.source] = event.tokens;
+          const received = tokens.general + tokens.elements + tokens.api;
+          setProgress(prev => ({
+            stage: "generating",
+            message: `Receiving tests from the model (${received} tokens)${where}...`,
+            percent: Math.max(prev?.percent || 0, at(0.2 + 0.55 * Math.min(1, received / 4000)))
+          }));
+          break;
+        }
+        case "test":
+          setStreamedTests(prev => [...prev, {
+            source: event.source,
+            title: String(event.test.title || "Untitled Test"),
+            why: typeof event.test.why === "string" ? event.test.why : undefined,
+            pageUrl: page?.url
+          }]);
           setProgress(prev => prev ? {
             ...prev,
-            message: 'Generating general test scenarios...',
-            percent: 60
+            message: `Parsed ${SOURCE_LABELS[event.source]} test ${event.index + 1}: ${event.test.title || "Untitled Test"}`
           } : null);
-          return res;
-        }),
-        // Element-specific tests based on HTML
-        data.htmlElements && data.htmlElements.length > 0
-          ? fetch("/api/ai-testgen-elements", {
-              method: "POST",
-              headers: { "Content-Type": "application/json" },
-              body: JSON.stringify({
-                htmlElements: data.htmlElements,
-                url,
-                userDescription: analysis
-              })
-            }).then(res => {
-              setProgress(prev => prev ? {
-                ...prev,
-                message: 'Generating element-specific tests...',
-                percent: 80
-              } : null);
-              return res;
-            })
-          : Promise.resolve(null)
-      ]);
-
-      // Process general tests
-      let generalTestsData: any = { tests: [], summary: "" };
-      if (generalTestsRes.status === "fulfilled" && generalTestsRes.value) {
-        try {
-          generalTestsData = await generalTestsRes.value.json();
-        } catch (err) {
-          console.error("Error parsing general tests:", err);
-        }
+          break;
+        case "result":
+          results[event.source] = { tests: event.tests, summary: event.summary, _error: event.error };
+          // The validated tests replace the ones shown while streaming
+          setStreamedTests(prev => [
+            ...prev.filter(test => test.source !== event.source || test.pageUrl !== page?.url),
+            ...event.tests.map(test => ({ source: event.source, title: test.title, why: test.why, pageUrl: page?.url, final: true }))
+          ]);
+          break;
+        case "error":
+          throw new Error(event.message);
       }
+    });
 
-      // Process element tests
-      let elementTestsData: any = { tests: [], summary: "" };
-      if (elementTestsRes.status === "fulfilled" && elementTestsRes.value) {
-        try {
-          elementTestsData = await elementTestsRes.value.json();
-        } catch (err) {
-          console.error("Error parsing element tests:", err);
-        }
+    return { generalTestsData: results.general, elementTestsData: results.elements, apiTestsData: results.api };
+  };
+
+  // Follow a background scan until it finishes, showing its progress and the tests parsed so far.
+  // Returns the number of tests generated.
+  const followJob = async (jobId: string) => {
+    for (;;) {
+      const res = await fetch(`/api/jobs/${jobId}`);
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        if (res.status === 404) localStorage.removeItem(ACTIVE_JOB_KEY);
+        throw new Error(data.error || `Job status failed with HTTP ${res.status}`);
       }
 
-      // Combine both test sets
-      const combinedTests = [
-        ...(generalTestsData.tests || []),
-        ...(elementTestsData.tests || [])
-      ];
-      
-      const combinedSummary = [
+      const job: ScanJob & Partial<Pick<StoredSession, "tests" | "siteMap">> = data.job;
+      setStreamedTests(job.preview);
+
+      if (job.status === "failed") {
+        localStorage.removeItem(ACTIVE_JOB_KEY);
+        setScreenshot(job.screenshot || null);
+        throw new Error(job.error || "Scan failed");
+      }
+
+      if (job.status === "done" && job.result) {
+        localStorage.removeItem(ACTIVE_JOB_KEY);
+        const { summary, general, elements, api, added } = job.result;
+        const tests = job.tests || [];
+
+        setScreenshot(job.screenshot || null);
+        setSessionId(job.sessionId || null);
+        setSiteMap(job.siteMap || null);
+        setPageIssues(job.result.pageIssues || []);
+        setVisualCheck(job.result.visual || null);
+        setAiTests(tests);
+        setAiSummary(summary);
+        setTestSources({ general, elements, api });
+        setPreviousTestsCount(tests.length - added);
+        setNewTestsAdded(added > 0 && tests.length > added);
+        return general + elements + api;
+      }
+
+      setProgress({
+        stage: JOB_STAGES[job.status],
+        message: job.message || "Waiting for a free scan worker...",
+        percent: job.progress
+      });
+      await new Promise(resolve => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
+    }
+  };
+
+  // Scan in this tab over the streaming endpoint, saving the results from here.
+  // Used when background jobs aren't available (no database). Returns the number of tests generated.
+  const streamScan = async () => {
+    // A crawl snapshots every page first; a single page is captured by the streaming endpoint
+    let crawledPages: (CrawledPage | null)[] = [null];
+    let crawlSiteMap: SiteMapNode[] | undefined;
+    if (crawl) {
+      const res = await fetch("/api/snapshot", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ url, crawl: { maxDepth: crawlDepth, maxPages: crawlPages }, capture })
+      });
+
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || `Snapshot failed with HTTP ${res.status}`);
+      }
+      setScreenshot(data.screenshot);
+      crawlSiteMap = data.siteMap;
+      crawledPages = data.pages;
+      setPageIssues(data.pages.flatMap((page: CrawledPage) => page.pageIssues.map(issue => ({ ...issue, pageUrl: page.url }))));
+    }
+    setSiteMap(crawlSiteMap || null);
+
+    const generalTests: FinishedTest[] = [];
+    const elementTests: FinishedTest[] = [];
+    const apiTests: typeof generalTests = [];
+    const summaries: string[] = [];
+    let generationError = false;
+
+    for (const [pageIdx, page] of crawledPages.entries()) {
+      const { generalTestsData, elementTestsData, apiTestsData } = await generateForPage(page, pageIdx, crawledPages.length);
+      const tagPage = (tests: FinishedTest[] = []) => (page ? tests.map(test => ({ ...test, pageUrl: page.url })) : tests);
+
+      generalTests.push(...tagPage(generalTestsData.tests));
+      elementTests.push(...tagPage(elementTestsData.tests));
+      apiTests.push(...tagPage(apiTestsData.tests));
+      generationError = generationError || generalTestsData._error || elementTestsData._error || apiTestsData._error || false;
+
+      const pageSummary = [
         generalTestsData.summary && "General Tests:\n" + generalTestsData.summary,
-        elementTestsData.summary && "Element Tests:\n" + elementTestsData.summary
+        elementTestsData.summary && "Element Tests:\n" + elementTestsData.summary,
+        apiTestsData.summary && "API Tests:\n" + apiTestsData.summary
       ].filter(Boolean).join("\n\n");
+      if (pageSummary) {
+        summaries.push(page ? `${page.url}\n${pageSummary}` : pageSummary);
+      }
+    }
 
-      const aiData = {
-        ...generalTestsData,
-        tests: combinedTests,
-        summary: combinedSummary || generalTestsData.summary,
-        _error: generalTestsData._error || elementTestsData._error || false
-      };
+    // Combine the test sets
+    const combinedTests = [...generalTests, ...elementTests, ...apiTests];
+
+    const aiData = {
+      tests: combinedTests,
+      summary: summaries.join("\n\n"),
+      _error: generationError
+    };
+
+    setHasError(aiData._error || false);
+    setProgress({
+      stage: 'saving',
+      message: `Saving ${combinedTests.length} tests...`,
+      percent: 95
+    });
+
+    // Track test sources for display
+    setTestSources({
+      general: generalTests.length,
+      elements: elementTests.length,
+      api: apiTests.length
+    });
+    
+    console.log(`Generated ${aiData.tests.length} total tests (${generalTests.length} general + ${elementTests.length} element-specific + ${apiTests.length} API) across ${crawledPages.length} page(s)`);
+    
+    // Check if we have previous tests for this URL
+    const previousData = await loadStoredTests(url);
+    const newTests = aiData.tests || [];
+
+    if (previousData && previousData.tests.length > 0 && !aiData._error) {
+      // Append new tests to existing ones (avoid duplicates by title on the same page)
+      const testKey = (t: SessionTest) => `${t.pageUrl || ""}::${t.title}`;
+      const existingKeys = new Set(previousData.tests.map(testKey));
+      const uniqueNewTests = newTests.filter(t => !existingKeys.has(testKey(t)));
+      const combinedTests = [...previousData.tests, ...uniqueNewTests];
+      const combinedSiteMap = crawlSiteMap || previousData.siteMap;
+      setSiteMap(combinedSiteMap || null);
+
+      setAiTests(combinedTests);
+      setAiSummary(aiData.summary || previousData.summary);
+      setPreviousTestsCount(previousData.tests.length);
+      setNewTestsAdded(uniqueNewTests.length > 0);
+
+      // Save combined results
+      await saveStoredTests(url, combinedTests, aiData.summary || previousData.summary, analysis, combinedSiteMap);
+    } else {
+      // First time or error - use new data
+      setAiTests(newTests);
+      setAiSummary(aiData.summary);
+      setPreviousTestsCount(newTests.length);
+      setNewTestsAdded(false);
+
+      // Save new results
+      if (!aiData._error) {
+        await saveStoredTests(url, newTests, aiData.summary, analysis, crawlSiteMap);
+      }
+    }
+
+    return combinedTests.length;
+  };
+
+  // Run a scan with the shared progress and error handling
+  const runScan = async (scan: () => Promise<number>) => {
+    setLoading(true);
+    setHasError(false);
+    setNewTestsAdded(false);
+    setTestSources(null);
+    setStreamedTests([]);
+    setPageIssues([]);
+    setVisualCheck(null);
+    setProgress({
+      stage: 'scanning',
+      message: crawl
+        ? `Crawling up to ${crawlPages} pages (depth ${crawlDepth})...`
+        : 'Taking screenshot and analyzing page structure...',
+      percent: 5
+    });
+
+    try {
+      const generated = await scan();
 
-      setHasError(aiData._error || false);
       setProgress({
         stage: 'complete',
-        message: `Generated ${combinedTests.length} tests successfully!`,
+        message: `Generated ${generated} tests successfully!`,
         percent: 100
       });
-
       // Clear progress after a short delay
       setTimeout(() => setProgress(null), 2000);
-      
-      // Track test sources for display
-      setTestSources({
-        general: generalTestsData.tests?.length || 0,
-        elements: elementTestsData.tests?.length || 0
-      });
-      
-      console.log(`Generated ${aiData.tests?.length || 0} total tests (${generalTestsData.tests?.length || 0} general + ${elementTestsData.tests?.length || 0} element-specific)`);
-      
-      // Check if we have previous tests for this URL
-      const previousData = await loadStoredTests(url);
-      const newTests = aiData.tests || [];
-
-      if (previousData && previousData.tests.length > 0 && !aiData._error) {
-        // Append new tests to existing ones (avoid duplicates by title)
-        const existingTitles = new Set(previousData.tests.map((t: any) => t.title));
-        const uniqueNewTests = newTests.filter((t: any) => !existingTitles.has(t.title));
-        const combinedTests = [...previousData.tests, ...uniqueNewTests];
-
-        setAiTests(combinedTests);
-        setAiSummary(aiData.summary || previousData.summary);
-        setPreviousTestsCount(previousData.tests.length);
-        setNewTestsAdded(uniqueNewTests.length > 0);
-
-        // Save combined results
-        await saveStoredTests(url, combinedTests, aiData.summary || previousData.summary, analysis);
-      } else {
-        // First time or error - use new data
-        setAiTests(newTests);
-        setAiSummary(aiData.summary);
-        setPreviousTestsCount(newTests.length);
-        setNewTestsAdded(false);
-
-        // Save new results
-        if (!aiData._error) {
-          await saveStoredTests(url, newTests, aiData.summary, analysis);
-        }
-      }
     } catch (error) {
       console.error("Error scanning page:", error);
       setHasError(true);
@@ -281,6 +615,49 @@ export default function AiTestGen() {
     }
   };
 
+  // Submit the scan as a background job, so it still finishes and is saved if this tab closes
+  const scanPage = () => runScan(async () => {
+    const res = await postJson("/api/jobs", {
+      url,
+      userDescription: analysis,
+      framework,
+      selfHeal,
+      capture,
+      ...(crawl && { crawl: { maxDepth: crawlDepth, maxPages: crawlPages } }),
+      ...(projectId && { projectId })
+    });
+    if (res.status === 503) return streamScan();
+
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      throw new Error(data.details?.join(", ") || data.error || `Scan failed with HTTP ${res.status}`);
+    }
+    localStorage.setItem(ACTIVE_JOB_KEY, JSON.stringify({ jobId: data.job.id, url, projectId }));
+    return followJob(data.job.id);
+  });
+
+  // Move tests this browser kept in localStorage into the database, once there is one
+  useEffect(() => {
+    importLocalSessions(localStorage)
+      .then(result => {
+        if (result && result.imported.length > 0) {
+          console.log(`Imported ${result.imported.length} sessions saved in this browser`);
+        }
+      })
+      .catch(error => console.error("Error importing local sessions:", error));
+  }, []);
+
+  const resumeJob = useEffectEvent((jobId: string) => runScan(() => followJob(jobId)));
+
+  // Pick up a background scan that was still running when the page was closed or reloaded
+  useEffect(() => {
+    const active = readActiveJob();
+    if (!active) return;
+    setUrl(active.url);
+    if (active.projectId) setProjectId(active.projectId);
+    resumeJob(active.jobId);
+  }, []);
+
   return (
     <div className="flex h-screen">
         {/* Top Navbar */}
@@ -291,7 +668,7 @@ export default function AiTestGen() {
           <a href="/dashboard" className="hover:text-gray-600">Dashboard</a>
           <a href="/tests" className="hover:text-gray-600">Tests</a>
           <a href="/settings" className="hover:text-gray-600">Settings</a>
-          <Button className="rounded-2xl px-6 py-2 text-base">Get Started</Button>
+          <AuthStatus required />
         </div>
       </nav>
 
@@ -300,6 +677,41 @@ export default function AiTestGen() {
         <div className="w-1/3 border-r p-6 space-y-4 overflow-y-auto">
             <h2 className="text-xl font-semibold">Page Scanner</h2>
 
+            {projectsAvailable && (
+              <div className="space-y-2">
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  Project
+                  <select
+                    value={projectId}
+                    onChange={(e) => selectProject(e.target.value)}
+                    disabled={loading}
+                    className="flex-1 border rounded-md px-2 py-1 bg-white"
+                  >
+                    <option value="">No project</option>
+                    {projects.map((project) => (
+                      <option key={project.id} value={project.id}>
+                        {project.name}{project.baseUrl ? ` (${project.baseUrl})` : ""}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <div className="flex items-center gap-2">
+                  <input
+                    placeholder="New project name"
+                    value={newProjectName}
+                    onChange={(e) => setNewProjectName(e.target.value)}
+                    disabled={loading}
+                    className="flex-1 border rounded-md px-2 py-1 text-sm"
+                  />
+                  <Button variant="outline" size="sm" disabled={loading || !newProjectName.trim()} onClick={addProject}>
+                    Create
+                  </Button>
+                </div>
+                <p className="text-xs text-gray-500">A new project takes the URL below as its base URL.</p>
+                {projectError && <p className="text-xs text-red-700">{projectError}</p>}
+              </div>
+            )}
+
             <Input
             placeholder="Enter page URL..."
             value={url}
@@ -311,8 +723,126 @@ export default function AiTestGen() {
             }}
             />
 
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              Framework
+              <select
+                value={framework}
+                onChange={(e) => setFramework(e.target.value as TestFramework)}
+                disabled={loading}
+                className="border rounded-md px-2 py-1 bg-white"
+              >
+                {TEST_FRAMEWORKS.map((option) => (
+                  <option key={option} value={option}>{FRAMEWORK_LABELS[option]}</option>
+                ))}
+              </select>
+            </label>
+
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              Device
+              <select
+                value={device}
+                onChange={(e) => setDevice(e.target.value)}
+                disabled={loading}
+                className="border rounded-md px-2 py-1 bg-white"
+              >
+                <option value="">Desktop (1600x1200)</option>
+                {DEVICE_PRESETS.map((option) => (
+                  <option key={option} value={option}>{option}</option>
+                ))}
+              </select>
+            </label>
+
+            <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700">
+              <label className="flex items-center gap-2">
+                Wait for
+                <select
+                  value={waitUntil}
+                  onChange={(e) => setWaitUntil(e.target.value as WaitStrategy)}
+                  disabled={loading}
+                  className="border rounded-md px-2 py-1 bg-white"
+                >
+                  {(Object.keys(WAIT_LABELS) as WaitStrategy[]).map((option) => (
+                    <option key={option} value={option}>{WAIT_LABELS[option]}</option>
+                  ))}
+                </select>
+              </label>
+              {waitUntil === "selector" && (
+                <input
+                  placeholder="CSS selector, e.g. #app"
+                  value={waitForSelector}
+                  onChange={(e) => setWaitForSelector(e.target.value)}
+                  disabled={loading}
+                  className="flex-1 border rounded-md px-2 py-1"
+                />
+              )}
+              {waitUntil === "delay" && (
+                <label className="flex items-center gap-2">
+                  <input
+                    type="number"
+                    min={0}
+                    max={30000}
+                    step={500}
+                    value={waitDelayMs}
+                    onChange={(e) => setWaitDelayMs(Math.max(0, Math.min(30000, Number(e.target.value) || 0)))}
+                    disabled={loading}
+                    className="w-24 border rounded-md px-2 py-1"
+                  />
+                  ms
+                </label>
+              )}
+            </div>
+
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={selfHeal}
+                onChange={(e) => setSelfHeal(e.target.checked)}
+                disabled={loading}
+              />
+              Run tests and self-heal failures (slower)
+            </label>
+
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={crawl}
+                onChange={(e) => setCrawl(e.target.checked)}
+                disabled={loading}
+              />
+              Crawl linked pages on the same site
+            </label>
+
+            {crawl && (
+              <div className="flex items-center gap-4 pl-6 text-sm text-gray-700">
+                <label className="flex items-center gap-2">
+                  Depth
+                  <input
+                    type="number"
+                    min={0}
+                    max={3}
+                    value={crawlDepth}
+                    onChange={(e) => setCrawlDepth(Math.max(0, Math.min(3, Number(e.target.value) || 0)))}
+                    disabled={loading}
+                    className="w-16 border rounded-md px-2 py-1"
+                  />
+                </label>
+                <label className="flex items-center gap-2">
+                  Max pages
+                  <input
+                    type="number"
+                    min={1}
+                    max={20}
+                    value={crawlPages}
+                    onChange={(e) => setCrawlPages(Math.max(1, Math.min(20, Number(e.target.value) || 1)))}
+                    disabled={loading}
+                    className="w-16 border rounded-md px-2 py-1"
+                  />
+                </label>
+              </div>
+            )}
+
             <Button onClick={scanPage} disabled={loading || !url}>
-              {loading ? "Scanning..." : "Scan Page"}
+              {loading ? "Scanning..." : crawl ? "Crawl Site" : "Scan Page"}
             </Button>
 
             {screenshot && (
@@ -324,6 +854,57 @@ export default function AiTestGen() {
             />
             )}
 
+            {visualCheck && (
+            <div className="border rounded-lg p-3 bg-white flex items-center justify-between text-sm">
+                <span>
+                  {visualCheck.isNewBaseline
+                    ? `Saved as the baseline for ${visualCheck.viewport}`
+                    : `${visualCheck.mismatchPercent}% of pixels differ from the ${visualCheck.viewport} baseline`}
+                </span>
+                <a href={`/visual/${visualCheck.screenshotId}`} className="text-blue-600 hover:underline">
+                  {visualCheck.isNewBaseline ? "View" : "Review diff"}
+                </a>
+            </div>
+            )}
+
+            {siteMap && siteMap.length > 0 && (
+            <div className="border rounded-lg p-3 bg-white">
+                <h3 className="font-medium text-sm mb-2">Site Map ({siteMap.length} pages)</h3>
+                <ul className="space-y-1 text-xs">
+                {siteMap.map((node) => (
+                    <li
+                      key={node.url}
+                      style={{ paddingLeft: `${node.depth * 16}px` }}
+                      className={node.error ? "text-red-700" : "text-gray-700"}
+                      title={node.error || node.url}
+                    >
+                      <span className="font-mono">{new URL(node.url).pathname}</span>
+                      {node.title && <span className="text-gray-500"> · {node.title}</span>}
+                      {node.error
+                        ? <span> · failed</span>
+                        : <span className="text-gray-500"> · {aiTests.filter((t) => t.pageUrl === node.url).length} tests</span>}
+                    </li>
+                ))}
+                </ul>
+            </div>
+            )}
+
+            {pageIssues.length > 0 && (
+            <div className="border border-amber-300 rounded-lg p-3 bg-amber-50">
+                <h3 className="font-medium text-sm mb-2 text-amber-900">Findings ({pageIssues.length})</h3>
+                <ul className="space-y-1 text-xs text-amber-900">
+                {pageIssues.map((issue, i) => (
+                    <li key={i} title={issue.url}>
+                      <span className="font-medium">{ISSUE_LABELS[issue.kind]}</span>
+                      {issue.pageUrl && <span className="font-mono text-amber-700"> · {new URL(issue.pageUrl).pathname}</span>}
+                      <span>: {issue.message}</span>
+                      {issue.url && <span className="block font-mono text-amber-700 truncate">{issue.url}</span>}
+                    </li>
+                ))}
+                </ul>
+            </div>
+            )}
+
             {/* {autoTests.length > 0 && (
             <div>
                 <h3 className="font-medium mt-4">Auto-Generated Tests</h3>
@@ -352,6 +933,8 @@ export default function AiTestGen() {
                         {progress.stage === 'scanning' && '🔍 Scanning Page'}
                         {progress.stage === 'analyzing' && '🧠 Analyzing Structure'}
                         {progress.stage === 'generating' && '⚡ Generating Tests'}
+                        {progress.stage === 'validating' && '🧪 Validating Tests'}
+                        {progress.stage === 'saving' && '💾 Saving Tests'}
                         {progress.stage === 'complete' && '✅ Complete'}
                       </h3>
                       <span className="text-sm text-gray-500">{progress.percent}%</span>
@@ -360,10 +943,35 @@ export default function AiTestGen() {
                     <p className="text-sm text-gray-600">{progress.message}</p>
                   </div>
                 )}
-                <LoadingState
-                  message="This may take a minute..."
-                  showSkeleton={false}
-                />
+                {streamedTests.length > 0 ? (
+                  <div className="space-y-2">
+                    {streamedTests.map((test, i) => (
+                      <div key={i} className="bg-white border rounded-lg p-3 shadow-sm">
+                        <div className="flex items-start justify-between gap-3">
+                          <h4 className="font-medium text-sm text-gray-900">
+                            {test.title || `Test ${i + 1}`}
+                          </h4>
+                          <span className={`text-xs px-2 py-0.5 rounded border shrink-0 ${
+                            test.final ? "text-green-700 bg-green-50 border-green-200" : "text-gray-600 bg-gray-50 border-gray-200"
+                          }`}>
+                            {SOURCE_LABELS[test.source]} · {test.final ? "validated" : "parsed"}
+                          </span>
+                        </div>
+                        {test.pageUrl && (
+                          <p className="text-xs font-mono text-gray-500">{new URL(test.pageUrl).pathname}</p>
+                        )}
+                        {test.why && (
+                          <p className="text-xs text-gray-600 italic mt-1">{test.why}</p>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <LoadingState
+                    message="This may take a minute..."
+                    showSkeleton={false}
+                  />
+                )}
               </div>
             ) : aiTests.length > 0 || aiSummary ? (
               <div className="space-y-6">
@@ -387,15 +995,33 @@ export default function AiTestGen() {
                         <h3 className="font-semibold text-lg text-gray-800">
                           Generated Tests ({aiTests.length})
                         </h3>
-                        {testSources && (testSources.general > 0 || testSources.elements > 0) && (
+                        {testSources && (testSources.general > 0 || testSources.elements > 0 || testSources.api > 0) && (
                           <p className="text-xs text-gray-500 mt-1">
-                            {testSources.general > 0 && `${testSources.general} general`}
-                            {testSources.general > 0 && testSources.elements > 0 && " + "}
-                            {testSources.elements > 0 && `${testSources.elements} element-specific`}
+                            {[
+                              testSources.general > 0 && `${testSources.general} general`,
+                              testSources.elements > 0 && `${testSources.elements} element-specific`,
+                              testSources.api > 0 && `${testSources.api} API`
+                            ].filter(Boolean).join(" + ")}
                           </p>
                         )}
                       </div>
                       <div className="flex items-center gap-2">
+                        {sessionId && (
+                          <>
+                            <a
+                              href={`/api/sessions/${sessionId}/export`}
+                              className="text-xs px-3 py-1.5 rounded-md border bg-white hover:bg-gray-50"
+                            >
+                              Export Cypress project
+                            </a>
+                            <a
+                              href={`/api/sessions/${sessionId}/export?groupBy=category`}
+                              className="text-xs text-gray-500 hover:text-gray-800 underline"
+                            >
+                              by category
+                            </a>
+                          </>
+                        )}
                         {newTestsAdded && (
                           <span className="text-xs text-blue-600 bg-blue-50 px-2 py-1 rounded border border-blue-200">
                             +{aiTests.length - previousTestsCount} new tests appended
@@ -408,13 +1034,21 @@ export default function AiTestGen() {
                             onClick={async () => {
                               if (confirm("Clear all stored tests for this URL?")) {
                                 try {
-                                  // For now, we can't easily delete from database via frontend
-                                  // So we'll clear local state and rely on database cleanup
+                                  try {
+                                    await deleteStoredUrl(url);
+                                  } catch (error) {
+                                    if (!(error instanceof StorageUnavailableError)) throw error;
+                                    localStorage.removeItem(`${LOCAL_SESSION_PREFIX}${url}`);
+                                  }
+                                  setSessionId(null);
                                   setAiTests([]);
                                   setAiSummary("");
                                   setPreviousTestsCount(0);
                                   setNewTestsAdded(false);
                                   setTestSources(null);
+                                  setSiteMap(null);
+                                  setPageIssues([]);
+                                  setVisualCheck(null);
                                 } catch (error) {
                                   console.error("Error clearing tests:", error);
                                 }
@@ -431,9 +1065,54 @@ export default function AiTestGen() {
                       {aiTests.map((test, i) => (
                         <div key={i} className="bg-white border rounded-lg p-5 shadow-sm hover:shadow-md transition-shadow">
                           <div className="mb-3">
-                            <h4 className="font-semibold text-base text-gray-900 mb-1">
-                              {typeof test.title === "string" ? test.title : test.title ? String(test.title) : `Test ${i + 1}`}
-                            </h4>
+                            <div className="flex items-start justify-between gap-3">
+                              <h4 className="font-semibold text-base text-gray-900 mb-1">
+                                {typeof test.title === "string" ? test.title : test.title ? String(test.title) : `Test ${i + 1}`}
+                              </h4>
+                              <div className="flex items-center gap-2 shrink-0">
+                                {test.warnings?.some((w: ValidationWarning) => w.severity === "error") && (
+                                  <span className="text-xs px-2 py-1 rounded border text-red-700 bg-red-50 border-red-200">
+                                    invalid
+                                  </span>
+                                )}
+                                {test.healStatus === "healed" && (
+                                  <span className="text-xs px-2 py-1 rounded border text-blue-700 bg-blue-50 border-blue-200">
+                                    healed
+                                  </span>
+                                )}
+                                {test.healStatus === "unfixable" && (
+                                  <span className="text-xs px-2 py-1 rounded border text-amber-700 bg-amber-50 border-amber-200">
+                                    unfixable
+                                  </span>
+                                )}
+                                {test.lastRun && !runningTests.has(i) && (
+                                  <span
+                                    className={`text-xs px-2 py-1 rounded border ${
+                                      test.lastRun.status === "passed"
+                                        ? "text-green-700 bg-green-50 border-green-200"
+                                        : test.lastRun.status === "skipped"
+                                          ? "text-gray-600 bg-gray-50 border-gray-200"
+                                          : "text-red-700 bg-red-50 border-red-200"
+                                    }`}
+                                  >
+                                    {test.lastRun.status} · {(test.lastRun.durationMs / 1000).toFixed(1)}s
+                                  </span>
+                                )}
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  className="text-xs"
+                                  disabled={!test.id || runningTests.has(i)}
+                                  title={test.id ? undefined : "Sign in and save the session to run tests"}
+                                  onClick={() => runTest(i)}
+                                >
+                                  {runningTests.has(i) ? "Running..." : "Run"}
+                                </Button>
+                              </div>
+                            </div>
+                            {test.pageUrl && (
+                              <p className="text-xs font-mono text-gray-500 mb-1">{new URL(test.pageUrl).pathname}</p>
+                            )}
                             {test.why && (
                               <p className="text-sm text-gray-600 italic">
                                 {typeof test.why === "string" ? test.why : String(test.why)}
@@ -441,14 +1120,37 @@ export default function AiTestGen() {
                             )}
                           </div>
 
+                          {test.lastRun && test.lastRun.status !== "passed" && test.lastRun.error && !runningTests.has(i) && (
+                            <div className="mb-3 text-xs bg-red-50 border border-red-200 rounded p-3 text-red-800 space-y-1">
+                              {test.lastRun.failingCommand && (
+                                <p>
+                                  <span className="font-medium">Failing command:</span>{" "}
+                                  <code className="font-mono">{test.lastRun.failingCommand}</code>
+                                </p>
+                              )}
+                              <p className="whitespace-pre-wrap">{test.lastRun.error}</p>
+                            </div>
+                          )}
+
+                          {test.warnings && test.warnings.length > 0 && (
+                            <ul className="mb-3 text-xs space-y-1">
+                              {test.warnings.map((warning: ValidationWarning, warningIdx: number) => (
+                                <li
+                                  key={warningIdx}
+                                  className={warning.severity === "error" ? "text-red-700" : "text-amber-700"}
+                                >
+                                  {warning.severity === "error" ? "✖" : "⚠"} {warning.line ? `Line ${warning.line}: ` : ""}{warning.message}
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+
                           {test.steps && test.steps.length > 0 && (
                             <div className="mb-3">
                               <p className="text-xs font-medium text-gray-500 mb-1">Steps:</p>
                               <ol className="list-decimal list-inside text-xs text-gray-700 space-y-1">
-                                {test.steps.map((step: any, stepIdx: number) => (
-                                  <li key={stepIdx}>
-                                    {typeof step === "string" ? step : JSON.stringify(step)}
-                                  </li>
+                                {test.steps.map((step, stepIdx) => (
+                                  <li key={stepIdx}>{step}</li>
                                 ))}
                               </ol>
                             </div>
@@ -456,7 +1158,7 @@ export default function AiTestGen() {
 
                           {test.code && (
                             <div className="mt-3 pt-3 border-t border-gray-200">
-                              <p className="text-xs font-medium text-gray-500 mb-2">Cypress Code:</p>
+                              <p className="text-xs font-medium text-gray-500 mb-2">{FRAMEWORK_LABELS[frameworkOf(test.testType)]} Code:</p>
                               <pre className="text-xs bg-gray-900 text-gray-100 p-3 rounded overflow-x-auto">
                                 <code>
                                   {(() => {
@@ -473,6 +1175,35 @@ export default function AiTestGen() {
                               </pre>
                             </div>
                           )}
+
+                          {test.revisions && test.revisions.length > 1 && (
+                            <Collapsible className="mt-3 pt-3 border-t border-gray-200">
+                              <CollapsibleTrigger className="text-xs font-medium text-gray-500 hover:text-gray-800 cursor-pointer">
+                                Revision history ({test.revisions.length} attempts)
+                              </CollapsibleTrigger>
+                              <CollapsibleContent className="mt-2 space-y-3">
+                                {test.revisions.map((revision: TestRevision) => (
+                                  <div key={revision.attempt} className="text-xs border rounded p-3 bg-gray-50">
+                                    <p className="font-medium text-gray-700 mb-1">
+                                      {revision.attempt === 0 ? "Original" : `Repair ${revision.attempt}`} · {revision.status}
+                                    </p>
+                                    {revision.explanation && (
+                                      <p className="text-gray-600 italic mb-1">{revision.explanation}</p>
+                                    )}
+                                    {revision.error && (
+                                      <p className="text-red-700 mb-2 whitespace-pre-wrap">
+                                        {revision.failingCommand && <code className="font-mono">{revision.failingCommand}: </code>}
+                                        {revision.error}
+                                      </p>
+                                    )}
+                                    <pre className="bg-gray-900 text-gray-100 p-2 rounded overflow-x-auto">
+                                      <code>{revision.code}</code>
+                                    </pre>
+                                  </div>
+                                ))}
+                              </CollapsibleContent>
+                            </Collapsible>
+                          )}
                         </div>
                       ))}
                     </div>
@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server";
+import { checkRateLimit, getCurrentUser } from "@/lib/auth";
+import { sanitizeRequest } from "@/lib/validation";
+import { forUser, generateApiTests, recordedGeneration } from "@/lib/generation";
+
+export async function POST(req: Request) {
+  try {
+    // Rate limiting, per user when signed in
+    const user = await getCurrentUser(req);
+    const resetTime = checkRateLimit(req, user);
+    if (resetTime !== null) {
+      return NextResponse.json(
+        {
+          summary: "Rate limit exceeded. Please try again later.",
+          tests: [],
+          resetTime
+        },
+        { status: 429 }
+      );
+    }
+
+    const body = await req.json();
+    const sanitized = sanitizeRequest(body);
+
+    if (!sanitized.isValid) {
+      return NextResponse.json(
+        {
+          summary: `Validation failed: ${sanitized.errors.join(', ')}`,
+          tests: []
+        },
+        { status: 400 }
+      );
+    }
+
+    if (!sanitized.apiCalls || sanitized.apiCalls.length === 0) {
+      return NextResponse.json(
+        { summary: "No API calls provided or invalid format", tests: [] },
+        { status: 400 }
+      );
+    }
+
+    const aiData = await recordedGeneration("api", generateApiTests, forUser(sanitized, user), { userId: user?.id });
+
+    return NextResponse.json(aiData);
+  } catch (err) {
+    console.error("Error generating API tests:", err);
+    return NextResponse.json(
+      {
+        summary: `Error generating API tests: ${err instanceof Error ? err.message : "Unknown error"}`,
+        tests: [],
+        _error: true,
+      },
+      { status: 500 }
+    );
+  }
+}
+
@@ -0,0 +1,131 @@
+import { NextResponse } from "next/server";
+import { checkRateLimit, getCurrentUser } from "@/lib/auth";
+import { sanitizeRequest } from "@/lib/validation";
+import { captureSnapshot } from "@/lib/snapshot";
+import { forUser, generateApiTests, generateElementTests, generateGeneralTests, hasInteractiveElements, recordedGeneration } from "@/lib/generation";
+import { encodeEvent, StreamingTestParser, type GenerationEvent, type TestSource } from "@/lib/generation-stream";
+
+// Snapshot, up to three generations and optional self-healing in one request
+export const maxDuration = 300;
+
+// Token counts are reported at most this often
+const TOKEN_EVENT_INTERVAL_MS = 250;
+
+export async function POST(req: Request) {
+  // Rate limiting, per user when signed in
+  const user = await getCurrentUser(req);
+  const resetTime = checkRateLimit(req, user);
+  if (resetTime !== null) {
+    return NextResponse.json(
+      {
+        error: "Rate limit exceeded. Please try again later.",
+        resetTime
+      },
+      { status: 429 }
+    );
+  }
+
+  let sanitized;
+  try {
+    sanitized = sanitizeRequest(await req.json());
+  } catch {
+    return NextResponse.json({ error: "Request body must be JSON" }, { status: 400 });
+  }
+  if (!sanitized.isValid) {
+    return NextResponse.json(
+      { error: "Validation failed", details: sanitized.errors },
+      { status: 400 }
+    );
+  }
+  const input = forUser(sanitized, user);
+
+  const encoder = new TextEncoder();
+  let cancelled = false;
+  const stream = new ReadableStream({
+    async start(controller) {
+      // The page may be closed mid-generation; the work finishes but nothing more is sent
+      const send = (event: GenerationEvent) => {
+        if (!cancelled) controller.enqueue(encoder.encode(encodeEvent(event)));
+      };
+
+      // Stream one generation: stages, token counts, and each test as soon as it parses
+      const generate = async (source: TestSource, run: typeof generateGeneralTests) => {
+        let parser = new StreamingTestParser();
+        let currentAttempt = 1;
+        let tokens = 0;
+        let parsed = 0;
+        let lastTokenEvent = 0;
+
+        try {
+          const result = await recordedGeneration(source, run, input, { userId: user?.id }, {
+            onStage: (stage, message) => send({ type: "stage", stage, source, message }),
+            onDelta: (text, attempt) => {
+              // A retry starts a fresh reply
+              if (attempt !== currentAttempt) {
+                currentAttempt = attempt;
+                parser = new StreamingTestParser();
+                tokens = 0;
+                parsed = 0;
+              }
+              tokens += Math.max(1, Math.round(text.length / 4));
+              if (Date.now() - lastTokenEvent >= TOKEN_EVENT_INTERVAL_MS) {
+                lastTokenEvent = Date.now();
+                send({ type: "tokens", source, tokens, attempt });
+              }
+              for (const test of parser.push(text)) {
+                send({ type: "test", source, index: parsed++, test: { ...test, testType: input.framework } });
+              }
+            },
+          });
+          send({ type: "result", source, summary: result.summary, tests: result.tests, error: result._error });
+        } catch (err) {
+          console.error(`Error generating ${source} tests:`, err);
+          send({
+            type: "result",
+            source,
+            summary: `Error generating ${source} tests: ${err instanceof Error ? err.message : "Unknown error"}`,
+            tests: [],
+            error: true,
+          });
+        }
+      };
+
+      try {
+        // Capture the page unless the client already has a snapshot (e.g. from a crawl)
+        if (!input.domData) {
+          send({ type: "stage", stage: "snapshot", message: "Taking screenshot and analyzing page structure..." });
+          const snapshot = await captureSnapshot(input.url, { capture: input.capture, loginRecipe: input.loginRecipe });
+          Object.assign(input, snapshot);
+          send({ type: "snapshot", ...snapshot });
+        }
+
+        await Promise.all([
+          generate("general", generateGeneralTests),
+          hasInteractiveElements(input)
+            ? generate("elements", generateElementTests)
+            : Promise.resolve(),
+          input.apiCalls && input.apiCalls.length > 0
+            ? generate("api", generateApiTests)
+            : Promise.resolve(),
+        ]);
+        send({ type: "done" });
+      } catch (err) {
+        console.error("Streaming generation error:", err);
+        send({ type: "error", message: err instanceof Error ? err.message : "Unknown error" });
+      } finally {
+        if (!cancelled) controller.close();
+      }
+    },
+    cancel() {
+      cancelled = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { appOrigin, clientMeta, redeemLoginLink, sessionCookie } from "@/lib/auth";
+import { isDatabaseAvailable } from "@/lib/database";
+
+// Where emailed links land: verifies the address, signs in and goes on to ?next= (a path on this site)
+export async function GET(req: Request) {
+  const origin = appOrigin(req);
+  try {
+    const params = new URL(req.url).searchParams;
+    const token = params.get("token");
+    if (!isDatabaseAvailable || !token) {
+      return NextResponse.redirect(`${origin}/login?error=invalid-link`);
+    }
+
+    const session = await redeemLoginLink(token, clientMeta(req));
+    if (!session) {
+      return NextResponse.redirect(`${origin}/login?error=invalid-link`);
+    }
+
+    const next = params.get("next");
+    const target = next && next.startsWith("/") && !next.startsWith("//") ? next : "/ai-test-creation";
+    const response = NextResponse.redirect(`${origin}${target}`);
+    response.cookies.set(sessionCookie(session.token, session.expiresAt));
+    return response;
+  } catch (err) {
+    console.error("Sign-in link API error:", err);
+    return NextResponse.redirect(`${origin}/login?error=failed`);
+  }
+}
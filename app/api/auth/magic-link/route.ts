@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import { appOrigin, checkAuthRateLimit, requestMagicLink } from "@/lib/auth";
+import { isDatabaseAvailable } from "@/lib/database";
+import { sanitizeCredentials } from "@/lib/validation";
+
+// Email a one-time sign-in link; new addresses get a passwordless account
+export async function POST(req: Request) {
+  try {
+    if (!isDatabaseAvailable) {
+      return NextResponse.json({ error: "Accounts need a database" }, { status: 503 });
+    }
+    const { credentials, errors } = sanitizeCredentials(await req.json().catch(() => null), true);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: "Validation failed", details: errors }, { status: 400 });
+    }
+    const resetTime = checkAuthRateLimit(req, credentials.email);
+    if (resetTime !== null) {
+      return NextResponse.json({ error: "Too many attempts. Please try again later.", resetTime }, { status: 429 });
+    }
+
+    await requestMagicLink(credentials.email, appOrigin(req));
+    return NextResponse.json({ sent: true });
+  } catch (err) {
+    console.error("Magic link API error:", err);
+    return NextResponse.json({ error: "Failed to send sign-in link" }, { status: 500 });
+  }
+}
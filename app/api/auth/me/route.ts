@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth";
+import { isDatabaseAvailable } from "@/lib/database";
+
+// The signed-in user; 401 when signed out, 503 when there are no accounts because there is no database
+export async function GET(req: Request) {
+  try {
+    if (!isDatabaseAvailable) {
+      return NextResponse.json({ error: "Accounts need a database" }, { status: 503 });
+    }
+
+    const user = await getCurrentUser(req);
+    if (!user) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+    }
+
+    return NextResponse.json({ user });
+  } catch (err) {
+    console.error("Current user API error:", err);
+    return NextResponse.json({ error: "Failed to load user" }, { status: 500 });
+  }
+}
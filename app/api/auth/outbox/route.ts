@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth";
+import { isOutboxPublic, readOutbox } from "@/lib/mailer";
+
+// Mail written to the local outbox, newest first: the signed-in user's own, or with
+// MAIL_OUTBOX_PUBLIC=1 everyone's, optionally only ?to= one address
+export async function GET(req: Request) {
+  try {
+    if (isOutboxPublic()) {
+      const to = new URL(req.url).searchParams.get("to")?.trim().toLowerCase() || undefined;
+      return NextResponse.json({ messages: await readOutbox(to) });
+    }
+
+    const user = await getCurrentUser(req);
+    if (!user) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+    }
+    return NextResponse.json({ messages: await readOutbox(user.email) });
+  } catch (err) {
+    console.error("Outbox API error:", err);
+    return NextResponse.json({ error: "Failed to read outbox" }, { status: 500 });
+  }
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { appOrigin, AuthError, checkAuthRateLimit, clientMeta, sessionCookie, signInWithPassword } from "@/lib/auth";
+import { isDatabaseAvailable } from "@/lib/database";
+import { sanitizeCredentials } from "@/lib/validation";
+
+// Sign in with an email and password; sets the session cookie
+export async function POST(req: Request) {
+  try {
+    if (!isDatabaseAvailable) {
+      return NextResponse.json({ error: "Accounts need a database" }, { status: 503 });
+    }
+    const { credentials, errors } = sanitizeCredentials(await req.json().catch(() => null));
+    if (errors.length > 0) {
+      return NextResponse.json({ error: "Validation failed", details: errors }, { status: 400 });
+    }
+    const resetTime = checkAuthRateLimit(req, credentials.email);
+    if (resetTime !== null) {
+      return NextResponse.json({ error: "Too many attempts. Please try again later.", resetTime }, { status: 429 });
+    }
+
+    const { user, token, expiresAt } = await signInWithPassword(
+      { email: credentials.email, password: credentials.password! },
+      appOrigin(req),
+      clientMeta(req)
+    );
+    const response = NextResponse.json({ user });
+    response.cookies.set(sessionCookie(token, expiresAt));
+    return response;
+  } catch (err) {
+    if (err instanceof AuthError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error("Sign-in API error:", err);
+    return NextResponse.json({ error: "Failed to sign in" }, { status: 500 });
+  }
+}
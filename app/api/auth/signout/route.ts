@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+import { sessionCookie, signOut } from "@/lib/auth";
+
+// End this browser's session and clear its cookie
+export async function POST(req: Request) {
+  try {
+    await signOut(req);
+    const response = NextResponse.json({ signedOut: true });
+    response.cookies.set(sessionCookie("", new Date(0)));
+    return response;
+  } catch (err) {
+    console.error("Sign-out API error:", err);
+    return NextResponse.json({ error: "Failed to sign out" }, { status: 500 });
+  }
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { appOrigin, AuthError, checkAuthRateLimit, signUp } from "@/lib/auth";
+import { isDatabaseAvailable } from "@/lib/database";
+import { sanitizeCredentials } from "@/lib/validation";
+
+// Create a password account; it can sign in once the emailed verification link is opened
+export async function POST(req: Request) {
+  try {
+    if (!isDatabaseAvailable) {
+      return NextResponse.json({ error: "Accounts need a database" }, { status: 503 });
+    }
+    const { credentials, errors } = sanitizeCredentials(await req.json().catch(() => null));
+    if (errors.length > 0) {
+      return NextResponse.json({ error: "Validation failed", details: errors }, { status: 400 });
+    }
+    const resetTime = checkAuthRateLimit(req, credentials.email);
+    if (resetTime !== null) {
+      return NextResponse.json({ error: "Too many attempts. Please try again later.", resetTime }, { status: 429 });
+    }
+
+    const user = await signUp({ email: credentials.email, password: credentials.password!, name: credentials.name }, appOrigin(req));
+    return NextResponse.json({ user, verificationSent: true }, { status: 201 });
+  } catch (err) {
+    if (err instanceof AuthError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error("Sign-up API error:", err);
+    return NextResponse.json({ error: "Failed to create account" }, { status: 500 });
+  }
+}
@@ -0,0 +1,26 @@
+import { createHash, timingSafeEqual } from "crypto";
+import { NextResponse } from "next/server";
+import { getBrowserPool } from "@/lib/browser-pool";
+
+const digest = (value: string) => createHash("sha256").update(value).digest();
+
+// Monitoring is off unless BROWSER_POOL_TOKEN is set, and then needs it as a bearer token
+function isAuthorized(req: Request): boolean {
+  const token = process.env.BROWSER_POOL_TOKEN;
+  const sent = req.headers.get("authorization")?.match(/^Bearer (.+)$/)?.[1];
+  return Boolean(token && sent && timingSafeEqual(digest(sent), digest(token)));
+}
+
+// Health and usage counters of the shared browser pool. The last launch error is
+// left out: its text can name paths and URLs.
+export async function GET(req: Request) {
+  if (!isAuthorized(req)) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+  const pool = getBrowserPool();
+  const { status, browsers } = pool.health();
+  return NextResponse.json(
+    { status, browsers, metrics: pool.metrics() },
+    { status: status === "ok" ? 200 : 503 }
+  );
+}
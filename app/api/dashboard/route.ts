@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth";
+import { isDatabaseAvailable } from "@/lib/database";
+import { DASHBOARD_LIMITS, getDashboard } from "@/lib/dashboard";
+
+// Counts, tests per day, per-model generation rates, top URLs and recent scans for the last ?days= days
+export async function GET(req: Request) {
+  try {
+    if (!isDatabaseAvailable) {
+      return NextResponse.json({ error: "The dashboard needs a database" }, { status: 503 });
+    }
+    const user = await getCurrentUser(req);
+    if (!user) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+    }
+
+    const daysParam = new URL(req.url).searchParams.get("days");
+    const days = daysParam ? Number(daysParam) : DASHBOARD_LIMITS.defaultDays;
+    if (!Number.isInteger(days) || days < 1 || days > DASHBOARD_LIMITS.maxDays) {
+      return NextResponse.json(
+        { error: "Validation failed", details: [`Days: must be an integer between 1 and ${DASHBOARD_LIMITS.maxDays}`] },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(await getDashboard(user.id, days));
+  } catch (err) {
+    console.error("Dashboard API error:", err);
+    return NextResponse.json({ error: "Failed to load dashboard" }, { status: 500 });
+  }
+}
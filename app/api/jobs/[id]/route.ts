@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { DatabaseService } from "@/lib/database";
+import { getCurrentUser } from "@/lib/auth";
+
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const user = await getCurrentUser(req);
+    if (!user) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const job = await DatabaseService.getScanJob(id);
+    // Other users' jobs don't exist as far as this user can tell
+    if (!job || job.userId !== user.id) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+
+    // The screenshot and tests are only sent once the job has finished
+    const { screenshot, ...status } = job;
+    if (job.status === "failed") {
+      return NextResponse.json({ job: { ...status, screenshot } });
+    }
+    if (job.status === "done" && job.sessionId) {
+      const saved = await DatabaseService.getLatestTestsForUrl(job.url, user.id, job.options.projectId);
+      const current = saved?.sessionId === job.sessionId ? saved : null;
+      return NextResponse.json({
+        job: { ...status, screenshot, tests: current?.tests, siteMap: current?.siteMap }
+      });
+    }
+    return NextResponse.json({ job: status });
+  } catch (err) {
+    console.error("Job status API error:", err);
+    return NextResponse.json({ error: "Failed to load job" }, { status: 500 });
+  }
+}
@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server";
+import { checkRateLimit, clientMeta, getCurrentUser } from "@/lib/auth";
+import { sanitizeRequest } from "@/lib/validation";
+import { DatabaseService, isDatabaseAvailable } from "@/lib/database";
+import { submitScanJob } from "@/lib/jobs";
+import { allowSelfHeal } from "@/lib/self-heal";
+
+// Queue a scan to run in the background; poll /api/jobs/:id for its progress
+export async function POST(req: Request) {
+  try {
+    // Rate limiting, per user when signed in
+    const user = await getCurrentUser(req);
+    const resetTime = checkRateLimit(req, user);
+    if (resetTime !== null) {
+      return NextResponse.json(
+        {
+          error: "Rate limit exceeded. Please try again later.",
+          resetTime
+        },
+        { status: 429 }
+      );
+    }
+
+    const body = await req.json();
+    const sanitized = sanitizeRequest(body);
+
+    if (!sanitized.isValid) {
+      return NextResponse.json(
+        { error: "Validation failed", details: sanitized.errors },
+        { status: 400 }
+      );
+    }
+
+    // Jobs live in the database; without one the page streams the scan instead
+    if (!isDatabaseAvailable) {
+      return NextResponse.json({ error: "Background scans need a database" }, { status: 503 });
+    }
+    if (!user) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+    }
+
+    const { url, userDescription, framework, selfHeal, maxHealAttempts, crawl, capture, llm, projectId } = allowSelfHeal(sanitized, user.id);
+    if (projectId && !(await DatabaseService.getProject(projectId, user.id))) {
+      return NextResponse.json({ error: "Validation failed", details: ["Project: not found"] }, { status: 400 });
+    }
+
+    const job = await submitScanJob(
+      url,
+      { userDescription, framework, selfHeal, maxHealAttempts, crawl, capture, llm, projectId },
+      { ...clientMeta(req), userId: user.id }
+    );
+
+    return NextResponse.json({ job }, { status: 202 });
+  } catch (err) {
+    console.error("Jobs API error:", err);
+    return NextResponse.json({ error: "Failed to queue scan" }, { status: 500 });
+  }
+}
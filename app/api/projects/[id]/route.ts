@@ -0,0 +1,80 @@
+import { NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth";
+import { DatabaseService, isDatabaseAvailable } from "@/lib/database";
+import { sanitizeProjectInput } from "@/lib/validation";
+
+// A project with its suites
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    if (!isDatabaseAvailable) {
+      return NextResponse.json({ error: "Projects need a database" }, { status: 503 });
+    }
+    const user = await getCurrentUser(req);
+    if (!user) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const project = await DatabaseService.getProject(id, user.id);
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ project });
+  } catch (err) {
+    console.error("Project API error:", err);
+    return NextResponse.json({ error: "Failed to load project" }, { status: 500 });
+  }
+}
+
+// Edit a project's name, description or base URL (null clears it)
+export async function PATCH(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    if (!isDatabaseAvailable) {
+      return NextResponse.json({ error: "Projects need a database" }, { status: 503 });
+    }
+    const user = await getCurrentUser(req);
+    if (!user) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const { project, errors } = sanitizeProjectInput(await req.json().catch(() => null), true);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: "Validation failed", details: errors }, { status: 400 });
+    }
+
+    const updated = await DatabaseService.updateProject(id, user.id, project);
+    if (!updated) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ project: updated });
+  } catch (err) {
+    console.error("Project API error:", err);
+    return NextResponse.json({ error: "Failed to update project" }, { status: 500 });
+  }
+}
+
+// Delete a project and its suites; its sessions and tests are kept without a project
+export async function DELETE(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    if (!isDatabaseAvailable) {
+      return NextResponse.json({ error: "Projects need a database" }, { status: 503 });
+    }
+    const user = await getCurrentUser(req);
+    if (!user) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    if (!(await DatabaseService.deleteProject(id, user.id))) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ deleted: true });
+  } catch (err) {
+    console.error("Project API error:", err);
+    return NextResponse.json({ error: "Failed to delete project" }, { status: 500 });
+  }
+}
@@ -0,0 +1,98 @@
+import { NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth";
+import { DatabaseService, DuplicateNameError, isDatabaseAvailable } from "@/lib/database";
+import { sanitizeSuiteInput } from "@/lib/validation";
+
+type SuiteParams = { params: Promise<{ id: string; suiteId: string }> };
+
+// The user's suite, if it belongs to the project in the path
+async function findSuite(params: SuiteParams["params"], userId: string) {
+  const { id, suiteId } = await params;
+  const suite = await DatabaseService.getSuite(suiteId, userId);
+  return suite?.projectId === id ? suite : null;
+}
+
+// A suite with its tests in order
+export async function GET(req: Request, { params }: SuiteParams) {
+  try {
+    if (!isDatabaseAvailable) {
+      return NextResponse.json({ error: "Projects need a database" }, { status: 503 });
+    }
+    const user = await getCurrentUser(req);
+    if (!user) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+    }
+
+    const suite = await findSuite(params, user.id);
+    if (!suite) {
+      return NextResponse.json({ error: "Suite not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ suite });
+  } catch (err) {
+    console.error("Suite API error:", err);
+    return NextResponse.json({ error: "Failed to load suite" }, { status: 500 });
+  }
+}
+
+// Rename a suite or add and remove tests; added tests must belong to the project
+export async function PATCH(req: Request, { params }: SuiteParams) {
+  try {
+    if (!isDatabaseAvailable) {
+      return NextResponse.json({ error: "Projects need a database" }, { status: 503 });
+    }
+    const user = await getCurrentUser(req);
+    if (!user) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+    }
+
+    const { suite: update, errors } = sanitizeSuiteInput(await req.json().catch(() => null), true);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: "Validation failed", details: errors }, { status: 400 });
+    }
+
+    const suite = await findSuite(params, user.id);
+    if (!suite) {
+      return NextResponse.json({ error: "Suite not found" }, { status: 404 });
+    }
+
+    const result = await DatabaseService.updateSuite(suite.id, user.id, update);
+    if (result?.missingTestIds.length) {
+      return NextResponse.json(
+        { error: "Validation failed", details: result.missingTestIds.map(testId => `Test ${testId}: not in this project`) },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ suite: await DatabaseService.getSuite(suite.id, user.id) });
+  } catch (err) {
+    if (err instanceof DuplicateNameError) {
+      return NextResponse.json({ error: err.message }, { status: 409 });
+    }
+    console.error("Suite API error:", err);
+    return NextResponse.json({ error: "Failed to update suite" }, { status: 500 });
+  }
+}
+
+// Delete a suite; its tests stay
+export async function DELETE(req: Request, { params }: SuiteParams) {
+  try {
+    if (!isDatabaseAvailable) {
+      return NextResponse.json({ error: "Projects need a database" }, { status: 503 });
+    }
+    const user = await getCurrentUser(req);
+    if (!user) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+    }
+
+    const suite = await findSuite(params, user.id);
+    if (!suite || !(await DatabaseService.deleteSuite(suite.id, user.id))) {
+      return NextResponse.json({ error: "Suite not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ deleted: true });
+  } catch (err) {
+    console.error("Suite API error:", err);
+    return NextResponse.json({ error: "Failed to delete suite" }, { status: 500 });
+  }
+}
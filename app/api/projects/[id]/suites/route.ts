@@ -0,0 +1,71 @@
+import { NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth";
+import { DatabaseService, DuplicateNameError, isDatabaseAvailable } from "@/lib/database";
+import { sanitizeSuiteInput } from "@/lib/validation";
+
+// The project's suites with their test counts
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    if (!isDatabaseAvailable) {
+      return NextResponse.json({ error: "Projects need a database" }, { status: 503 });
+    }
+    const user = await getCurrentUser(req);
+    if (!user) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const project = await DatabaseService.getProject(id, user.id);
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ suites: project.suites });
+  } catch (err) {
+    console.error("Suites API error:", err);
+    return NextResponse.json({ error: "Failed to load suites" }, { status: 500 });
+  }
+}
+
+// Create a suite, optionally with the project's tests to put in it
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    if (!isDatabaseAvailable) {
+      return NextResponse.json({ error: "Projects need a database" }, { status: 503 });
+    }
+    const user = await getCurrentUser(req);
+    if (!user) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const { suite, errors } = sanitizeSuiteInput(await req.json().catch(() => null));
+    if (errors.length > 0) {
+      return NextResponse.json({ error: "Validation failed", details: errors }, { status: 400 });
+    }
+
+    const created = await DatabaseService.createSuite(id, user.id, { name: suite.name!, description: suite.description });
+    if (!created) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    if (suite.addTestIds?.length) {
+      const result = await DatabaseService.updateSuite(created.suiteId, user.id, { addTestIds: suite.addTestIds });
+      if (result?.missingTestIds.length) {
+        await DatabaseService.deleteSuite(created.suiteId, user.id);
+        return NextResponse.json(
+          { error: "Validation failed", details: result.missingTestIds.map(testId => `Test ${testId}: not in this project`) },
+          { status: 400 }
+        );
+      }
+    }
+
+    return NextResponse.json({ suite: await DatabaseService.getSuite(created.suiteId, user.id) }, { status: 201 });
+  } catch (err) {
+    if (err instanceof DuplicateNameError) {
+      return NextResponse.json({ error: err.message }, { status: 409 });
+    }
+    console.error("Suites API error:", err);
+    return NextResponse.json({ error: "Failed to create suite" }, { status: 500 });
+  }
+}
@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth";
+import { DatabaseService, isDatabaseAvailable } from "@/lib/database";
+import { sanitizeProjectInput } from "@/lib/validation";
+
+// Every project with its session, test and suite counts
+export async function GET(req: Request) {
+  try {
+    if (!isDatabaseAvailable) {
+      return NextResponse.json({ error: "Projects need a database" }, { status: 503 });
+    }
+    const user = await getCurrentUser(req);
+    if (!user) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+    }
+
+    return NextResponse.json({ projects: await DatabaseService.listProjects(user.id) });
+  } catch (err) {
+    console.error("Projects API error:", err);
+    return NextResponse.json({ error: "Failed to load projects" }, { status: 500 });
+  }
+}
+
+// Create a project from a name, description and optional base URL
+export async function POST(req: Request) {
+  try {
+    if (!isDatabaseAvailable) {
+      return NextResponse.json({ error: "Projects need a database" }, { status: 503 });
+    }
+    const user = await getCurrentUser(req);
+    if (!user) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+    }
+
+    const { project, errors } = sanitizeProjectInput(await req.json().catch(() => null));
+    if (errors.length > 0) {
+      return NextResponse.json({ error: "Validation failed", details: errors }, { status: 400 });
+    }
+
+    const created = await DatabaseService.createProject({ ...project, name: project.name! }, user.id);
+    return NextResponse.json({ project: created }, { status: 201 });
+  } catch (err) {
+    console.error("Projects API error:", err);
+    return NextResponse.json({ error: "Failed to create project" }, { status: 500 });
+  }
+}
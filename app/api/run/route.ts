@@ -0,0 +1,75 @@
+import { NextResponse } from "next/server";
+import { checkRateLimit, getCurrentUser } from "@/lib/auth";
+import { validateUrl } from "@/lib/validation";
+import { DatabaseService, isDatabaseAvailable } from "@/lib/database";
+import { runTestCode, RunnerUnavailableError } from "@/lib/test-runner";
+import { frameworkOf } from "@/lib/frameworks";
+import { findLoginRecipe } from "@/lib/login-recipes";
+
+// Test runs drive a real browser for up to a minute
+export const maxDuration = 120;
+
+export async function POST(req: Request) {
+  try {
+    // Only stored tests of the signed-in user are run, never code from the request
+    if (!isDatabaseAvailable) {
+      return NextResponse.json({ error: "Running tests needs a database" }, { status: 503 });
+    }
+    const user = await getCurrentUser(req);
+    if (!user) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+    }
+
+    const resetTime = checkRateLimit(req, user);
+    if (resetTime !== null) {
+      return NextResponse.json(
+        {
+          error: "Rate limit exceeded. Please try again later.",
+          resetTime
+        },
+        { status: 429 }
+      );
+    }
+
+    const body = await req.json();
+    if (typeof body.testId !== "string" || !body.testId) {
+      return NextResponse.json(
+        { error: "Validation failed", details: ["Test: a saved test id is required"] },
+        { status: 400 }
+      );
+    }
+
+    const stored = await DatabaseService.getTestById(body.testId, user.id);
+    if (!stored) {
+      return NextResponse.json({ error: "Test not found" }, { status: 404 });
+    }
+
+    const urlValidation = validateUrl(stored.url);
+    if (!urlValidation.isValid) {
+      return NextResponse.json(
+        { error: "Validation failed", details: [`URL: ${urlValidation.error}`] },
+        { status: 400 }
+      );
+    }
+
+    const result = await runTestCode(stored.code, urlValidation.sanitizedValue!, {
+      framework: frameworkOf(stored.testType),
+      loginRecipe: findLoginRecipe(urlValidation.sanitizedValue!, user),
+    });
+
+    let runId: string | undefined;
+    try {
+      ({ runId } = await DatabaseService.saveTestRun(stored.id, result));
+    } catch (error) {
+      console.warn("Test run could not be saved:", error);
+    }
+
+    return NextResponse.json({ ...result, runId });
+  } catch (err) {
+    if (err instanceof RunnerUnavailableError) {
+      return NextResponse.json({ error: err.message }, { status: 503 });
+    }
+    console.error("Test run API error:", err);
+    return NextResponse.json({ error: "Failed to run test" }, { status: 500 });
+  }
+}
@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth";
+import { DatabaseService } from "@/lib/database";
+import { slugify, zipCypressProject, type ExportGrouping } from "@/lib/cypress-export";
+import { cypressEnvKeys, findLoginRecipe } from "@/lib/login-recipes";
+
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const user = await getCurrentUser(req);
+    if (!user) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const groupParam = new URL(req.url).searchParams.get("groupBy");
+    const groupBy: ExportGrouping = groupParam === "category" ? "category" : "test";
+
+    const session = await DatabaseService.getSessionWithTests(id, user.id);
+    if (!session) {
+      return NextResponse.json({ error: "Session not found" }, { status: 404 });
+    }
+
+    // Only Cypress specs belong in a Cypress project
+    const tests = session.tests.filter((test: { testType?: string; code?: string }) => (test.testType || "cypress") === "cypress" && test.code);
+    if (tests.length === 0) {
+      return NextResponse.json({ error: "Session has no Cypress tests to export" }, { status: 400 });
+    }
+
+    // Tests behind a login read their credentials from Cypress env
+    const recipe = findLoginRecipe(session.url, user);
+    const env = recipe ? Object.values(cypressEnvKeys(recipe)).filter((key): key is string => !!key) : [];
+
+    const archive = await zipCypressProject({ id: session.id, url: session.url, tests }, { groupBy, env });
+    const filename = `testflow-${slugify(new URL(session.url).hostname)}-${session.id}.zip`;
+
+    return new NextResponse(Buffer.from(archive), {
+      headers: {
+        "Content-Type": "application/zip",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (err) {
+    console.error("Export API error:", err);
+    return NextResponse.json({ error: "Failed to export session" }, { status: 500 });
+  }
+}
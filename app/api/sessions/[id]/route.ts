@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth";
+import { DatabaseService, isDatabaseAvailable } from "@/lib/database";
+
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    if (!isDatabaseAvailable) {
+      return NextResponse.json({ error: "Stored tests need a database" }, { status: 503 });
+    }
+    const user = await getCurrentUser(req);
+    if (!user) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const session = await DatabaseService.getSessionWithTests(id, user.id);
+    if (!session) {
+      return NextResponse.json({ error: "Session not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ session });
+  } catch (err) {
+    console.error("Session API error:", err);
+    return NextResponse.json({ error: "Failed to load session" }, { status: 500 });
+  }
+}
+
+// Delete a session with its tests, runs and screenshots
+export async function DELETE(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    if (!isDatabaseAvailable) {
+      return NextResponse.json({ error: "Stored tests need a database" }, { status: 503 });
+    }
+    const user = await getCurrentUser(req);
+    if (!user) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    if (!(await DatabaseService.deleteSession(id, user.id))) {
+      return NextResponse.json({ error: "Session not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ deleted: true });
+  } catch (err) {
+    console.error("Session API error:", err);
+    return NextResponse.json({ error: "Failed to delete session" }, { status: 500 });
+  }
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { clientMeta, getCurrentUser } from "@/lib/auth";
+import { isDatabaseAvailable } from "@/lib/database";
+import { importStoredSessions, IMPORT_LIMITS } from "@/lib/session-import";
+import type { ImportSessionsResponse } from "@/lib/session-api";
+
+// Merge sessions the page kept in localStorage into the database
+export async function POST(req: Request) {
+  try {
+    if (!isDatabaseAvailable) {
+      return NextResponse.json({ error: "Stored tests need a database" }, { status: 503 });
+    }
+    const user = await getCurrentUser(req);
+    if (!user) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+    }
+
+    const body = await req.json().catch(() => null);
+    if (!Array.isArray(body?.sessions)) {
+      return NextResponse.json({ error: "Validation failed", details: ["Sessions: must be an array"] }, { status: 400 });
+    }
+    if (body.sessions.length > IMPORT_LIMITS.maxSessions) {
+      return NextResponse.json(
+        { error: "Validation failed", details: [`Sessions: at most ${IMPORT_LIMITS.maxSessions} per import`] },
+        { status: 400 }
+      );
+    }
+
+    const result: ImportSessionsResponse = await importStoredSessions(body.sessions, { ...clientMeta(req), userId: user.id });
+    console.log(`Imported ${result.imported.length} local sessions, skipped ${result.skipped.length}`);
+    return NextResponse.json(result);
+  } catch (err) {
+    console.error("Session import API error:", err);
+    return NextResponse.json({ error: "Failed to import sessions" }, { status: 500 });
+  }
+}
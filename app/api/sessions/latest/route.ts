@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth";
+import { DatabaseService, isDatabaseAvailable } from "@/lib/database";
+import { sanitizeId, validateUrl } from "@/lib/validation";
+import type { LatestSessionResponse } from "@/lib/session-api";
+
+// The newest session stored for ?url= (in ?projectId=, if given), with its tests, or null
+export async function GET(req: Request) {
+  try {
+    if (!isDatabaseAvailable) {
+      return NextResponse.json({ error: "Stored tests need a database" }, { status: 503 });
+    }
+    const user = await getCurrentUser(req);
+    if (!user) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+    }
+
+    const params = new URL(req.url).searchParams;
+    const urlValidation = validateUrl(params.get("url") || "");
+    if (!urlValidation.isValid) {
+      return NextResponse.json({ error: "Validation failed", details: [`URL: ${urlValidation.error}`] }, { status: 400 });
+    }
+    const projectId = sanitizeId(params.get("projectId"));
+    if (params.get("projectId") && !projectId) {
+      return NextResponse.json({ error: "Validation failed", details: ["Project: projectId must be an id"] }, { status: 400 });
+    }
+
+    const stored = await DatabaseService.getLatestTestsForUrl(urlValidation.sanitizedValue!, user.id, projectId);
+    const response: LatestSessionResponse = { session: stored };
+    return NextResponse.json(response);
+  } catch (err) {
+    console.error("Sessions API error:", err);
+    return NextResponse.json({ error: "Failed to load session" }, { status: 500 });
+  }
+}
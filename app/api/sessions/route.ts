@@ -0,0 +1,89 @@
+import { NextResponse } from "next/server";
+import { clientMeta, getCurrentUser } from "@/lib/auth";
+import { DatabaseService, isDatabaseAvailable } from "@/lib/database";
+import { sanitizeSessionSave } from "@/lib/validation";
+import type { DeleteUrlResponse, SaveSessionResponse } from "@/lib/session-api";
+
+// Every scanned URL with its sessions
+export async function GET(req: Request) {
+  try {
+    if (!isDatabaseAvailable) {
+      return NextResponse.json({ error: "Stored tests need a database" }, { status: 503 });
+    }
+    const user = await getCurrentUser(req);
+    if (!user) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+    }
+
+    return NextResponse.json({ urls: await DatabaseService.listSessions(user.id) });
+  } catch (err) {
+    console.error("Sessions API error:", err);
+    return NextResponse.json({ error: "Failed to load sessions" }, { status: 500 });
+  }
+}
+
+// Save a scan's tests as a new session for its URL
+export async function POST(req: Request) {
+  try {
+    if (!isDatabaseAvailable) {
+      return NextResponse.json({ error: "Stored tests need a database" }, { status: 503 });
+    }
+    const user = await getCurrentUser(req);
+    if (!user) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+    }
+
+    const { session, errors } = sanitizeSessionSave(await req.json().catch(() => null));
+    if (errors.length > 0) {
+      return NextResponse.json({ error: "Validation failed", details: errors }, { status: 400 });
+    }
+    if (session.projectId && !(await DatabaseService.getProject(session.projectId, user.id))) {
+      return NextResponse.json({ error: "Validation failed", details: ["Project: not found"] }, { status: 400 });
+    }
+
+    const { userAgent, ipAddress } = clientMeta(req);
+    const saved: SaveSessionResponse = await DatabaseService.saveTestSession(
+      session.url,
+      session.tests,
+      session.summary,
+      userAgent,
+      ipAddress,
+      session.siteMap,
+      session.projectId,
+      user.id
+    );
+    return NextResponse.json(saved, { status: 201 });
+  } catch (err) {
+    console.error("Sessions API error:", err);
+    return NextResponse.json({ error: "Failed to save session" }, { status: 500 });
+  }
+}
+
+// Delete everything stored for ?url=
+export async function DELETE(req: Request) {
+  try {
+    if (!isDatabaseAvailable) {
+      return NextResponse.json({ error: "Stored tests need a database" }, { status: 503 });
+    }
+    const user = await getCurrentUser(req);
+    if (!user) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+    }
+
+    const url = new URL(req.url).searchParams.get("url");
+    if (!url) {
+      return NextResponse.json({ error: "Validation failed", details: ["URL: the url parameter is required"] }, { status: 400 });
+    }
+
+    const deleted = await DatabaseService.deleteUrl(url, user.id);
+    if (deleted.sessions === 0 && deleted.baselines === 0) {
+      return NextResponse.json({ error: "Nothing is stored for this URL" }, { status: 404 });
+    }
+
+    const response: DeleteUrlResponse = { deleted };
+    return NextResponse.json(response);
+  } catch (err) {
+    console.error("Sessions API error:", err);
+    return NextResponse.json({ error: "Failed to delete sessions" }, { status: 500 });
+  }
+}
@@ -1,19 +1,23 @@
 import { NextResponse } from "next/server";
-import playwright from "playwright";
-import { sanitizeRequest, globalRateLimiter } from "@/lib/validation";
+import { checkRateLimit, getCurrentUser } from "@/lib/auth";
+import { sanitizeRequest } from "@/lib/validation";
+import { captureSnapshot } from "@/lib/snapshot";
+import { crawlSite } from "@/lib/crawler";
+import { findLoginRecipe } from "@/lib/login-recipes";
+
+// A crawl visits up to 20 pages one after another
+export const maxDuration = 300;
 
 export async function POST(req: Request) {
-  let browser;
   try {
-    // Rate limiting
-    const clientIP = req.headers.get('x-forwarded-for') ||
-                     req.headers.get('x-real-ip') ||
-                     'unknown';
-    if (!globalRateLimiter.isAllowed(clientIP)) {
+    // Rate limiting, per user when signed in
+    const user = await getCurrentUser(req);
+    const resetTime = checkRateLimit(req, user);
+    if (resetTime !== null) {
       return NextResponse.json(
         {
           error: "Rate limit exceeded. Please try again later.",
-          resetTime: globalRateLimiter.getResetTime(clientIP)
+          resetTime
         },
         { status: 429 }
       );
@@ -29,120 +33,48 @@ export async function POST(req: Request) {
       );
     }
 
-    const { url } = sanitized;
-
-    browser = await playwright.chromium.launch();
-    const page = await browser.newPage({
-      viewport: { width: 1600, height: 1200 }, // larger resolution
-    });
+    const { url, crawl, capture } = sanitized;
+    const loginRecipe = findLoginRecipe(url, user);
 
-    await page.goto(url, { waitUntil: "networkidle" });
+    if (crawl) {
+      const { pages, siteMap } = await crawlSite(url, { ...crawl, capture, loginRecipe });
+      const [startPage] = pages;
 
-    // Take screenshot
-    const buffer = await page.screenshot({ type: "png", fullPage: true });
-    const screenshot = buffer.toString("base64");
+      console.log(`Crawled ${pages.length} pages (${siteMap.length - pages.length} failed) from ${url}`);
 
-    // Extract DOM data for text-only models
-    const title = await page.title();
-    const headings = await page.$$eval("h1, h2, h3", els =>
-      els.map(e => e.textContent?.trim()).filter(Boolean)
-    );
-    const buttons = await page.$$eval("button, [role='button'], input[type='submit']", els =>
-      els.map(e => e.textContent?.trim() || e.getAttribute("value")).filter(Boolean)
-    );
-    const inputs = await page.$$eval("input, textarea, select", els =>
-      els.map(e => ({
-        name: e.getAttribute("name") || e.getAttribute("id") || "",
-        type: e.getAttribute("type") || e.tagName.toLowerCase(),
-        placeholder: e.getAttribute("placeholder") || ""
-      })).filter(el => el.name || el.placeholder)
-    );
-    const links = await page.$$eval("a[href]", els =>
-      els.map(e => ({
-        text: e.textContent?.trim() || "",
-        href: e.getAttribute("href") || ""
-      })).filter(el => el.text && el.href).slice(0, 20) // Limit to first 20 links
-    );
-
-    // Extract HTML for interactive elements (buttons, forms, inputs, links)
-    const interactiveElementsHTML = await page.evaluate(() => {
-      const elements: any[] = [];
-      
-      // Get all buttons with their HTML
-      document.querySelectorAll("button, [role='button'], input[type='submit'], input[type='button']").forEach((el, idx) => {
-        if (idx < 30) { // Limit to 30 buttons
-          elements.push({
-            type: 'button',
-            html: el.outerHTML.substring(0, 500), // Limit HTML length
-            text: el.textContent?.trim() || el.getAttribute("value") || "",
-            id: el.id || "",
-            className: el.className || "",
-            attributes: Array.from(el.attributes).reduce((acc: any, attr) => {
-              acc[attr.name] = attr.value;
-              return acc;
-            }, {})
-          });
-        }
-      });
-      
-      // Get all form inputs
-      document.querySelectorAll("input, textarea, select").forEach((el, idx) => {
-        if (idx < 30) { // Limit to 30 inputs
-          elements.push({
-            type: el.tagName.toLowerCase(),
-            html: el.outerHTML.substring(0, 500),
-            name: el.getAttribute("name") || el.id || "",
-            inputType: el.getAttribute("type") || "",
-            placeholder: el.getAttribute("placeholder") || "",
-            attributes: Array.from(el.attributes).reduce((acc: any, attr) => {
-              acc[attr.name] = attr.value;
-              return acc;
-            }, {})
-          });
-        }
+      // The start page is also returned at the top level, like a single-page snapshot
+      return NextResponse.json({
+        screenshot: startPage.screenshot,
+        domData: startPage.domData,
+        htmlElements: startPage.htmlElements,
+        accessibleElements: startPage.accessibleElements,
+        apiCalls: startPage.apiCalls,
+        pageIssues: startPage.pageIssues,
+        criticalAssets: startPage.criticalAssets,
+        pages,
+        siteMap
       });
-      
-      // Get all links
-      document.querySelectorAll("a[href]").forEach((el, idx) => {
-        if (idx < 30) { // Limit to 30 links
-          elements.push({
-            type: 'link',
-            html: el.outerHTML.substring(0, 500),
-            text: el.textContent?.trim() || "",
-            href: el.getAttribute("href") || "",
-            attributes: Array.from(el.attributes).reduce((acc: any, attr) => {
-              acc[attr.name] = attr.value;
-              return acc;
-            }, {})
-          });
-        }
-      });
-      
-      return elements;
-    });
+    }
 
-    const domData = {
-      title,
-      headings,
-      buttons,
-      inputs,
-      links
-    };
+    const { screenshot, domData, htmlElements, accessibleElements, apiCalls, pageIssues, criticalAssets } = await captureSnapshot(url, { capture, loginRecipe });
 
-    console.log("Screenshot length:", screenshot.length);
-    console.log("Interactive elements found:", interactiveElementsHTML.length);
+    console.log("Screenshot length:", screenshot?.length);
+    console.log("Interactive elements found:", htmlElements.length);
+    console.log("Elements by role found:", accessibleElements.length);
+    console.log("API calls recorded:", apiCalls.length);
+    console.log("Page issues found:", pageIssues.length);
 
     return NextResponse.json({ 
       screenshot, 
       domData,
-      htmlElements: interactiveElementsHTML 
+      htmlElements,
+      accessibleElements,
+      apiCalls,
+      pageIssues,
+      criticalAssets
     });
   } catch (err) {
     console.error("Snapshot API error:", err);
     return NextResponse.json({ error: "Failed to load page" }, { status: 500 });
-  } finally {
-    if (browser) {
-      await browser.close();
-    }
   }
 }
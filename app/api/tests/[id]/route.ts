@@ -0,0 +1,79 @@
+import { NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth";
+import { DatabaseService, isDatabaseAvailable } from "@/lib/database";
+import { sanitizeTestUpdate } from "@/lib/validation";
+
+// A stored test with its code; search results leave the code out
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    if (!isDatabaseAvailable) {
+      return NextResponse.json({ error: "Stored tests need a database" }, { status: 503 });
+    }
+    const user = await getCurrentUser(req);
+    if (!user) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const test = await DatabaseService.getStoredTest(id, user.id);
+    if (!test) {
+      return NextResponse.json({ error: "Test not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ test });
+  } catch (err) {
+    console.error("Test API error:", err);
+    return NextResponse.json({ error: "Failed to load test" }, { status: 500 });
+  }
+}
+
+// Edit a stored test's title, description, code or category
+export async function PATCH(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    if (!isDatabaseAvailable) {
+      return NextResponse.json({ error: "Stored tests need a database" }, { status: 503 });
+    }
+    const user = await getCurrentUser(req);
+    if (!user) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const { update, errors } = sanitizeTestUpdate(await req.json().catch(() => null));
+    if (errors.length > 0) {
+      return NextResponse.json({ error: "Validation failed", details: errors }, { status: 400 });
+    }
+
+    const test = await DatabaseService.updateTest(id, user.id, update);
+    if (!test) {
+      return NextResponse.json({ error: "Test not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ test });
+  } catch (err) {
+    console.error("Test API error:", err);
+    return NextResponse.json({ error: "Failed to update test" }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    if (!isDatabaseAvailable) {
+      return NextResponse.json({ error: "Stored tests need a database" }, { status: 503 });
+    }
+    const user = await getCurrentUser(req);
+    if (!user) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    if (!(await DatabaseService.deleteTest(id, user.id))) {
+      return NextResponse.json({ error: "Test not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ deleted: true });
+  } catch (err) {
+    console.error("Test API error:", err);
+    return NextResponse.json({ error: "Failed to delete test" }, { status: 500 });
+  }
+}
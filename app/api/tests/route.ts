@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth";
+import { DatabaseService, isDatabaseAvailable } from "@/lib/database";
+import { sanitizeTestFilters } from "@/lib/validation";
+
+// Stored tests without their code, filtered by ?q=, category, testType, status, from, to, url, sessionId
+// and projectId, a page of `limit` after skipping `offset`
+export async function GET(req: Request) {
+  try {
+    if (!isDatabaseAvailable) {
+      return NextResponse.json({ error: "Stored tests need a database" }, { status: 503 });
+    }
+    const user = await getCurrentUser(req);
+    if (!user) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+    }
+
+    const { filters, errors } = sanitizeTestFilters(new URL(req.url).searchParams);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: "Validation failed", details: errors }, { status: 400 });
+    }
+
+    return NextResponse.json(await DatabaseService.searchTests(filters, user.id));
+  } catch (err) {
+    console.error("Tests API error:", err);
+    return NextResponse.json({ error: "Failed to load tests" }, { status: 500 });
+  }
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth";
+import { acceptScreenshot } from "@/lib/visual";
+
+// Make the screenshot the baseline for its URL and viewport
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const user = await getCurrentUser(req);
+    if (!user) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const review = await acceptScreenshot(id, user.id);
+    if (!review) {
+      return NextResponse.json({ error: "Screenshot not found" }, { status: 404 });
+    }
+    return NextResponse.json(review);
+  } catch (err) {
+    console.error("Visual accept API error:", err);
+    return NextResponse.json({ error: "Failed to accept screenshot" }, { status: 500 });
+  }
+}
@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth";
+import { getVisualReview, sanitizeRegions, updateMasks } from "@/lib/visual";
+
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const user = await getCurrentUser(req);
+    if (!user) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const review = await getVisualReview(id, user.id);
+    if (!review) {
+      return NextResponse.json({ error: "Screenshot not found" }, { status: 404 });
+    }
+    return NextResponse.json(review);
+  } catch (err) {
+    console.error("Visual review API error:", err);
+    return NextResponse.json({ error: "Failed to load screenshot" }, { status: 500 });
+  }
+}
+
+// Replace the masks of the screenshot's baseline and compare the screenshot again
+export async function PATCH(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const user = await getCurrentUser(req);
+    if (!user) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const body = await req.json().catch(() => ({}));
+    if (!Array.isArray(body.masks)) {
+      return NextResponse.json({ error: "masks must be an array of { x, y, width, height } regions" }, { status: 400 });
+    }
+
+    const review = await updateMasks(id, user.id, sanitizeRegions(body.masks));
+    if (!review) {
+      return NextResponse.json({ error: "Screenshot or baseline not found" }, { status: 404 });
+    }
+    return NextResponse.json(review);
+  } catch (err) {
+    console.error("Visual masks API error:", err);
+    return NextResponse.json({ error: "Failed to update masks" }, { status: 500 });
+  }
+}
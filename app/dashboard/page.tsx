@@ -1,8 +1,46 @@
 "use client";
 
+import { useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
+import { AuthStatus } from "@/components/auth-status";
+import type { Dashboard } from "@/lib/dashboard";
+
+// Dates arrive as JSON strings
+type DashboardResponse = Omit<Dashboard, "recentPages"> & {
+  recentPages: { url: string; scannedAt: string; testCount: number }[];
+};
+
+const RANGES = [7, 30, 90];
 
 export default function DashboardPage() {
+  const [days, setDays] = useState(30);
+  const [dashboard, setDashboard] = useState<DashboardResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch(`/api/dashboard?days=${days}`)
+      .then(async res => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || `Failed with HTTP ${res.status}`);
+        setDashboard(data);
+        setError(null);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : String(err)));
+  }, [days]);
+
+  const cards = dashboard
+    ? [
+      { label: "Total Tests", value: dashboard.totals.totalTests },
+      { label: "Projects", value: dashboard.totals.projects },
+      { label: "Flaky Tests", value: dashboard.totals.flakyTests, hint: `passed and failed in the last ${dashboard.days} days` },
+      { label: "Completed Runs", value: dashboard.totals.totalRuns },
+      { label: "Scanned URLs", value: dashboard.totals.uniqueUrls },
+      { label: "Sessions", value: dashboard.totals.totalSessions },
+    ]
+    : [];
+  const maxPerDay = Math.max(1, ...(dashboard?.testsPerDay.map(day => day.count) || []));
+  const maxPerUrl = Math.max(1, ...(dashboard?.topUrls.map(entry => entry.testCount) || []));
+
   return (
     <div className="min-h-screen w-full bg-gray-50 flex flex-col">
       {/* Top Navbar */}
@@ -13,40 +51,138 @@ export default function DashboardPage() {
           <a href="/dashboard" className="hover:text-gray-600">Dashboard</a>
           <a href="/tests" className="hover:text-gray-600">Tests</a>
           <a href="/settings" className="hover:text-gray-600">Settings</a>
-          <Button className="rounded-2xl px-6 py-2 text-base">Get Started</Button>
+          <AuthStatus required />
         </div>
       </nav>
 
-      {/* Dashboard Hero / Welcome Section */}
-      <section className="flex flex-col items-center justify-center text-center px-8 pt-40 pb-20">
-        <h1 className="text-4xl font-bold max-w-3xl mb-4">Welcome to Your Dashboard</h1>
-        <p className="text-lg text-gray-600 max-w-2xl mb-10">
-          Manage and monitor your AI-generated Cypress tests, track project progress, and access your settings all in one place.
-        </p>
-
-        {/* Placeholder area for dashboard cards or stats */}
-        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6 w-full max-w-6xl">
-          <div className="p-6 bg-white rounded-2xl shadow hover:shadow-lg transition">
-            <h2 className="text-xl font-semibold mb-2">Total Tests</h2>
-            <p className="text-gray-600 text-2xl">42</p>
+      <section className="flex flex-col items-center px-8 pt-32 pb-20 gap-8">
+        <div className="w-full max-w-6xl flex items-end justify-between gap-4">
+          <div>
+            <h1 className="text-4xl font-bold mb-2">Dashboard</h1>
+            <p className="text-gray-600">Your generated tests, runs and models, from everything stored so far.</p>
           </div>
-
-          <div className="p-6 bg-white rounded-2xl shadow hover:shadow-lg transition">
-            <h2 className="text-xl font-semibold mb-2">Projects</h2>
-            <p className="text-gray-600 text-2xl">5</p>
+          <div className="flex gap-2">
+            {RANGES.map(range => (
+              <Button key={range} variant={days === range ? "default" : "outline"} size="sm" onClick={() => setDays(range)}>
+                {range} days
+              </Button>
+            ))}
           </div>
+        </div>
 
-          <div className="p-6 bg-white rounded-2xl shadow hover:shadow-lg transition">
-            <h2 className="text-xl font-semibold mb-2">Flaky Tests</h2>
-            <p className="text-gray-600 text-2xl">3</p>
-          </div>
+        {error && <p className="w-full max-w-6xl text-sm text-red-700">{error}</p>}
+        {!dashboard && !error && <p className="w-full max-w-6xl text-sm text-gray-600">Loading dashboard...</p>}
 
-          <div className="p-6 bg-white rounded-2xl shadow hover:shadow-lg transition">
-            <h2 className="text-xl font-semibold mb-2">Completed Runs</h2>
-            <p className="text-gray-600 text-2xl">128</p>
-          </div>
-        </div>
+        {dashboard && (
+          <>
+            <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-6 w-full max-w-6xl">
+              {cards.map(card => (
+                <div key={card.label} className="p-6 bg-white rounded-2xl shadow hover:shadow-lg transition">
+                  <h2 className="text-sm font-semibold text-gray-700 mb-2">{card.label}</h2>
+                  <p className="text-gray-900 text-2xl">{card.value}</p>
+                  {card.hint && <p className="text-xs text-gray-500 mt-1">{card.hint}</p>}
+                </div>
+              ))}
+            </div>
+
+            {/* Tests generated per day */}
+            <div className="w-full max-w-6xl p-6 bg-white rounded-2xl shadow space-y-4">
+              <h2 className="text-xl font-semibold">Tests generated per day</h2>
+              <div className="flex items-end gap-1 h-40">
+                {dashboard.testsPerDay.map(day => (
+                  <div
+                    key={day.date}
+                    title={`${day.date}: ${day.count} tests`}
+                    className="flex-1 bg-blue-500 rounded-t hover:bg-blue-600"
+                    style={{ height: `${(day.count / maxPerDay) * 100}%`, minHeight: day.count > 0 ? 2 : 0 }}
+                  />
+                ))}
+              </div>
+              <div className="flex justify-between text-xs text-gray-500">
+                <span>{dashboard.testsPerDay[0]?.date}</span>
+                <span>{dashboard.testsPerDay[dashboard.testsPerDay.length - 1]?.date}</span>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 w-full max-w-6xl">
+              {/* Generation outcomes per model */}
+              <div className="p-6 bg-white rounded-2xl shadow space-y-3">
+                <h2 className="text-xl font-semibold">Generation by model</h2>
+                {dashboard.models.length === 0 ? (
+                  <p className="text-sm text-gray-600">No background scans in this period</p>
+                ) : (
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-500">
+                        <th className="font-medium py-1">Model</th>
+                        <th className="font-medium py-1 text-right">Passes</th>
+                        <th className="font-medium py-1 text-right">Success</th>
+                        <th className="font-medium py-1 text-right">Parse failures</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {dashboard.models.map(model => (
+                        <tr key={`${model.provider} ${model.model}`} className="border-t">
+                          <td className="py-2">
+                            <span className="font-mono">{model.model}</span>
+                            <span className="text-xs text-gray-500"> · {model.provider}</span>
+                          </td>
+                          <td className="py-2 text-right">{model.total}</td>
+                          <td className="py-2 text-right text-green-700">{model.successRate}%</td>
+                          <td className={`py-2 text-right ${model.parseFailureRate > 0 ? "text-red-700" : "text-gray-600"}`}>
+                            {model.parseFailureRate}%
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+
+              {/* URLs with the most tests */}
+              <div className="p-6 bg-white rounded-2xl shadow space-y-3">
+                <h2 className="text-xl font-semibold">Top URLs by tests</h2>
+                {dashboard.topUrls.length === 0 ? (
+                  <p className="text-sm text-gray-600">No tests stored yet</p>
+                ) : (
+                  <ul className="space-y-2">
+                    {dashboard.topUrls.map(entry => (
+                      <li key={entry.url} className="space-y-1">
+                        <div className="flex justify-between gap-3 text-sm">
+                          <span className="font-mono truncate">{entry.url}</span>
+                          <span className="text-gray-600 shrink-0">{entry.testCount}</span>
+                        </div>
+                        <div className="h-2 bg-gray-100 rounded">
+                          <div className="h-2 bg-blue-500 rounded" style={{ width: `${(entry.testCount / maxPerUrl) * 100}%` }} />
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </div>
+
+            {/* Most recently scanned pages */}
+            <div className="w-full max-w-6xl p-6 bg-white rounded-2xl shadow space-y-3">
+              <h2 className="text-xl font-semibold">Recently scanned</h2>
+              {dashboard.recentPages.length === 0 ? (
+                <p className="text-sm text-gray-600">Nothing scanned yet</p>
+              ) : (
+                <ul className="divide-y">
+                  {dashboard.recentPages.map(page => (
+                    <li key={page.url} className="flex justify-between gap-3 py-2 text-sm">
+                      <span className="font-mono truncate">{page.url}</span>
+                      <span className="text-gray-600 shrink-0">
+                        {page.testCount} tests · {new Date(page.scannedAt).toLocaleString()}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </>
+        )}
       </section>
     </div>
   );
-}
\ No newline at end of file
+}
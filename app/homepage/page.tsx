@@ -13,7 +13,7 @@ export default function Homepage() {
           <a href="#features" className="hover:text-gray-600">Features</a>
           <a href="#pricing" className="hover:text-gray-600">Pricing</a>
           <a href="#docs" className="hover:text-gray-600">Docs</a>
-          <a href="#login" className="hover:text-gray-600">Login</a>
+          <a href="/login" className="hover:text-gray-600">Login</a>
           <Button className="rounded-2xl px-6 py-2 text-base">Get Started</Button>
         </div>
       </nav>
@@ -0,0 +1,121 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { requestMagicLink, signIn, signUp } from "@/lib/auth-api";
+
+type Mode = "signin" | "signup" | "link";
+
+const MODE_LABELS: Record<Mode, string> = {
+  signin: "Sign in",
+  signup: "Create account",
+  link: "Email me a link"
+};
+
+const LINK_ERRORS: Record<string, string> = {
+  "invalid-link": "That link has expired or was already used. Request a new one.",
+  failed: "Signing in failed. Please try again."
+};
+
+export default function LoginPage() {
+  const [mode, setMode] = useState<Mode>("signin");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [name, setName] = useState("");
+  const [next, setNext] = useState("/ai-test-creation");
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const nextParam = params.get("next");
+    if (nextParam?.startsWith("/") && !nextParam.startsWith("//")) setNext(nextParam);
+    const linkError = params.get("error");
+    if (linkError) setError(LINK_ERRORS[linkError] || LINK_ERRORS.failed);
+  }, []);
+
+  const submit = async () => {
+    setBusy(true);
+    setError(null);
+    setNotice(null);
+    try {
+      if (mode === "signin") {
+        await signIn({ email, password });
+        window.location.href = next;
+        return;
+      }
+      if (mode === "signup") {
+        await signUp({ email, password, ...(name.trim() && { name }) });
+        setNotice(`Check ${email} for a link to verify your address, then sign in.`);
+      } else {
+        await requestMagicLink({ email });
+        setNotice(`If ${email} can sign in, a link is on its way. It can be used once.`);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-8">
+      <div className="w-full max-w-sm bg-white rounded-2xl shadow p-8 space-y-5">
+        <div>
+          <div className="text-2xl font-bold">TestFlow AI</div>
+          <p className="text-sm text-gray-600 mt-1">Your generated tests are only visible to you.</p>
+        </div>
+
+        <div className="flex gap-2">
+          {(Object.keys(MODE_LABELS) as Mode[]).map(option => (
+            <Button
+              key={option}
+              size="sm"
+              variant={mode === option ? "default" : "outline"}
+              onClick={() => { setMode(option); setError(null); setNotice(null); }}
+            >
+              {MODE_LABELS[option]}
+            </Button>
+          ))}
+        </div>
+
+        <form
+          className="space-y-3"
+          onSubmit={(e) => {
+            e.preventDefault();
+            submit();
+          }}
+        >
+          {mode === "signup" && (
+            <Input placeholder="Name (optional)" value={name} onChange={(e) => setName(e.target.value)} autoComplete="name" />
+          )}
+          <Input type="email" placeholder="Email" value={email} onChange={(e) => setEmail(e.target.value)} autoComplete="email" required />
+          {mode !== "link" && (
+            <Input
+              type="password"
+              placeholder={mode === "signup" ? "Password (at least 8 characters)" : "Password"}
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoComplete={mode === "signup" ? "new-password" : "current-password"}
+              required
+            />
+          )}
+          <Button type="submit" className="w-full" disabled={busy}>
+            {busy ? "..." : MODE_LABELS[mode]}
+          </Button>
+        </form>
+
+        {error && <p className="text-sm text-red-700">{error}</p>}
+        {notice && <p className="text-sm text-green-700">{notice}</p>}
+
+        {process.env.NODE_ENV !== "production" && (
+          <p className="text-xs text-gray-500">
+            Mail isn&apos;t sent anywhere in development: links land in the <a href="/outbox" className="text-blue-600 hover:underline">local outbox</a>.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
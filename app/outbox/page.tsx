@@ -0,0 +1,56 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { MailMessage } from "@/lib/mailer";
+
+// Split a message into text and clickable links
+function linkify(text: string) {
+  return text.split(/(https?:\/\/\S+)/g).map((part, i) =>
+    /^https?:\/\//.test(part)
+      ? <a key={i} href={part} className="text-blue-600 hover:underline break-all">{part}</a>
+      : <span key={i}>{part}</span>
+  );
+}
+
+// The local outbox that stands in for a mail server: the signed-in user's mail, or all of it
+// when the server sets MAIL_OUTBOX_PUBLIC=1
+export default function OutboxPage() {
+  const [messages, setMessages] = useState<MailMessage[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch("/api/auth/outbox")
+      .then(async res => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || `Failed with HTTP ${res.status}`);
+        setMessages(data.messages);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : String(err)));
+  }, []);
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8 space-y-6">
+      <header className="space-y-1">
+        <a href="/login" className="text-sm text-blue-600 hover:underline">← Sign in</a>
+        <h1 className="text-2xl font-semibold">Outbox</h1>
+        <p className="text-sm text-gray-600">Mail the server would have sent, newest first.</p>
+      </header>
+
+      {error && <p className="text-sm text-red-700">{error}</p>}
+      {messages?.length === 0 && <p className="text-sm text-gray-600">No mail yet</p>}
+
+      <ul className="space-y-4 max-w-3xl">
+        {messages?.map(message => (
+          <li key={message.id} className="bg-white border rounded-lg p-4 shadow-sm space-y-2">
+            <div className="flex justify-between gap-4 text-sm">
+              <span className="font-medium">{message.subject}</span>
+              <span className="text-gray-500 shrink-0">{new Date(message.sentAt).toLocaleString()}</span>
+            </div>
+            <p className="text-xs text-gray-500">To {message.to}</p>
+            <p className="text-sm whitespace-pre-wrap">{linkify(message.text)}</p>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
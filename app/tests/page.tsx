@@ -1,31 +1,220 @@
 "use client";
 
-import { useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
-import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-
-// Sample data (replace with your saved tests state)
-const sampleTests = [
-  {
-    url: "https://example.com/login",
-    tests: [
-      { title: "Page loads with HTTP 200", info: "Basic page load check" },
-      { title: "Login form visible", info: "Checks if login form renders" },
-      { title: "Submit button clickable", info: "Button can be clicked" },
-    ],
-  },
-  {
-    url: "https://example.com/dashboard",
-    tests: [
-      { title: "Page loads with HTTP 200", info: "Dashboard load" },
-      { title: "Graphs render correctly", info: "Check all charts display" },
-    ],
-  },
-];
+import { AuthStatus } from "@/components/auth-status";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { CodeEditor } from "@/components/ui/code-editor";
+import { TEST_CATEGORIES, type TestCategory } from "@/lib/test-schema";
+import { FRAMEWORK_LABELS, TEST_FRAMEWORKS, frameworkOf } from "@/lib/frameworks";
+import type { TestRunResult } from "@/lib/test-runner";
+import type { ValidationWarning } from "@/lib/test-validator";
+import type { RunStatusFilter } from "@/lib/validation";
+
+interface SessionSummary {
+  id: string;
+  createdAt: string;
+  testCount: number;
+  crawled: boolean;
+}
+
+interface UrlSummary {
+  url: string;
+  testCount: number;
+  sessions: SessionSummary[];
+}
+
+interface StoredTest {
+  id: string;
+  sessionId: string;
+  url: string;
+  pageUrl?: string;
+  title: string;
+  description?: string;
+  code?: string; // search results leave it out; loaded when the test is opened
+  category?: string;
+  testType: string;
+  healStatus?: string;
+  warnings: ValidationWarning[];
+  lastRun?: TestRunResult;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface Filters {
+  q: string;
+  category: string;
+  testType: string;
+  status: string;
+  from: string;
+  to: string;
+  url: string;
+  sessionId: string;
+}
+
+interface TestEdit {
+  id: string;
+  title: string;
+  description: string;
+  code: string;
+  category: TestCategory;
+}
+
+const EMPTY_FILTERS: Filters = { q: "", category: "", testType: "", status: "", from: "", to: "", url: "", sessionId: "" };
+
+const STATUS_LABELS: Record<RunStatusFilter, string> = {
+  passed: "Passed",
+  failed: "Failed",
+  error: "Error",
+  skipped: "Skipped",
+  "not-run": "Never run",
+};
+
+async function request<T>(path: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(path, init);
+  const data = await res.json();
+  if (!res.ok) throw new Error(data.details ? `${data.error}: ${data.details.join("; ")}` : data.error || `Failed with HTTP ${res.status}`);
+  return data;
+}
 
 export default function TestsPage() {
-  const [testsData, setTestsData] = useState(sampleTests);
+  const [urls, setUrls] = useState<UrlSummary[]>([]);
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [tests, setTests] = useState<StoredTest[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [editing, setEditing] = useState<TestEdit | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  const setFilter = (field: keyof Filters, value: string) => setFilters(prev => ({ ...prev, [field]: value }));
+
+  const loadSessions = () =>
+    request<{ urls: UrlSummary[] }>("/api/sessions")
+      .then(data => setUrls(data.urls))
+      .catch(err => setError(err instanceof Error ? err.message : String(err)));
+
+  useEffect(() => {
+    loadSessions();
+  }, []);
+
+  // One page of matching tests, from `offset` on
+  const search = useCallback((offset: number) => {
+    const params = new URLSearchParams(Object.entries(filters).filter(([, value]) => value));
+    if (offset > 0) params.set("offset", String(offset));
+    setLoading(true);
+    return request<{ tests: StoredTest[]; total: number }>(`/api/tests?${params}`)
+      .then(data => {
+        setTests(prev => (offset > 0 ? [...prev, ...data.tests] : data.tests));
+        setTotal(data.total);
+        setError(null);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : String(err)))
+      .finally(() => setLoading(false));
+  }, [filters]);
+
+  // Search again shortly after the filters stop changing
+  useEffect(() => {
+    const timer = setTimeout(() => search(0), 300);
+    return () => clearTimeout(timer);
+  }, [search, reloadKey]);
+
+  const refresh = () => {
+    loadSessions();
+    setReloadKey(key => key + 1);
+  };
+
+  // The test with its code, fetched the first time it is opened
+  const withCode = async (test: StoredTest): Promise<StoredTest> => {
+    if (test.code !== undefined) return test;
+    const { test: full } = await request<{ test: StoredTest }>(`/api/tests/${test.id}`);
+    setTests(prev => prev.map(t => (t.id === full.id ? full : t)));
+    return full;
+  };
+
+  const toggle = (test: StoredTest) => {
+    if (!expanded.has(test.id)) {
+      withCode(test).catch(err => setError(err instanceof Error ? err.message : String(err)));
+    }
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(test.id)) next.delete(test.id);
+      else next.add(test.id);
+      return next;
+    });
+  };
+
+  const startEdit = async (test: StoredTest) => {
+    try {
+      const full = await withCode(test);
+      setEditing({
+        id: full.id,
+        title: full.title,
+        description: full.description || "",
+        code: full.code ?? "",
+        category: (TEST_CATEGORIES as string[]).includes(full.category || "") ? (full.category as TestCategory) : "general",
+      });
+      setExpanded(prev => new Set(prev).add(full.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const saveEdit = async () => {
+    if (!editing) return;
+    setSaving(true);
+    try {
+      const { id, ...update } = editing;
+      const { test } = await request<{ test: StoredTest }>(`/api/tests/${id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(update),
+      });
+      setTests(prev => prev.map(t => (t.id === id ? test : t)));
+      setEditing(null);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const remove = async (path: string, message: string) => {
+    if (!window.confirm(message)) return false;
+    try {
+      await request(path, { method: "DELETE" });
+      setError(null);
+      refresh();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      return false;
+    }
+  };
+
+  const deleteUrl = async (url: string) => {
+    if (await remove(`/api/sessions?url=${encodeURIComponent(url)}`, `Delete every session, test and baseline stored for ${url}?`)) {
+      if (filters.url === url) setFilters(prev => ({ ...prev, url: "", sessionId: "" }));
+    }
+  };
+
+  const deleteSession = async (session: SessionSummary) => {
+    if (await remove(`/api/sessions/${session.id}`, `Delete the session from ${new Date(session.createdAt).toLocaleString()} and its ${session.testCount} tests?`)) {
+      if (filters.sessionId === session.id) setFilter("sessionId", "");
+    }
+  };
+
+  // Results grouped by the URL they were generated for, in result order
+  const groups = tests.reduce<Record<string, StoredTest[]>>((acc, test) => {
+    (acc[test.url] ||= []).push(test);
+    return acc;
+  }, {});
+  const selectedUrl = urls.find(entry => entry.url === filters.url);
+  const hasFilters = Object.values(filters).some(Boolean);
 
   return (
     <div className="flex flex-col h-screen">
@@ -37,40 +226,203 @@ export default function TestsPage() {
           <a href="/dashboard" className="hover:text-gray-600">Dashboard</a>
           <a href="/tests" className="hover:text-gray-600">Tests</a>
           <a href="/settings" className="hover:text-gray-600">Settings</a>
-          <Button className="rounded-2xl px-6 py-2 text-base">Get Started</Button>
+          <AuthStatus required />
         </div>
       </nav>
 
-      <div className="pt-24 px-8 overflow-y-auto flex-1">
-        <h1 className="text-3xl font-bold mb-6">Saved Tests</h1>
-
-        <div className="space-y-4">
-          {testsData.map((page, i) => (
-            <Card key={i} className="border rounded-lg">
-              <CardHeader>
-                <CardTitle>
-                  <Collapsible>
-                    <CollapsibleTrigger className="w-full text-left px-4 py-3 hover:bg-gray-100 rounded-md cursor-pointer">
-                      {page.url}
-                    </CollapsibleTrigger>
-                    <CollapsibleContent className="px-4 py-2">
+      <div className="pt-24 px-8 pb-8 flex-1 overflow-y-auto flex gap-6">
+        {/* Stored URLs and their sessions */}
+        <aside className="w-80 shrink-0 space-y-2">
+          <h2 className="text-lg font-semibold">URLs</h2>
+          {urls.length === 0 && <p className="text-sm text-gray-500">Nothing stored yet</p>}
+          {urls.map(entry => (
+            <div key={entry.url} className={`border rounded-lg p-3 ${filters.url === entry.url ? "bg-blue-50 border-blue-200" : "bg-white"}`}>
+              <div className="flex items-start justify-between gap-2">
+                <button
+                  className="text-left text-sm font-mono break-all hover:underline"
+                  onClick={() => setFilters(prev => ({ ...prev, url: prev.url === entry.url ? "" : entry.url, sessionId: "" }))}
+                >
+                  {entry.url}
+                </button>
+                <button className="text-xs text-red-600 hover:underline shrink-0" onClick={() => deleteUrl(entry.url)}>
+                  delete
+                </button>
+              </div>
+              <p className="text-xs text-gray-500">
+                {entry.sessions.length} sessions · {entry.testCount} tests
+              </p>
+              {selectedUrl?.url === entry.url && (
+                <ul className="mt-2 space-y-1">
+                  {entry.sessions.map(session => (
+                    <li key={session.id} className="flex items-center justify-between gap-2 text-xs">
+                      <button
+                        className={`text-left hover:underline ${filters.sessionId === session.id ? "font-semibold text-blue-700" : "text-gray-700"}`}
+                        onClick={() => setFilter("sessionId", filters.sessionId === session.id ? "" : session.id)}
+                      >
+                        {new Date(session.createdAt).toLocaleString()} · {session.testCount} tests{session.crawled ? " · crawl" : ""}
+                      </button>
+                      <button className="text-red-600 hover:underline" onClick={() => deleteSession(session)}>
+                        delete
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          ))}
+        </aside>
+
+        <main className="flex-1 min-w-0 space-y-4">
+          <h1 className="text-3xl font-bold">Saved Tests</h1>
+
+          {/* Search and filters */}
+          <div className="flex flex-wrap items-center gap-3 text-sm text-gray-700">
+            <Input
+              placeholder="Search titles, descriptions and code"
+              value={filters.q}
+              onChange={e => setFilter("q", e.target.value)}
+              className="w-72"
+            />
+            <select value={filters.category} onChange={e => setFilter("category", e.target.value)} className="border rounded-md px-2 py-1 bg-white">
+              <option value="">All categories</option>
+              {TEST_CATEGORIES.map(option => (
+                <option key={option} value={option}>{option}</option>
+              ))}
+            </select>
+            <select value={filters.testType} onChange={e => setFilter("testType", e.target.value)} className="border rounded-md px-2 py-1 bg-white">
+              <option value="">All frameworks</option>
+              {TEST_FRAMEWORKS.map(option => (
+                <option key={option} value={option}>{FRAMEWORK_LABELS[option]}</option>
+              ))}
+            </select>
+            <select value={filters.status} onChange={e => setFilter("status", e.target.value)} className="border rounded-md px-2 py-1 bg-white">
+              <option value="">Any run status</option>
+              {(Object.keys(STATUS_LABELS) as RunStatusFilter[]).map(option => (
+                <option key={option} value={option}>{STATUS_LABELS[option]}</option>
+              ))}
+            </select>
+            <label className="flex items-center gap-2">
+              From
+              <input type="date" value={filters.from} onChange={e => setFilter("from", e.target.value)} className="border rounded-md px-2 py-1" />
+            </label>
+            <label className="flex items-center gap-2">
+              To
+              <input type="date" value={filters.to} onChange={e => setFilter("to", e.target.value)} className="border rounded-md px-2 py-1" />
+            </label>
+            {hasFilters && (
+              <Button variant="outline" size="sm" onClick={() => setFilters(EMPTY_FILTERS)}>
+                Clear filters
+              </Button>
+            )}
+          </div>
+
+          {error && <p className="text-sm text-red-700">{error}</p>}
+          <p className="text-sm text-gray-500">
+            {loading ? "Loading tests..." : total > tests.length ? `Showing ${tests.length} of ${total} tests` : `${total} tests`}
+          </p>
+
+          {Object.entries(groups).map(([url, group]) => (
+            <section key={url} className="space-y-2">
+              <h2 className="font-mono text-sm text-gray-700 break-all">{url}</h2>
+              {group.map(test => {
+                const isEditing = editing?.id === test.id;
+                return (
+                  <div key={test.id} className="bg-white border rounded-lg p-4 shadow-sm space-y-3">
+                    <div className="flex items-start justify-between gap-3">
+                      <button className="text-left" onClick={() => toggle(test)}>
+                        <h3 className="font-semibold text-gray-900">{test.title}</h3>
+                        <p className="text-xs text-gray-500">
+                          {test.category || "general"} · {FRAMEWORK_LABELS[frameworkOf(test.testType)]} · {new Date(test.createdAt).toLocaleString()}
+                          {test.pageUrl && test.pageUrl !== test.url ? ` · ${test.pageUrl}` : ""}
+                        </p>
+                      </button>
+                      <div className="flex items-center gap-2 shrink-0">
+                        {test.warnings.some(w => w.severity === "error") && (
+                          <span className="text-xs px-2 py-1 rounded border text-red-700 bg-red-50 border-red-200">invalid</span>
+                        )}
+                        {test.lastRun ? (
+                          <span
+                            className={`text-xs px-2 py-1 rounded border ${
+                              test.lastRun.status === "passed"
+                                ? "text-green-700 bg-green-50 border-green-200"
+                                : test.lastRun.status === "skipped"
+                                  ? "text-gray-600 bg-gray-50 border-gray-200"
+                                  : "text-red-700 bg-red-50 border-red-200"
+                            }`}
+                          >
+                            {test.lastRun.status}
+                          </span>
+                        ) : (
+                          <span className="text-xs px-2 py-1 rounded border text-gray-600 bg-gray-50 border-gray-200">never run</span>
+                        )}
+                        <Button variant="outline" size="sm" className="text-xs" disabled={isEditing} onClick={() => startEdit(test)}>
+                          Edit
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="text-xs text-red-600"
+                          onClick={() => remove(`/api/tests/${test.id}`, `Delete "${test.title}"?`)}
+                        >
+                          Delete
+                        </Button>
+                      </div>
+                    </div>
+
+                    {isEditing && editing ? (
                       <div className="space-y-2">
-                        {page.tests.map((t, idx) => (
-                          <Card key={idx} className="border rounded-md p-3 bg-gray-50">
-                            <CardHeader>
-                              <CardTitle className="text-sm font-semibold">{t.title}</CardTitle>
-                            </CardHeader>
-                            <CardContent className="text-xs text-gray-600">{t.info}</CardContent>
-                          </Card>
-                        ))}
+                        <Input value={editing.title} onChange={e => setEditing({ ...editing, title: e.target.value })} placeholder="Title" />
+                        <Textarea
+                          value={editing.description}
+                          onChange={e => setEditing({ ...editing, description: e.target.value })}
+                          placeholder="Description"
+                        />
+                        <select
+                          value={editing.category}
+                          onChange={e => setEditing({ ...editing, category: e.target.value as TestCategory })}
+                          className="border rounded-md px-2 py-1 bg-white text-sm"
+                        >
+                          {TEST_CATEGORIES.map(option => (
+                            <option key={option} value={option}>{option}</option>
+                          ))}
+                        </select>
+                        <CodeEditor value={editing.code} onChange={code => setEditing({ ...editing, code })} />
+                        <div className="flex gap-2">
+                          <Button size="sm" disabled={saving} onClick={saveEdit}>
+                            {saving ? "Saving..." : "Save"}
+                          </Button>
+                          <Button variant="outline" size="sm" disabled={saving} onClick={() => setEditing(null)}>
+                            Cancel
+                          </Button>
+                        </div>
                       </div>
-                    </CollapsibleContent>
-                  </Collapsible>
-                </CardTitle>
-              </CardHeader>
-            </Card>
+                    ) : expanded.has(test.id) && (
+                      <div className="space-y-2">
+                        {test.description && <p className="text-sm text-gray-700">{test.description}</p>}
+                        <pre className="bg-gray-950 text-gray-100 text-xs rounded-md p-3 overflow-x-auto">{test.code ?? "Loading..."}</pre>
+                        {test.warnings.length > 0 && (
+                          <ul className="text-xs space-y-1">
+                            {test.warnings.map((warning, i) => (
+                              <li key={i} className={warning.severity === "error" ? "text-red-700" : "text-amber-700"}>
+                                {warning.line ? `Line ${warning.line}: ` : ""}{warning.message}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </section>
           ))}
-        </div>
+
+          {!loading && total > tests.length && (
+            <Button variant="outline" onClick={() => search(tests.length)}>
+              Show more
+            </Button>
+          )}
+        </main>
       </div>
     </div>
   );
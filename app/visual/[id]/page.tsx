@@ -0,0 +1,207 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { AuthStatus } from "@/components/auth-status";
+import type { Region } from "@/lib/visual";
+
+interface VisualReview {
+  screenshot: {
+    id: string;
+    url: string;
+    viewport: string;
+    image?: string; // missing once retention deleted the file
+    mismatchPercent?: number;
+    diffImage?: string;
+    createdAt: string;
+  };
+  baseline: {
+    id: string;
+    image?: string;
+    screenshotId?: string;
+    masks: Region[];
+    updatedAt: string;
+  } | null;
+  isBaseline: boolean;
+}
+
+type ImageView = "diff" | "current" | "baseline";
+
+const EMPTY_MASK = { x: "", y: "", width: "", height: "" };
+
+export default function VisualReviewPage() {
+  const { id } = useParams<{ id: string }>();
+  const [review, setReview] = useState<VisualReview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [view, setView] = useState<ImageView>("diff");
+  const [masks, setMasks] = useState<Region[]>([]);
+  const [newMask, setNewMask] = useState(EMPTY_MASK);
+  const [saving, setSaving] = useState(false);
+
+  const show = (data: VisualReview) => {
+    setReview(data);
+    setMasks(data.baseline?.masks || []);
+    if (!data.screenshot.diffImage) setView("current");
+  };
+
+  useEffect(() => {
+    fetch(`/api/visual/${id}`)
+      .then(async res => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || `Failed with HTTP ${res.status}`);
+        show(data);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : String(err)));
+  }, [id]);
+
+  // Send an update and show the review it returns
+  const submit = async (path: string, method: string, body?: unknown) => {
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/visual/${id}${path}`, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: body === undefined ? undefined : JSON.stringify(body)
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || `Failed with HTTP ${res.status}`);
+      show(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const addMask = () => {
+    const region = {
+      x: parseInt(newMask.x),
+      y: parseInt(newMask.y),
+      width: parseInt(newMask.width),
+      height: parseInt(newMask.height)
+    };
+    if (Object.values(region).some(value => !Number.isInteger(value) || value < 0) || region.width === 0 || region.height === 0) {
+      setError("A mask needs a whole-pixel x, y, width and height");
+      return;
+    }
+    setMasks(prev => [...prev, region]);
+    setNewMask(EMPTY_MASK);
+  };
+
+  if (!review) {
+    return (
+      <div className="p-8 text-sm text-gray-600">{error ? <span className="text-red-700">{error}</span> : "Loading screenshot..."}</div>
+    );
+  }
+
+  const { screenshot, baseline, isBaseline } = review;
+  const images: Record<ImageView, string | undefined> = {
+    diff: screenshot.diffImage,
+    current: screenshot.image,
+    baseline: baseline?.image
+  };
+  const masksChanged = JSON.stringify(masks) !== JSON.stringify(baseline?.masks || []);
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8 space-y-6">
+      <header className="space-y-1">
+        <div className="flex items-center justify-between gap-4">
+          <a href="/ai-test-creation" className="text-sm text-blue-600 hover:underline">← AI Test Creation</a>
+          <AuthStatus required />
+        </div>
+        <h1 className="text-2xl font-semibold">Visual Review</h1>
+        <p className="text-sm text-gray-600 font-mono">{screenshot.url} · {screenshot.viewport}</p>
+        <p className="text-sm text-gray-600">Captured {new Date(screenshot.createdAt).toLocaleString()}</p>
+      </header>
+
+      <section className="bg-white border rounded-lg p-4 shadow-sm flex items-center justify-between gap-4">
+        <div>
+          {isBaseline ? (
+            <p className="font-medium text-green-700">This screenshot is the baseline</p>
+          ) : screenshot.mismatchPercent !== undefined ? (
+            <p className={`font-medium ${screenshot.mismatchPercent > 0 ? "text-red-700" : "text-green-700"}`}>
+              {screenshot.mismatchPercent}% of pixels differ from the baseline
+            </p>
+          ) : (
+            <p className="font-medium text-gray-700">Not compared with a baseline</p>
+          )}
+          {baseline && !isBaseline && (
+            <p className="text-xs text-gray-500">Baseline updated {new Date(baseline.updatedAt).toLocaleString()}</p>
+          )}
+        </div>
+        <Button disabled={isBaseline || saving} onClick={() => submit("/accept", "POST")}>
+          Accept as new baseline
+        </Button>
+      </section>
+
+      {error && <p className="text-sm text-red-700">{error}</p>}
+
+      <section className="bg-white border rounded-lg p-4 shadow-sm space-y-3">
+        <div className="flex gap-2">
+          {(["diff", "current", "baseline"] as ImageView[]).map(option => (
+            <Button
+              key={option}
+              variant={view === option ? "default" : "outline"}
+              size="sm"
+              disabled={!images[option]}
+              onClick={() => setView(option)}
+            >
+              {option === "diff" ? "Diff" : option === "current" ? "This scan" : "Baseline"}
+            </Button>
+          ))}
+        </div>
+        {images[view] && (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img
+            src={`data:image/png;base64,${images[view]}`}
+            alt={`${view} screenshot`}
+            className="border rounded max-w-full h-auto"
+          />
+        )}
+      </section>
+
+      {baseline && (
+        <section className="bg-white border rounded-lg p-4 shadow-sm space-y-3">
+          <h2 className="font-semibold">Masks</h2>
+          <p className="text-xs text-gray-500">
+            Regions with dynamic content (dates, ads, carousels) that are ignored when comparing, in screenshot pixels.
+          </p>
+          {masks.length > 0 ? (
+            <ul className="space-y-1 text-sm font-mono">
+              {masks.map((mask, i) => (
+                <li key={i} className="flex items-center gap-3">
+                  <span>x {mask.x}, y {mask.y}, {mask.width}×{mask.height}</span>
+                  <button className="text-xs text-red-600 hover:underline" onClick={() => setMasks(prev => prev.filter((_, j) => j !== i))}>
+                    remove
+                  </button>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-gray-600">No masks</p>
+          )}
+          <div className="flex items-center gap-2">
+            {(["x", "y", "width", "height"] as const).map(field => (
+              <Input
+                key={field}
+                type="number"
+                min={0}
+                placeholder={field}
+                value={newMask[field]}
+                onChange={e => setNewMask(prev => ({ ...prev, [field]: e.target.value }))}
+                className="w-24"
+              />
+            ))}
+            <Button variant="outline" size="sm" onClick={addMask}>Add mask</Button>
+          </div>
+          <Button size="sm" disabled={!masksChanged || saving} onClick={() => submit("", "PATCH", { masks })}>
+            Save masks and compare again
+          </Button>
+        </section>
+      )}
+    </div>
+  );
+}
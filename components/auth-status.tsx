@@ -0,0 +1,50 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { loadAuthState, loginPath, signOut, type AuthState } from "@/lib/auth-api";
+
+// The navbar's account corner: who is signed in, with a sign-out button. On pages that
+// show stored data (`required`), signed-out visitors are sent to the login page.
+// Without a database there are no accounts and it renders nothing.
+export function AuthStatus({ required = false }: { required?: boolean }) {
+  const [state, setState] = useState<AuthState | null>(null);
+
+  useEffect(() => {
+    loadAuthState()
+      .then(next => {
+        if (required && next.accountsEnabled && !next.user) {
+          window.location.href = loginPath(window.location.pathname + window.location.search);
+          return;
+        }
+        setState(next);
+      })
+      .catch(error => console.error("Error loading the signed-in user:", error));
+  }, [required]);
+
+  if (!state?.accountsEnabled) return null;
+
+  if (!state.user) {
+    return (
+      <Button asChild className="rounded-2xl px-6 py-2 text-base">
+        <a href={loginPath(window.location.pathname)}>Sign in</a>
+      </Button>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-3 text-sm font-normal">
+      <span className="text-gray-600">{state.user.name || state.user.email}</span>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={async () => {
+          await signOut().catch(error => console.error("Error signing out:", error));
+          window.location.href = "/login";
+        }}
+      >
+        Sign out
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+"use client"
+
+import * as React from "react"
+
+import { cn } from "@/lib/utils"
+
+const INDENT = "  "
+
+// A monospace textarea with line numbers, where Tab indents instead of moving focus
+function CodeEditor({
+  value,
+  onChange,
+  className,
+  ...props
+}: Omit<React.ComponentProps<"textarea">, "value" | "onChange"> & {
+  value: string
+  onChange: (value: string) => void
+}) {
+  const gutterRef = React.useRef<HTMLDivElement>(null)
+  const lineCount = value.split("\n").length
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key !== "Tab" || e.shiftKey) return
+    e.preventDefault()
+    const textarea = e.currentTarget
+    const { selectionStart, selectionEnd } = textarea
+    onChange(value.slice(0, selectionStart) + INDENT + value.slice(selectionEnd))
+    requestAnimationFrame(() => {
+      textarea.selectionStart = textarea.selectionEnd = selectionStart + INDENT.length
+    })
+  }
+
+  return (
+    <div
+      data-slot="code-editor"
+      className={cn("flex rounded-md border bg-gray-950 text-gray-100 font-mono text-xs overflow-hidden", className)}
+    >
+      <div
+        ref={gutterRef}
+        aria-hidden
+        className="select-none overflow-hidden py-2 px-2 text-right text-gray-500 bg-gray-900 leading-5"
+      >
+        {Array.from({ length: lineCount }, (_, i) => (
+          <div key={i}>{i + 1}</div>
+        ))}
+      </div>
+      <textarea
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onScroll={(e) => {
+          if (gutterRef.current) gutterRef.current.scrollTop = e.currentTarget.scrollTop
+        }}
+        spellCheck={false}
+        wrap="off"
+        className="flex-1 resize-y min-h-64 bg-transparent py-2 px-3 leading-5 outline-none whitespace-pre"
+        {...props}
+      />
+    </div>
+  )
+}
+
+export { CodeEditor }
@@ -0,0 +1,22 @@
+// Runs once when the server starts
+export async function register() {
+  // The scan worker needs Node (Playwright, Prisma) and a database to keep its queue in
+  if (process.env.NEXT_RUNTIME !== "nodejs") return;
+
+  const { isDatabaseAvailable } = await import("./lib/database");
+  if (!isDatabaseAvailable) return;
+
+  // Accounts need a database; their emailed links need APP_URL in production
+  if (process.env.NODE_ENV === "production" && !process.env.APP_URL) {
+    console.error("APP_URL is not set: sign-in, sign-up and emailed links will fail until it is");
+  }
+
+  // Searches filter on each test's latest run, which older rows don't link to yet
+  const { DatabaseService } = await import("./lib/database");
+  const linked = await DatabaseService.linkLatestRuns();
+  if (linked > 0) console.log(`Linked ${linked} test(s) to their latest run`);
+
+  // Pick up jobs that were queued or running when the server last stopped
+  const { startScanWorker } = await import("./lib/jobs");
+  await startScanWorker().catch(err => console.error("Failed to start scan worker:", err));
+}
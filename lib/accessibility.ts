@@ -0,0 +1,177 @@
+// Accessibility tree utilities for TestFlow AI
+//
+// The CSS pass in snapshot.ts only sees native buttons, inputs and links in the
+// light DOM. This pass looks elements up by ARIA role with Playwright's role
+// engine, which also reaches into open shadow roots, and repeats it in every
+// same-origin iframe. Role, accessible name and states are read from each
+// element's aria snapshot, the same tree getByRole matches against, so the
+// prompts can ask for role-based locators that resolve on the page.
+
+import type { Frame, Locator, Page } from 'playwright';
+import type { TestFramework } from './frameworks';
+
+export interface AccessibleElement {
+  role: string;
+  name: string; // accessible name, '' when the element has none
+  states: string[]; // as the aria snapshot writes them, e.g. 'checked', 'expanded', 'level=2'
+  visible: boolean;
+  enabled: boolean;
+  unique?: boolean; // whether no other visible element in its frame has the same role and name
+  tag: string;
+  id?: string;
+  testId?: string; // data-testid, data-test or data-cy
+  inShadowDom?: boolean;
+  frameUrl?: string; // set for elements inside an iframe
+}
+
+type AriaRole = Parameters<Page['getByRole']>[0];
+
+// Roles users act on, plus the containers that hold them (dialogs, tabs, menus)
+export const EXTRACTED_ROLES: AriaRole[] = [
+  'button', 'link', 'textbox', 'searchbox', 'combobox', 'checkbox', 'radio', 'switch', 'slider',
+  'spinbutton', 'listbox', 'option', 'tablist', 'tab', 'tabpanel', 'menu', 'menubar', 'menuitem',
+  'menuitemcheckbox', 'menuitemradio', 'dialog', 'alertdialog', 'navigation', 'form', 'search',
+];
+
+export const ACCESSIBILITY_LIMITS = {
+  maxElements: 150,
+  maxPerRole: 30,
+  maxNameLength: 200,
+};
+
+// Time allowed for reading one element before it is skipped (e.g. it was removed meanwhile)
+const ELEMENT_TIMEOUT_MS = 1000;
+
+// Role, name and states from the first line of an aria snapshot, e.g. `- checkbox "Remember me" [checked]`
+export function parseAriaNode(snapshot: string): { role: string; name: string; states: string[] } | null {
+  let line = snapshot.split('\n')[0].trim();
+  if (!line.startsWith('- ')) return null;
+  line = line.slice(2);
+
+  // Keys YAML can't hold bare are single-quoted, with quotes doubled inside
+  const quoted = line.match(/^'((?:[^']|'')*)'/);
+  if (quoted) line = quoted[1].replace(/''/g, "'");
+
+  const match = line.match(/^([a-z]+)(?: ("(?:[^"\\]|\\.)*"))?((?: \[[^\]]+\])*)/);
+  if (!match) return null;
+
+  let name = '';
+  if (match[2]) {
+    try {
+      name = JSON.parse(match[2]);
+    } catch {
+      name = match[2].slice(1, -1);
+    }
+  }
+  const states = [...match[3].matchAll(/\[([^\]]+)\]/g)].map(state => state[1]);
+  return { role: match[1], name, states };
+}
+
+function isSameOrigin(frameUrl: string, origin: string): boolean {
+  // about:blank and srcdoc frames belong to their parent's origin
+  if (frameUrl.startsWith('about:')) return true;
+  try {
+    return new URL(frameUrl).origin === origin;
+  } catch {
+    return false;
+  }
+}
+
+async function describeElement(locator: Locator, role: AriaRole, frame: Frame, isMainFrame: boolean): Promise<AccessibleElement | null> {
+  try {
+    const details = await locator.evaluate(el => ({
+      tag: el.tagName.toLowerCase(),
+      id: el.id || undefined,
+      testId: el.getAttribute('data-testid') || el.getAttribute('data-test') || el.getAttribute('data-cy') || undefined,
+      inShadowDom: el.getRootNode() instanceof ShadowRoot,
+      enabled: !el.matches(':disabled') && !el.closest('[aria-disabled="true"]'),
+      // Used when the element is hidden and so has no aria snapshot
+      label: el.getAttribute('aria-label') || el.getAttribute('title') || el.textContent?.trim() || '',
+    }), undefined, { timeout: ELEMENT_TIMEOUT_MS });
+    const visible = await locator.isVisible();
+    const node = visible
+      ? parseAriaNode(await locator.ariaSnapshot({ timeout: ELEMENT_TIMEOUT_MS }).catch(() => ''))
+      : null;
+    const matches = node?.name
+      ? await frame.getByRole(node.role as AriaRole, { name: node.name, exact: true }).count()
+      : 0;
+
+    return {
+      role: node?.role || role,
+      name: (node ? node.name : details.label.replace(/\s+/g, ' ')).slice(0, ACCESSIBILITY_LIMITS.maxNameLength),
+      states: node?.states || [],
+      visible,
+      enabled: details.enabled,
+      ...(node && { unique: matches === 1 }),
+      tag: details.tag,
+      ...(details.id && { id: details.id }),
+      ...(details.testId && { testId: details.testId }),
+      ...(details.inShadowDom && { inShadowDom: true }),
+      ...(!isMainFrame && { frameUrl: frame.url() }),
+    };
+  } catch {
+    return null;
+  }
+}
+
+// Elements by role from the page, its open shadow roots and its same-origin iframes
+export async function extractAccessibleElements(page: Page): Promise<AccessibleElement[]> {
+  const origin = new URL(page.url()).origin;
+  const frames = page.frames().filter(frame => frame === page.mainFrame() || isSameOrigin(frame.url(), origin));
+  const elements: AccessibleElement[] = [];
+
+  for (const frame of frames) {
+    for (const role of EXTRACTED_ROLES) {
+      const remaining = ACCESSIBILITY_LIMITS.maxElements - elements.length;
+      if (remaining <= 0) return elements;
+
+      const locators = await frame.getByRole(role, { includeHidden: true }).all().catch(() => []);
+      for (const locator of locators.slice(0, Math.min(remaining, ACCESSIBILITY_LIMITS.maxPerRole))) {
+        const element = await describeElement(locator, role, frame, frame === page.mainFrame());
+        if (element) elements.push(element);
+      }
+    }
+  }
+  return elements;
+}
+
+// One line per element for a prompt, e.g. `button "Add to cart" [disabled] (hidden, shadow DOM)`
+export function formatAccessibleElements(elements: AccessibleElement[], maxElements: number = 60): string {
+  return elements
+    .slice(0, maxElements)
+    .map((el, idx) => {
+      const name = el.name ? ` ${JSON.stringify(el.name.substring(0, 80))}` : '';
+      const states = el.states.map(state => ` [${state}]`).join('');
+      const notes = [
+        !el.visible && 'hidden',
+        !el.enabled && !el.states.includes('disabled') && 'disabled',
+        el.unique === false && 'not unique',
+        el.testId && `data-testid/data-cy="${el.testId}"`,
+        el.id && `#${el.id}`,
+        el.inShadowDom && 'shadow DOM',
+        el.frameUrl && `iframe ${el.frameUrl}`,
+      ].filter(Boolean).join(', ');
+      return `  ${idx + 1}. ${el.role}${name}${states}${notes ? ` (${notes})` : ''}`;
+    })
+    .join('\n');
+}
+
+// How tests should locate these elements, for the element prompt
+export function rolePromptNotes(elements: AccessibleElement[], framework: TestFramework): string {
+  const lines = [
+    framework === 'playwright'
+      ? `- Locate these elements by role and accessible name, e.g. page.getByRole('button', { name: 'Add to cart' })`
+      : `- Locate these elements by role and accessible name with Testing Library, e.g. cy.findByRole('button', { name: 'Add to cart' })`,
+    '- Only interact with elements that are not hidden or disabled; assert on the state of the others',
+    "- Role and name don't identify elements marked 'not unique'; use a listed selector for those",
+  ];
+  if (elements.some(el => el.frameUrl)) {
+    lines.push(framework === 'playwright'
+      ? '- Elements in an iframe are reached through page.frameLocator(iframeSelector)'
+      : '- Elements in an iframe cannot be reached with cy.findByRole; skip them');
+  }
+  if (framework === 'cypress' && elements.some(el => el.inShadowDom)) {
+    lines.push('- Elements in shadow DOM need cy.get(selector, { includeShadowDom: true }) rather than cy.findByRole');
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,96 @@
+// Auth API contracts for TestFlow AI
+//
+// Request and response bodies of the /api/auth routes, and the helpers the
+// login page and the navbar call them with. Safe to import in the browser.
+// Without a database there are no accounts: /api/auth/me answers 503 and the
+// pages work signed out, keeping tests in localStorage.
+
+import type { AuthUser } from './auth';
+import type { MailMessage } from './mailer';
+import type { ApiErrorResponse } from './session-api';
+
+export type { AuthUser };
+
+// POST /api/auth/signup
+export interface SignUpRequest {
+  email: string;
+  password: string;
+  name?: string;
+}
+
+export interface SignUpResponse {
+  user: AuthUser;
+  verificationSent: true;
+}
+
+// POST /api/auth/signin
+export interface SignInRequest {
+  email: string;
+  password: string;
+}
+
+// GET /api/auth/me and POST /api/auth/signin
+export interface CurrentUserResponse {
+  user: AuthUser;
+}
+
+// POST /api/auth/magic-link
+export interface MagicLinkRequest {
+  email: string;
+}
+
+// GET /api/auth/outbox (?to= only with MAIL_OUTBOX_PUBLIC=1)
+export interface OutboxResponse {
+  messages: MailMessage[];
+}
+
+// The signed-in user; `accountsEnabled` is false when the server has no database
+export interface AuthState {
+  user: AuthUser | null;
+  accountsEnabled: boolean;
+}
+
+async function send<T>(path: string, body: object): Promise<T> {
+  const res = await fetch(path, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    const { error, details } = data as ApiErrorResponse;
+    throw new Error(details?.length ? `${error}: ${details.join(', ')}` : error || `Request failed with HTTP ${res.status}`);
+  }
+  return data as T;
+}
+
+export async function loadAuthState(): Promise<AuthState> {
+  const res = await fetch('/api/auth/me');
+  if (res.status === 503) return { user: null, accountsEnabled: false };
+  if (res.status === 401) return { user: null, accountsEnabled: true };
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error((data as ApiErrorResponse).error || `Request failed with HTTP ${res.status}`);
+  return { user: (data as CurrentUserResponse).user, accountsEnabled: true };
+}
+
+export function signUp(request: SignUpRequest): Promise<SignUpResponse> {
+  return send('/api/auth/signup', request);
+}
+
+export async function signIn(request: SignInRequest): Promise<AuthUser> {
+  const { user } = await send<CurrentUserResponse>('/api/auth/signin', request);
+  return user;
+}
+
+export async function requestMagicLink(request: MagicLinkRequest): Promise<void> {
+  await send('/api/auth/magic-link', request);
+}
+
+export async function signOut(): Promise<void> {
+  await send('/api/auth/signout', {});
+}
+
+// Path of the login page that comes back to `path` once signed in
+export function loginPath(path: string): string {
+  return `/login?next=${encodeURIComponent(path)}`;
+}
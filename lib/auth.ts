@@ -0,0 +1,250 @@
+// Authentication utilities for TestFlow AI
+//
+// Accounts sign in with an email and password, or with a one-time link emailed
+// to them (see mailer.ts). A password account can sign in once its address is
+// verified by opening such a link. Signing in sets an httpOnly cookie holding a
+// random token; the database keeps only the token's SHA-256 hash. Passwords are
+// hashed with scrypt. Everything stored (sessions, tests, projects, scans) is
+// owned by the user who created it, and routes only show users their own.
+
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { DatabaseService, isDatabaseAvailable } from './database';
+import { sendMail } from './mailer';
+import { anonymousRateLimiter, authRateLimiter, globalRateLimiter } from './validation';
+
+export interface AuthUser {
+  id: string;
+  email: string;
+  name?: string;
+  emailVerified: boolean;
+}
+
+export type LoginPurpose = 'verify-email' | 'magic-link';
+
+// Where a sign-in came from, stored with the session
+export interface ClientMeta {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export const AUTH_COOKIE = 'testflow_session';
+
+export const AUTH_LIMITS = {
+  sessionDays: 30,
+  magicLinkMinutes: 15,
+  verifyEmailHours: 24,
+};
+
+// A sign-in or sign-up that can't go ahead, with the HTTP status to answer with
+export class AuthError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+const KEY_LENGTH = 64;
+
+// `scrypt$<salt>$<hash>`, both base64
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString('base64')}$${hash.toString('base64')}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+  const expected = Buffer.from(hash, 'base64');
+  const actual = await scryptAsync(password, Buffer.from(salt, 'base64'), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function newToken() {
+  const token = randomBytes(32).toString('base64url');
+  return { token, tokenHash: hashToken(token) };
+}
+
+// Proxies in front of the server that append to x-forwarded-for (TRUST_PROXY, default 0).
+// 'true' counts as one.
+function trustedProxyHops(): number {
+  const value = process.env.TRUST_PROXY;
+  if (value === 'true') return 1;
+  const hops = Number(value);
+  return Number.isInteger(hops) && hops > 0 ? hops : 0;
+}
+
+function forwardedFor(req: Request): string[] {
+  return req.headers.get('x-forwarded-for')?.split(',').map(address => address.trim()).filter(Boolean) || [];
+}
+
+// The client address as the trusted proxies report it: only the entry the outermost
+// proxy appended counts. Clients can send these headers themselves, so without a
+// trusted proxy there is none.
+function trustedClientIp(req: Request): string | undefined {
+  const hops = trustedProxyHops();
+  if (hops === 0) return undefined;
+  const forwarded = forwardedFor(req);
+  return forwarded[Math.max(forwarded.length - hops, 0)] || req.headers.get('x-real-ip') || undefined;
+}
+
+export function clientIp(req: Request): string {
+  return trustedClientIp(req) || 'unknown';
+}
+
+export function clientMeta(req: Request): ClientMeta {
+  return { userAgent: req.headers.get('user-agent') || undefined, ipAddress: clientIp(req) };
+}
+
+// Requests from a signed-in user count against their own limit wherever they come from;
+// anonymous ones against their address. Without a trusted proxy that is the address the
+// client claims (Next.js sets the socket's when it claims none), kept apart from trusted ones.
+export function rateLimitKey(req: Request, user: AuthUser | null): string {
+  if (user) return `user:${user.id}`;
+  const trusted = trustedClientIp(req);
+  return trusted ? `ip:${trusted}` : `claimed-ip:${forwardedFor(req).pop() || 'unknown'}`;
+}
+
+const ANONYMOUS_KEY = 'anonymous';
+
+// Count a request against its rate limit. Claimed addresses also count against a
+// ceiling shared by all of them, so made-up ones can't multiply the limit without bound.
+// Returns when the limit resets, or null when the request is allowed.
+export function checkRateLimit(req: Request, user: AuthUser | null): number | null {
+  const key = rateLimitKey(req, user);
+  const claimed = key.startsWith('claimed-ip:');
+  if (claimed && anonymousRateLimiter.getRemainingRequests(ANONYMOUS_KEY) === 0) {
+    return anonymousRateLimiter.getResetTime(ANONYMOUS_KEY);
+  }
+  if (!globalRateLimiter.isAllowed(key)) return globalRateLimiter.getResetTime(key);
+  if (claimed) anonymousRateLimiter.isAllowed(ANONYMOUS_KEY);
+  return null;
+}
+
+// Count a sign-in attempt or emailed link against the address it is for, and the client's
+// address when a trusted proxy reported it. Returns when the limit resets, or null when allowed.
+export function checkAuthRateLimit(req: Request, email: string): number | null {
+  const trusted = trustedClientIp(req);
+  const keys = [`email:${email.trim().toLowerCase()}`, ...(trusted ? [`ip:${trusted}`] : [])];
+  if (authRateLimiter.isAllowedForAll(keys)) return null;
+  return Math.max(...keys.filter(key => authRateLimiter.getRemainingRequests(key) === 0).map(key => authRateLimiter.getResetTime(key)));
+}
+
+function readSessionToken(req: Request): string | undefined {
+  const cookies = req.headers.get('cookie') || '';
+  for (const part of cookies.split(';')) {
+    const [name, ...value] = part.trim().split('=');
+    if (name === AUTH_COOKIE) return decodeURIComponent(value.join('='));
+  }
+  return undefined;
+}
+
+// The signed-in user, or null when signed out, the session expired or there is no database
+export async function getCurrentUser(req: Request): Promise<AuthUser | null> {
+  const token = readSessionToken(req);
+  if (!token || !isDatabaseAvailable) return null;
+  return DatabaseService.getUserBySessionToken(hashToken(token));
+}
+
+// Options for the session cookie; an empty token with a past date clears it
+export function sessionCookie(token: string, expires: Date) {
+  return {
+    name: AUTH_COOKIE,
+    value: token,
+    httpOnly: true,
+    sameSite: 'lax' as const,
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    expires,
+  };
+}
+
+// Links in emails point at APP_URL. Only outside production may they fall back to the
+// request's origin, whose host comes from a header any client can set.
+export function appOrigin(req: Request): string {
+  const configured = process.env.APP_URL;
+  if (!configured && process.env.NODE_ENV === 'production') {
+    throw new Error('APP_URL must be set in production: links in emails are built from it');
+  }
+  return (configured || new URL(req.url).origin).replace(/\/$/, '');
+}
+
+async function sendLoginLink(user: AuthUser, purpose: LoginPurpose, origin: string) {
+  const { token, tokenHash } = newToken();
+  const ttlMs = purpose === 'magic-link'
+    ? AUTH_LIMITS.magicLinkMinutes * 60 * 1000
+    : AUTH_LIMITS.verifyEmailHours * 60 * 60 * 1000;
+  await DatabaseService.createLoginToken({ userId: user.id, tokenHash, purpose, expiresAt: new Date(Date.now() + ttlMs) });
+
+  const link = `${origin}/api/auth/callback?token=${token}`;
+  await sendMail(purpose === 'magic-link'
+    ? {
+      to: user.email,
+      subject: 'Sign in to TestFlow AI',
+      text: `Open this link to sign in. It works once, for ${AUTH_LIMITS.magicLinkMinutes} minutes:\n\n${link}\n`,
+    }
+    : {
+      to: user.email,
+      subject: 'Verify your email for TestFlow AI',
+      text: `Open this link to verify your address and sign in. It works once, for ${AUTH_LIMITS.verifyEmailHours} hours:\n\n${link}\n`,
+    });
+}
+
+async function startSession(user: AuthUser, meta: ClientMeta) {
+  const { token, tokenHash } = newToken();
+  const expiresAt = new Date(Date.now() + AUTH_LIMITS.sessionDays * 24 * 60 * 60 * 1000);
+  await DatabaseService.createAuthSession({ userId: user.id, tokenHash, expiresAt, ...meta });
+  return { user, token, expiresAt };
+}
+
+// Create a password account and email it a verification link; it can sign in once verified
+export async function signUp(input: { email: string; password: string; name?: string }, origin: string): Promise<AuthUser> {
+  if (await DatabaseService.getUserByEmail(input.email)) {
+    throw new AuthError('An account with this email already exists', 409);
+  }
+  const user = await DatabaseService.createUser({
+    email: input.email,
+    name: input.name,
+    passwordHash: await hashPassword(input.password),
+  });
+  await sendLoginLink(user, 'verify-email', origin);
+  return user;
+}
+
+export async function signInWithPassword(input: { email: string; password: string }, origin: string, meta: ClientMeta) {
+  const account = await DatabaseService.getUserByEmail(input.email);
+  if (!account?.passwordHash || !(await verifyPassword(input.password, account.passwordHash))) {
+    throw new AuthError('Wrong email or password', 401);
+  }
+  const { user } = account;
+  if (!user.emailVerified) {
+    await sendLoginLink(user, 'verify-email', origin);
+    throw new AuthError('Verify your email first; a new link was sent', 403);
+  }
+  return startSession(user, meta);
+}
+
+// Email a sign-in link, creating a passwordless account for a new address. Answers the same
+// either way, so it doesn't tell who has an account.
+export async function requestMagicLink(email: string, origin: string): Promise<void> {
+  const user = (await DatabaseService.getUserByEmail(email))?.user ?? (await DatabaseService.createUser({ email }));
+  await sendLoginLink(user, 'magic-link', origin);
+}
+
+// Open an emailed link: verifies the address and signs in. Returns null if the link
+// is unknown, used or expired.
+export async function redeemLoginLink(token: string, meta: ClientMeta) {
+  const user = await DatabaseService.consumeLoginToken(hashToken(token));
+  return user ? startSession(user, meta) : null;
+}
+
+export async function signOut(req: Request): Promise<void> {
+  const token = readSessionToken(req);
+  if (token && isDatabaseAvailable) await DatabaseService.deleteAuthSession(hashToken(token));
+}
@@ -0,0 +1,305 @@
+// Browser pool utilities for TestFlow AI
+//
+// Launching Chromium takes seconds, so snapshots and crawls share a few warm
+// browsers instead of launching one each; test runs get a Chromium of their own
+// (see test-runner.ts). Every use gets a fresh
+// context, so cookies and login state never leak between scans. The pool caps
+// how many contexts are open at once, retires a browser after a number of uses
+// (or as soon as it crashes), and keeps counters for the health endpoint.
+
+import playwright, { type Browser, type BrowserContext } from 'playwright';
+
+export interface BrowserPoolOptions {
+  maxBrowsers: number;
+  maxContexts: number; // open at once across all browsers; further requests wait
+  maxUsesPerBrowser: number; // a browser is replaced after this many contexts
+  idleTimeoutMs: number; // browsers unused this long are closed
+}
+
+export interface BrowserPoolMetrics {
+  launches: number;
+  launchFailures: number;
+  recycled: number; // retired after maxUsesPerBrowser uses
+  crashes: number;
+  contextsServed: number;
+  activeContexts: number;
+  waiting: number;
+  peakWaiting: number;
+  avgLaunchMs: number;
+  avgWaitMs: number; // time spent waiting for a free slot
+  avgUseMs: number; // time from acquiring a slot to closing the context
+  rssBytes: number; // memory of this server process (the browsers run as separate processes)
+}
+
+export interface BrowserPoolHealth {
+  status: 'ok' | 'degraded';
+  browsers: { id: number; uses: number; activeContexts: number; connected: boolean; ageMs: number }[];
+  lastError?: string;
+}
+
+// Chromium could not be started at all
+export class BrowserLaunchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BrowserLaunchError';
+  }
+}
+
+interface PooledBrowser {
+  id: number;
+  ready: Promise<Browser>;
+  browser?: Browser;
+  uses: number; // contexts handed out, including active ones
+  active: number;
+  retiring: boolean;
+  launchedAt: number;
+  lastUsedAt: number;
+}
+
+const DEFAULT_OPTIONS: BrowserPoolOptions = {
+  maxBrowsers: 2,
+  maxContexts: 4,
+  maxUsesPerBrowser: 50,
+  idleTimeoutMs: 5 * 60 * 1000,
+};
+
+function envInt(name: string, fallback: number, min: number): number {
+  const value = Number(process.env[name]);
+  return Number.isInteger(value) && value >= min ? value : fallback;
+}
+
+export function resolveBrowserPoolOptions(): BrowserPoolOptions {
+  return {
+    maxBrowsers: envInt('BROWSER_POOL_SIZE', DEFAULT_OPTIONS.maxBrowsers, 1),
+    maxContexts: envInt('BROWSER_POOL_MAX_CONTEXTS', DEFAULT_OPTIONS.maxContexts, 1),
+    maxUsesPerBrowser: envInt('BROWSER_POOL_MAX_USES', DEFAULT_OPTIONS.maxUsesPerBrowser, 1),
+    idleTimeoutMs: envInt('BROWSER_POOL_IDLE_MS', DEFAULT_OPTIONS.idleTimeoutMs, 0),
+  };
+}
+
+export class BrowserPool {
+  private readonly options: BrowserPoolOptions;
+  private readonly browsers: PooledBrowser[] = [];
+  private readonly waiters: (() => void)[] = [];
+  private nextId = 1;
+  private activeContexts = 0;
+  private lastError?: string;
+  private idleTimer?: NodeJS.Timeout;
+  private readonly counters = {
+    launches: 0,
+    launchFailures: 0,
+    recycled: 0,
+    crashes: 0,
+    contextsServed: 0,
+    peakWaiting: 0,
+    launchMs: 0,
+    waitMs: 0,
+    useMs: 0,
+  };
+
+  constructor(
+    options: Partial<BrowserPoolOptions> = {},
+    private readonly launch: () => Promise<Browser> = () => playwright.chromium.launch()
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  // Run `task` with a new context from a pooled browser. `createContext` builds
+  // the context (e.g. a logged-in one); it is always closed afterwards.
+  async withContext<T>(
+    createContext: (browser: Browser) => Promise<BrowserContext>,
+    task: (context: BrowserContext) => Promise<T>
+  ): Promise<T> {
+    const waitStarted = Date.now();
+    await this.acquireSlot();
+    const started = Date.now();
+    this.counters.waitMs += started - waitStarted;
+
+    let entry: PooledBrowser | undefined;
+    let context: BrowserContext | undefined;
+    try {
+      entry = this.pickBrowser();
+      entry.active++;
+      entry.uses++;
+      const browser = await entry.ready;
+
+      context = await createContext(browser);
+      this.counters.contextsServed++;
+      return await task(context);
+    } finally {
+      await context?.close().catch(() => {});
+      if (entry) this.release(entry);
+      this.counters.useMs += Date.now() - started;
+      this.releaseSlot();
+    }
+  }
+
+  metrics(): BrowserPoolMetrics {
+    const { launches, launchFailures, recycled, crashes, contextsServed, peakWaiting } = this.counters;
+    const average = (total: number, count: number) => (count > 0 ? Math.round(total / count) : 0);
+    return {
+      launches,
+      launchFailures,
+      recycled,
+      crashes,
+      contextsServed,
+      activeContexts: this.activeContexts,
+      waiting: this.waiters.length,
+      peakWaiting,
+      avgLaunchMs: average(this.counters.launchMs, launches),
+      avgWaitMs: average(this.counters.waitMs, contextsServed),
+      avgUseMs: average(this.counters.useMs, contextsServed),
+      rssBytes: process.memoryUsage().rss,
+    };
+  }
+
+  health(): BrowserPoolHealth {
+    const now = Date.now();
+    const browsers = this.browsers
+      .filter(entry => entry.browser)
+      .map(entry => ({
+        id: entry.id,
+        uses: entry.uses,
+        activeContexts: entry.active,
+        connected: entry.browser!.isConnected(),
+        ageMs: now - entry.launchedAt,
+      }));
+    return {
+      // A failed launch since the last successful one means scans are failing
+      status: this.lastError ? 'degraded' : 'ok',
+      browsers,
+      lastError: this.lastError,
+    };
+  }
+
+  // Close every browser, e.g. on shutdown
+  async close() {
+    clearTimeout(this.idleTimer);
+    const entries = this.browsers.splice(0);
+    await Promise.all(entries.map(entry => this.closeBrowser(entry)));
+  }
+
+  private acquireSlot(): Promise<void> {
+    if (this.activeContexts < this.options.maxContexts) {
+      this.activeContexts++;
+      return Promise.resolve();
+    }
+    return new Promise(resolve => {
+      this.waiters.push(() => {
+        this.activeContexts++;
+        resolve();
+      });
+      this.counters.peakWaiting = Math.max(this.counters.peakWaiting, this.waiters.length);
+    });
+  }
+
+  private releaseSlot() {
+    this.activeContexts--;
+    this.waiters.shift()?.();
+  }
+
+  // The least busy usable browser, launching another while under maxBrowsers
+  private pickBrowser(): PooledBrowser {
+    const usable = this.browsers.filter(entry => !entry.retiring);
+    const leastBusy = usable.sort((a, b) => a.active - b.active)[0];
+    if (leastBusy && (leastBusy.active === 0 || this.browsers.length >= this.options.maxBrowsers)) {
+      return leastBusy;
+    }
+    return this.launchBrowser();
+  }
+
+  private launchBrowser(): PooledBrowser {
+    const launchStarted = Date.now();
+    const entry = {
+      id: this.nextId++,
+      uses: 0,
+      active: 0,
+      retiring: false,
+      launchedAt: launchStarted,
+      lastUsedAt: launchStarted,
+    } as PooledBrowser;
+
+    entry.ready = this.launch().then(
+      browser => {
+        this.counters.launches++;
+        this.counters.launchMs += Date.now() - launchStarted;
+        this.lastError = undefined;
+        entry.browser = browser;
+        browser.on('disconnected', () => {
+          // Closed by us when retiring; anything else is a crash
+          if (this.remove(entry) && !entry.retiring) {
+            this.counters.crashes++;
+            console.warn(`Pooled browser ${entry.id} disconnected unexpectedly`);
+          }
+        });
+        return browser;
+      },
+      err => {
+        this.counters.launchFailures++;
+        this.lastError = err instanceof Error ? err.message : String(err);
+        this.remove(entry);
+        throw new BrowserLaunchError(`Could not launch Chromium: ${this.lastError}`);
+      }
+    );
+    this.browsers.push(entry);
+    return entry;
+  }
+
+  private release(entry: PooledBrowser) {
+    entry.active--;
+    entry.lastUsedAt = Date.now();
+
+    // Crashed (or failed to launch) and already dropped
+    if (!this.browsers.includes(entry)) return;
+
+    if (!entry.retiring && entry.uses >= this.options.maxUsesPerBrowser) {
+      entry.retiring = true;
+      this.counters.recycled++;
+    }
+    if (entry.retiring && entry.active === 0) {
+      this.remove(entry);
+      void this.closeBrowser(entry);
+    }
+    this.scheduleIdleCheck();
+  }
+
+  // Drop a browser from the pool; false if it was already gone
+  private remove(entry: PooledBrowser): boolean {
+    const index = this.browsers.indexOf(entry);
+    if (index === -1) return false;
+    this.browsers.splice(index, 1);
+    return true;
+  }
+
+  private async closeBrowser(entry: PooledBrowser) {
+    entry.retiring = true;
+    const browser = await entry.ready.catch(() => null);
+    await browser?.close().catch(() => {});
+  }
+
+  // Close browsers nobody has used for idleTimeoutMs
+  private scheduleIdleCheck() {
+    if (this.idleTimer || this.options.idleTimeoutMs === 0) return;
+    this.idleTimer = setTimeout(() => {
+      this.idleTimer = undefined;
+      const cutoff = Date.now() - this.options.idleTimeoutMs;
+      for (const entry of [...this.browsers]) {
+        if (entry.active === 0 && entry.lastUsedAt <= cutoff) {
+          this.remove(entry);
+          void this.closeBrowser(entry);
+        }
+      }
+      if (this.browsers.length > 0) this.scheduleIdleCheck();
+    }, this.options.idleTimeoutMs);
+    // Idle browsers shouldn't keep the process alive
+    this.idleTimer.unref?.();
+  }
+}
+
+const globalForPool = globalThis as typeof globalThis & { browserPool?: BrowserPool };
+
+// The server-wide pool, kept across hot reloads in development
+export function getBrowserPool(): BrowserPool {
+  globalForPool.browserPool ??= new BrowserPool(resolveBrowserPoolOptions());
+  return globalForPool.browserPool;
+}
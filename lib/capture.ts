@@ -0,0 +1,166 @@
+// Page capture option utilities for TestFlow AI
+//
+// How a page is loaded for scanning: device emulation from Playwright's device
+// descriptors, a custom viewport, color scheme, locale and timezone, and what to
+// wait for before the page is read. Tests generated for an emulated device or
+// custom viewport get a setup block that sets the same viewport when they run.
+
+import { devices, type BrowserContextOptions, type Page } from 'playwright';
+import { gotoAuthenticated, type LoginRecipe } from './login-recipes';
+import type { TestFramework } from './frameworks';
+
+export type WaitStrategy = 'load' | 'domcontentloaded' | 'networkidle' | 'selector' | 'delay';
+
+export const WAIT_STRATEGIES: WaitStrategy[] = ['load', 'domcontentloaded', 'networkidle', 'selector', 'delay'];
+
+export type ColorScheme = 'light' | 'dark' | 'no-preference';
+
+export const COLOR_SCHEMES: ColorScheme[] = ['light', 'dark', 'no-preference'];
+
+export interface Viewport {
+  width: number;
+  height: number;
+}
+
+export interface CaptureOptions {
+  device?: string; // a Playwright device name, e.g. 'iPhone 13'
+  viewport?: Viewport; // overrides the device's viewport
+  colorScheme?: ColorScheme;
+  locale?: string;
+  timezoneId?: string;
+  waitUntil?: WaitStrategy;
+  waitForSelector?: string; // with waitUntil 'selector'
+  delayMs?: number; // with waitUntil 'delay'
+  timeoutMs?: number; // navigation timeout
+}
+
+export const CAPTURE_LIMITS = {
+  minViewport: 200,
+  maxViewport: 3840,
+  maxDelayMs: 30000,
+  maxTimeoutMs: 120000,
+};
+
+export const DEFAULT_VIEWPORT: Viewport = { width: 1600, height: 1200 }; // larger resolution
+export const DEFAULT_WAIT_STRATEGY: WaitStrategy = 'networkidle';
+export const DEFAULT_NAVIGATION_TIMEOUT_MS = 30000;
+
+export function isDeviceName(name: unknown): name is string {
+  return typeof name === 'string' && Object.prototype.hasOwnProperty.call(devices, name);
+}
+
+export function resolveViewport(capture: CaptureOptions = {}): Viewport {
+  return capture.viewport ?? (capture.device ? devices[capture.device]?.viewport : undefined) ?? DEFAULT_VIEWPORT;
+}
+
+// The viewport tests should run at, or null for the default desktop capture
+export function testViewport(capture: CaptureOptions = {}): Viewport | null {
+  return capture.device || capture.viewport ? resolveViewport(capture) : null;
+}
+
+// Browser context options for a capture
+export function captureContextOptions(capture: CaptureOptions = {}): BrowserContextOptions {
+  return {
+    ...(capture.device && devices[capture.device]),
+    viewport: resolveViewport(capture),
+    ...(capture.colorScheme && { colorScheme: capture.colorScheme }),
+    ...(capture.locale && { locale: capture.locale }),
+    ...(capture.timezoneId && { timezoneId: capture.timezoneId }),
+  };
+}
+
+// Navigate and wait as the capture asks, signing in again through `recipe` if the session expired.
+// Selector and delay waits start once the page has loaded.
+export async function gotoForCapture(page: Page, url: string, capture: CaptureOptions = {}, recipe: LoginRecipe | null = null) {
+  const strategy = capture.waitUntil ?? DEFAULT_WAIT_STRATEGY;
+  const timeout = capture.timeoutMs ?? DEFAULT_NAVIGATION_TIMEOUT_MS;
+
+  const response = await gotoAuthenticated(page, url, recipe, {
+    timeout,
+    waitUntil: strategy === 'selector' || strategy === 'delay' ? 'load' : strategy,
+  });
+  if (strategy === 'selector' && capture.waitForSelector) {
+    await page.waitForSelector(capture.waitForSelector, { timeout });
+  } else if (strategy === 'delay' && capture.delayMs) {
+    await page.waitForTimeout(capture.delayMs);
+  }
+  return response;
+}
+
+// Describe the capture for a prompt, e.g. 'iPhone 13 390x664, mobile, touch'
+export function describeCapture(capture: CaptureOptions = {}): string {
+  const { width, height } = resolveViewport(capture);
+  const device = capture.device ? devices[capture.device] : undefined;
+  const traits = [device?.isMobile && 'mobile', device?.hasTouch && 'touch'].filter(Boolean).join(', ');
+  return `${capture.device ? `${capture.device} ` : ''}${width}x${height}${traits ? `, ${traits}` : ''}`;
+}
+
+// Prompt section describing the emulated device, locale and viewport setup
+export function capturePromptNotes(capture: CaptureOptions, framework: TestFramework): string {
+  const viewport = testViewport(capture);
+  const lines = [];
+  if (viewport) {
+    lines.push(
+      `The page was captured at ${describeCapture(capture)}. Tests run at this viewport: ${
+        framework === 'playwright' ? 'a test.use({ viewport })' : 'a cy.viewport()'
+      } setup is added to every test file automatically.`,
+      '- Test the layout at this size (e.g. navigation hidden behind a menu button on small screens)',
+      `- Do not set the viewport yourself`
+    );
+  }
+  if (capture.locale) lines.push(`- The page is shown in the ${capture.locale} locale; expect text in that language`);
+  if (capture.timezoneId) lines.push(`- Dates and times are shown in the ${capture.timezoneId} timezone`);
+  if (capture.colorScheme) lines.push(`- The page uses its ${capture.colorScheme} color scheme`);
+  return lines.length > 0 ? `DEVICE:\n${lines.join('\n')}` : '';
+}
+
+const SETUP_START = '// --- TestFlow viewport ---';
+const SETUP_END = '// --- end viewport ---';
+
+export function buildViewportSetup(viewport: Viewport, framework: TestFramework): string {
+  const { width, height } = viewport;
+  const body = framework === 'playwright'
+    ? `test.use({ viewport: { width: ${width}, height: ${height} } });`
+    : `beforeEach(() => {\n  cy.viewport(${width}, ${height});\n});`;
+  return `${SETUP_START}\n${body}\n${SETUP_END}`;
+}
+
+// The setup block in the code, or null if it has none
+export function extractViewportSetup(code: string): string | null {
+  const start = code.indexOf(SETUP_START);
+  const end = code.indexOf(SETUP_END);
+  return start === -1 || end === -1 ? null : code.slice(start, end + SETUP_END.length);
+}
+
+export function stripViewportSetup(code: string): string {
+  const start = code.indexOf(SETUP_START);
+  const end = code.indexOf(SETUP_END);
+  if (start === -1 || end === -1) return code;
+  return `${code.slice(0, start).trimEnd()}\n\n${code.slice(end + SETUP_END.length).trimStart()}`.trim();
+}
+
+// Add the setup (replacing any earlier copy). Playwright specs get it after their imports.
+export function withViewportSetup(code: string, viewport: Viewport, framework: TestFramework): string {
+  const setup = buildViewportSetup(viewport, framework);
+  const rest = stripViewportSetup(code);
+  if (framework !== 'playwright') return `${setup}\n\n${rest}`;
+
+  const imports = rest.match(/^(?:\s*import\s[^;]+;\s*)+/);
+  if (!imports) return `${setup}\n\n${rest}`;
+  return `${imports[0].trimEnd()}\n\n${setup}\n\n${rest.slice(imports[0].length).trimStart()}`;
+}
+
+// Attach the viewport setup to every test that has code; no-op for a default capture
+export function withViewportSetups<T extends { code?: unknown }>(
+  tests: T[],
+  capture: CaptureOptions | undefined,
+  framework: TestFramework
+): T[] {
+  const viewport = testViewport(capture);
+  if (!viewport) return tests;
+  return tests.map(test =>
+    typeof test.code === 'string' && test.code.trim()
+      ? { ...test, code: withViewportSetup(test.code, viewport, framework) }
+      : test
+  );
+}
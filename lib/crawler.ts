@@ -0,0 +1,145 @@
+// Site crawling utilities for TestFlow AI
+//
+// Follows same-origin links breadth-first from a start URL and snapshots every
+// page with the same extraction as a single-page scan, so tests can be
+// generated for a whole small app in one pass.
+
+import { getBrowserPool } from './browser-pool';
+import { extractSnapshot, type PageSnapshot } from './snapshot';
+import { recordApiCalls } from './network';
+import { recordPageHealth } from './page-health';
+import { captureContextOptions, gotoForCapture, type CaptureOptions } from './capture';
+import { validateUrl, CRAWL_LIMITS } from './validation';
+import { newScanContext, type LoginRecipe } from './login-recipes';
+
+export interface CrawlOptions {
+  maxDepth?: number;
+  maxPages?: number;
+  capture?: CaptureOptions; // applies to every page
+  loginRecipe?: LoginRecipe | null; // signs in before the first page
+}
+
+export interface CrawledPage extends PageSnapshot {
+  url: string;
+  depth: number;
+}
+
+export interface SiteMapNode {
+  url: string;
+  title: string;
+  depth: number;
+  parent?: string;
+  links: string[]; // same-origin pages this one links to
+  error?: string;
+}
+
+export interface CrawlResult {
+  pages: CrawledPage[];
+  siteMap: SiteMapNode[];
+}
+
+export const DEFAULT_CRAWL_DEPTH = 1;
+export const DEFAULT_CRAWL_PAGES = 5;
+
+// Links to these are downloads or assets, not pages
+const SKIPPED_EXTENSIONS = /\.(pdf|zip|gz|tar|dmg|exe|png|jpe?g|gif|svg|webp|ico|mp3|mp4|webm|css|js|json|xml|txt|csv)$/i;
+
+// Following these would end the session we are crawling with
+const LOGOUT_PATHS = /\/(log-?out|sign-?out)\b/i;
+
+// Canonical form of a same-origin page link, or null if it shouldn't be crawled
+export function normalizeCrawlUrl(href: string, base: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(href, base);
+  } catch {
+    return null;
+  }
+
+  if (!['http:', 'https:'].includes(parsed.protocol)) return null;
+  if (parsed.origin !== new URL(base).origin) return null;
+  if (SKIPPED_EXTENSIONS.test(parsed.pathname)) return null;
+
+  parsed.hash = '';
+  if (parsed.pathname.length > 1) {
+    parsed.pathname = parsed.pathname.replace(/\/+$/, '');
+  }
+  return parsed.toString();
+}
+
+function clamp(value: number | undefined, fallback: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value ?? fallback));
+}
+
+// Breadth-first crawl; only the start page gets a screenshot to keep the result small
+export async function crawlSite(startUrl: string, options: CrawlOptions = {}): Promise<CrawlResult> {
+  const maxDepth = clamp(options.maxDepth, DEFAULT_CRAWL_DEPTH, 0, CRAWL_LIMITS.maxDepth);
+  const maxPages = clamp(options.maxPages, DEFAULT_CRAWL_PAGES, 1, CRAWL_LIMITS.maxPages);
+
+  const pages: CrawledPage[] = [];
+  const siteMap: SiteMapNode[] = [];
+  const queue: { url: string; depth: number; parent?: string }[] = [{ url: startUrl, depth: 0 }];
+  const seen = new Set<string>();
+  let origin = startUrl;
+
+  // Behind a login, the login page and logout links are not worth a visit
+  const recipe = options.loginRecipe ?? null;
+  const loginUrl = recipe ? normalizeCrawlUrl(recipe.loginUrl, recipe.loginUrl) : null;
+
+  await getBrowserPool().withContext(
+    browser => newScanContext(browser, recipe, captureContextOptions(options.capture)),
+    async context => {
+      const page = await context.newPage();
+
+      while (queue.length > 0 && siteMap.length < maxPages) {
+        const next = queue.shift()!;
+        const network = recordApiCalls(page);
+        const health = recordPageHealth(page);
+        try {
+          await gotoForCapture(page, next.url, options.capture, recipe);
+
+          // The start page may redirect (e.g. to www.); later pages must stay on that origin
+          if (next.depth === 0) {
+            origin = page.url();
+            seen.add(normalizeCrawlUrl(next.url, next.url) || next.url);
+          }
+          const finalUrl = normalizeCrawlUrl(page.url(), origin);
+          if (!finalUrl) {
+            siteMap.push({ ...next, title: '', links: [], error: `Redirected off-site to ${page.url()}` });
+            continue;
+          }
+          seen.add(finalUrl);
+
+          const snapshot = await extractSnapshot(page, { screenshot: next.depth === 0, network, health });
+          const hrefs = await page.$$eval('a[href]', els => els.map(e => (e as HTMLAnchorElement).href));
+          const links = Array.from(new Set(
+            hrefs.map(href => normalizeCrawlUrl(href, origin)).filter((href): href is string => !!href && href !== finalUrl)
+          ));
+
+          pages.push({ url: finalUrl, depth: next.depth, ...snapshot });
+          siteMap.push({ url: finalUrl, title: snapshot.domData.title, depth: next.depth, parent: next.parent, links });
+
+          if (next.depth < maxDepth) {
+            for (const link of links) {
+              // Apply the same URL policy as user input (e.g. no private hosts in production)
+              if (seen.has(link) || !validateUrl(link).isValid) continue;
+              if (link === loginUrl || (recipe && LOGOUT_PATHS.test(new URL(link).pathname))) continue;
+              seen.add(link);
+              queue.push({ url: link, depth: next.depth + 1, parent: finalUrl });
+            }
+          }
+        } catch (err) {
+          // Without the start page there is nothing to crawl
+          if (next.depth === 0) throw err;
+          siteMap.push({ ...next, title: '', links: [], error: err instanceof Error ? err.message : String(err) });
+        } finally {
+          // Already stopped unless the page failed or redirected away
+          await network.stop();
+          health.stop();
+        }
+      }
+    }
+  );
+
+  return { pages, siteMap };
+}
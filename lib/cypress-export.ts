@@ -0,0 +1,145 @@
+// Cypress project export for TestFlow AI
+//
+// Turns a stored session into a standalone Cypress project so the generated
+// tests can be dropped into a repo and run with `npx cypress run`.
+
+import JSZip from 'jszip';
+import { extractViewportSetup, stripViewportSetup } from './capture';
+import { extractLoginHelper, stripLoginHelper } from './login-recipes';
+import { CYPRESS_PLUGIN_COMMANDS } from './test-validator';
+
+export type ExportGrouping = 'test' | 'category';
+
+export interface ExportOptions {
+  groupBy?: ExportGrouping;
+  env?: string[]; // Cypress.env() keys the tests need, e.g. login credentials
+}
+
+export interface ExportableSession {
+  id: string;
+  url: string;
+  tests: { title: string; code: string; category?: string | null }[];
+}
+
+// How exported projects install and load each plugin generated tests may use
+const CYPRESS_PLUGINS: Record<keyof typeof CYPRESS_PLUGIN_COMMANDS, { version: string; support: string }> = {
+  '@testing-library/cypress': { version: '^10.0.3', support: '@testing-library/cypress/add-commands' },
+};
+
+// Lowercase, dash-separated file name stem
+export function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60) || 'test';
+}
+
+function specFiles(session: ExportableSession, groupBy: ExportGrouping): Map<string, string> {
+  const files = new Map<string, string>();
+  const header = `// Generated by TestFlow AI from ${session.url}\n\n`;
+
+  if (groupBy === 'category') {
+    // Each test carries its own viewport setup and login() helper; a shared spec file
+    // declares them once at the top instead
+    const groups = new Map<string, { setup: Set<string>; codes: string[] }>();
+    for (const test of session.tests) {
+      const category = slugify(test.category || 'general');
+      const group = groups.get(category) || { setup: new Set<string>(), codes: [] };
+      for (const block of [extractViewportSetup(test.code), extractLoginHelper(test.code)]) {
+        if (block) group.setup.add(block);
+      }
+      group.codes.push(`// ${test.title}\n${stripViewportSetup(stripLoginHelper(test.code)).trim()}\n`);
+      groups.set(category, group);
+    }
+    for (const [category, { setup, codes }] of groups) {
+      const preamble = [...setup].map(block => `${block}\n\n`).join('');
+      files.set(`cypress/e2e/${category}.cy.ts`, header + preamble + codes.join('\n'));
+    }
+    return files;
+  }
+
+  session.tests.forEach((test, index) => {
+    const prefix = String(index + 1).padStart(2, '0');
+    files.set(`cypress/e2e/${prefix}-${slugify(test.title)}.cy.ts`, `${header}${test.code.trim()}\n`);
+  });
+  return files;
+}
+
+// All files of the exported project, keyed by path
+export function buildCypressProject(session: ExportableSession, options: ExportOptions = {}): Map<string, string> {
+  const { groupBy = 'test', env = [] } = options;
+  const baseUrl = new URL(session.url).origin;
+  const name = `testflow-${slugify(new URL(session.url).hostname)}`;
+  const files = new Map<string, string>();
+
+  files.set('package.json', JSON.stringify({
+    name,
+    private: true,
+    scripts: {
+      'cy:open': 'cypress open',
+      'cy:run': 'cypress run',
+    },
+    devDependencies: {
+      cypress: '^13.17.0',
+      typescript: '^5',
+      ...Object.fromEntries(Object.entries(CYPRESS_PLUGINS).map(([pkg, plugin]) => [pkg, plugin.version])),
+    },
+  }, null, 2) + '\n');
+
+  files.set('cypress.config.ts', `import { defineConfig } from 'cypress';
+
+export default defineConfig({
+  e2e: {
+    baseUrl: '${baseUrl}',
+    specPattern: 'cypress/e2e/**/*.cy.ts',
+    supportFile: 'cypress/support/e2e.ts',
+    video: false,
+  },
+});
+`);
+
+  files.set('cypress/support/e2e.ts', `// Loaded before every spec file.
+// Add custom commands and global hooks here.
+
+${Object.values(CYPRESS_PLUGINS).map(plugin => `import '${plugin.support}';`).join('\n')}
+`);
+
+  files.set('cypress/tsconfig.json', JSON.stringify({
+    compilerOptions: {
+      target: 'es2020',
+      lib: ['es2020', 'dom'],
+      types: ['cypress', ...Object.keys(CYPRESS_PLUGINS)],
+    },
+    include: ['**/*.ts'],
+  }, null, 2) + '\n');
+
+  files.set('README.md', `# ${name}
+
+Cypress tests generated by TestFlow AI for ${session.url} (session ${session.id}).
+
+\`\`\`bash
+npm install
+npx cypress run
+\`\`\`
+${env.length > 0 ? `
+The tests sign in with \`cy.session\`. Provide the credentials as environment variables:
+
+\`\`\`bash
+${env.map(key => `CYPRESS_${key}=...`).join(' ')} npx cypress run
+\`\`\`
+` : ''}`);
+
+  for (const [path, content] of specFiles(session, groupBy)) {
+    files.set(path, content);
+  }
+  return files;
+}
+
+export async function zipCypressProject(session: ExportableSession, options: ExportOptions = {}): Promise<Uint8Array> {
+  const zip = new JSZip();
+  for (const [path, content] of buildCypressProject(session, options)) {
+    zip.file(path, content);
+  }
+  return zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' });
+}
@@ -0,0 +1,821 @@
+// Cypress command emulation on top of Playwright for TestFlow AI
+//
+// Generated tests are written against the Cypress API, but the only browser
+// automation we ship is Playwright. This module implements the subset of the
+// Cypress command queue our generator produces so that a test can be executed
+// without a Cypress install. Commands are queued synchronously while the `it`
+// body runs and are then executed one after another, like Cypress does.
+
+import type { Locator, Page, Route } from 'playwright';
+
+export const DEFAULT_COMMAND_TIMEOUT = 4000;
+const RETRY_INTERVAL_MS = 100;
+
+// How long cy.wait('@alias') waits for the request and its response, like Cypress's responseTimeout
+const ALIAS_WAIT_TIMEOUT_MS = 30000;
+
+export type Subject =
+  | { kind: 'none' }
+  | { kind: 'locator'; locator: Locator }
+  | { kind: 'value'; value: unknown; requery?: () => Promise<unknown> }
+  | { kind: 'intercept'; intercept: Intercept };
+
+type UncaughtExceptionHandler = (error: Error) => unknown;
+
+// A request matched by cy.intercept(), as cy.wait('@alias') yields it
+interface InterceptedCall {
+  request: { method: string; url: string; headers: Record<string, string>; body: unknown };
+  response?: { statusCode: number; headers: Record<string, string>; body: unknown };
+}
+
+interface Intercept {
+  calls: InterceptedCall[];
+  waited: number; // calls already yielded by cy.wait()
+}
+
+// The parts of a Cypress StaticResponse we honour
+interface StaticResponse {
+  statusCode?: number;
+  headers?: Record<string, string>;
+  body?: unknown;
+  forceNetworkError?: boolean;
+}
+
+const HTTP_METHODS = new Set(['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS']);
+const STATIC_RESPONSE_KEYS = ['statusCode', 'headers', 'body', 'forceNetworkError'];
+
+// Error raised by a failing command, carrying the command that failed
+export class CommandError extends Error {
+  readonly command: string;
+
+  constructor(message: string, command: string) {
+    super(message);
+    this.name = 'CommandError';
+    this.command = command;
+  }
+}
+
+type AriaRole = Parameters<Page['getByRole']>[0];
+
+// Options of Testing Library's *ByRole queries we honour
+interface ByRoleOptions {
+  name?: string | RegExp;
+  hidden?: boolean;
+}
+
+// Cypress matches a string against the whole URL as a glob, or as a path when it starts with '/'
+export function matchesUrl(url: string, matcher: string | RegExp): boolean {
+  if (matcher instanceof RegExp) return matcher.test(url);
+  if (url === matcher) return true;
+  const parsed = new URL(url);
+  const target = matcher.startsWith('/') ? `${parsed.pathname}${parsed.search}` : url;
+  if (!/[*?]/.test(matcher)) return target === matcher || (matcher.startsWith('/') && parsed.pathname === matcher);
+  const glob = { '**/': '(?:.*/)?', '**': '.*', '*': '[^/]*', '?': '.' } as Record<string, string>;
+  const pattern = new RegExp(`^${matcher
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*\*\/|\*\*|\*|\?/g, token => glob[token])}$`);
+  return pattern.test(target) || pattern.test(parsed.pathname);
+}
+
+function parseBody(text: string | null): unknown {
+  if (!text) return text ?? undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+// Testing Library matches a string name exactly; Playwright defaults to a substring match
+function byRole(scope: Page | Locator, role: string, options: ByRoleOptions = {}): Locator {
+  return scope.getByRole(role as AriaRole, {
+    name: options.name,
+    exact: typeof options.name === 'string',
+    includeHidden: options.hidden,
+  });
+}
+
+interface QueuedCommand {
+  name: string;
+  run: (subject: Subject) => Promise<Subject>;
+}
+
+// Chai connector words that carry no meaning of their own
+const CONNECTOR_WORDS = new Set([
+  'to', 'be', 'been', 'is', 'that', 'which', 'and', 'has', 'have', 'with',
+  'at', 'of', 'same', 'does', 'still', 'also', 'deep',
+]);
+
+// Assertions that chai exposes as property getters rather than methods
+const GETTER_ASSERTIONS = new Set([
+  'true', 'false', 'ok', 'null', 'undefined', 'empty', 'exist', 'visible',
+  'hidden', 'enabled', 'disabled', 'checked',
+]);
+
+// Cypress viewport presets (subset of the official list)
+const VIEWPORT_PRESETS: Record<string, [number, number]> = {
+  'macbook-16': [1536, 960],
+  'macbook-15': [1440, 900],
+  'macbook-13': [1280, 800],
+  'macbook-11': [1366, 768],
+  'ipad-2': [768, 1024],
+  'ipad-mini': [768, 1024],
+  'iphone-xr': [414, 896],
+  'iphone-x': [375, 812],
+  'iphone-8': [375, 667],
+  'iphone-se2': [375, 667],
+  'iphone-6': [375, 667],
+  'samsung-s10': [360, 760],
+  'samsung-note9': [414, 846],
+};
+
+// Keys understood inside cy.type() special sequences, e.g. "{enter}"
+const TYPE_KEYS: Record<string, string> = {
+  enter: 'Enter',
+  esc: 'Escape',
+  backspace: 'Backspace',
+  del: 'Delete',
+  tab: 'Tab',
+  selectall: 'ControlOrMeta+A',
+  uparrow: 'ArrowUp',
+  downarrow: 'ArrowDown',
+  leftarrow: 'ArrowLeft',
+  rightarrow: 'ArrowRight',
+  home: 'Home',
+  end: 'End',
+  pageup: 'PageUp',
+  pagedown: 'PageDown',
+};
+
+export function normalizeChainer(chainer: string): { negate: boolean; key: string } {
+  const words = chainer.split('.').filter(Boolean);
+  const negate = words.includes('not');
+  const key = words
+    .filter(word => word !== 'not' && !CONNECTOR_WORDS.has(word))
+    .join('.');
+  return { negate, key };
+}
+
+function describeValue(value: unknown): string {
+  if (typeof value === 'string') return `'${value}'`;
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return String(value);
+  }
+}
+
+function lengthOf(value: unknown): number {
+  if (typeof value === 'string' || Array.isArray(value)) return value.length;
+  if (value && typeof value === 'object' && 'length' in value) {
+    return Number((value as { length: unknown }).length);
+  }
+  return NaN;
+}
+
+// Evaluate an assertion against a plain value; returns a failure message or null
+export function checkValue(value: unknown, key: string, args: unknown[]): string | null {
+  const [expected, second] = args;
+  const pass = (() => {
+    switch (key) {
+      case 'eq':
+      case 'equal':
+      case 'equals':
+        return value === expected;
+      case 'eql':
+        return JSON.stringify(value) === JSON.stringify(expected);
+      case 'include':
+      case 'contain':
+      case 'contains':
+      case 'contain.text':
+      case 'include.text':
+        if (typeof value === 'string') return value.includes(String(expected));
+        if (Array.isArray(value)) return value.includes(expected);
+        return false;
+      case 'match':
+        return expected instanceof RegExp && expected.test(String(value));
+      case 'true':
+        return value === true;
+      case 'false':
+        return value === false;
+      case 'ok':
+        return Boolean(value);
+      case 'null':
+        return value === null;
+      case 'undefined':
+        return value === undefined;
+      case 'exist':
+        return value !== null && value !== undefined;
+      case 'empty':
+        return lengthOf(value) === 0;
+      case 'length':
+      case 'lengthOf':
+        return lengthOf(value) === Number(expected);
+      case 'greaterThan':
+      case 'gt':
+      case 'above':
+      case 'length.greaterThan':
+      case 'length.gt':
+      case 'length.above':
+        return (key.startsWith('length') ? lengthOf(value) : Number(value)) > Number(expected);
+      case 'lessThan':
+      case 'lt':
+      case 'below':
+      case 'length.lessThan':
+      case 'length.lt':
+      case 'length.below':
+        return (key.startsWith('length') ? lengthOf(value) : Number(value)) < Number(expected);
+      case 'least':
+      case 'gte':
+      case 'length.least':
+        return (key.startsWith('length') ? lengthOf(value) : Number(value)) >= Number(expected);
+      case 'most':
+      case 'lte':
+      case 'length.most':
+        return (key.startsWith('length') ? lengthOf(value) : Number(value)) <= Number(expected);
+      case 'within':
+        return Number(value) >= Number(expected) && Number(value) <= Number(second);
+      case 'oneOf':
+        return Array.isArray(expected) && expected.includes(value);
+      case 'a':
+      case 'an':
+        return typeof value === String(expected).toLowerCase();
+      default:
+        throw new Error(`Unsupported assertion: ${key}`);
+    }
+  })();
+
+  if (pass) return null;
+  const expectation = args.length > 0 ? ` ${args.map(describeValue).join(', ')}` : '';
+  return `expected ${describeValue(value)} to ${key.replace(/\./g, ' ')}${expectation}`;
+}
+
+// Evaluate an assertion against a Locator; returns a failure message or null
+async function checkLocator(locator: Locator, key: string, args: unknown[]): Promise<string | null> {
+  const [expected, second] = args;
+  const first = locator.first();
+  const count = await locator.count();
+
+  switch (key) {
+    case 'exist':
+      return count > 0 ? null : 'expected element to exist in the DOM';
+    case 'visible':
+      return count > 0 && await first.isVisible() ? null : 'expected element to be visible';
+    case 'hidden':
+      return count > 0 && await first.isHidden() ? null : 'expected element to be hidden';
+    case 'enabled':
+      return count > 0 && await first.isEnabled() ? null : 'expected element to be enabled';
+    case 'disabled':
+      return count > 0 && await first.isDisabled() ? null : 'expected element to be disabled';
+    case 'checked':
+      return count > 0 && await first.isChecked() ? null : 'expected element to be checked';
+    case 'focused':
+      return count > 0 && await first.evaluate(el => el === document.activeElement)
+        ? null
+        : 'expected element to be focused';
+    case 'value':
+      return checkValue(count > 0 ? await first.inputValue() : undefined, 'equal', [expected]);
+    case 'text':
+      return checkValue(count > 0 ? (await first.textContent())?.trim() : undefined, 'equal', [expected]);
+    case 'attr': {
+      const attr = count > 0 ? await first.getAttribute(String(expected)) : null;
+      if (args.length < 2) return attr !== null ? null : `expected element to have attribute ${describeValue(expected)}`;
+      return checkValue(attr, 'equal', [second]);
+    }
+    case 'class': {
+      const className = count > 0 ? await first.getAttribute('class') : null;
+      const classes = (className || '').split(/\s+/);
+      return classes.includes(String(expected)) ? null : `expected element to have class ${describeValue(expected)}`;
+    }
+    case 'css': {
+      if (count === 0) return 'expected element to exist in the DOM';
+      const property = String(expected);
+      const actual = await first.evaluate((el, prop) => getComputedStyle(el).getPropertyValue(prop), property);
+      return checkValue(actual, 'equal', [second]);
+    }
+    case 'empty': {
+      const text = count > 0 ? ((await first.textContent()) || '').trim() : '';
+      return text.length === 0 ? null : 'expected element to be empty';
+    }
+    case 'include':
+    case 'contain':
+    case 'contains':
+    case 'contain.text':
+    case 'include.text':
+    case 'match': {
+      const text = count > 0 ? (await first.textContent()) || '' : '';
+      return checkValue(text, key === 'match' ? 'match' : 'include', [expected]);
+    }
+    default:
+      if (key.startsWith('length')) return checkValue(new Array(count), key, args);
+      throw new Error(`Unsupported assertion: ${key}`);
+  }
+}
+
+async function evaluateAssertion(subject: Subject, chainer: string, args: unknown[]): Promise<string | null> {
+  const { negate, key } = normalizeChainer(chainer);
+  const failure = subject.kind === 'locator'
+    ? await checkLocator(subject.locator, key, args)
+    : checkValue(subject.kind === 'value' ? subject.value : undefined, key, args);
+
+  if (!negate) return failure;
+  return failure ? null : `expected not to ${key.replace(/\./g, ' ')}`;
+}
+
+function formatArgs(args: unknown[]): string {
+  return args
+    .filter(arg => typeof arg !== 'function')
+    .map(arg => (arg instanceof RegExp ? String(arg) : describeValue(arg)))
+    .join(', ');
+}
+
+// Translate jQuery-only pseudo selectors into their Playwright equivalents
+export function toPlaywrightSelector(selector: string): string {
+  return selector.replace(/:contains\((['"]?)(.*?)\1\)/g, (_match, _quote, text) => `:has-text("${text}")`);
+}
+
+// Minimal chai-style `expect` for synchronous assertions inside test bodies
+export function createExpect() {
+  return function expect(value: unknown) {
+    const build = (path: string[]): unknown => {
+      const assert = (...args: unknown[]) => {
+        const chainer = path.join('.');
+        const { negate, key } = normalizeChainer(chainer);
+        const failure = checkValue(value, key, args);
+        if (negate ? !failure : failure) {
+          throw new Error(failure || `expected ${describeValue(value)} not to ${key.replace(/\./g, ' ')}`);
+        }
+        return build([]);
+      };
+
+      return new Proxy(assert, {
+        get(_target, prop) {
+          if (typeof prop !== 'string') return undefined;
+          const next = [...path, prop];
+          if (GETTER_ASSERTIONS.has(prop)) {
+            const chainer = next.join('.');
+            const { negate, key } = normalizeChainer(chainer);
+            const failure = checkValue(value, key, []);
+            if (negate ? !failure : failure) {
+              throw new Error(failure || `expected ${describeValue(value)} not to be ${key}`);
+            }
+            return build([]);
+          }
+          return build(next);
+        },
+      });
+    };
+
+    return build([]);
+  };
+}
+
+// Make calls to commands we don't emulate fail with a readable error
+function withUnsupported<T extends object>(target: T, prefix: string): T {
+  return new Proxy(target, {
+    get(obj, prop, receiver) {
+      if (typeof prop !== 'string' || prop in obj) return Reflect.get(obj, prop, receiver);
+      const command = `${prefix}.${prop}()`;
+      return () => {
+        throw new CommandError(`${command} is not supported by the TestFlow runner`, command);
+      };
+    },
+  });
+}
+
+export class CypressShim {
+  private readonly page: Page;
+  private readonly baseUrl: string;
+  private readonly commandTimeout: number;
+  private queue: QueuedCommand[] = [];
+  private aliases = new Map<string, Subject>();
+  private exceptionHandlers: UncaughtExceptionHandler[] = [];
+  private uncaught: Error[] = [];
+  lastCommand: string | null = null;
+
+  constructor(page: Page, baseUrl: string, commandTimeout: number = DEFAULT_COMMAND_TIMEOUT) {
+    this.page = page;
+    this.baseUrl = baseUrl;
+    this.commandTimeout = commandTimeout;
+    page.on('pageerror', error => this.uncaught.push(error));
+  }
+
+  // Cypress.on('uncaught:exception'). Pages often throw errors unrelated to a test, so unlike
+  // Cypress an exception only fails the test when a handler is registered and doesn't return false.
+  onUncaughtException(handler: UncaughtExceptionHandler) {
+    this.exceptionHandlers.push(handler);
+  }
+
+  // The global `cy` object exposed to test code
+  createCy() {
+    const root = (name: string, args: unknown[], run: QueuedCommand['run']) =>
+      this.enqueue(`cy.${name}(${formatArgs(args)})`, run);
+
+    return withUnsupported({
+      visit: (url: string, options?: { timeout?: number }) =>
+        root('visit', [url], async () => {
+          const target = new URL(url, this.baseUrl).toString();
+          await this.page.goto(target, { waitUntil: 'load', timeout: options?.timeout ?? 30000 });
+          return { kind: 'none' };
+        }),
+      get: (selector: string) =>
+        root('get', [selector], async () => {
+          if (selector.startsWith('@')) return this.resolveAlias(selector);
+          return { kind: 'locator', locator: this.page.locator(toPlaywrightSelector(selector)) };
+        }),
+      contains: (selectorOrText: string | RegExp, text?: string | RegExp) =>
+        root('contains', text === undefined ? [selectorOrText] : [selectorOrText, text], async () => ({
+          kind: 'locator',
+          locator: text === undefined
+            ? this.page.getByText(selectorOrText).first()
+            : this.page.locator(toPlaywrightSelector(String(selectorOrText)), { hasText: text }).first(),
+        })),
+      findByRole: (role: string, options?: ByRoleOptions) =>
+        root('findByRole', options ? [role, options] : [role], async () => ({ kind: 'locator', locator: byRole(this.page, role, options) })),
+      findAllByRole: (role: string, options?: ByRoleOptions) =>
+        root('findAllByRole', options ? [role, options] : [role], async () => ({ kind: 'locator', locator: byRole(this.page, role, options) })),
+      url: () => root('url', [], async () => this.valueSubject(async () => this.page.url())),
+      title: () => root('title', [], async () => this.valueSubject(() => this.page.title())),
+      location: (key?: string) =>
+        root('location', key ? [key] : [], async () =>
+          this.valueSubject(async () => {
+            const location = new URL(this.page.url());
+            return key ? location[key as keyof URL] : location;
+          })
+        ),
+      reload: () =>
+        root('reload', [], async () => {
+          await this.page.reload();
+          return { kind: 'none' };
+        }),
+      go: (direction: 'back' | 'forward' | number) =>
+        root('go', [direction], async () => {
+          if (direction === 'back' || direction === -1) await this.page.goBack();
+          else if (direction === 'forward' || direction === 1) await this.page.goForward();
+          else throw new Error(`cy.go(${direction}) is not supported`);
+          return { kind: 'none' };
+        }),
+      viewport: (widthOrPreset: number | string, heightOrOrientation?: number | string) =>
+        root('viewport', [widthOrPreset, heightOrOrientation].filter(a => a !== undefined), async () => {
+          let width: number;
+          let height: number;
+          if (typeof widthOrPreset === 'string') {
+            const preset = VIEWPORT_PRESETS[widthOrPreset];
+            if (!preset) throw new Error(`Unknown viewport preset '${widthOrPreset}'`);
+            [width, height] = heightOrOrientation === 'landscape' ? [preset[1], preset[0]] : preset;
+          } else {
+            width = widthOrPreset;
+            height = Number(heightOrOrientation);
+          }
+          await this.page.setViewportSize({ width, height });
+          return { kind: 'none' };
+        }),
+      scrollTo: (position: string | number, y?: number) =>
+        root('scrollTo', [position, y].filter(a => a !== undefined), async () => {
+          await this.page.evaluate(([pos, top]) => {
+            if (typeof pos === 'number') window.scrollTo(pos, top ?? 0);
+            else if (pos === 'bottom') window.scrollTo(0, document.body.scrollHeight);
+            else if (pos === 'top') window.scrollTo(0, 0);
+          }, [position, y] as const);
+          return { kind: 'none' };
+        }),
+      wait: (msOrAlias: number | string | string[]) =>
+        root('wait', [msOrAlias], async () => {
+          if (typeof msOrAlias === 'number') {
+            await this.page.waitForTimeout(msOrAlias);
+            return { kind: 'none' };
+          }
+          if (!Array.isArray(msOrAlias)) return { kind: 'value', value: await this.waitForCall(msOrAlias) };
+          const calls = [];
+          for (const alias of msOrAlias) calls.push(await this.waitForCall(alias));
+          return { kind: 'value', value: calls };
+        }),
+      intercept: (...args: unknown[]) =>
+        root('intercept', args.filter(arg => typeof arg === 'string' || arg instanceof RegExp), async () => {
+          const [method, matcher, response] = typeof args[0] === 'string' && HTTP_METHODS.has(args[0].toUpperCase())
+            ? [args[0].toUpperCase(), args[1], args[2]]
+            : [undefined, args[0], args[1]];
+          if (typeof matcher !== 'string' && !(matcher instanceof RegExp)) {
+            throw new Error('cy.intercept() needs a URL string, glob or RegExp; route matcher objects are not supported');
+          }
+          if (typeof response === 'function') throw new Error('cy.intercept() route handlers are not supported; pass a static response');
+          const intercept: Intercept = { calls: [], waited: 0 };
+          const target = (url: string) => new URL(url, this.baseUrl).toString();
+          const pattern = typeof matcher === 'string' && /^https?:\/\//.test(matcher) ? target(matcher) : matcher;
+
+          await this.page.route(url => matchesUrl(url.toString(), pattern), async route => {
+            if (method && route.request().method() !== method) return route.fallback();
+            await this.handleIntercepted(route, intercept, response as StaticResponse | string | undefined);
+          });
+          return { kind: 'intercept', intercept };
+        }),
+      request: (methodOrUrl: string, url?: string, body?: unknown) =>
+        root('request', [methodOrUrl, url].filter(a => a !== undefined), async () => {
+          const method = url ? methodOrUrl : 'GET';
+          const target = new URL(url || methodOrUrl, this.baseUrl).toString();
+          const response = await this.page.request.fetch(target, { method, data: body });
+          const text = await response.text();
+          let parsed: unknown = text;
+          try {
+            parsed = JSON.parse(text);
+          } catch {
+            // Keep the raw text body
+          }
+          return {
+            kind: 'value',
+            value: { status: response.status(), headers: response.headers(), body: parsed },
+          };
+        }),
+      session: (id: unknown, setup: () => void) =>
+        root('session', [id], async () => {
+          // Tests don't share a browser context here, so setup runs every time instead of
+          // being cached; its commands run next, then the page is blanked like Cypress does
+          const pending = this.queue;
+          this.queue = [];
+          setup();
+          this.queue.push({
+            name: `cy.session(${formatArgs([id])})`,
+            run: async () => {
+              await this.page.goto('about:blank');
+              return { kind: 'none' };
+            },
+          });
+          this.queue.push(...pending);
+          return { kind: 'none' };
+        }),
+      log: (message: string) => root('log', [message], async subject => subject),
+      screenshot: () => root('screenshot', [], async subject => subject),
+      wrap: (value: unknown) => root('wrap', [value], async () => ({ kind: 'value', value })),
+    }, 'cy');
+  }
+
+  // Run every queued command in order; throws CommandError on the first failure
+  async flush() {
+    let subject: Subject = { kind: 'none' };
+    while (this.queue.length > 0) {
+      const command = this.queue.shift()!;
+      this.lastCommand = command.name;
+      try {
+        subject = await command.run(subject);
+        this.checkUncaught();
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        this.queue = [];
+        throw new CommandError(message, command.name);
+      }
+    }
+  }
+
+  // Clear queued commands, aliases, intercepts and earlier page errors before the next test
+  async reset() {
+    this.queue = [];
+    this.aliases.clear();
+    this.uncaught = [];
+    this.lastCommand = null;
+    await this.page.unrouteAll({ behavior: 'ignoreErrors' });
+  }
+
+  // Record an intercepted request, then answer it with the static response or let it through
+  private async handleIntercepted(route: Route, intercept: Intercept, response: StaticResponse | string | undefined) {
+    const request = route.request();
+    const call: InterceptedCall = {
+      request: { method: request.method(), url: request.url(), headers: request.headers(), body: parseBody(request.postData()) },
+    };
+    intercept.calls.push(call);
+
+    if (response === undefined) {
+      const fetched = await route.fetch();
+      const text = await fetched.text();
+      call.response = { statusCode: fetched.status(), headers: fetched.headers(), body: parseBody(text) };
+      await route.fulfill({ response: fetched, body: text });
+      return;
+    }
+
+    // A plain object or string is the response body
+    const stub: StaticResponse = typeof response === 'object' && response !== null && STATIC_RESPONSE_KEYS.some(key => key in response)
+      ? response
+      : { body: response };
+    if (stub.forceNetworkError) {
+      await route.abort('failed');
+      return;
+    }
+    const statusCode = stub.statusCode ?? 200;
+    const isText = typeof stub.body === 'string' || stub.body === undefined;
+    const headers = { ...(!isText && { 'content-type': 'application/json' }), ...stub.headers };
+    call.response = { statusCode, headers, body: stub.body };
+    await route.fulfill({ status: statusCode, headers, body: isText ? (stub.body as string | undefined) ?? '' : JSON.stringify(stub.body) });
+  }
+
+  // The next call of an aliased intercept that cy.wait() hasn't yielded yet, once it has its response
+  private async waitForCall(alias: string): Promise<InterceptedCall> {
+    const subject = alias.startsWith('@') ? this.aliases.get(alias.slice(1)) : undefined;
+    if (subject?.kind !== 'intercept') {
+      throw new Error(`cy.wait('${alias}') needs an alias of a cy.intercept() route`);
+    }
+    const { intercept } = subject;
+    const deadline = Date.now() + ALIAS_WAIT_TIMEOUT_MS;
+    for (;;) {
+      const call = intercept.calls[intercept.waited];
+      if (call?.response) {
+        intercept.waited++;
+        return call;
+      }
+      if (Date.now() > deadline) {
+        throw new Error(call
+          ? `Timed out waiting for the response to '${alias}'`
+          : `Timed out waiting for a request matching '${alias}'`);
+      }
+      await this.page.waitForTimeout(RETRY_INTERVAL_MS);
+    }
+  }
+
+  // Throw for the first page error a handler doesn't swallow; a throwing handler's error is used as is
+  private checkUncaught() {
+    const errors = this.uncaught;
+    this.uncaught = [];
+    if (this.exceptionHandlers.length === 0) return;
+    for (const error of errors) {
+      if (this.exceptionHandlers.some(handler => handler(error) === false)) continue;
+      throw new Error(`Uncaught exception on the page: ${error.message}`);
+    }
+  }
+
+  private valueSubject(read: () => Promise<unknown>): Promise<Subject> {
+    return read().then(value => ({ kind: 'value', value, requery: read }));
+  }
+
+  private resolveAlias(alias: string): Subject {
+    const subject = this.aliases.get(alias.slice(1));
+    if (!subject) throw new Error(`Alias '${alias}' was not defined with .as()`);
+    return subject;
+  }
+
+  private enqueue(name: string, run: QueuedCommand['run']) {
+    this.queue.push({ name, run });
+    return this.chain(name);
+  }
+
+  // Build the chainable returned by every command
+  private chain(prefix: string): Record<string, (...args: never[]) => unknown> {
+    const link = (name: string, args: unknown[], run: QueuedCommand['run']) =>
+      this.enqueue(`${prefix}.${name}(${formatArgs(args)})`, run);
+
+    const requireLocator = (subject: Subject, command: string): Locator => {
+      if (subject.kind !== 'locator') throw new Error(`.${command}() must be chained off a DOM element`);
+      return subject.locator;
+    };
+
+    const single = async (subject: Subject, command: string, multiple?: boolean): Promise<Locator> => {
+      const locator = requireLocator(subject, command);
+      await locator.first().waitFor({ state: 'attached', timeout: this.commandTimeout });
+      if (!multiple && await locator.count() > 1) {
+        throw new Error(`cy.${command}() can only be called on a single element. Your subject contained ${await locator.count()} elements.`);
+      }
+      return locator.first();
+    };
+
+    const action = (name: string, args: unknown[], perform: (locator: Locator) => Promise<void>, multiple?: boolean) =>
+      link(name, args, async subject => {
+        const locator = await single(subject, name, multiple);
+        await perform(locator);
+        return subject;
+      });
+
+    const should = (name: string) => (chainerOrFn: string | ((value: unknown) => void), ...args: unknown[]) =>
+      link(name, [chainerOrFn, ...args], async subject => {
+        const deadline = Date.now() + this.commandTimeout;
+        let current = subject;
+        let failure: string | null = null;
+        do {
+          try {
+            if (typeof chainerOrFn === 'function') {
+              if (current.kind === 'locator') throw new Error('.should(callback) is only supported for values');
+              chainerOrFn(current.kind === 'value' ? current.value : undefined);
+              failure = null;
+            } else {
+              failure = await evaluateAssertion(current, chainerOrFn, args);
+            }
+          } catch (err) {
+            if (err instanceof Error && err.message.startsWith('Unsupported assertion')) throw err;
+            failure = err instanceof Error ? err.message : String(err);
+          }
+          if (!failure) return current;
+          await new Promise(resolve => setTimeout(resolve, RETRY_INTERVAL_MS));
+          if (current.kind === 'value' && current.requery) {
+            current = { ...current, value: await current.requery() };
+          }
+        } while (Date.now() < deadline);
+        throw new Error(`Timed out retrying after ${this.commandTimeout}ms: ${failure}`);
+      });
+
+    return withUnsupported({
+      should: should('should'),
+      and: should('and'),
+      click: (options?: { multiple?: boolean; force?: boolean }) =>
+        action('click', [], locator => locator.click({ timeout: this.commandTimeout, force: options?.force }), options?.multiple),
+      dblclick: () => action('dblclick', [], locator => locator.dblclick({ timeout: this.commandTimeout })),
+      type: (text: string) =>
+        action('type', [text], async locator => {
+          await locator.focus({ timeout: this.commandTimeout });
+          for (const part of String(text).split(/(\{[^}]+\})/).filter(Boolean)) {
+            const special = part.match(/^\{(\w+)\}$/);
+            if (special && TYPE_KEYS[special[1].toLowerCase()]) {
+              await this.page.keyboard.press(TYPE_KEYS[special[1].toLowerCase()]);
+            } else {
+              await locator.pressSequentially(part);
+            }
+          }
+        }),
+      clear: () => action('clear', [], locator => locator.fill('', { timeout: this.commandTimeout })),
+      check: () => action('check', [], locator => locator.check({ timeout: this.commandTimeout })),
+      uncheck: () => action('uncheck', [], locator => locator.uncheck({ timeout: this.commandTimeout })),
+      select: (value: string) =>
+        action('select', [value], async locator => {
+          await locator.selectOption(value, { timeout: this.commandTimeout });
+        }),
+      focus: () => action('focus', [], locator => locator.focus({ timeout: this.commandTimeout })),
+      blur: () => action('blur', [], locator => locator.blur({ timeout: this.commandTimeout })),
+      submit: () =>
+        action('submit', [], locator => locator.evaluate(form => (form as HTMLFormElement).requestSubmit())),
+      scrollIntoView: () =>
+        action('scrollIntoView', [], locator => locator.scrollIntoViewIfNeeded({ timeout: this.commandTimeout })),
+      trigger: (event: string) =>
+        action('trigger', [event], locator => locator.dispatchEvent(event, undefined, { timeout: this.commandTimeout })),
+      find: (selector: string) =>
+        link('find', [selector], async subject => ({
+          kind: 'locator',
+          locator: requireLocator(subject, 'find').locator(toPlaywrightSelector(selector)),
+        })),
+      contains: (text: string | RegExp) =>
+        link('contains', [text], async subject => ({
+          kind: 'locator',
+          locator: subject.kind === 'locator'
+            ? subject.locator.getByText(text).first()
+            : this.page.getByText(text).first(),
+        })),
+      findByRole: (role: string, options?: ByRoleOptions) =>
+        link('findByRole', options ? [role, options] : [role], async subject => ({
+          kind: 'locator',
+          locator: byRole(subject.kind === 'locator' ? subject.locator : this.page, role, options),
+        })),
+      findAllByRole: (role: string, options?: ByRoleOptions) =>
+        link('findAllByRole', options ? [role, options] : [role], async subject => ({
+          kind: 'locator',
+          locator: byRole(subject.kind === 'locator' ? subject.locator : this.page, role, options),
+        })),
+      first: () =>
+        link('first', [], async subject => ({ kind: 'locator', locator: requireLocator(subject, 'first').first() })),
+      last: () =>
+        link('last', [], async subject => ({ kind: 'locator', locator: requireLocator(subject, 'last').last() })),
+      eq: (index: number) =>
+        link('eq', [index], async subject => ({ kind: 'locator', locator: requireLocator(subject, 'eq').nth(index) })),
+      parent: () =>
+        link('parent', [], async subject => ({ kind: 'locator', locator: requireLocator(subject, 'parent').locator('..') })),
+      children: (selector?: string) =>
+        link('children', selector ? [selector] : [], async subject => ({
+          kind: 'locator',
+          locator: requireLocator(subject, 'children').locator(`:scope > ${selector ? toPlaywrightSelector(selector) : '*'}`),
+        })),
+      its: (property: string) =>
+        link('its', [property], async subject => {
+          if (subject.kind === 'locator' && property === 'length') {
+            const locator = subject.locator;
+            return this.valueSubject(() => locator.count());
+          }
+          if (subject.kind !== 'value') throw new Error(`.its('${property}') requires a value subject`);
+          const read = async (value: unknown) =>
+            property.split('.').reduce<unknown>((acc, key) => (acc as Record<string, unknown> | undefined)?.[key], value);
+          const requery = subject.requery;
+          return {
+            kind: 'value',
+            value: await read(subject.value),
+            requery: requery ? async () => read(await requery()) : undefined,
+          };
+        }),
+      invoke: (method: string, ...args: unknown[]) =>
+        link('invoke', [method, ...args], async subject => {
+          const locator = requireLocator(subject, 'invoke').first();
+          switch (method) {
+            case 'text':
+              return this.valueSubject(async () => (await locator.textContent()) || '');
+            case 'val':
+              return this.valueSubject(() => locator.inputValue());
+            case 'attr':
+              return this.valueSubject(() => locator.getAttribute(String(args[0])));
+            default:
+              throw new Error(`.invoke('${method}') is not supported`);
+          }
+        }),
+      as: (alias: string) =>
+        link('as', [alias], async subject => {
+          this.aliases.set(alias, subject);
+          return subject;
+        }),
+      wait: (ms: number) =>
+        link('wait', [ms], async subject => {
+          await this.page.waitForTimeout(ms);
+          return subject;
+        }),
+    }, prefix);
+  }
+}
@@ -0,0 +1,129 @@
+// Dashboard utilities for TestFlow AI
+//
+// The dashboard's numbers come from what is stored: sessions, tests, runs and a
+// record of every generation pass a scan made. DatabaseService loads the rows
+// and they are aggregated here, so the numbers can be checked without a database.
+
+import { DatabaseService } from './database';
+
+export type GenerationStatus = 'succeeded' | 'parse-failed' | 'failed';
+
+// One generation pass of a scan: which model wrote the tests and how it went
+export interface GenerationRecordData {
+  jobId?: string;
+  userId?: string;
+  url: string;
+  source: string;
+  provider: string;
+  model: string;
+  status: GenerationStatus;
+  testCount: number;
+  durationMs: number;
+}
+
+// Rows the dashboard is computed from
+export interface DashboardData {
+  totals: { totalSessions: number; totalTests: number; uniqueUrls: number; totalRuns: number; projects: number };
+  testDates: Date[]; // tests created in the window
+  runs: { testId: string; status: string }[]; // runs in the window
+  generations: { provider: string; model: string; status: string }[]; // passes in the window
+  sessions: { url: string; createdAt: Date; testCount: number }[]; // every session, newest first
+}
+
+export interface ModelStats {
+  provider: string;
+  model: string;
+  total: number;
+  succeeded: number;
+  parseFailed: number;
+  failed: number;
+  successRate: number; // percent, rounded to 1 decimal
+  parseFailureRate: number;
+}
+
+export interface Dashboard {
+  days: number;
+  totals: DashboardData['totals'] & { flakyTests: number };
+  testsPerDay: { date: string; count: number }[]; // YYYY-MM-DD in UTC, oldest first
+  models: ModelStats[];
+  topUrls: { url: string; testCount: number }[];
+  recentPages: { url: string; scannedAt: Date; testCount: number }[];
+}
+
+export const DASHBOARD_LIMITS = {
+  defaultDays: 30,
+  maxDays: 365,
+  topUrls: 10,
+  recentPages: 10,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Midnight UTC at the start of the window that ends today
+export function windowStart(days: number, now: Date = new Date()): Date {
+  const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+  return new Date(today - (days - 1) * DAY_MS);
+}
+
+const percent = (part: number, total: number) => (total > 0 ? Math.round((part / total) * 1000) / 10 : 0);
+
+export function buildDashboard(data: DashboardData, days: number, now: Date = new Date()): Dashboard {
+  // Tests per day, with the days nothing was generated
+  const start = windowStart(days, now).getTime();
+  const perDay = new Map<string, number>();
+  for (let i = 0; i < days; i++) perDay.set(new Date(start + i * DAY_MS).toISOString().slice(0, 10), 0);
+  for (const date of data.testDates) {
+    const key = date.toISOString().slice(0, 10);
+    if (perDay.has(key)) perDay.set(key, perDay.get(key)! + 1);
+  }
+
+  // A test is flaky when it both passed and failed within the window
+  const outcomes = new Map<string, Set<string>>();
+  for (const run of data.runs) {
+    if (!outcomes.has(run.testId)) outcomes.set(run.testId, new Set());
+    outcomes.get(run.testId)!.add(run.status === 'error' ? 'failed' : run.status);
+  }
+  const flakyTests = [...outcomes.values()].filter(statuses => statuses.has('passed') && statuses.has('failed')).length;
+
+  const models = new Map<string, ModelStats>();
+  for (const generation of data.generations) {
+    const key = `${generation.provider} ${generation.model}`;
+    const stats = models.get(key) ?? {
+      provider: generation.provider, model: generation.model, total: 0, succeeded: 0, parseFailed: 0, failed: 0, successRate: 0, parseFailureRate: 0,
+    };
+    stats.total++;
+    if (generation.status === 'succeeded') stats.succeeded++;
+    else if (generation.status === 'parse-failed') stats.parseFailed++;
+    else stats.failed++;
+    models.set(key, stats);
+  }
+
+  // Each scan saves the URL's whole test set, so its latest session holds its current tests
+  const latest = new Map<string, DashboardData['sessions'][number]>();
+  for (const session of data.sessions) {
+    if (!latest.has(session.url)) latest.set(session.url, session);
+  }
+
+  return {
+    days,
+    totals: { ...data.totals, flakyTests },
+    testsPerDay: [...perDay].map(([date, count]) => ({ date, count })),
+    models: [...models.values()]
+      .map(stats => ({ ...stats, successRate: percent(stats.succeeded, stats.total), parseFailureRate: percent(stats.parseFailed, stats.total) }))
+      .sort((a, b) => b.total - a.total),
+    topUrls: [...latest.values()]
+      .filter(session => session.testCount > 0)
+      .sort((a, b) => b.testCount - a.testCount)
+      .slice(0, DASHBOARD_LIMITS.topUrls)
+      .map(({ url, testCount }) => ({ url, testCount })),
+    recentPages: [...latest.values()]
+      .slice(0, DASHBOARD_LIMITS.recentPages)
+      .map(({ url, createdAt, testCount }) => ({ url, scannedAt: createdAt, testCount })),
+  };
+}
+
+// A user's dashboard for the last `days` days, including today
+export async function getDashboard(userId: string, days: number = DASHBOARD_LIMITS.defaultDays, now: Date = new Date()): Promise<Dashboard> {
+  const data = await DatabaseService.getDashboardData(windowStart(days, now), userId);
+  return buildDashboard(data, days, now);
+}
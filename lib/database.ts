@@ -1,4 +1,14 @@
 // Database utilities for TestFlow AI
+import type { TestRunResult } from './test-runner';
+import type { TestRevision } from './self-heal';
+import type { SiteMapNode } from './crawler';
+import { frameworkOf } from './frameworks';
+import type { ScanJob, ScanJobUpdate } from './jobs';
+import type { Region } from './visual';
+import type { ProjectInput, SuiteInput, TestFilters, TestUpdate } from './validation';
+import type { DashboardData, GenerationRecordData } from './dashboard';
+import type { AuthUser, LoginPurpose } from './auth';
+import type { SessionTest } from './session-api';
 
 // If '@prisma/client' is not available, handle the error gracefully.
 let PrismaClient;
@@ -34,40 +44,195 @@ try {
 
 export { prisma, isDatabaseAvailable };
 
+// Columns of a TestRun row read back into a run result
+interface TestRunRow {
+  status: TestRunResult['status'];
+  durationMs: number;
+  error: string | null;
+  failingCommand: string | null;
+  runner: TestRunResult['runner'];
+  cases: string | null;
+}
+
+// Columns of a TestRevision row
+interface TestRevisionRow {
+  attempt: number;
+  code: string;
+  status: TestRevision['status'];
+  error: string | null;
+  failingCommand: string | null;
+  explanation: string | null;
+}
+
+// A Test row read with its session's URL and latest run
+interface StoredTestRow {
+  id: string;
+  sessionId: string;
+  projectId: string | null;
+  session: { url: string };
+  pageUrl: string | null;
+  title: string;
+  description: string | null;
+  code?: string; // left out of search results
+  category: string | null;
+  testType: string;
+  healStatus: string | null;
+  warnings: string | null;
+  latestRun: TestRunRow | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// A session of up to 500 tests is written in one transaction
+const SAVE_SESSION_TIMEOUT_MS = 30000;
+
+// Columns of a stored test for search results: everything but the code
+const STORED_TEST_SUMMARY = {
+  id: true,
+  sessionId: true,
+  projectId: true,
+  session: { select: { url: true } },
+  pageUrl: true,
+  title: true,
+  description: true,
+  category: true,
+  testType: true,
+  healStatus: true,
+  warnings: true,
+  latestRun: true,
+  createdAt: true,
+  updatedAt: true,
+};
+
+// A Project row with its counts
+interface ProjectRow {
+  id: string;
+  name: string;
+  description: string | null;
+  baseUrl: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  _count: { sessions: number; tests: number; suites: number };
+}
+
+// A ScanJob row; options, preview and result are JSON text
+interface ScanJobRow {
+  id: string;
+  url: string;
+  status: ScanJob['status'];
+  options: string;
+  userId: string | null;
+  userAgent: string | null;
+  ipAddress: string | null;
+  progress: number;
+  message: string | null;
+  preview: string | null;
+  screenshot: string | null;
+  result: string | null;
+  sessionId: string | null;
+  error: string | null;
+  attempts: number;
+  createdAt: Date;
+  updatedAt: Date;
+  startedAt: Date | null;
+  finishedAt: Date | null;
+}
+
+// A User row as read for signing in
+interface UserRow {
+  id: string;
+  email: string;
+  name: string | null;
+  passwordHash: string | null;
+  emailVerifiedAt: Date | null;
+}
+
+// A suite name or an account's email is already taken
+export class DuplicateNameError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DuplicateNameError';
+  }
+}
+
+const isUniqueViolation = (error: unknown) => (error as { code?: string })?.code === 'P2002';
+
+const PROJECT_COUNTS = { _count: { select: { sessions: true, tests: true, suites: true } } };
+
 // Database operations
 export class DatabaseService {
   // Save test session and tests
   static async saveTestSession(
     url: string,
-    tests: any[],
+    tests: SessionTest[],
     summary: string,
     userAgent?: string,
-    ipAddress?: string
+    ipAddress?: string,
+    siteMap?: SiteMapNode[],
+    projectId?: string,
+    userId?: string
   ) {
     if (!isDatabaseAvailable) {
       throw new Error('Database not available');
     }
 
     try {
-      // Create session
-      const session = await prisma.testSession.create({
-        data: {
-          url,
-          userAgent,
-          ipAddress,
-        },
-      });
+      // Nothing is stored unchecked: validate any test the caller didn't
+      const { validateTestCode } = await import('./test-validator');
+      const checkedTests = tests.map(test => ({
+        ...test,
+        warnings: test.warnings ?? validateTestCode(test.code || '', { framework: frameworkOf(test.testType) }),
+      }));
 
-      // Create tests
-      await prisma.test.createMany({
-        data: tests.map((test: any) => ({
-          sessionId: session.id,
-          title: test.title || 'Untitled Test',
-          description: test.why || test.description,
-          code: test.code || '',
-          category: test.category || 'general',
-        })),
-      });
+      // The session, its tests and their self-healing history and latest run are created together
+      const session = await prisma.$transaction(async (tx: typeof prisma) => {
+        const created = await tx.testSession.create({
+          data: {
+            url,
+            userAgent,
+            ipAddress,
+            siteMap: siteMap ? JSON.stringify(siteMap) : undefined,
+            projectId,
+            userId,
+          },
+        });
+
+        for (const test of checkedTests) {
+          const { id } = await tx.test.create({
+            data: {
+              sessionId: created.id,
+              projectId,
+              userId,
+              title: test.title || 'Untitled Test',
+              description: test.why,
+              code: test.code || '',
+              category: test.category || 'general',
+              testType: test.testType || 'cypress',
+              pageUrl: test.pageUrl,
+              healStatus: test.healStatus,
+              warnings: JSON.stringify(test.warnings),
+              revisions: test.revisions?.length
+                ? {
+                    create: test.revisions.map((revision: TestRevision) => ({
+                      attempt: revision.attempt,
+                      code: revision.code,
+                      status: revision.status,
+                      error: revision.error,
+                      failingCommand: revision.failingCommand,
+                      explanation: revision.explanation,
+                    })),
+                  }
+                : undefined,
+            },
+          });
+          if (test.lastRun) {
+            await tx.testRun.create({
+              data: { testId: id, ...DatabaseService.toRunData(test.lastRun), latestOf: { connect: { id } } },
+            });
+          }
+        }
+        return created;
+      }, { timeout: SAVE_SESSION_TIMEOUT_MS });
 
       return { sessionId: session.id, testCount: tests.length };
     } catch (error) {
@@ -76,19 +241,26 @@ export class DatabaseService {
     }
   }
 
-  // Get tests for a URL (latest session)
-  static async getLatestTestsForUrl(url: string) {
+  // Get a user's tests for a URL (latest session) in a project, or among sessions without one.
+  // A null user reads what was stored before accounts existed.
+  static async getLatestTestsForUrl(url: string, userId: string | null, projectId?: string) {
     if (!isDatabaseAvailable) {
       throw new Error('Database not available');
     }
 
     try {
       const session = await prisma.testSession.findFirst({
-        where: { url },
+        where: { url, userId, projectId: projectId ?? null },
         orderBy: { createdAt: 'desc' },
         include: {
           tests: {
             orderBy: { createdAt: 'asc' },
+            include: {
+              latestRun: true,
+              revisions: {
+                orderBy: { attempt: 'asc' },
+              },
+            },
           },
         },
       });
@@ -96,14 +268,30 @@ export class DatabaseService {
       if (!session) return null;
 
       return {
+        sessionId: session.id,
         url: session.url,
+        projectId: session.projectId ?? undefined,
         tests: session.tests.map((test: any) => ({
           id: test.id,
           title: test.title,
           why: test.description,
           code: test.code,
           category: test.category,
+          testType: test.testType,
+          pageUrl: test.pageUrl ?? undefined,
+          lastRun: test.latestRun ? DatabaseService.toRunResult(test.latestRun) : undefined,
+          healStatus: test.healStatus ?? undefined,
+          warnings: test.warnings ? JSON.parse(test.warnings) : [],
+          revisions: test.revisions.map((revision: TestRevisionRow): TestRevision => ({
+            attempt: revision.attempt,
+            code: revision.code,
+            status: revision.status,
+            error: revision.error ?? undefined,
+            failingCommand: revision.failingCommand ?? undefined,
+            explanation: revision.explanation ?? undefined,
+          })),
         })),
+        siteMap: session.siteMap ? (JSON.parse(session.siteMap) as SiteMapNode[]) : undefined,
         summary: '', // We'll store summary separately in future
         timestamp: session.createdAt.getTime(),
       };
@@ -113,15 +301,15 @@ export class DatabaseService {
     }
   }
 
-  // Get test history for a URL
-  static async getTestHistoryForUrl(url: string, limit: number = 5) {
+  // Get a user's test history for a URL
+  static async getTestHistoryForUrl(url: string, userId: string, limit: number = 5) {
     if (!isDatabaseAvailable) {
       throw new Error('Database not available');
     }
 
     try {
       const sessions = await prisma.testSession.findMany({
-        where: { url },
+        where: { url, userId },
         orderBy: { createdAt: 'desc' },
         take: limit,
         include: {
@@ -140,6 +328,7 @@ export class DatabaseService {
           description: test.description,
           code: test.code,
           category: test.category,
+          testType: test.testType,
         })),
       }));
     } catch (error) {
@@ -148,6 +337,1069 @@ export class DatabaseService {
     }
   }
 
+  // Get one of a user's sessions with all of its tests
+  static async getSessionWithTests(sessionId: string, userId: string) {
+    if (!isDatabaseAvailable) {
+      throw new Error('Database not available');
+    }
+
+    try {
+      const session = await prisma.testSession.findFirst({
+        where: { id: sessionId, userId },
+        include: {
+          tests: {
+            orderBy: { createdAt: 'asc' },
+          },
+        },
+      });
+
+      if (!session) return null;
+
+      return {
+        id: session.id,
+        url: session.url,
+        createdAt: session.createdAt,
+        siteMap: session.siteMap ? (JSON.parse(session.siteMap) as SiteMapNode[]) : undefined,
+        tests: session.tests.map((test: Pick<StoredTestRow, 'id' | 'title' | 'description' | 'code' | 'category' | 'testType' | 'pageUrl'>) => ({
+          id: test.id,
+          title: test.title,
+          description: test.description,
+          code: test.code,
+          category: test.category,
+          testType: test.testType,
+          pageUrl: test.pageUrl ?? undefined,
+        })),
+      };
+    } catch (error) {
+      console.error('Error fetching session:', error);
+      throw error;
+    }
+  }
+
+  // Get one of a user's tests with the URL it runs against (its page, or the session URL)
+  static async getTestById(testId: string, userId: string) {
+    if (!isDatabaseAvailable) {
+      throw new Error('Database not available');
+    }
+
+    try {
+      const test = await prisma.test.findFirst({
+        where: { id: testId, userId },
+        include: { session: true },
+      });
+
+      if (!test) return null;
+
+      return {
+        id: test.id,
+        title: test.title,
+        code: test.code,
+        testType: test.testType,
+        url: test.pageUrl || test.session.url,
+      };
+    } catch (error) {
+      console.error('Error fetching test:', error);
+      throw error;
+    }
+  }
+
+  // Every URL a user scanned with their sessions, most recently scanned first
+  static async listSessions(userId: string) {
+    if (!isDatabaseAvailable) {
+      throw new Error('Database not available');
+    }
+
+    try {
+      const sessions = await prisma.testSession.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'desc' },
+        select: {
+          id: true,
+          url: true,
+          siteMap: true,
+          createdAt: true,
+          _count: { select: { tests: true } },
+        },
+      });
+
+      type SessionSummary = { id: string; createdAt: Date; testCount: number; crawled: boolean };
+      const urls = new Map<string, { url: string; testCount: number; sessions: SessionSummary[] }>();
+      for (const session of sessions) {
+        const entry = urls.get(session.url) ?? { url: session.url, testCount: 0, sessions: [] as SessionSummary[] };
+        entry.testCount += session._count.tests;
+        entry.sessions.push({
+          id: session.id,
+          createdAt: session.createdAt,
+          testCount: session._count.tests,
+          crawled: !!session.siteMap,
+        });
+        urls.set(session.url, entry);
+      }
+
+      return [...urls.values()];
+    } catch (error) {
+      console.error('Error listing sessions:', error);
+      throw error;
+    }
+  }
+
+  // A user's stored tests matching the filters, newest first. The search is a case-insensitive
+  // substring match on title, description and code.
+  static async searchTests(filters: TestFilters, userId: string) {
+    if (!isDatabaseAvailable) {
+      throw new Error('Database not available');
+    }
+
+    try {
+      const where: Record<string, unknown> = { userId };
+      if (filters.query) {
+        where.OR = [
+          { title: { contains: filters.query } },
+          { description: { contains: filters.query } },
+          { code: { contains: filters.query } },
+        ];
+      }
+      if (filters.category) where.category = filters.category;
+      if (filters.testType) where.testType = filters.testType;
+      if (filters.sessionId) where.sessionId = filters.sessionId;
+      if (filters.projectId) where.projectId = filters.projectId;
+      if (filters.url) where.session = { url: filters.url };
+      if (filters.from || filters.to) {
+        where.createdAt = {
+          ...(filters.from && { gte: filters.from }),
+          ...(filters.to && { lt: filters.to }),
+        };
+      }
+
+      if (filters.status) {
+        if (filters.status === 'not-run') where.latestRunId = null;
+        else where.latestRun = { is: { status: filters.status } };
+      }
+
+      const [total, tests] = await prisma.$transaction([
+        prisma.test.count({ where }),
+        prisma.test.findMany({
+          where,
+          orderBy: { createdAt: 'desc' },
+          skip: filters.offset,
+          take: filters.limit,
+          select: STORED_TEST_SUMMARY,
+        }),
+      ]);
+
+      return {
+        total,
+        tests: tests.map((test: StoredTestRow) => DatabaseService.toStoredTest(test)),
+      };
+    } catch (error) {
+      console.error('Error searching tests:', error);
+      throw error;
+    }
+  }
+
+  // One of a user's tests as listed on the Tests page, with its code; null if they have no such test
+  static async getStoredTest(testId: string, userId: string) {
+    if (!isDatabaseAvailable) {
+      throw new Error('Database not available');
+    }
+
+    try {
+      const test = await prisma.test.findFirst({
+        where: { id: testId, userId },
+        include: { session: { select: { url: true } }, latestRun: true },
+      });
+      return test ? DatabaseService.toStoredTest(test) : null;
+    } catch (error) {
+      console.error('Error fetching test:', error);
+      throw error;
+    }
+  }
+
+  // Edit one of a user's tests; changed code is validated again. Returns null if they have no such test.
+  static async updateTest(testId: string, userId: string, update: TestUpdate) {
+    if (!isDatabaseAvailable) {
+      throw new Error('Database not available');
+    }
+
+    try {
+      const existing = await prisma.test.findFirst({ where: { id: testId, userId } });
+      if (!existing) return null;
+
+      let warnings: string | undefined;
+      if (update.code !== undefined) {
+        const { validateTestCode } = await import('./test-validator');
+        warnings = JSON.stringify(validateTestCode(update.code, { framework: frameworkOf(existing.testType) }));
+      }
+
+      const test = await prisma.test.update({
+        where: { id: testId },
+        data: { ...update, warnings },
+        include: { session: { select: { url: true } }, latestRun: true },
+      });
+
+      return DatabaseService.toStoredTest(test);
+    } catch (error) {
+      console.error('Error updating test:', error);
+      throw new Error('Failed to update test');
+    }
+  }
+
+  // Delete one of a user's tests with its runs and revisions; returns whether it existed
+  static async deleteTest(testId: string, userId: string) {
+    if (!isDatabaseAvailable) {
+      throw new Error('Database not available');
+    }
+
+    try {
+      const result = await prisma.test.deleteMany({ where: { id: testId, userId } });
+      return result.count > 0;
+    } catch (error) {
+      console.error('Error deleting test:', error);
+      throw new Error('Failed to delete test');
+    }
+  }
+
+  // Delete one of a user's sessions with its tests and screenshots; returns whether it existed
+  static async deleteSession(sessionId: string, userId: string) {
+    if (!isDatabaseAvailable) {
+      throw new Error('Database not available');
+    }
+
+    try {
+      const result = await prisma.testSession.deleteMany({ where: { id: sessionId, userId } });
+      return result.count > 0;
+    } catch (error) {
+      console.error('Error deleting session:', error);
+      throw new Error('Failed to delete session');
+    }
+  }
+
+  // Delete everything a user stored for a URL: sessions, their tests and screenshots, and visual baselines
+  static async deleteUrl(url: string, userId: string) {
+    if (!isDatabaseAvailable) {
+      throw new Error('Database not available');
+    }
+
+    try {
+      const [sessions, baselines] = await prisma.$transaction([
+        prisma.testSession.deleteMany({ where: { url, userId } }),
+        prisma.visualBaseline.deleteMany({ where: { url, userId } }),
+      ]);
+      return { sessions: sessions.count, baselines: baselines.count };
+    } catch (error) {
+      console.error('Error deleting URL:', error);
+      throw new Error('Failed to delete stored data for URL');
+    }
+  }
+
+  // A stored test as listed and edited on the Tests page
+  private static toStoredTest(test: StoredTestRow) {
+    return {
+      id: test.id,
+      sessionId: test.sessionId,
+      projectId: test.projectId ?? undefined,
+      url: test.session.url,
+      pageUrl: test.pageUrl ?? undefined,
+      title: test.title,
+      description: test.description ?? undefined,
+      code: test.code,
+      category: test.category ?? undefined,
+      testType: test.testType,
+      healStatus: test.healStatus ?? undefined,
+      warnings: test.warnings ? JSON.parse(test.warnings) : [],
+      lastRun: test.latestRun ? DatabaseService.toRunResult(test.latestRun) : undefined,
+      createdAt: test.createdAt,
+      updatedAt: test.updatedAt,
+    };
+  }
+
+  // Record the outcome of running a test
+  static async saveTestRun(testId: string, result: TestRunResult) {
+    if (!isDatabaseAvailable) {
+      throw new Error('Database not available');
+    }
+
+    try {
+      // Becomes the test's latest run in the same write
+      const run = await prisma.testRun.create({
+        data: { testId, ...DatabaseService.toRunData(result), latestOf: { connect: { id: testId } } },
+      });
+
+      return { runId: run.id };
+    } catch (error) {
+      console.error('Error saving test run:', error);
+      throw new Error('Failed to save test run');
+    }
+  }
+
+  // Link tests to their newest run where that link is missing, e.g. for runs recorded before
+  // tests kept one. Returns how many were linked.
+  static async linkLatestRuns() {
+    if (!isDatabaseAvailable) {
+      return 0;
+    }
+
+    try {
+      const tests = await prisma.test.findMany({
+        where: { latestRunId: null, runs: { some: {} } },
+        select: { id: true, runs: { orderBy: { createdAt: 'desc' }, take: 1, select: { id: true } } },
+      });
+      await prisma.$transaction(tests.map((test: { id: string; runs: { id: string }[] }) =>
+        prisma.test.update({ where: { id: test.id }, data: { latestRunId: test.runs[0].id } })
+      ));
+      return tests.length;
+    } catch (error) {
+      console.error('Error linking latest runs:', error);
+      return 0;
+    }
+  }
+
+  // Columns of a TestRun row for a run result
+  private static toRunData(result: TestRunResult) {
+    return {
+      status: result.status,
+      durationMs: result.durationMs,
+      error: result.error,
+      failingCommand: result.failingCommand,
+      runner: result.runner,
+      cases: JSON.stringify(result.cases),
+    };
+  }
+
+  // Convert a stored TestRun row back into a run result
+  private static toRunResult(run: TestRunRow): TestRunResult {
+    return {
+      status: run.status,
+      durationMs: run.durationMs,
+      error: run.error ?? undefined,
+      failingCommand: run.failingCommand ?? undefined,
+      runner: run.runner,
+      cases: run.cases ? JSON.parse(run.cases) : [],
+    };
+  }
+
+  // Queue a background scan
+  static async createScanJob(url: string, options: object, userAgent?: string, ipAddress?: string, userId?: string) {
+    if (!isDatabaseAvailable) {
+      throw new Error('Database not available');
+    }
+
+    try {
+      const job = await prisma.scanJob.create({
+        data: { url, options: JSON.stringify(options), userAgent, ipAddress, userId },
+      });
+
+      return DatabaseService.toScanJob(job);
+    } catch (error) {
+      console.error('Error creating scan job:', error);
+      throw new Error('Failed to create scan job');
+    }
+  }
+
+  // Get a scan job by id
+  static async getScanJob(jobId: string) {
+    if (!isDatabaseAvailable) {
+      throw new Error('Database not available');
+    }
+
+    try {
+      const job = await prisma.scanJob.findUnique({ where: { id: jobId } });
+      return job ? DatabaseService.toScanJob(job) : null;
+    } catch (error) {
+      console.error('Error fetching scan job:', error);
+      throw error;
+    }
+  }
+
+  // Update a scan job's status, progress or outcome
+  static async updateScanJob(jobId: string, update: ScanJobUpdate) {
+    if (!isDatabaseAvailable) {
+      throw new Error('Database not available');
+    }
+
+    try {
+      await prisma.scanJob.update({
+        where: { id: jobId },
+        data: {
+          ...update,
+          preview: update.preview ? JSON.stringify(update.preview) : undefined,
+          result: update.result ? JSON.stringify(update.result) : undefined,
+        },
+      });
+    } catch (error) {
+      console.error('Error updating scan job:', error);
+      throw new Error('Failed to update scan job');
+    }
+  }
+
+  // Take the oldest queued job, or null if there is none. The status check in the
+  // update means two workers can't both start the same job.
+  static async claimNextScanJob() {
+    if (!isDatabaseAvailable) {
+      throw new Error('Database not available');
+    }
+
+    try {
+      for (;;) {
+        const next = await prisma.scanJob.findFirst({
+          where: { status: 'queued' },
+          orderBy: { createdAt: 'asc' },
+        });
+        if (!next) return null;
+
+        const claimed = await prisma.scanJob.updateMany({
+          where: { id: next.id, status: 'queued' },
+          data: { status: 'snapshotting', attempts: { increment: 1 }, startedAt: new Date() },
+        });
+        if (claimed.count === 1) {
+          return DatabaseService.toScanJob({ ...next, status: 'snapshotting', attempts: next.attempts + 1 });
+        }
+      }
+    } catch (error) {
+      console.error('Error claiming scan job:', error);
+      throw error;
+    }
+  }
+
+  // Put jobs that were running when the server stopped back in the queue,
+  // failing those that have already been started `maxAttempts` times
+  static async requeueInterruptedScanJobs(maxAttempts: number) {
+    if (!isDatabaseAvailable) {
+      return { requeued: 0, failed: 0 };
+    }
+
+    try {
+      const running = { in: ['snapshotting', 'generating', 'validating'] };
+      const failed = await prisma.scanJob.updateMany({
+        where: { status: running, attempts: { gte: maxAttempts } },
+        data: {
+          status: 'failed',
+          error: `Interrupted ${maxAttempts} times by a server restart`,
+          finishedAt: new Date(),
+        },
+      });
+      const requeued = await prisma.scanJob.updateMany({
+        where: { status: running },
+        data: { status: 'queued', progress: 0, message: 'Resuming after a server restart', preview: null },
+      });
+
+      return { requeued: requeued.count, failed: failed.count };
+    } catch (error) {
+      console.error('Error requeueing scan jobs:', error);
+      return { requeued: 0, failed: 0 };
+    }
+  }
+
+  // Convert a stored ScanJob row, parsing its JSON columns
+  private static toScanJob(job: ScanJobRow): ScanJob {
+    return {
+      id: job.id,
+      url: job.url,
+      status: job.status,
+      options: JSON.parse(job.options) as ScanJob['options'],
+      userId: job.userId ?? undefined,
+      userAgent: job.userAgent ?? undefined,
+      ipAddress: job.ipAddress ?? undefined,
+      progress: job.progress,
+      message: job.message ?? undefined,
+      preview: job.preview ? (JSON.parse(job.preview) as ScanJob['preview']) : [],
+      screenshot: job.screenshot ?? undefined,
+      result: job.result ? (JSON.parse(job.result) as ScanJob['result']) : undefined,
+      sessionId: job.sessionId ?? undefined,
+      error: job.error ?? undefined,
+      attempts: job.attempts,
+      createdAt: job.createdAt,
+      updatedAt: job.updatedAt,
+      startedAt: job.startedAt ?? undefined,
+      finishedAt: job.finishedAt ?? undefined,
+    };
+  }
+
+  // Store a scan's screenshot, with its comparison to the baseline if there was one
+  static async saveScreenshot(data: {
+    sessionId: string;
+    url: string;
+    viewport: string;
+    imagePath: string;
+    baselineId?: string;
+    mismatchPercent?: number;
+    diffPath?: string;
+  }) {
+    if (!isDatabaseAvailable) {
+      throw new Error('Database not available');
+    }
+
+    try {
+      const screenshot = await prisma.screenshot.create({ data });
+      return { screenshotId: screenshot.id };
+    } catch (error) {
+      console.error('Error saving screenshot:', error);
+      throw new Error('Failed to save screenshot');
+    }
+  }
+
+  // Get a screenshot from one of a user's sessions, with its comparison
+  static async getScreenshot(screenshotId: string, userId: string) {
+    if (!isDatabaseAvailable) {
+      throw new Error('Database not available');
+    }
+
+    try {
+      const screenshot = await prisma.screenshot.findFirst({ where: { id: screenshotId, session: { userId } } });
+      if (!screenshot) return null;
+
+      return {
+        id: screenshot.id,
+        sessionId: screenshot.sessionId,
+        userId,
+        url: screenshot.url,
+        viewport: screenshot.viewport,
+        imagePath: screenshot.imagePath,
+        baselineId: screenshot.baselineId ?? undefined,
+        mismatchPercent: screenshot.mismatchPercent ?? undefined,
+        diffPath: screenshot.diffPath ?? undefined,
+        createdAt: screenshot.createdAt,
+      };
+    } catch (error) {
+      console.error('Error fetching screenshot:', error);
+      throw error;
+    }
+  }
+
+  // Replace a screenshot's comparison, e.g. after the baseline's masks changed
+  static async updateScreenshotDiff(screenshotId: string, diff: { baselineId: string; mismatchPercent: number; diffPath: string }) {
+    if (!isDatabaseAvailable) {
+      throw new Error('Database not available');
+    }
+
+    try {
+      await prisma.screenshot.update({ where: { id: screenshotId }, data: diff });
+    } catch (error) {
+      console.error('Error updating screenshot diff:', error);
+      throw new Error('Failed to update screenshot diff');
+    }
+  }
+
+  // Get a user's baseline for a URL at a viewport, or null if none was set
+  static async getVisualBaseline(url: string, viewport: string, userId: string | null) {
+    if (!isDatabaseAvailable) {
+      throw new Error('Database not available');
+    }
+
+    try {
+      const baseline = await prisma.visualBaseline.findFirst({ where: { userId, url, viewport } });
+      if (!baseline) return null;
+
+      return {
+        id: baseline.id,
+        url: baseline.url,
+        viewport: baseline.viewport,
+        imagePath: baseline.imagePath,
+        screenshotId: baseline.screenshotId ?? undefined,
+        masks: baseline.masks ? (JSON.parse(baseline.masks) as Region[]) : [],
+        updatedAt: baseline.updatedAt,
+      };
+    } catch (error) {
+      console.error('Error fetching visual baseline:', error);
+      throw error;
+    }
+  }
+
+  // Make a screenshot its owner's baseline for its URL and viewport. Masks are kept unless given.
+  static async setVisualBaseline(
+    screenshot: { id: string; url: string; viewport: string; imagePath: string; userId: string | null },
+    masks?: Region[]
+  ) {
+    if (!isDatabaseAvailable) {
+      throw new Error('Database not available');
+    }
+
+    try {
+      const { url, viewport, userId } = screenshot;
+      // The unique key has a nullable column, which upsert can't look up
+      const existing = await prisma.visualBaseline.findFirst({ where: { userId, url, viewport } });
+      const baseline = existing
+        ? await prisma.visualBaseline.update({
+          where: { id: existing.id },
+          data: { imagePath: screenshot.imagePath, screenshotId: screenshot.id, masks: masks ? JSON.stringify(masks) : undefined },
+        })
+        : await prisma.visualBaseline.create({
+          data: { userId, url, viewport, imagePath: screenshot.imagePath, screenshotId: screenshot.id, masks: JSON.stringify(masks || []) },
+        });
+      return { baselineId: baseline.id };
+    } catch (error) {
+      console.error('Error setting visual baseline:', error);
+      throw new Error('Failed to set visual baseline');
+    }
+  }
+
+  // Replace the regions ignored when comparing with a baseline
+  static async setBaselineMasks(baselineId: string, masks: Region[]) {
+    if (!isDatabaseAvailable) {
+      throw new Error('Database not available');
+    }
+
+    try {
+      await prisma.visualBaseline.update({ where: { id: baselineId }, data: { masks: JSON.stringify(masks) } });
+    } catch (error) {
+      console.error('Error updating baseline masks:', error);
+      throw new Error('Failed to update baseline masks');
+    }
+  }
+
+  // Delete the screenshots taken before the cutoff; returns how many there were
+  static async deleteScreenshotsBefore(cutoff: Date): Promise<number> {
+    if (!isDatabaseAvailable) {
+      throw new Error('Database not available');
+    }
+
+    try {
+      const result = await prisma.screenshot.deleteMany({ where: { createdAt: { lt: cutoff } } });
+      return result.count;
+    } catch (error) {
+      console.error('Error deleting old screenshots:', error);
+      throw new Error('Failed to delete old screenshots');
+    }
+  }
+
+  // Every image file a screenshot or baseline refers to
+  static async getScreenshotFiles(): Promise<string[]> {
+    if (!isDatabaseAvailable) {
+      throw new Error('Database not available');
+    }
+
+    try {
+      const [screenshots, baselines] = await Promise.all([
+        prisma.screenshot.findMany({ select: { imagePath: true, diffPath: true } }),
+        prisma.visualBaseline.findMany({ select: { imagePath: true } }),
+      ]);
+      return [...screenshots, ...baselines]
+        .flatMap((row: { imagePath: string; diffPath?: string | null }) => [row.imagePath, row.diffPath])
+        .filter((file): file is string => !!file);
+    } catch (error) {
+      console.error('Error listing screenshot files:', error);
+      throw error;
+    }
+  }
+
+  // Record how a generation pass went, for the dashboard
+  static async recordGeneration(data: GenerationRecordData) {
+    if (!isDatabaseAvailable) {
+      throw new Error('Database not available');
+    }
+
+    try {
+      const record = await prisma.generationRecord.create({ data });
+      return { recordId: record.id };
+    } catch (error) {
+      console.error('Error recording generation:', error);
+      throw new Error('Failed to record generation');
+    }
+  }
+
+  // Rows for a user's dashboard: totals, and the tests, runs and generation passes since `since`
+  static async getDashboardData(since: Date, userId: string): Promise<DashboardData> {
+    if (!isDatabaseAvailable) {
+      throw new Error('Database not available');
+    }
+
+    try {
+      const [stats, totalRuns, projects, tests, runs, generations, sessions] = await Promise.all([
+        DatabaseService.getStats(userId),
+        prisma.testRun.count({ where: { test: { userId } } }),
+        prisma.project.count({ where: { userId } }),
+        prisma.test.findMany({ where: { userId, createdAt: { gte: since } }, select: { createdAt: true } }),
+        prisma.testRun.findMany({ where: { test: { userId }, createdAt: { gte: since } }, select: { testId: true, status: true } }),
+        prisma.generationRecord.findMany({
+          where: { userId, createdAt: { gte: since } },
+          select: { provider: true, model: true, status: true },
+        }),
+        prisma.testSession.findMany({
+          where: { userId },
+          orderBy: { createdAt: 'desc' },
+          select: { url: true, createdAt: true, _count: { select: { tests: true } } },
+        }),
+      ]);
+
+      return {
+        totals: { ...stats, totalRuns, projects },
+        testDates: tests.map((test: { createdAt: Date }) => test.createdAt),
+        runs,
+        generations,
+        sessions: sessions.map((session: { url: string; createdAt: Date; _count: { tests: number } }) => ({
+          url: session.url,
+          createdAt: session.createdAt,
+          testCount: session._count.tests,
+        })),
+      };
+    } catch (error) {
+      console.error('Error fetching dashboard data:', error);
+      throw error;
+    }
+  }
+
+  // A user's projects with how many sessions, tests and suites each has
+  static async listProjects(userId: string) {
+    if (!isDatabaseAvailable) {
+      throw new Error('Database not available');
+    }
+
+    try {
+      const projects = await prisma.project.findMany({ where: { userId }, orderBy: { name: 'asc' }, include: PROJECT_COUNTS });
+      return projects.map((project: ProjectRow) => DatabaseService.toProject(project));
+    } catch (error) {
+      console.error('Error listing projects:', error);
+      throw error;
+    }
+  }
+
+  // One of a user's projects with its suites, or null if they have no such project
+  static async getProject(projectId: string, userId: string) {
+    if (!isDatabaseAvailable) {
+      throw new Error('Database not available');
+    }
+
+    try {
+      const project = await prisma.project.findFirst({
+        where: { id: projectId, userId },
+        include: {
+          ...PROJECT_COUNTS,
+          suites: { orderBy: { name: 'asc' }, include: { _count: { select: { tests: true } } } },
+        },
+      });
+      if (!project) return null;
+
+      return {
+        ...DatabaseService.toProject(project),
+        suites: project.suites.map((suite: { id: string; name: string; description: string | null; updatedAt: Date; _count: { tests: number } }) => ({
+          id: suite.id,
+          name: suite.name,
+          description: suite.description ?? undefined,
+          testCount: suite._count.tests,
+          updatedAt: suite.updatedAt,
+        })),
+      };
+    } catch (error) {
+      console.error('Error fetching project:', error);
+      throw error;
+    }
+  }
+
+  static async createProject(input: ProjectInput & { name: string }, userId: string) {
+    if (!isDatabaseAvailable) {
+      throw new Error('Database not available');
+    }
+
+    try {
+      const project = await prisma.project.create({ data: { ...input, userId }, include: PROJECT_COUNTS });
+      return DatabaseService.toProject(project);
+    } catch (error) {
+      console.error('Error creating project:', error);
+      throw new Error('Failed to create project');
+    }
+  }
+
+  // Returns null if the user has no such project
+  static async updateProject(projectId: string, userId: string, input: ProjectInput) {
+    if (!isDatabaseAvailable) {
+      throw new Error('Database not available');
+    }
+
+    try {
+      const existing = await prisma.project.findFirst({ where: { id: projectId, userId } });
+      if (!existing) return null;
+      const project = await prisma.project.update({ where: { id: projectId }, data: input, include: PROJECT_COUNTS });
+      return DatabaseService.toProject(project);
+    } catch (error) {
+      console.error('Error updating project:', error);
+      throw new Error('Failed to update project');
+    }
+  }
+
+  // Delete a project and its suites; its sessions and tests are kept without a project.
+  // Returns whether it existed.
+  static async deleteProject(projectId: string, userId: string) {
+    if (!isDatabaseAvailable) {
+      throw new Error('Database not available');
+    }
+
+    try {
+      const result = await prisma.project.deleteMany({ where: { id: projectId, userId } });
+      return result.count > 0;
+    } catch (error) {
+      console.error('Error deleting project:', error);
+      throw new Error('Failed to delete project');
+    }
+  }
+
+  // Create an empty suite; returns null if the user has no such project
+  static async createSuite(projectId: string, userId: string, input: { name: string; description?: string | null }) {
+    if (!isDatabaseAvailable) {
+      throw new Error('Database not available');
+    }
+
+    try {
+      const project = await prisma.project.findFirst({ where: { id: projectId, userId } });
+      if (!project) return null;
+      const suite = await prisma.suite.create({ data: { projectId, name: input.name, description: input.description } });
+      return { suiteId: suite.id };
+    } catch (error) {
+      if (isUniqueViolation(error)) throw new DuplicateNameError(`The project already has a suite named "${input.name}"`);
+      console.error('Error creating suite:', error);
+      throw new Error('Failed to create suite');
+    }
+  }
+
+  // A suite in one of a user's projects with its tests in order, or null if there is none
+  static async getSuite(suiteId: string, userId: string) {
+    if (!isDatabaseAvailable) {
+      throw new Error('Database not available');
+    }
+
+    try {
+      const suite = await prisma.suite.findFirst({
+        where: { id: suiteId, project: { userId } },
+        include: {
+          tests: {
+            orderBy: { position: 'asc' },
+            include: {
+              test: {
+                include: { session: { select: { url: true } }, latestRun: true },
+              },
+            },
+          },
+        },
+      });
+      if (!suite) return null;
+
+      return {
+        id: suite.id,
+        projectId: suite.projectId,
+        name: suite.name,
+        description: suite.description ?? undefined,
+        createdAt: suite.createdAt,
+        updatedAt: suite.updatedAt,
+        tests: suite.tests.map((entry: { test: StoredTestRow }) => DatabaseService.toStoredTest(entry.test)),
+      };
+    } catch (error) {
+      console.error('Error fetching suite:', error);
+      throw error;
+    }
+  }
+
+  // Rename a suite and add or remove tests. Only tests of the suite's project can be added;
+  // if any other id is given nothing changes and the ids are returned as `missingTestIds`.
+  // Returns null if the user has no such suite.
+  static async updateSuite(suiteId: string, userId: string, input: SuiteInput) {
+    if (!isDatabaseAvailable) {
+      throw new Error('Database not available');
+    }
+
+    try {
+      const suite = await prisma.suite.findFirst({
+        where: { id: suiteId, project: { userId } },
+        include: { tests: { select: { testId: true, position: true } } },
+      });
+      if (!suite) return null;
+
+      const members = new Set(suite.tests.map((entry: { testId: string }) => entry.testId));
+      const toAdd = (input.addTestIds || []).filter(id => !members.has(id));
+      if (toAdd.length > 0) {
+        const found = await prisma.test.findMany({ where: { id: { in: toAdd }, projectId: suite.projectId }, select: { id: true } });
+        const foundIds = new Set(found.map((test: { id: string }) => test.id));
+        const missingTestIds = toAdd.filter(id => !foundIds.has(id));
+        if (missingTestIds.length > 0) return { missingTestIds };
+      }
+
+      const nextPosition = Math.max(-1, ...suite.tests.map((entry: { position: number }) => entry.position)) + 1;
+      await prisma.$transaction([
+        prisma.suite.update({
+          where: { id: suiteId },
+          data: {
+            ...(input.name !== undefined && { name: input.name }),
+            ...(input.description !== undefined && { description: input.description }),
+          },
+        }),
+        prisma.suiteTest.deleteMany({ where: { suiteId, testId: { in: input.removeTestIds || [] } } }),
+        prisma.suiteTest.createMany({
+          data: toAdd.map((testId, i) => ({ suiteId, testId, position: nextPosition + i })),
+        }),
+      ]);
+
+      return { missingTestIds: [] };
+    } catch (error) {
+      if (isUniqueViolation(error)) throw new DuplicateNameError(`The project already has a suite named "${input.name}"`);
+      console.error('Error updating suite:', error);
+      throw new Error('Failed to update suite');
+    }
+  }
+
+  // Delete a suite; its tests stay. Returns whether the user had it.
+  static async deleteSuite(suiteId: string, userId: string) {
+    if (!isDatabaseAvailable) {
+      throw new Error('Database not available');
+    }
+
+    try {
+      const result = await prisma.suite.deleteMany({ where: { id: suiteId, project: { userId } } });
+      return result.count > 0;
+    } catch (error) {
+      console.error('Error deleting suite:', error);
+      throw new Error('Failed to delete suite');
+    }
+  }
+
+  private static toProject(project: ProjectRow) {
+    return {
+      id: project.id,
+      name: project.name,
+      description: project.description ?? undefined,
+      baseUrl: project.baseUrl ?? undefined,
+      sessionCount: project._count.sessions,
+      testCount: project._count.tests,
+      suiteCount: project._count.suites,
+      createdAt: project.createdAt,
+      updatedAt: project.updatedAt,
+    };
+  }
+
+  // Create an account. Data stored before accounts existed stays unowned until `npm run db:claim-legacy`.
+  static async createUser(data: { email: string; name?: string; passwordHash?: string }): Promise<AuthUser> {
+    if (!isDatabaseAvailable) {
+      throw new Error('Database not available');
+    }
+
+    try {
+      const user = await prisma.user.create({ data });
+      return DatabaseService.toAuthUser(user);
+    } catch (error) {
+      if (isUniqueViolation(error)) throw new DuplicateNameError('An account with this email already exists');
+      console.error('Error creating user:', error);
+      throw new Error('Failed to create account');
+    }
+  }
+
+  // An account with its password hash, or null if none has this email
+  static async getUserByEmail(email: string) {
+    if (!isDatabaseAvailable) {
+      throw new Error('Database not available');
+    }
+
+    try {
+      const user = await prisma.user.findUnique({ where: { email } });
+      return user ? { user: DatabaseService.toAuthUser(user), passwordHash: user.passwordHash ?? undefined } : null;
+    } catch (error) {
+      console.error('Error fetching user:', error);
+      throw error;
+    }
+  }
+
+  // The account with this id, or null if it was deleted
+  static async getUser(id: string): Promise<AuthUser | null> {
+    if (!isDatabaseAvailable) {
+      throw new Error('Database not available');
+    }
+
+    try {
+      const user = await prisma.user.findUnique({ where: { id } });
+      return user ? DatabaseService.toAuthUser(user) : null;
+    } catch (error) {
+      console.error('Error fetching user:', error);
+      throw error;
+    }
+  }
+
+  static async createAuthSession(data: { userId: string; tokenHash: string; expiresAt: Date; userAgent?: string; ipAddress?: string }) {
+    if (!isDatabaseAvailable) {
+      throw new Error('Database not available');
+    }
+
+    try {
+      await prisma.authSession.create({ data });
+    } catch (error) {
+      console.error('Error creating auth session:', error);
+      throw new Error('Failed to sign in');
+    }
+  }
+
+  // The user signed in with this session token, or null if it is unknown or expired
+  static async getUserBySessionToken(tokenHash: string): Promise<AuthUser | null> {
+    if (!isDatabaseAvailable) {
+      throw new Error('Database not available');
+    }
+
+    try {
+      const session = await prisma.authSession.findUnique({ where: { tokenHash }, include: { user: true } });
+      if (!session || session.expiresAt <= new Date()) return null;
+      return DatabaseService.toAuthUser(session.user);
+    } catch (error) {
+      console.error('Error fetching auth session:', error);
+      throw error;
+    }
+  }
+
+  static async deleteAuthSession(tokenHash: string) {
+    if (!isDatabaseAvailable) {
+      throw new Error('Database not available');
+    }
+
+    try {
+      await prisma.authSession.deleteMany({ where: { tokenHash } });
+    } catch (error) {
+      console.error('Error deleting auth session:', error);
+      throw new Error('Failed to sign out');
+    }
+  }
+
+  static async createLoginToken(data: { userId: string; tokenHash: string; purpose: LoginPurpose; expiresAt: Date }) {
+    if (!isDatabaseAvailable) {
+      throw new Error('Database not available');
+    }
+
+    try {
+      await prisma.loginToken.create({ data });
+    } catch (error) {
+      console.error('Error creating login token:', error);
+      throw new Error('Failed to create sign-in link');
+    }
+  }
+
+  // Use up an emailed link and mark its address verified. Returns its user, or null if the
+  // link is unknown, already used or expired.
+  static async consumeLoginToken(tokenHash: string): Promise<AuthUser | null> {
+    if (!isDatabaseAvailable) {
+      throw new Error('Database not available');
+    }
+
+    try {
+      const token = await prisma.loginToken.findUnique({ where: { tokenHash } });
+      if (!token || token.usedAt || token.expiresAt <= new Date()) return null;
+
+      // The usedAt check means a link opened twice at once only signs in once
+      const used = await prisma.loginToken.updateMany({ where: { id: token.id, usedAt: null }, data: { usedAt: new Date() } });
+      if (used.count === 0) return null;
+
+      const user = await prisma.user.findUnique({ where: { id: token.userId } });
+      if (!user) return null;
+      const verified = user.emailVerifiedAt
+        ? user
+        : await prisma.user.update({ where: { id: user.id }, data: { emailVerifiedAt: new Date() } });
+      return DatabaseService.toAuthUser(verified);
+    } catch (error) {
+      console.error('Error using login token:', error);
+      throw error;
+    }
+  }
+
+  private static toAuthUser(user: UserRow): AuthUser {
+    return {
+      id: user.id,
+      email: user.email,
+      name: user.name ?? undefined,
+      emailVerified: !!user.emailVerifiedAt,
+    };
+  }
+
   // Delete old test sessions (cleanup)
   static async cleanupOldSessions(daysOld: number = 30) {
     if (!isDatabaseAvailable) {
@@ -174,17 +1426,19 @@ export class DatabaseService {
     }
   }
 
-  // Get statistics
-  static async getStats() {
+  // Get statistics, for everything or for one user's data
+  static async getStats(userId?: string) {
     if (!isDatabaseAvailable) {
       return { totalSessions: 0, totalTests: 0, uniqueUrls: 0 };
     }
 
     try {
+      const where = userId ? { userId } : {};
       const [totalSessions, totalTests, uniqueUrls] = await Promise.all([
-        prisma.testSession.count(),
-        prisma.test.count(),
+        prisma.testSession.count({ where }),
+        prisma.test.count({ where }),
         prisma.testSession.findMany({
+          where,
           select: { url: true },
           distinct: ['url'],
         }).then((results: any) => results.length),
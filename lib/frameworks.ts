@@ -0,0 +1,19 @@
+// Supported test output frameworks for TestFlow AI
+
+export type TestFramework = 'cypress' | 'playwright';
+
+export const TEST_FRAMEWORKS: TestFramework[] = ['cypress', 'playwright'];
+
+export const FRAMEWORK_LABELS: Record<TestFramework, string> = {
+  cypress: 'Cypress',
+  playwright: 'Playwright Test',
+};
+
+export function isTestFramework(value: unknown): value is TestFramework {
+  return typeof value === 'string' && (TEST_FRAMEWORKS as string[]).includes(value);
+}
+
+// Stored tests predate the framework option and have no testType
+export function frameworkOf(testType?: string | null): TestFramework {
+  return isTestFramework(testType) ? testType : 'cypress';
+}
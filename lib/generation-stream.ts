@@ -0,0 +1,104 @@
+// Streaming generation utilities for TestFlow AI
+//
+// The streaming route reports progress as Server-Sent Events: one `data:` line of
+// JSON per event. Tests are pulled out of the model's reply while it is still
+// arriving, so the page can show each one as soon as it parses; the final
+// `result` event for a source carries the validated (and healed) tests.
+// This module is shared with the browser and must not import server-only code.
+
+import type { PageSnapshot } from './snapshot';
+import type { FinishedTest } from './generation';
+
+export type TestSource = 'general' | 'elements' | 'api';
+
+export type GenerationStage = 'snapshot' | 'prompt' | 'generating' | 'validating' | 'healing';
+
+export type GenerationEvent =
+  | { type: 'stage'; stage: GenerationStage; source?: TestSource; message: string }
+  | ({ type: 'snapshot' } & PageSnapshot)
+  | { type: 'tokens'; source: TestSource; tokens: number; attempt: number }
+  | { type: 'test'; source: TestSource; index: number; test: Record<string, unknown> }
+  | { type: 'result'; source: TestSource; summary: string; tests: FinishedTest[]; error?: boolean }
+  | { type: 'done' }
+  | { type: 'error'; message: string };
+
+export function encodeEvent(event: GenerationEvent): string {
+  return `data: ${JSON.stringify(event)}\n\n`;
+}
+
+// Read an event stream response, calling `onEvent` for each event as it arrives
+export async function readEventStream(res: Response, onEvent: (event: GenerationEvent) => void) {
+  if (!res.body) throw new Error('Response has no body to stream');
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+
+    let boundary;
+    while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+      const message = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      const data = message
+        .split('\n')
+        .filter(line => line.startsWith('data:'))
+        .map(line => line.slice(5).trimStart())
+        .join('\n');
+      if (data) onEvent(JSON.parse(data));
+    }
+    if (done) return;
+  }
+}
+
+// Pulls complete test objects out of a suite reply while it is still streaming
+export class StreamingTestParser {
+  private text = '';
+  private position = -1; // next character to scan inside the tests array; -1 until it is found
+  private depth = 0;
+  private objectStart = 0;
+  private inString = false;
+  private escaped = false;
+  private finished = false;
+
+  // Add more reply text; returns the tests completed by it
+  push(delta: string): Record<string, unknown>[] {
+    this.text += delta;
+    const tests: Record<string, unknown>[] = [];
+    if (this.finished) return tests;
+
+    if (this.position === -1) {
+      const start = /"tests"\s*:\s*\[/.exec(this.text);
+      if (!start) return tests;
+      this.position = start.index + start[0].length;
+    }
+
+    for (; this.position < this.text.length; this.position++) {
+      const char = this.text[this.position];
+      if (this.inString) {
+        if (this.escaped) this.escaped = false;
+        else if (char === '\\') this.escaped = true;
+        else if (char === '"') this.inString = false;
+      } else if (char === '"') {
+        this.inString = true;
+      } else if (char === '{') {
+        if (this.depth === 0) this.objectStart = this.position;
+        this.depth++;
+      } else if (char === '}' && this.depth > 0) {
+        this.depth--;
+        if (this.depth === 0) {
+          try {
+            tests.push(JSON.parse(this.text.slice(this.objectStart, this.position + 1)));
+          } catch {
+            // Not valid JSON on its own; the final result will still include the test if it can be repaired
+          }
+        }
+      } else if (char === ']' && this.depth === 0) {
+        this.finished = true;
+        break;
+      }
+    }
+    return tests;
+  }
+}
@@ -0,0 +1,657 @@
+// Test generation utilities for TestFlow AI
+//
+// Builds the prompts for page-level ("general"), element-specific and API tests, asks
+// the model for a suite, then validates, self-heals and attaches the login helper.
+// The JSON routes call these directly; the streaming route passes hooks to report
+// each stage and the raw reply as it arrives.
+
+import { allowSelfHeal, healTests, resolveMaxHealAttempts, type HealStatus, type TestRevision } from './self-heal';
+import { FRAMEWORK_LABELS, type TestFramework } from './frameworks';
+import { validateTests, validateTestCode, type ValidationWarning } from './test-validator';
+import { findLoginRecipe, loginPromptNotes, stripLoginHelper, withLoginHelpers, type LoginRecipe } from './login-recipes';
+import { capturePromptNotes, stripViewportSetup, withViewportSetups } from './capture';
+import { formatAccessibleElements, rolePromptNotes } from './accessibility';
+import { formatAllowedSelectors, formatSelectors, selectorPromptRules } from './selectors';
+import { apiPromptNotes, formatApiCalls } from './network';
+import { buildSmokeTest, formatPageIssues } from './page-health';
+import { generateJSON, LLMParseError, resolveModel, resolveProviderName, type JSONSchemaFormat } from './llm';
+import { DatabaseService } from './database';
+import { CODE_FIX_SCHEMA, enforceTestSuite, TEST_CATEGORIES, TEST_SUITE_SCHEMA, type GeneratedTest } from './test-schema';
+import { describeScreenshots, prepareScreenshot, resolveVisionModel, type VisionImage } from './vision';
+import type { SanitizedInput } from './validation';
+import type { AuthUser } from './auth';
+import type { HtmlElementInfo } from './snapshot';
+import type { TestRunResult } from './test-runner';
+import type { GenerationStage, TestSource } from './generation-stream';
+import type { GenerationStatus } from './dashboard';
+
+export interface GenerationHooks {
+  onStage?: (stage: GenerationStage, message: string) => void;
+  onDelta?: (text: string, attempt: number) => void; // reply text of the main generation call, as it streams
+}
+
+// A generated test once it has been tagged, checked and, where healing ran, repaired
+export interface FinishedTest extends GeneratedTest {
+  testType: TestFramework;
+  warnings: ValidationWarning[];
+  healStatus?: HealStatus;
+  revisions?: TestRevision[];
+  lastRun?: TestRunResult;
+  pageUrl?: string; // set for the pages of a crawl
+}
+
+export interface GenerationResult {
+  summary: string;
+  tests: FinishedTest[];
+  _error?: boolean;
+  _parseFailed?: boolean; // the reply never parsed as JSON
+  _rawResponse?: string;
+}
+
+// The suite as the model returned it, before finishTests
+type DraftResult = Omit<GenerationResult, 'tests'> & { tests: GeneratedTest[] };
+
+type CallAI = (basePrompt: string, schema: JSONSchemaFormat) => Promise<Record<string, unknown>>;
+
+const MAX_RETRIES = 3;
+const MAX_FOCUSED_RETRIES = 2; // element and API tests
+const MAX_PROMPT_ELEMENTS = 50;
+const MAX_PROMPT_ROLES = 60;
+const MAX_PROMPT_ISSUES = 10;
+
+// The parts of a request that depend on who sent it: the login recipe to scan with and
+// whether healing may run. Every route and job applies this to its sanitized input.
+export function forUser<T extends SanitizedInput>(input: T, user: AuthUser | null): T {
+  return { ...allowSelfHeal(input, user?.id), loginRecipe: findLoginRecipe(input.url, user) };
+}
+
+// Run one generation pass and record how it went, for the dashboard's per-model rates.
+// Passes of background jobs and of signed-in users are recorded; anonymous ones have no
+// dashboard to show up on. Losing a record doesn't fail the generation.
+export async function recordedGeneration(
+  source: TestSource,
+  generate: (input: SanitizedInput, hooks?: GenerationHooks) => Promise<GenerationResult>,
+  input: SanitizedInput,
+  owner: { jobId?: string; userId?: string },
+  hooks: GenerationHooks = {}
+): Promise<GenerationResult> {
+  const started = Date.now();
+  const record = async (status: GenerationStatus, testCount: number) => {
+    if (!owner.jobId && !owner.userId) return;
+    await DatabaseService.recordGeneration({
+      ...owner, url: input.url, source, ...resolveModel(input.llm), status, testCount, durationMs: Date.now() - started,
+    }).catch(err => console.error(`Recording ${source} generation failed:`, err));
+  };
+
+  try {
+    const result = await generate(input, hooks);
+    await record(result._parseFailed ? 'parse-failed' : result._error ? 'failed' : 'succeeded', result.tests.length);
+    return result;
+  } catch (err) {
+    await record(err instanceof LLMParseError ? 'parse-failed' : 'failed', 0);
+    throw err;
+  }
+}
+
+// Whether the snapshot found anything for element tests to cover
+export function hasInteractiveElements(input: Pick<SanitizedInput, 'htmlElements' | 'accessibleElements'>): boolean {
+  return (input.htmlElements?.length ?? 0) > 0 || (input.accessibleElements?.length ?? 0) > 0;
+}
+
+// Ask for the suite; when no usable reply comes back, the result is empty and says why
+async function requestSuite(prompt: string, callAI: CallAI, maxRetries: number, hooks: GenerationHooks): Promise<DraftResult> {
+  try {
+    hooks.onStage?.('generating', 'Waiting for the model...');
+    // Fields that don't match the schema are asked for again one at a time
+    return await enforceTestSuite(await callAI(prompt, TEST_SUITE_SCHEMA), callAI);
+  } catch (err) {
+    const lastResponseText = err instanceof LLMParseError ? err.rawResponse : '';
+    console.error('Failed to parse AI response after all retries:', err);
+    console.error('Last raw response:', lastResponseText.substring(0, 500));
+
+    // Build helpful error message
+    const errorMessage = `⚠️ Failed to parse AI response after ${maxRetries} retry attempts. The model may not have returned valid JSON.\n\nTroubleshooting:\n- The model may need more explicit JSON formatting instructions\n- Try increasing MAX_TOKENS if response was truncated\n- Check if the model supports JSON mode`;
+
+    return {
+      summary: errorMessage,
+      tests: [],
+      _error: true,
+      _parseFailed: err instanceof LLMParseError,
+      _rawResponse: lastResponseText.substring(0, 1000) // Include first 1000 chars for debugging
+    };
+  }
+}
+
+// Validate, self-heal and attach the login helper and viewport setup to a freshly generated suite
+async function finishTests(
+  draft: DraftResult,
+  input: SanitizedInput,
+  htmlElements: HtmlElementInfo[] | undefined,
+  loginRecipe: LoginRecipe | null,
+  callAI: CallAI,
+  hooks: GenerationHooks
+): Promise<GenerationResult> {
+  const { url, framework } = input;
+  const withSetup = (tests: FinishedTest[]) => withViewportSetups(withLoginHelpers(tests, loginRecipe), input.capture, framework);
+
+  // Tag each test with the framework it was written for
+  const tagged = draft.tests.map(test => ({ ...test, testType: framework }));
+
+  // Check the code statically; unparseable tests are regenerated once, then flagged
+  hooks.onStage?.('validating', `Validating ${tagged.length} tests...`);
+  let tests: FinishedTest[] = withSetup(await validateTests(
+    tagged,
+    { framework, htmlElements },
+    fixPrompt => callAI(fixPrompt, CODE_FIX_SCHEMA)
+  ));
+
+  // --- Run the tests and repair failures with the model ---
+  if (input.selfHeal && !draft._error && tests.length > 0) {
+    hooks.onStage?.('healing', `Running and repairing ${tests.length} tests...`);
+    const healed = await healTests(
+      tests,
+      url,
+      repairPrompt => callAI(repairPrompt, CODE_FIX_SCHEMA),
+      resolveMaxHealAttempts(input.maxHealAttempts),
+      framework,
+      input.loginRecipe ?? null
+    );
+
+    // Healed tests have new code, so their warnings need refreshing
+    tests = healed.map(test =>
+      test.healStatus === 'healed'
+        ? { ...test, warnings: validateTestCode(stripViewportSetup(stripLoginHelper(test.code)), { framework, htmlElements }) }
+        : test
+    );
+  }
+
+  // Repairs may have dropped or altered the helper and setup
+  return { ...draft, tests: withSetup(tests) };
+}
+
+// Page-level tests from the DOM summary (and the screenshot, for vision models)
+export async function generateGeneralTests(input: SanitizedInput, hooks: GenerationHooks = {}): Promise<GenerationResult> {
+  const { url, userDescription, screenshot, domData, framework } = input;
+  const frameworkLabel = FRAMEWORK_LABELS[framework];
+
+  // Pages behind a login recipe are tested through a cy.session login helper
+  const loginRecipe = framework === 'cypress' ? input.loginRecipe ?? null : null;
+  const deviceNotes = input.capture ? capturePromptNotes(input.capture, framework) : '';
+
+  // Build prompt with DOM data for text-only models (like baidu/ernie-4.5-21b-a3b)
+  const domInfo = domData ? `
+Page Title: ${domData.title || 'N/A'}
+
+Headings found:
+${domData.headings?.length > 0 ? domData.headings.map((h, i) => `  ${i + 1}. ${h}`).join('\n') : '  None'}
+
+Buttons found:
+${domData.buttons?.length > 0 ? domData.buttons.map((b, i) => `  ${i + 1}. "${b}"`).join('\n') : '  None'}
+
+Input fields found:
+${domData.inputs?.length > 0 ? domData.inputs.map((inp, i) => `  ${i + 1}. ${inp.name || inp.placeholder || 'Unnamed'} (${inp.type})`).join('\n') : '  None'}
+
+Links found (first 10):
+${domData.links?.length > 0 ? domData.links.slice(0, 10).map((l, i) => `  ${i + 1}. "${l.text}" -> ${l.href}`).join('\n') : '  None'}
+${input.accessibleElements?.length ? `
+Elements by ARIA role (role "accessible name" [state]):
+${formatAccessibleElements(input.accessibleElements, MAX_PROMPT_ROLES)}
+` : ''}${input.pageIssues?.length ? `
+Problems while the page loaded (a smoke test covering these is added for you):
+${formatPageIssues(input.pageIssues.slice(0, MAX_PROMPT_ISSUES))}
+` : ''}` : 'No DOM data available.';
+
+  // Cypress test examples and best practices
+  const cypressExamples = `
+CYPRESS TEST EXAMPLES AND BEST PRACTICES:
+
+1. Basic Page Load Test:
+describe('Page Load', () => {
+it('should load the page successfully', () => {
+  cy.visit('${url}');
+  cy.url().should('include', 'expected-path');
+  cy.title().should('not.be.empty');
+});
+});
+
+2. Form Interaction Test:
+describe('Form Submission', () => {
+it('should submit form with valid data', () => {
+  cy.visit('${url}');
+  cy.get('input[name="email"]').type('test@example.com');
+  cy.get('input[name="password"]').type('password123');
+  cy.get('button[type="submit"]').click();
+  cy.url().should('include', 'dashboard');
+});
+});
+
+3. Button Click Test:
+describe('Button Interactions', () => {
+it('should click button and verify action', () => {
+  cy.visit('${url}');
+  cy.contains('button', 'Submit').should('be.visible').click();
+  cy.get('.success-message').should('be.visible');
+});
+});
+
+4. Input Field Test:
+describe('Input Fields', () => {
+it('should type and validate input', () => {
+  cy.visit('${url}');
+  cy.get('input[type="text"]').type('test input');
+  cy.get('input[type="text"]').should('have.value', 'test input');
+});
+});
+
+5. Navigation Test:
+describe('Navigation', () => {
+it('should navigate to different pages', () => {
+  cy.visit('${url}');
+  cy.get('a[href="/about"]').click();
+  cy.url().should('include', '/about');
+});
+});
+
+BEST PRACTICES:
+- Always use cy.visit() before interacting with elements
+- Use data-cy attributes when possible: cy.get('[data-cy="submit-btn"]')
+- Wait for elements: cy.get('.element').should('be.visible')
+- Use .should() for assertions instead of .then()
+- Test user flows, not just individual elements
+- Include error cases and edge cases
+- Use descriptive test names that explain what is being tested
+- Group related tests in describe blocks
+`;
+
+  // Playwright Test examples and best practices
+  const playwrightExamples = `
+PLAYWRIGHT TEST EXAMPLES AND BEST PRACTICES:
+
+1. Basic Page Load Test:
+import { test, expect } from '@playwright/test';
+
+test.describe('Page Load', () => {
+test('should load the page successfully', async ({ page }) => {
+  await page.goto('${url}');
+  await expect(page).toHaveURL(/expected-path/);
+  await expect(page).toHaveTitle(/.+/);
+});
+});
+
+2. Form Interaction Test:
+test.describe('Form Submission', () => {
+test('should submit form with valid data', async ({ page }) => {
+  await page.goto('${url}');
+  await page.getByLabel('Email').fill('test@example.com');
+  await page.getByLabel('Password').fill('password123');
+  await page.getByRole('button', { name: 'Sign in' }).click();
+  await expect(page).toHaveURL(/dashboard/);
+});
+});
+
+3. Button Click Test:
+test.describe('Button Interactions', () => {
+test('should click button and verify action', async ({ page }) => {
+  await page.goto('${url}');
+  await page.getByRole('button', { name: 'Submit' }).click();
+  await expect(page.getByText('Thank you')).toBeVisible();
+});
+});
+
+4. Input Field Test:
+test.describe('Input Fields', () => {
+test('should type and validate input', async ({ page }) => {
+  await page.goto('${url}');
+  const search = page.getByRole('textbox', { name: 'Search' });
+  await search.fill('test input');
+  await expect(search).toHaveValue('test input');
+});
+});
+
+5. Navigation Test:
+test.describe('Navigation', () => {
+test('should navigate to different pages', async ({ page }) => {
+  await page.goto('${url}');
+  await page.getByRole('link', { name: 'About' }).click();
+  await expect(page).toHaveURL(/about/);
+});
+});
+
+BEST PRACTICES:
+- Start every spec with: import { test, expect } from '@playwright/test';
+- Every test is async and receives the { page } fixture; await every page and expect call
+- Prefer user-facing locators: page.getByRole() with an accessible name, getByLabel(), getByPlaceholder(), getByText(), getByTestId()
+- Use web-first assertions that auto-wait: await expect(locator).toBeVisible(), toHaveText(), toHaveValue(), expect(page).toHaveURL()
+- Never use page.waitForTimeout() or manual sleeps
+- Group related tests in test.describe() blocks with descriptive test names
+- Include error cases and edge cases
+`;
+
+  const frameworkExamples = framework === 'playwright' ? playwrightExamples : cypressExamples;
+
+  // Selectors checked against the live page; the model may not use any others
+  const allowedSelectors = formatAllowedSelectors(input.htmlElements || [], framework);
+  const selectorsSection = allowedSelectors ? `
+SELECTORS YOU MAY USE (each verified to match exactly one element):
+${allowedSelectors}
+${selectorPromptRules(framework)}` : '';
+
+  const frameworkRequirements = framework === 'playwright'
+    ? `- Be complete and ready to run with npx playwright test
+- Import test and expect from '@playwright/test'
+- Use page.goto, page.getByRole, page.getByLabel, page.getByText, locator.click, locator.fill and await expect(...)
+- Follow the structure: test.describe() blocks for grouping, async test() blocks for individual tests
+- ${allowedSelectors ? 'Use only the selectors listed above' : 'Use role-based locators with accessible names wherever possible'}
+- Test real user interactions and flows`
+    : `- Be complete and ready to run
+- Use proper Cypress commands (cy.visit, cy.get, cy.contains, cy.click, cy.type, cy.should)
+- Include assertions to verify expected behavior
+- Follow the structure: describe() blocks for grouping, it() blocks for individual tests
+- ${allowedSelectors ? 'Use only the selectors listed above' : 'Use descriptive selectors (prefer data-cy, name, id, or text content)'}
+- Test real user interactions and flows`;
+
+  const prompt = `You are a QA automation engineer. Analyze the webpage structure and generate ${frameworkLabel} tests.
+
+URL: ${url}
+
+${domInfo}${selectorsSection}
+
+User notes: "${userDescription || 'No specific requirements provided.'}"
+${loginRecipe ? `\n${loginPromptNotes(loginRecipe)}\n` : ''}${deviceNotes ? `\n${deviceNotes}\n` : ''}
+${frameworkExamples}
+
+Based on the page structure above, identify:
+- Visible UI elements (buttons, forms, links, navigation)
+- User interactions that should be tested
+- Critical user flows
+- Edge cases to consider
+
+Generate 3-5 comprehensive ${frameworkLabel} tests following the examples above. Each test should:
+${frameworkRequirements}
+
+Return **ONLY valid JSON**, do not include any markdown, code fences, or explanations.
+JSON format:
+{
+"summary": "Brief summary of what this page does and key testable features",
+"tests": [
+  {
+    "title": "Descriptive test name",
+    "why": "Why this test is important",
+    "steps": ["step1", "step2"],
+    "code": "Complete ${frameworkLabel} test code ${framework === 'playwright' ? 'with the @playwright/test import, test.describe and async test blocks' : 'with describe/it blocks using proper Cypress syntax'}",
+    "category": "One of: ${TEST_CATEGORIES.join(', ')}",
+    "selectors": ["Every selector or locator the code uses"]
+  }
+]
+}`;
+
+  hooks.onStage?.('prompt', 'Prompt built from the page structure');
+
+  // --- Attach the screenshot when a vision model is configured, otherwise stay text-only ---
+  // OPENAI_VISION_MODEL belongs to the OpenAI provider; a model picked in the request is used as-is
+  const visionModel = input.llm.model || resolveProviderName(input.llm.provider) !== 'openai'
+    ? null
+    : resolveVisionModel();
+  let screenshotImages: VisionImage[] = [];
+  if (visionModel && screenshot) {
+    try {
+      screenshotImages = await prepareScreenshot(screenshot);
+      console.log(`Sending ${screenshotImages.length} screenshot image(s) to ${visionModel}`);
+    } catch (err) {
+      console.warn('Could not prepare screenshot, using the DOM-text prompt only:', err);
+    }
+  }
+
+  // Only the generation prompt is about the screenshot; fix and repair prompts are text-only
+  const callAI: CallAI = (basePrompt, schema) => {
+    const images = basePrompt === prompt ? screenshotImages : [];
+    return generateJSON(
+      images.length > 0
+        ? [
+            { type: 'text', text: `${basePrompt}\n\n${describeScreenshots(images)}` },
+            ...images.map(image => ({ type: 'image_url' as const, image_url: { url: image.dataUrl } })),
+          ]
+        : basePrompt,
+      {
+        ...input.llm,
+        model: images.length > 0 ? visionModel! : input.llm.model,
+        maxRetries: MAX_RETRIES,
+        label: 'ai-testgen',
+        schema,
+        onDelta: basePrompt === prompt ? hooks.onDelta : undefined,
+      }
+    );
+  };
+
+  // --- Call AI with retry logic ---
+  const aiData = await requestSuite(prompt, callAI, MAX_RETRIES, hooks);
+
+  // Pages captured with their load-time health get a smoke test built from it
+  if (!aiData._error && input.criticalAssets) {
+    aiData.tests.push(buildSmokeTest(url, input.criticalAssets, framework));
+  }
+
+  return finishTests(aiData, input, input.htmlElements, loginRecipe, callAI, hooks);
+}
+
+// Tests for the individual interactive elements captured from the page
+export async function generateElementTests(input: SanitizedInput, hooks: GenerationHooks = {}): Promise<GenerationResult> {
+  const { url, userDescription, framework } = input;
+  const frameworkLabel = FRAMEWORK_LABELS[framework];
+
+  // Pages behind a login recipe are tested through a cy.session login helper
+  const loginRecipe = framework === 'cypress' ? input.loginRecipe ?? null : null;
+  const deviceNotes = input.capture ? capturePromptNotes(input.capture, framework) : '';
+
+  // Limit HTML elements to prevent abuse
+  const limitedHtmlElements = (input.htmlElements || []).slice(0, MAX_PROMPT_ELEMENTS);
+
+  // Build HTML elements summary for the prompt
+  const elementsSummary = limitedHtmlElements.map((el, idx) => {
+    const attrs = Object.entries(el.attributes || {})
+      .filter(([key]) => !['class', 'id', 'name', 'type', 'href', 'placeholder'].includes(key))
+      .slice(0, 3) // Limit attributes to prevent prompt bloat
+      .map(([key, value]) => `${key}="${String(value).substring(0, 50)}"`) // Limit attribute values
+      .join(' ');
+
+    const selectors = el.selectors?.length ? `\n   Selectors: ${formatSelectors(el, framework)}` : '';
+    return `${idx + 1}. ${el.type?.toUpperCase() || 'ELEMENT'}: ${el.html?.substring(0, 200) || 'N/A'}${attrs ? ` (${attrs})` : ''}${selectors}`;
+  }).join('\n');
+  const hasSelectors = limitedHtmlElements.some(el => el.selectors?.length);
+
+  // Includes custom components, dialogs, tabs, menus, shadow DOM and iframes
+  const accessibleElements = (input.accessibleElements || []).slice(0, MAX_PROMPT_ROLES);
+  const rolesSection = accessibleElements.length > 0 ? `
+
+ELEMENTS BY ARIA ROLE (role "accessible name" [state]):
+${formatAccessibleElements(accessibleElements)}
+${rolePromptNotes(accessibleElements, framework)}` : '';
+
+  const cypressExamples = `CYPRESS EXAMPLES:
+describe('Button Interactions', () => {
+it('should click button and verify action', () => {
+  cy.visit('${url}');
+  cy.get('button#submit-btn').should('be.visible').click();
+  cy.get('.success-message').should('be.visible');
+});
+});
+
+describe('Form Inputs', () => {
+it('should type in input field', () => {
+  cy.visit('${url}');
+  cy.get('input[name="email"]').type('test@example.com');
+  cy.get('input[name="email"]').should('have.value', 'test@example.com');
+});
+});`;
+
+  const playwrightExamples = `PLAYWRIGHT TEST EXAMPLES:
+import { test, expect } from '@playwright/test';
+
+test.describe('Button Interactions', () => {
+test('should click button and verify action', async ({ page }) => {
+  await page.goto('${url}');
+  const submit = page.getByRole('button', { name: 'Submit' });
+  await expect(submit).toBeVisible();
+  await submit.click();
+  await expect(page.getByText('Thank you')).toBeVisible();
+});
+});
+
+test.describe('Form Inputs', () => {
+test('should type in input field', async ({ page }) => {
+  await page.goto('${url}');
+  const email = page.getByLabel('Email');
+  await email.fill('test@example.com');
+  await expect(email).toHaveValue('test@example.com');
+});
+});`;
+
+  const prompt = `You are a QA automation engineer. Generate specific ${frameworkLabel} tests for interactive HTML elements.
+
+URL: ${url}
+
+User notes: "${userDescription || 'No specific requirements provided.'}"
+${loginRecipe ? `\n${loginPromptNotes(loginRecipe)}\n` : ''}${deviceNotes ? `\n${deviceNotes}\n` : ''}
+HTML ELEMENTS FOUND:
+${elementsSummary || 'None'}${hasSelectors ? `\n\n${selectorPromptRules(framework)}` : ''}${rolesSection}
+
+Generate ${frameworkLabel} tests that:
+1. Test each button's click functionality
+2. Test form inputs (typing, validation, submission)
+3. Test link navigation
+4. Test element visibility and interactivity
+5. ${hasSelectors ? 'Use only the selectors listed for each element' : framework === 'playwright'
+? 'Use role-based locators (page.getByRole with an accessible name, getByLabel, getByPlaceholder, getByTestId) and await every call'
+: `Use proper selectors (prefer data-cy, id, name, or text content${accessibleElements.length > 0 ? ', or cy.findByRole for elements listed by role' : ''})`}
+6. Include assertions to verify expected behavior
+
+Focus on element-specific interactions rather than full user flows.
+
+${framework === 'playwright' ? playwrightExamples : cypressExamples}
+
+Return **ONLY valid JSON**, no markdown or explanations.
+JSON format:
+{
+"summary": "Brief summary of interactive elements and tests generated",
+"tests": [
+  {
+    "title": "Test name for specific element",
+    "why": "Why this element test is important",
+    "steps": ["step1", "step2"],
+    "code": "Complete ${frameworkLabel} test code",
+    "category": "element, form or navigation",
+    "selectors": ["Every selector or locator the code uses"]
+  }
+]
+}`;
+
+  hooks.onStage?.('prompt', `Prompt built from ${limitedHtmlElements.length + accessibleElements.length} elements`);
+
+  // Fewer retries for element tests
+  const callAI: CallAI = (basePrompt, schema) =>
+    generateJSON(basePrompt, {
+      ...input.llm,
+      maxTokens: input.llm.maxTokens ?? parseInt(process.env.MAX_TOKENS || '3000'),
+      maxRetries: MAX_FOCUSED_RETRIES,
+      strictSuffix: 'CRITICAL: Return ONLY valid JSON. No explanations, no markdown.',
+      label: 'ai-testgen-elements',
+      schema,
+      onDelta: basePrompt === prompt ? hooks.onDelta : undefined,
+    });
+
+  const aiData = await requestSuite(prompt, callAI, MAX_FOCUSED_RETRIES, hooks);
+
+  return finishTests(aiData, input, limitedHtmlElements, loginRecipe, callAI, hooks);
+}
+
+// API-level tests for the same-origin calls the page made while loading: stubbed and
+// awaited requests in the page, and standalone contract tests against the endpoints
+export async function generateApiTests(input: SanitizedInput, hooks: GenerationHooks = {}): Promise<GenerationResult> {
+  const { url, userDescription, framework } = input;
+  const frameworkLabel = FRAMEWORK_LABELS[framework];
+
+  // Pages behind a login recipe are tested through a cy.session login helper
+  const loginRecipe = framework === 'cypress' ? input.loginRecipe ?? null : null;
+  const apiCalls = input.apiCalls || [];
+
+  const cypressExample = `CYPRESS EXAMPLE:
+describe('Product list API', () => {
+it('shows an error when the products request fails', () => {
+  cy.intercept('GET', '**/api/products', { statusCode: 500, body: { error: 'Server error' } }).as('getProducts');
+  cy.visit('${url}');
+  cy.wait('@getProducts');
+  cy.contains('Something went wrong').should('be.visible');
+});
+
+it('returns the product list', () => {
+  cy.request('GET', '/api/products').its('status').should('eq', 200);
+  cy.request('GET', '/api/products').its('body.items').should('be.an', 'array');
+});
+});`;
+
+  const playwrightExample = `PLAYWRIGHT TEST EXAMPLE:
+import { test, expect } from '@playwright/test';
+
+test.describe('Product list API', () => {
+test('shows an error when the products request fails', async ({ page }) => {
+  await page.route('**/api/products', route => route.fulfill({ status: 500, json: { error: 'Server error' } }));
+  await page.goto('${url}');
+  await expect(page.getByText('Something went wrong')).toBeVisible();
+});
+
+test('returns the product list', async ({ request }) => {
+  const response = await request.get('/api/products');
+  expect(response.status()).toBe(200);
+  expect(Array.isArray((await response.json()).items)).toBe(true);
+});
+});`;
+
+  const prompt = `You are a QA automation engineer. Generate ${frameworkLabel} tests for the API calls a web page makes.
+
+URL: ${url}
+
+User notes: "${userDescription || 'No specific requirements provided.'}"
+${loginRecipe ? `\n${loginPromptNotes(loginRecipe)}\n` : ''}
+API CALLS MADE WHILE THE PAGE LOADED (method, URL pattern with ids as *, status, body shapes):
+${formatApiCalls(apiCalls)}
+
+Generate ${frameworkLabel} tests that:
+${apiPromptNotes(framework)}
+- Only use the endpoints listed above, and only fields that appear in their body shapes
+- Keep each test independent: stubs are set up inside the test that relies on them
+
+${framework === 'playwright' ? playwrightExample : cypressExample}
+
+Return **ONLY valid JSON**, no markdown or explanations.
+JSON format:
+{
+"summary": "Brief summary of the page's API and the tests generated",
+"tests": [
+  {
+    "title": "Test name for the API behaviour",
+    "why": "Why this API test is important",
+    "steps": ["step1", "step2"],
+    "code": "Complete ${frameworkLabel} test code",
+    "category": "api or error-handling",
+    "selectors": ["Every selector, locator or URL pattern the code uses"]
+  }
+]
+}`;
+
+  hooks.onStage?.('prompt', `Prompt built from ${apiCalls.length} API calls`);
+
+  const callAI: CallAI = (basePrompt, schema) =>
+    generateJSON(basePrompt, {
+      ...input.llm,
+      maxTokens: input.llm.maxTokens ?? parseInt(process.env.MAX_TOKENS || '3000'),
+      maxRetries: MAX_FOCUSED_RETRIES,
+      strictSuffix: 'CRITICAL: Return ONLY valid JSON. No explanations, no markdown.',
+      label: 'ai-testgen-api',
+      schema,
+      onDelta: basePrompt === prompt ? hooks.onDelta : undefined,
+    });
+
+  const aiData = await requestSuite(prompt, callAI, MAX_FOCUSED_RETRIES, hooks);
+
+  return finishTests(aiData, input, input.htmlElements, loginRecipe, callAI, hooks);
+}
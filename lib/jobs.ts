@@ -0,0 +1,324 @@
+// Background scan job utilities for TestFlow AI
+//
+// A scan (snapshot or crawl, general and element generation, validation and
+// saving) is stored as a ScanJob row and run by an in-process worker, so it
+// finishes and is saved even if the page that submitted it is closed. At most
+// SCAN_CONCURRENCY jobs run at once; jobs that were running when the server
+// stopped are queued again on startup.
+
+import { DatabaseService } from './database';
+import { captureSnapshot } from './snapshot';
+import { crawlSite, type CrawledPage, type SiteMapNode } from './crawler';
+import { forUser, generateApiTests, generateElementTests, generateGeneralTests, hasInteractiveElements, recordedGeneration, type GenerationResult } from './generation';
+import { StreamingTestParser, type GenerationStage, type TestSource } from './generation-stream';
+import { sanitizeRequest, type SanitizedInput } from './validation';
+import type { PageIssue } from './page-health';
+import { checkScreenshot, pruneScreenshots, type VisualCheck } from './visual';
+
+export type ScanJobStatus = 'queued' | 'snapshotting' | 'generating' | 'validating' | 'done' | 'failed';
+
+// Everything a scan request carries besides the URL
+export type ScanJobOptions = Pick<SanitizedInput, 'userDescription' | 'framework' | 'selfHeal' | 'maxHealAttempts' | 'crawl' | 'capture' | 'llm' | 'projectId'>;
+
+// A test parsed from the model's reply while the job is running
+export interface PreviewTest {
+  source: TestSource;
+  title: string;
+  why?: string;
+  pageUrl?: string;
+  final?: boolean; // validated, rather than just parsed
+}
+
+export interface ScanJobResult {
+  summary: string;
+  general: number;
+  elements: number;
+  api: number;
+  added: number; // new tests, after merging with the URL's previous session
+  pageIssues: (PageIssue & { pageUrl?: string })[]; // found while the pages loaded
+  visual?: VisualCheck; // the start page's screenshot compared with its baseline
+}
+
+export interface ScanJob {
+  id: string;
+  url: string;
+  status: ScanJobStatus;
+  options: ScanJobOptions;
+  userId?: string; // who queued it; unset only for jobs queued before accounts existed
+  userAgent?: string;
+  ipAddress?: string;
+  progress: number;
+  message?: string;
+  preview: PreviewTest[];
+  screenshot?: string;
+  result?: ScanJobResult;
+  sessionId?: string;
+  error?: string;
+  attempts: number;
+  createdAt: Date;
+  updatedAt: Date;
+  startedAt?: Date;
+  finishedAt?: Date;
+}
+
+export type ScanJobUpdate = Partial<Pick<ScanJob,
+  'status' | 'progress' | 'message' | 'preview' | 'screenshot' | 'result' | 'sessionId' | 'error' | 'finishedAt'>>;
+
+export const DEFAULT_SCAN_CONCURRENCY = 2;
+
+// A job interrupted by this many restarts is failed instead of resumed
+export const MAX_SCAN_ATTEMPTS = 3;
+
+// Preview updates are written at most this often
+const PREVIEW_WRITE_INTERVAL_MS = 1000;
+
+export function resolveScanConcurrency(): number {
+  const value = Number(process.env.SCAN_CONCURRENCY);
+  return Number.isInteger(value) && value > 0 ? value : DEFAULT_SCAN_CONCURRENCY;
+}
+
+// Tests from a new scan that aren't already saved for the URL (same title on the same page)
+export function mergeNewTests<T extends { title?: string; pageUrl?: string }>(previous: T[], fresh: T[]): { tests: T[]; added: number } {
+  const testKey = (test: T) => `${test.pageUrl || ''}::${test.title}`;
+  const existingKeys = new Set(previous.map(testKey));
+  const unique = fresh.filter(test => !existingKeys.has(testKey(test)));
+  return { tests: [...previous, ...unique], added: unique.length };
+}
+
+const worker = {
+  started: false,
+  running: 0,
+  pumping: false,
+  pumpAgain: false,
+};
+
+// Queue a scan and make sure the worker is picking jobs up
+export async function submitScanJob(
+  url: string,
+  options: ScanJobOptions,
+  client: { userAgent?: string; ipAddress?: string; userId?: string } = {}
+): Promise<ScanJob> {
+  const job = await DatabaseService.createScanJob(url, options, client.userAgent, client.ipAddress, client.userId);
+  await startScanWorker();
+  void pump();
+  return job;
+}
+
+// Resume interrupted jobs and start processing the queue (once per server process)
+export async function startScanWorker() {
+  if (worker.started) return;
+  worker.started = true;
+
+  const { requeued, failed } = await DatabaseService.requeueInterruptedScanJobs(MAX_SCAN_ATTEMPTS);
+  if (requeued > 0 || failed > 0) {
+    console.log(`Scan worker: resumed ${requeued} interrupted job(s), failed ${failed}`);
+  }
+  void pump();
+
+  // Scans are what store screenshots, so the worker deletes the expired ones, now and daily
+  const prune = () => pruneScreenshots()
+    .then(({ screenshots, files }) => {
+      if (screenshots > 0 || files > 0) console.log(`Scan worker: deleted ${screenshots} old screenshot(s), ${files} image file(s)`);
+    })
+    .catch(err => console.error('Pruning screenshots failed:', err));
+  void prune();
+  setInterval(prune, 24 * 60 * 60 * 1000).unref();
+}
+
+// Claim queued jobs until the concurrency limit is reached
+async function pump() {
+  if (worker.pumping) {
+    worker.pumpAgain = true;
+    return;
+  }
+  worker.pumping = true;
+
+  try {
+    do {
+      worker.pumpAgain = false;
+      while (worker.running < resolveScanConcurrency()) {
+        const job = await DatabaseService.claimNextScanJob();
+        if (!job) break;
+
+        worker.running++;
+        runScanJob(job).finally(() => {
+          worker.running--;
+          void pump();
+        });
+      }
+    } while (worker.pumpAgain);
+  } catch (err) {
+    console.error('Scan worker error:', err);
+  } finally {
+    worker.pumping = false;
+  }
+}
+
+// Run one claimed job to completion, recording its progress as it goes
+export async function runScanJob(job: ScanJob) {
+  const update = (changes: ScanJobUpdate) =>
+    DatabaseService.updateScanJob(job.id, changes).catch(err => console.error(`Updating scan job ${job.id} failed:`, err));
+
+  try {
+    // The options were checked on submission; check again in case the rules changed since
+    const owner = job.userId ? await DatabaseService.getUser(job.userId) : null;
+    const input = forUser(sanitizeRequest({ url: job.url, ...job.options }), owner);
+    if (!input.isValid) throw new Error(input.errors.join(', '));
+
+    await update({
+      status: 'snapshotting',
+      progress: 5,
+      message: input.crawl ? 'Crawling site...' : 'Taking screenshot and analyzing page structure...',
+    });
+
+    let pages: (CrawledPage | null)[] = [null];
+    let siteMap: SiteMapNode[] | undefined;
+    if (input.crawl) {
+      ({ pages, siteMap } = await crawlSite(input.url, { ...input.crawl, capture: input.capture, loginRecipe: input.loginRecipe }));
+      await update({ screenshot: pages[0]?.screenshot, message: `Crawled ${pages.length} pages` });
+    } else {
+      const snapshot = await captureSnapshot(input.url, { capture: input.capture, loginRecipe: input.loginRecipe });
+      Object.assign(input, snapshot);
+      await update({
+        screenshot: snapshot.screenshot,
+        message: `Page captured: ${snapshot.htmlElements.length} interactive elements, ${snapshot.accessibleElements.length} by role`,
+      });
+    }
+
+    const preview: PreviewTest[] = [];
+    let lastPreviewWrite = 0;
+    const generalTests: GenerationResult['tests'] = [];
+    const elementTests: GenerationResult['tests'] = [];
+    const apiTests: GenerationResult['tests'] = [];
+    const summaries: string[] = [];
+    const pageIssues: ScanJobResult['pageIssues'] = [];
+    let generationError = false;
+
+    for (const [pageIdx, page] of pages.entries()) {
+      const pageInput: SanitizedInput = page
+        ? {
+          ...input,
+          url: page.url,
+          screenshot: page.screenshot,
+          domData: page.domData,
+          htmlElements: page.htmlElements,
+          accessibleElements: page.accessibleElements,
+          apiCalls: page.apiCalls,
+          pageIssues: page.pageIssues,
+          criticalAssets: page.criticalAssets,
+        }
+        : input;
+      pageIssues.push(...(pageInput.pageIssues || []).map(issue => (page ? { ...issue, pageUrl: page.url } : issue)));
+      const span = 80 / pages.length;
+      const at = (fraction: number) => Math.round(10 + span * (pageIdx + fraction));
+      const where = pages.length > 1 ? ` (${pageIdx + 1}/${pages.length}: ${new URL(pageInput.url).pathname})` : '';
+
+      const generate = async (source: TestSource, run: typeof generateGeneralTests): Promise<GenerationResult> => {
+        let parser = new StreamingTestParser();
+        let currentAttempt = 1;
+        try {
+          const result = await recordedGeneration(source, run, pageInput, { jobId: job.id, userId: job.userId }, {
+            onStage: (stage: GenerationStage, message: string) => {
+              const validating = stage === 'validating' || stage === 'healing';
+              void update({
+                status: validating ? 'validating' : 'generating',
+                progress: at(validating ? 0.8 : 0.2),
+                message: `${message}${where}`,
+              });
+            },
+            onDelta: (text, attempt) => {
+              // A retry starts a fresh reply
+              if (attempt !== currentAttempt) {
+                currentAttempt = attempt;
+                parser = new StreamingTestParser();
+              }
+              for (const test of parser.push(text)) {
+                preview.push({ source, title: String(test.title || 'Untitled Test'), why: test.why as string | undefined, pageUrl: page?.url });
+              }
+              if (Date.now() - lastPreviewWrite >= PREVIEW_WRITE_INTERVAL_MS) {
+                lastPreviewWrite = Date.now();
+                void update({ preview });
+              }
+            },
+          });
+
+          // The validated tests replace the ones parsed while streaming
+          const kept = preview.filter(test => test.source !== source || test.pageUrl !== page?.url);
+          preview.splice(0, preview.length, ...kept, ...result.tests.map(test => ({
+            source, title: test.title, why: test.why, pageUrl: page?.url, final: true,
+          })));
+          void update({ preview });
+          return result;
+        } catch (err) {
+          console.error(`Error generating ${source} tests:`, err);
+          return {
+            summary: `Error generating ${source} tests: ${err instanceof Error ? err.message : 'Unknown error'}`,
+            tests: [],
+            _error: true,
+          };
+        }
+      };
+
+      const none = Promise.resolve<GenerationResult>({ summary: '', tests: [] });
+      const [general, elements, api] = await Promise.all([
+        generate('general', generateGeneralTests),
+        hasInteractiveElements(pageInput) ? generate('elements', generateElementTests) : none,
+        pageInput.apiCalls && pageInput.apiCalls.length > 0 ? generate('api', generateApiTests) : none,
+      ]);
+
+      const tagPage = (tests: GenerationResult['tests']) => (page ? tests.map(test => ({ ...test, pageUrl: page.url })) : tests);
+      generalTests.push(...tagPage(general.tests));
+      elementTests.push(...tagPage(elements.tests));
+      apiTests.push(...tagPage(api.tests));
+      generationError = generationError || !!general._error || !!elements._error || !!api._error;
+
+      const pageSummary = [
+        general.summary && 'General Tests:\n' + general.summary,
+        elements.summary && 'Element Tests:\n' + elements.summary,
+        api.summary && 'API Tests:\n' + api.summary,
+      ].filter(Boolean).join('\n\n');
+      if (pageSummary) summaries.push(page ? `${page.url}\n${pageSummary}` : pageSummary);
+    }
+
+    const summary = summaries.join('\n\n');
+    // Like the page, a failed generation is reported but not saved
+    if (generationError) {
+      throw new Error(summary || 'Test generation failed');
+    }
+
+    const freshTests = [...generalTests, ...elementTests, ...apiTests];
+    await update({ status: 'validating', progress: 95, message: `Saving ${freshTests.length} tests...` });
+
+    // Append to the URL's previous tests in the same project rather than replacing them
+    const previous = await DatabaseService.getLatestTestsForUrl(job.url, job.userId ?? null, job.options.projectId).catch(() => null);
+    const { tests, added } = mergeNewTests(previous?.tests || [], freshTests);
+    const saved = await DatabaseService.saveTestSession(
+      job.url, tests, summary, job.userAgent, job.ipAddress, siteMap || previous?.siteMap, job.options.projectId, job.userId
+    );
+
+    // A failed comparison doesn't fail the scan; the tests are already saved
+    const screenshot = pages[0]?.screenshot ?? input.screenshot;
+    const visual = screenshot
+      ? await checkScreenshot(saved.sessionId, job.url, screenshot, input.capture, job.userId ?? null).catch(err => {
+        console.error(`Visual check for scan job ${job.id} failed:`, err);
+        return undefined;
+      })
+      : undefined;
+
+    await update({
+      status: 'done',
+      progress: 100,
+      message: `Generated ${freshTests.length} tests successfully!`,
+      sessionId: saved.sessionId,
+      result: { summary, general: generalTests.length, elements: elementTests.length, api: apiTests.length, added, pageIssues, visual },
+      finishedAt: new Date(),
+    });
+  } catch (err) {
+    console.error(`Scan job ${job.id} failed:`, err);
+    await update({
+      status: 'failed',
+      error: err instanceof Error ? err.message : 'Unknown error',
+      finishedAt: new Date(),
+    });
+  }
+}
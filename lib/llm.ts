@@ -0,0 +1,425 @@
+// LLM provider utilities for TestFlow AI
+//
+// Every model call goes through `complete()` or `generateJSON()`. Providers:
+// - openai:   any OpenAI-compatible API (OPENAI_BASE_URL, OPENAI_API_KEY, OPENAI_MODEL)
+// - lmstudio: a local LM Studio server (LMSTUDIO_BASE_URL, LMSTUDIO_MODEL)
+// - ollama:   a local Ollama server through its OpenAI-compatible endpoint (OLLAMA_BASE_URL, OLLAMA_MODEL)
+// - mock:     deterministic canned responses for offline development and tests
+// LLM_PROVIDER picks the default; provider and parameters can be set per request, and so can
+// the model when it is one of LLM_ALLOWED_MODELS.
+// Calls that pass a JSON schema send it as `response_format` where the provider
+// supports it (LLM_JSON_SCHEMA=false turns this off); replies are parsed the same way either way,
+// and one that lacks a property the schema requires is asked for again.
+// Calls with an `onDelta` callback stream the reply and pass it on as it arrives.
+
+import OpenAI from 'openai';
+import type {
+  ChatCompletionContentPartImage,
+  ChatCompletionContentPartText,
+  ChatCompletionCreateParamsNonStreaming,
+} from 'openai/resources/chat/completions';
+import type { CompletionUsage } from 'openai/resources/completions';
+
+export type LLMProviderName = 'openai' | 'lmstudio' | 'ollama' | 'mock';
+
+export const LLM_PROVIDERS: LLMProviderName[] = ['openai', 'lmstudio', 'ollama', 'mock'];
+
+export type LLMContent = string | (ChatCompletionContentPartText | ChatCompletionContentPartImage)[];
+
+// Per-request choices; anything left out falls back to the environment
+export interface LLMOptions {
+  provider?: LLMProviderName;
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface LLMCompletion {
+  text: string;
+  finishReason: string;
+  provider: LLMProviderName;
+  model: string;
+  usage: LLMUsage;
+  latencyMs: number;
+}
+
+// JSON schema a reply must follow
+export interface JSONSchemaFormat {
+  name: string;
+  schema: Record<string, unknown>;
+}
+
+export interface LLMRequest {
+  model: string;
+  content: LLMContent;
+  temperature: number;
+  maxTokens: number;
+  schema?: JSONSchemaFormat;
+  onDelta?: (text: string) => void; // streams the reply where the provider can
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  readonly defaultModel: string;
+  readonly supportsJsonSchema: boolean;
+  complete(request: LLMRequest): Promise<Omit<LLMCompletion, 'provider' | 'model' | 'latencyMs'>>;
+}
+
+// The model's reply could not be parsed as JSON, even after retries
+export class LLMParseError extends Error {
+  readonly rawResponse: string;
+
+  constructor(message: string, rawResponse: string) {
+    super(message);
+    this.name = 'LLMParseError';
+    this.rawResponse = rawResponse;
+  }
+}
+
+export function isLLMProviderName(value: unknown): value is LLMProviderName {
+  return typeof value === 'string' && (LLM_PROVIDERS as string[]).includes(value);
+}
+
+class OpenAICompatibleProvider implements LLMProvider {
+  readonly name: LLMProviderName;
+  readonly defaultModel: string;
+  readonly supportsJsonSchema: boolean;
+  private readonly client: OpenAI;
+
+  constructor(name: LLMProviderName, config: { apiKey?: string; baseURL?: string; defaultModel: string }) {
+    this.name = name;
+    this.defaultModel = config.defaultModel;
+    this.supportsJsonSchema = process.env.LLM_JSON_SCHEMA !== 'false';
+    this.client = new OpenAI({ apiKey: config.apiKey, baseURL: config.baseURL });
+  }
+
+  async complete(request: LLMRequest): ReturnType<LLMProvider['complete']> {
+    return this.send(request, !!request.schema && this.supportsJsonSchema);
+  }
+
+  private async send(request: LLMRequest, useSchema: boolean): ReturnType<LLMProvider['complete']> {
+    const params: ChatCompletionCreateParamsNonStreaming = {
+      model: request.model,
+      messages: [{ role: 'user', content: request.content }],
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      ...(useSchema && {
+        response_format: {
+          type: 'json_schema' as const,
+          json_schema: { name: request.schema!.name, schema: request.schema!.schema, strict: true },
+        },
+      }),
+    };
+
+    try {
+      return request.onDelta ? await this.stream(params, request.onDelta) : await this.request(params);
+    } catch (err) {
+      // Servers without structured output reject the schema; ask again with prompt-only JSON.
+      // Only this call falls back: the next one tries the schema again.
+      if (!useSchema || !isResponseFormatError(err)) throw err;
+      console.warn(`${this.name} rejected response_format, retrying without JSON schema:`, err.message);
+      return this.send(request, false);
+    }
+  }
+
+  private async request(params: ChatCompletionCreateParamsNonStreaming): ReturnType<LLMProvider['complete']> {
+    const response = await this.client.chat.completions.create(params);
+
+    return {
+      text: response.choices[0]?.message?.content || '',
+      finishReason: response.choices[0]?.finish_reason || 'stop',
+      usage: {
+        promptTokens: response.usage?.prompt_tokens || 0,
+        completionTokens: response.usage?.completion_tokens || 0,
+        totalTokens: response.usage?.total_tokens || 0,
+      },
+    };
+  }
+
+  private async stream(params: ChatCompletionCreateParamsNonStreaming, onDelta: (text: string) => void): ReturnType<LLMProvider['complete']> {
+    const stream = await this.client.chat.completions.create({
+      ...params,
+      stream: true,
+      stream_options: { include_usage: true },
+    });
+
+    let text = '';
+    let finishReason = 'stop';
+    let usage: CompletionUsage | undefined;
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) {
+        text += delta;
+        onDelta(delta);
+      }
+      finishReason = chunk.choices[0]?.finish_reason || finishReason;
+      usage = chunk.usage || usage;
+    }
+
+    // Not every compatible server reports usage for streamed replies
+    const completionTokens = usage?.completion_tokens || estimateTokens(text);
+    return {
+      text,
+      finishReason,
+      usage: {
+        promptTokens: usage?.prompt_tokens || 0,
+        completionTokens,
+        totalTokens: usage?.total_tokens || completionTokens,
+      },
+    };
+  }
+}
+
+function isResponseFormatError(err: unknown): err is InstanceType<typeof OpenAI.BadRequestError> {
+  return err instanceof OpenAI.BadRequestError
+    && (err.param === 'response_format' || /response_format|json_schema/i.test(err.message));
+}
+
+function promptText(content: LLMContent): string {
+  return typeof content === 'string'
+    ? content
+    : content.map(part => (part.type === 'text' ? part.text : '')).join('\n');
+}
+
+// Rough token count for usage figures a provider doesn't report
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// Offline stand-in that recognises our prompt types and answers with fixed, valid output
+class MockProvider implements LLMProvider {
+  readonly name = 'mock' as const;
+  readonly defaultModel = 'mock-model';
+  readonly supportsJsonSchema = true;
+
+  async complete(request: LLMRequest) {
+    const prompt = promptText(request.content);
+    const text = JSON.stringify(mockResponse(prompt));
+    const promptTokens = estimateTokens(prompt);
+    const completionTokens = estimateTokens(text);
+    request.onDelta?.(text);
+    return {
+      text,
+      finishReason: 'stop',
+      usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens },
+    };
+  }
+}
+
+function mockResponse(prompt: string): Record<string, unknown> {
+  // Repair and regenerate prompts quote the current code; hand it back unchanged
+  const quoted = prompt.match(/\n(?:CURRENT CODE|CODE):\n([\s\S]*?)\n\n(?:FAILURE|PROBLEMS):/);
+  if (quoted) {
+    return { code: quoted[1], explanation: 'Mock provider returns the code unchanged' };
+  }
+
+  const url = prompt.match(/^URL: (\S+)/m)?.[1] || 'http://localhost:3000';
+  const playwright = /generate (?:specific )?Playwright Test tests/i.test(prompt);
+  const code = playwright
+    ? `import { test, expect } from '@playwright/test';
+
+test.describe('Page', () => {
+  test('loads', async ({ page }) => {
+    await page.goto('${url}');
+    await expect(page.locator('body')).toBeVisible();
+  });
+});`
+    : `describe('Page', () => {
+  it('loads', () => {
+    cy.visit('${url}');
+    cy.get('body').should('be.visible');
+  });
+});`;
+
+  return {
+    summary: `Mock tests for ${url}`,
+    tests: [
+      {
+        title: 'Page loads',
+        why: 'Confirms the page is reachable and renders',
+        steps: [`Visit ${url}`, 'Check that the body is visible'],
+        code,
+        category: 'general',
+        selectors: ['body'],
+      },
+    ],
+  };
+}
+
+const providers = new Map<LLMProviderName, LLMProvider>();
+
+export function getProvider(name: LLMProviderName): LLMProvider {
+  const cached = providers.get(name);
+  if (cached) return cached;
+
+  let provider: LLMProvider;
+  switch (name) {
+    case 'lmstudio':
+      provider = new OpenAICompatibleProvider('lmstudio', {
+        apiKey: 'lm-studio', // LM Studio ignores the key, but the client requires one
+        baseURL: process.env.LMSTUDIO_BASE_URL || 'http://localhost:1234/v1',
+        defaultModel: process.env.LMSTUDIO_MODEL || 'local-model',
+      });
+      break;
+    case 'ollama':
+      provider = new OpenAICompatibleProvider('ollama', {
+        apiKey: 'ollama',
+        baseURL: process.env.OLLAMA_BASE_URL || 'http://localhost:11434/v1',
+        defaultModel: process.env.OLLAMA_MODEL || 'llama3.1',
+      });
+      break;
+    case 'mock':
+      provider = new MockProvider();
+      break;
+    default:
+      provider = new OpenAICompatibleProvider('openai', {
+        apiKey: process.env.OPENAI_API_KEY,
+        baseURL: process.env.OPENAI_BASE_URL, // LM Studio local URL or OpenAI
+        defaultModel: process.env.OPENAI_MODEL || 'baidu/ernie-4.5-21b-a3b',
+      });
+  }
+
+  providers.set(name, provider);
+  return provider;
+}
+
+// Replace the provider registered under `provider.name`, e.g. with recorded responses in tests
+export function registerProvider(provider: LLMProvider) {
+  providers.set(provider.name, provider);
+}
+
+export function resetProviders() {
+  providers.clear();
+}
+
+export function resolveProviderName(requested?: LLMProviderName): LLMProviderName {
+  if (requested) return requested;
+  const configured = process.env.LLM_PROVIDER;
+  return isLLMProviderName(configured) ? configured : 'openai';
+}
+
+// Models a request may pick by name (LLM_ALLOWED_MODELS, comma-separated); empty means none
+export function allowedModels(): string[] {
+  return (process.env.LLM_ALLOWED_MODELS || '').split(',').map(model => model.trim()).filter(Boolean);
+}
+
+// The provider and model a request runs on once the environment defaults are applied
+export function resolveModel(options: LLMOptions = {}): { provider: LLMProviderName; model: string } {
+  const provider = getProvider(resolveProviderName(options.provider));
+  return { provider: provider.name, model: options.model || provider.defaultModel };
+}
+
+// One model call, logged with its token usage and latency
+export async function complete(
+  content: LLMContent,
+  options: LLMOptions = {},
+  label: string = 'llm',
+  extras: Pick<LLMRequest, 'schema' | 'onDelta'> = {}
+): Promise<LLMCompletion> {
+  const provider = getProvider(resolveProviderName(options.provider));
+  const model = options.model || provider.defaultModel;
+  const started = Date.now();
+
+  const result = await provider.complete({
+    model,
+    content,
+    temperature: options.temperature ?? 0.7,
+    maxTokens: options.maxTokens ?? parseInt(process.env.MAX_TOKENS || '4000'),
+    ...extras,
+  });
+
+  const completion: LLMCompletion = { ...result, provider: provider.name, model, latencyMs: Date.now() - started };
+  console.log('LLM usage:', JSON.stringify({
+    label,
+    provider: completion.provider,
+    model: completion.model,
+    promptTokens: completion.usage.promptTokens,
+    completionTokens: completion.usage.completionTokens,
+    totalTokens: completion.usage.totalTokens,
+    latencyMs: completion.latencyMs,
+    finishReason: completion.finishReason,
+  }));
+  return completion;
+}
+
+// The JSON object in a model reply: the whole reply, or the body of a ```json fence around it.
+// Nothing is patched up; a reply that doesn't parse is asked for again.
+export function tryParseJSON(text: string): { success: boolean; data?: Record<string, unknown>; error?: string } {
+  const fenced = text.match(/^[^`]*```(?:json)?\s*([\s\S]*?)\s*```[^`]*$/);
+  try {
+    const parsed: unknown = JSON.parse(fenced ? fenced[1] : text.trim());
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      return { success: false, error: 'Reply is not a JSON object' };
+    }
+    return { success: true, data: parsed as Record<string, unknown> };
+  } catch (err) {
+    return { success: false, error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+// Required top-level properties of `schema` that `data` lacks
+function missingProperties(data: Record<string, unknown>, schema: JSONSchemaFormat): string[] {
+  const required = Array.isArray(schema.schema.required) ? schema.schema.required as string[] : [];
+  return required.filter(key => data[key] === undefined);
+}
+
+export interface GenerateJSONOptions extends LLMOptions {
+  maxRetries?: number;
+  strictSuffix?: string; // appended to the prompt after a reply that didn't parse
+  label?: string;
+  schema?: JSONSchemaFormat;
+  onDelta?: (text: string, attempt: number) => void; // streamed reply text of each attempt
+}
+
+const DEFAULT_STRICT_SUFFIX = 'CRITICAL: You MUST return ONLY valid JSON. No explanations, no markdown, no code fences. Start with { and end with }. The JSON must be parseable.';
+
+// Ask for a JSON reply, retrying with a stricter prompt and lower temperature when it doesn't parse.
+// Throws LLMParseError once the retries are used up.
+export async function generateJSON(content: LLMContent, options: GenerateJSONOptions = {}): Promise<Record<string, unknown>> {
+  const { maxRetries = 3, strictSuffix = DEFAULT_STRICT_SUFFIX, label = 'llm', schema, onDelta, ...llmOptions } = options;
+  let lastResponseText = '';
+  let useStrictPrompt = false;
+
+  const withSuffix = (suffix: string): LLMContent => {
+    if (typeof content === 'string') return `${content}\n\n${suffix}`;
+    return content.map((part, i) => (i === 0 && part.type === 'text' ? { ...part, text: `${part.text}\n\n${suffix}` } : part));
+  };
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const completion = await complete(useStrictPrompt ? withSuffix(strictSuffix) : content, {
+        ...llmOptions,
+        // Lower temperature on retries for more consistent output
+        temperature: llmOptions.temperature ?? (attempt === 1 ? 0.7 : 0.3),
+      }, label, { schema, onDelta: onDelta && (text => onDelta(text, attempt)) });
+
+      lastResponseText = completion.text;
+      console.log(`AI Response (${label}, attempt ${attempt}):`, completion.text.substring(0, 200));
+
+      const parseResult = tryParseJSON(completion.text);
+      const missing = parseResult.data && schema ? missingProperties(parseResult.data, schema) : [];
+      if (parseResult.data && missing.length === 0) {
+        return parseResult.data;
+      }
+
+      const problem = !parseResult.data
+        ? completion.finishReason === 'length' ? 'reply was cut off at the token limit' : parseResult.error
+        : `reply lacks ${missing.join(', ')}`;
+      if (attempt >= maxRetries) {
+        throw new LLMParseError(`Failed to parse after all retries: ${problem}`, lastResponseText);
+      }
+      console.log(`Parsing failed on attempt ${attempt} (${problem}), retrying with stricter prompt...`);
+      useStrictPrompt = true;
+    } catch (err) {
+      if (err instanceof LLMParseError || attempt >= maxRetries) throw err;
+      console.log(`API call failed on attempt ${attempt}, retrying...`, err instanceof Error ? err.message : err);
+    }
+    await new Promise(resolve => setTimeout(resolve, 1000 * attempt)); // Exponential backoff
+  }
+}
@@ -0,0 +1,333 @@
+// Login recipe utilities for TestFlow AI
+//
+// A login recipe tells the scanner how to sign in to a target origin: which
+// page has the login form, which fields to fill and where the credentials come
+// from. Recipes are read from a JSON file (LOGIN_RECIPES_FILE, default
+// `login-recipes.json`) and never contain the secrets themselves, only
+// references to environment variables or secret files. After a successful
+// login the Playwright storage state is saved and reused on later scans.
+//
+// A recipe names the account it belongs to (`owner`, an email address) and only
+// applies to that account's scans and runs; recipes without an owner only apply
+// when there are no accounts. Resolved secrets stay in the server: test runs get
+// the storage state of a server-side login, never the credentials.
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import type { Browser, BrowserContext, BrowserContextOptions, Page } from 'playwright';
+import { isDatabaseAvailable } from './database';
+import type { AuthUser } from './auth';
+
+// Where a credential comes from: an environment variable or a mounted secret file
+export type SecretRef = { env: string } | { file: string };
+
+export interface LoginRecipe {
+  origin: string;
+  owner?: string; // email of the account the recipe belongs to, lowercased
+  loginUrl: string;
+  usernameSelector: string;
+  passwordSelector: string;
+  submitSelector: string;
+  username: string | SecretRef; // a plain username is allowed, a plain password is not
+  password: SecretRef;
+  successSelector?: string; // element that only appears once logged in
+}
+
+// Who a recipe is looked up for: the signed-in user, or null
+export type RecipeUser = Pick<AuthUser, 'email' | 'emailVerified'> | null;
+
+// Cookies and localStorage of a signed-in browser context
+export type StorageState = Exclude<BrowserContextOptions['storageState'], string | undefined>;
+
+export class LoginRecipeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LoginRecipeError';
+  }
+}
+
+const DEFAULT_STATE_MAX_AGE_MS = 12 * 60 * 60 * 1000;
+const LOGIN_TIMEOUT_MS = 30000;
+
+function isSecretRef(value: unknown): value is SecretRef {
+  if (!value || typeof value !== 'object') return false;
+  const ref = value as Record<string, unknown>;
+  return typeof ref.env === 'string' || typeof ref.file === 'string';
+}
+
+function parseRecipe(raw: unknown, index: number): LoginRecipe {
+  const recipe = (raw || {}) as Record<string, unknown>;
+  const fail = (message: string): never => {
+    throw new LoginRecipeError(`Login recipe ${index + 1}: ${message}`);
+  };
+
+  for (const field of ['origin', 'loginUrl', 'usernameSelector', 'passwordSelector', 'submitSelector']) {
+    if (typeof recipe[field] !== 'string' || !recipe[field]) fail(`${field} is required`);
+  }
+  if (typeof recipe.username !== 'string' && !isSecretRef(recipe.username)) {
+    fail('username must be a string or a secret reference');
+  }
+  if (!isSecretRef(recipe.password)) {
+    fail('password must be a secret reference ({ "env": "NAME" } or { "file": "/path" })');
+  }
+  if (recipe.owner !== undefined && (typeof recipe.owner !== 'string' || !recipe.owner.includes('@'))) {
+    fail('owner must be the email address of an account');
+  }
+
+  let origin = '';
+  try {
+    origin = new URL(recipe.origin as string).origin;
+  } catch {
+    fail('origin must be an absolute URL');
+  }
+  const loginUrl = new URL(recipe.loginUrl as string, origin);
+  if (loginUrl.origin !== origin) fail('loginUrl must be on the recipe origin');
+
+  return {
+    origin,
+    owner: typeof recipe.owner === 'string' ? recipe.owner.trim().toLowerCase() : undefined,
+    loginUrl: loginUrl.toString(),
+    usernameSelector: recipe.usernameSelector as string,
+    passwordSelector: recipe.passwordSelector as string,
+    submitSelector: recipe.submitSelector as string,
+    username: recipe.username as string | SecretRef,
+    password: recipe.password as SecretRef,
+    successSelector: typeof recipe.successSelector === 'string' ? recipe.successSelector : undefined,
+  };
+}
+
+// All configured recipes; an absent file means no recipes
+export function loadLoginRecipes(): LoginRecipe[] {
+  const file = path.resolve(process.env.LOGIN_RECIPES_FILE || 'login-recipes.json');
+  if (!fs.existsSync(file)) return [];
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (err) {
+    throw new LoginRecipeError(`Could not read ${file}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+
+  const list = Array.isArray(parsed) ? parsed : (parsed as { recipes?: unknown })?.recipes;
+  if (!Array.isArray(list)) {
+    throw new LoginRecipeError(`${file} must contain an array of recipes or { "recipes": [...] }`);
+  }
+  return list.map(parseRecipe);
+}
+
+// Whether `user` may sign in with the recipe: its owner, once verified, or anyone
+// when there are no accounts and the recipe names no owner
+function usableBy(recipe: LoginRecipe, user: RecipeUser): boolean {
+  if (!recipe.owner) return !isDatabaseAvailable;
+  return !!user?.emailVerified && user.email.toLowerCase() === recipe.owner;
+}
+
+// The recipe for `url`'s origin that `user` may use, if any
+export function findLoginRecipe(url: string, user: RecipeUser): LoginRecipe | null {
+  let origin: string;
+  try {
+    origin = new URL(url).origin;
+  } catch {
+    return null;
+  }
+  return loadLoginRecipes().find(recipe => recipe.origin === origin && usableBy(recipe, user)) || null;
+}
+
+export function resolveSecret(ref: string | SecretRef): string {
+  if (typeof ref === 'string') return ref;
+  if ('env' in ref) {
+    const value = process.env[ref.env];
+    if (!value) throw new LoginRecipeError(`Environment variable ${ref.env} is not set`);
+    return value;
+  }
+  try {
+    return fs.readFileSync(ref.file, 'utf8').trim();
+  } catch {
+    throw new LoginRecipeError(`Secret file ${ref.file} could not be read`);
+  }
+}
+
+// Cypress.env() keys the generated login helper reads its credentials from
+export function cypressEnvKeys(recipe: LoginRecipe): { username?: string; password: string } {
+  return {
+    username: typeof recipe.username === 'string'
+      ? undefined
+      : 'env' in recipe.username ? recipe.username.env : 'LOGIN_USERNAME',
+    password: 'env' in recipe.password ? recipe.password.env : 'LOGIN_PASSWORD',
+  };
+}
+
+// Replace the recipe's secret values wherever they appear in `text`
+export function redactSecrets(text: string, recipe: LoginRecipe): string {
+  const secrets = [recipe.password, recipe.username]
+    .filter((ref): ref is SecretRef => typeof ref !== 'string')
+    .map(ref => {
+      try {
+        return resolveSecret(ref);
+      } catch {
+        return '';
+      }
+    })
+    .filter(secret => secret.length > 0);
+  return secrets.reduce((redacted, secret) => redacted.split(secret).join('[redacted]'), text);
+}
+
+// One state file per origin and owner, so accounts never share a session
+function statePath(recipe: LoginRecipe): string {
+  const dir = path.resolve(process.env.LOGIN_STATE_DIR || path.join('.testflow', 'auth'));
+  const host = new URL(recipe.origin).host.replace(/[^a-z0-9.-]+/gi, '_');
+  const owner = recipe.owner ? `.${crypto.createHash('sha256').update(recipe.owner).digest('hex').slice(0, 16)}` : '';
+  return path.join(dir, `${host}${owner}.json`);
+}
+
+// Saved storage state for the recipe, if it exists and hasn't expired
+function storedState(recipe: LoginRecipe): string | null {
+  const file = statePath(recipe);
+  const maxAge = parseInt(process.env.LOGIN_STATE_MAX_AGE_MS || String(DEFAULT_STATE_MAX_AGE_MS));
+  try {
+    return Date.now() - fs.statSync(file).mtimeMs < maxAge ? file : null;
+  } catch {
+    return null;
+  }
+}
+
+// Fill in and submit the login form, then wait until we're past it
+export async function performLogin(page: Page, recipe: LoginRecipe) {
+  const loginPath = new URL(recipe.loginUrl).pathname;
+
+  await page.goto(recipe.loginUrl, { waitUntil: 'networkidle', timeout: LOGIN_TIMEOUT_MS });
+  await page.fill(recipe.usernameSelector, resolveSecret(recipe.username), { timeout: LOGIN_TIMEOUT_MS });
+  await page.fill(recipe.passwordSelector, resolveSecret(recipe.password), { timeout: LOGIN_TIMEOUT_MS });
+  await page.click(recipe.submitSelector, { timeout: LOGIN_TIMEOUT_MS });
+
+  try {
+    if (recipe.successSelector) {
+      await page.waitForSelector(recipe.successSelector, { timeout: LOGIN_TIMEOUT_MS });
+    } else {
+      await page.waitForURL(url => url.pathname !== loginPath, { timeout: LOGIN_TIMEOUT_MS });
+    }
+    await page.waitForLoadState('networkidle');
+  } catch {
+    throw new LoginRecipeError(`Login to ${recipe.origin} did not succeed; check the recipe selectors and credentials`);
+  }
+}
+
+// Log in with a throwaway page of the context and save its storage state
+async function refreshLogin(context: BrowserContext, recipe: LoginRecipe) {
+  const page = await context.newPage();
+  try {
+    await performLogin(page, recipe);
+    const file = statePath(recipe);
+    await fs.promises.mkdir(path.dirname(file), { recursive: true });
+    await context.storageState({ path: file });
+  } finally {
+    await page.close();
+  }
+}
+
+// Browser context for a scan, logged in with `recipe` if there is one
+export async function newScanContext(browser: Browser, recipe: LoginRecipe | null, options: BrowserContextOptions = {}): Promise<BrowserContext> {
+  if (!recipe) return browser.newContext(options);
+
+  const state = storedState(recipe);
+  if (state) return browser.newContext({ ...options, storageState: state });
+
+  const context = await browser.newContext(options);
+  await refreshLogin(context, recipe);
+  return context;
+}
+
+// Cookies and localStorage of a session signed in with `recipe`, for handing to a test run
+export async function loginStorageState(browser: Browser, recipe: LoginRecipe): Promise<StorageState> {
+  const context = await newScanContext(browser, recipe);
+  try {
+    return await context.storageState();
+  } finally {
+    await context.close();
+  }
+}
+
+// Navigate, logging in again if the saved session has expired and we got bounced to the login page
+export async function gotoAuthenticated(
+  page: Page,
+  url: string,
+  recipe: LoginRecipe | null,
+  options: { timeout?: number; waitUntil?: 'load' | 'domcontentloaded' | 'networkidle' } = {}
+) {
+  const waitUntil = options.waitUntil ?? 'networkidle';
+  const response = await page.goto(url, { waitUntil, timeout: options.timeout });
+  if (!recipe || new URL(url).origin !== recipe.origin) return response;
+
+  const loginPath = new URL(recipe.loginUrl).pathname;
+  const landedOnLogin = new URL(page.url()).pathname === loginPath;
+  if (!landedOnLogin || new URL(url).pathname === loginPath) return response;
+
+  await refreshLogin(page.context(), recipe);
+  return page.goto(url, { waitUntil, timeout: options.timeout });
+}
+
+const HELPER_START = '// --- TestFlow login helper ---';
+const HELPER_END = '// --- end login helper ---';
+
+// Cypress `login()` helper that signs in once per spec with cy.session
+export function buildCypressLoginHelper(recipe: LoginRecipe): string {
+  const keys = cypressEnvKeys(recipe);
+  const username = keys.username
+    ? `Cypress.env(${JSON.stringify(keys.username)})`
+    : JSON.stringify(recipe.username);
+  const loginPath = new URL(recipe.loginUrl).pathname;
+  const verify = recipe.successSelector
+    ? `cy.get(${JSON.stringify(recipe.successSelector)}).should("exist");`
+    : `cy.location("pathname").should("not.eq", ${JSON.stringify(loginPath)});`;
+
+  return `${HELPER_START}
+// Credentials come from Cypress env: ${[keys.username, keys.password].filter(Boolean).map(key => `CYPRESS_${key}`).join(', ')}
+function login() {
+  cy.session(${JSON.stringify(recipe.origin)}, () => {
+    cy.visit(${JSON.stringify(recipe.loginUrl)});
+    cy.get(${JSON.stringify(recipe.usernameSelector)}).type(${username});
+    cy.get(${JSON.stringify(recipe.passwordSelector)}).type(Cypress.env(${JSON.stringify(keys.password)}), { log: false });
+    cy.get(${JSON.stringify(recipe.submitSelector)}).click();
+    ${verify}
+  });
+}
+${HELPER_END}`;
+}
+
+// The helper in the code, or null if it has none
+export function extractLoginHelper(code: string): string | null {
+  const start = code.indexOf(HELPER_START);
+  const end = code.indexOf(HELPER_END);
+  return start === -1 || end === -1 ? null : code.slice(start, end + HELPER_END.length);
+}
+
+export function stripLoginHelper(code: string): string {
+  const start = code.indexOf(HELPER_START);
+  const end = code.indexOf(HELPER_END);
+  if (start === -1 || end === -1) return code;
+  return (code.slice(0, start) + code.slice(end + HELPER_END.length)).trim();
+}
+
+// Prepend the helper (replacing any earlier copy) so the test file is self-contained
+export function withLoginHelper(code: string, recipe: LoginRecipe): string {
+  return `${buildCypressLoginHelper(recipe)}\n\n${stripLoginHelper(code)}`;
+}
+
+// Prompt section telling the model that the page sits behind a login
+export function loginPromptNotes(recipe: LoginRecipe): string {
+  return `AUTHENTICATION:
+This page requires a signed-in user. A login() helper that signs in with cy.session is added to every test file automatically.
+- Call login() in a beforeEach() hook, before cy.visit()
+- Do not define login() yourself and do not test the login form
+- Never type usernames or passwords into the test code
+- Login page (${new URL(recipe.loginUrl).pathname}) is not the page under test`;
+}
+
+// Attach the login helper to every Cypress test that has code; no-op without a recipe
+export function withLoginHelpers<T extends { code?: unknown }>(tests: T[], recipe: LoginRecipe | null): T[] {
+  if (!recipe) return tests;
+  return tests.map(test =>
+    typeof test.code === 'string' && test.code.trim() ? { ...test, code: withLoginHelper(test.code, recipe) } : test
+  );
+}
@@ -0,0 +1,59 @@
+// Mail utilities for TestFlow AI
+//
+// Sign-in and verification links are sent by email. There is no mail server:
+// every message is written as a JSON file to a local outbox (MAIL_OUTBOX_DIR,
+// default `.testflow/outbox`), which stands in for the recipient's inbox. It can be
+// read at /api/auth/outbox and on the /outbox page: each signed-in user sees the
+// mail to their own address, and everyone sees all of it with MAIL_OUTBOX_PUBLIC=1.
+
+import fs from 'fs/promises';
+import path from 'path';
+import { randomUUID } from 'crypto';
+
+export interface MailMessage {
+  id: string;
+  to: string;
+  subject: string;
+  text: string;
+  sentAt: string; // ISO date
+}
+
+export const MAIL_LIMITS = {
+  maxListed: 50,
+};
+
+function outboxDir(): string {
+  return path.resolve(process.env.MAIL_OUTBOX_DIR || path.join('.testflow', 'outbox'));
+}
+
+// Whether anyone may read all of the outbox over HTTP; for development only, since
+// the mail holds sign-in links
+export function isOutboxPublic(): boolean {
+  return process.env.MAIL_OUTBOX_PUBLIC === '1';
+}
+
+export async function sendMail(message: Omit<MailMessage, 'id' | 'sentAt'>): Promise<MailMessage> {
+  const sent: MailMessage = { id: randomUUID(), sentAt: new Date().toISOString(), ...message };
+  const dir = outboxDir();
+  await fs.mkdir(dir, { recursive: true });
+  // Timestamped names sort oldest first
+  await fs.writeFile(path.join(dir, `${Date.now()}-${sent.id}.json`), JSON.stringify(sent, null, 2));
+  console.log(`Mail to ${sent.to} written to the outbox: ${sent.subject}`);
+  return sent;
+}
+
+// The newest messages, optionally only those sent to one address
+export async function readOutbox(to?: string, limit: number = MAIL_LIMITS.maxListed): Promise<MailMessage[]> {
+  const files = await fs.readdir(outboxDir()).catch(() => [] as string[]);
+  const messages: MailMessage[] = [];
+  for (const file of files.filter(name => name.endsWith('.json')).sort().reverse()) {
+    if (messages.length >= limit) break;
+    try {
+      const message = JSON.parse(await fs.readFile(path.join(outboxDir(), file), 'utf8')) as MailMessage;
+      if (!to || message.to === to) messages.push(message);
+    } catch {
+      // Half-written or edited by hand; skip it
+    }
+  }
+  return messages;
+}
@@ -0,0 +1,151 @@
+// Network capture utilities for TestFlow AI
+//
+// While a page loads, the XHR and fetch calls it makes to its own origin are
+// recorded: method, a URL pattern with ids replaced by `*`, status, and a short
+// summary of the JSON request and response bodies. The API generation mode
+// turns these into intercept stubs, waits on aliased requests and standalone
+// API contract tests.
+
+import type { Page, Response } from 'playwright';
+import type { TestFramework } from './frameworks';
+
+export interface ApiCall {
+  method: string;
+  url: string; // the first URL seen for this pattern
+  pattern: string; // path with ids replaced by `*`, e.g. /api/products/*
+  query?: string[]; // query parameter names
+  status: number;
+  contentType?: string;
+  requestShape?: string; // of the JSON request body, e.g. { email: string }
+  responseShape?: string; // of the JSON response body
+}
+
+export const NETWORK_LIMITS = {
+  maxCalls: 30,
+  maxBodyBytes: 256 * 1024, // larger bodies are recorded without a shape
+  maxShapeLength: 400,
+};
+
+const API_RESOURCE_TYPES = new Set(['xhr', 'fetch']);
+
+// Path segments that identify a record rather than name a resource
+function isIdSegment(segment: string): boolean {
+  return /^\d+$/.test(segment) ||
+    /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(segment) ||
+    /^[0-9a-f]{12,}$/i.test(segment) ||
+    (segment.length >= 20 && /\d/.test(segment));
+}
+
+// e.g. https://shop.test/api/products/42?ref=home -> /api/products/*
+export function urlPattern(url: string): string {
+  const { pathname } = new URL(url);
+  return pathname.split('/').map(segment => (isIdSegment(segment) ? '*' : segment)).join('/');
+}
+
+// TypeScript-like summary of a JSON value, e.g. { items: { id: number, title: string }[], total: number }
+export function describeJsonShape(value: unknown, depth: number = 0): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) {
+    if (value.length === 0) return 'unknown[]';
+    return `${describeJsonShape(value[0], depth + 1)}[]`;
+  }
+  if (typeof value === 'object') {
+    if (depth >= 3) return 'object';
+    const entries = Object.entries(value as Record<string, unknown>);
+    const fields = entries.slice(0, 12).map(([key, field]) => `${/^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key)}: ${describeJsonShape(field, depth + 1)}`);
+    if (entries.length > 12) fields.push('...');
+    return fields.length > 0 ? `{ ${fields.join(', ')} }` : '{}';
+  }
+  return typeof value;
+}
+
+function shapeOf(body: string | null | undefined): string | undefined {
+  if (!body || body.length > NETWORK_LIMITS.maxBodyBytes) return undefined;
+  try {
+    const shape = describeJsonShape(JSON.parse(body));
+    return shape.length > NETWORK_LIMITS.maxShapeLength ? `${shape.slice(0, NETWORK_LIMITS.maxShapeLength)}...` : shape;
+  } catch {
+    return undefined;
+  }
+}
+
+async function describeResponse(response: Response): Promise<ApiCall> {
+  const request = response.request();
+  const url = new URL(response.url());
+  const contentType = response.headers()['content-type']?.split(';')[0];
+  const query = Array.from(new Set(url.searchParams.keys()));
+
+  let responseShape: string | undefined;
+  if (contentType?.includes('json') && Number(response.headers()['content-length'] ?? 0) <= NETWORK_LIMITS.maxBodyBytes) {
+    responseShape = shapeOf(await response.text().catch(() => null));
+  }
+  const requestShape = shapeOf(request.postData());
+
+  return {
+    method: request.method(),
+    url: response.url(),
+    pattern: urlPattern(response.url()),
+    ...(query.length > 0 && { query }),
+    status: response.status(),
+    ...(contentType && { contentType }),
+    ...(requestShape && { requestShape }),
+    ...(responseShape && { responseShape }),
+  };
+}
+
+export interface ApiCallRecorder {
+  stop: () => Promise<ApiCall[]>;
+}
+
+// Start recording the page's API calls; `stop` returns the same-origin ones, one per method, pattern and status
+export function recordApiCalls(page: Page): ApiCallRecorder {
+  const pending: Promise<ApiCall | null>[] = [];
+  const onResponse = (response: Response) => {
+    if (!API_RESOURCE_TYPES.has(response.request().resourceType())) return;
+    pending.push(describeResponse(response).catch(() => null));
+  };
+  page.on('response', onResponse);
+
+  return {
+    stop: async () => {
+      page.off('response', onResponse);
+      const origin = new URL(page.url()).origin;
+      const calls = new Map<string, ApiCall>();
+      for (const call of await Promise.all(pending)) {
+        if (!call || new URL(call.url).origin !== origin) continue;
+        const key = `${call.method} ${call.pattern} ${call.status}`;
+        if (!calls.has(key) && calls.size < NETWORK_LIMITS.maxCalls) calls.set(key, call);
+      }
+      return [...calls.values()];
+    },
+  };
+}
+
+// A line per call for a prompt, e.g. `GET /api/products/* -> 200 application/json (e.g. /api/products/42)`,
+// followed by the body shapes
+export function formatApiCalls(calls: ApiCall[]): string {
+  return calls
+    .map((call, idx) => {
+      const query = call.query ? `?${call.query.map(key => `${key}=`).join('&')}` : '';
+      const example = new URL(call.url);
+      const lines = [
+        `  ${idx + 1}. ${call.method} ${call.pattern}${query} -> ${call.status}${call.contentType ? ` ${call.contentType}` : ''} (e.g. ${example.pathname}${example.search})`,
+        call.requestShape && `     request body: ${call.requestShape}`,
+        call.responseShape && `     response body: ${call.responseShape}`,
+      ];
+      return lines.filter(Boolean).join('\n');
+    })
+    .join('\n');
+}
+
+// What the API generation mode asks for, per framework
+export function apiPromptNotes(framework: TestFramework): string {
+  return framework === 'playwright'
+    ? `- Stub calls with page.route('**/api/path/*', route => route.fulfill({ status, json })) before page.goto, including an error response (e.g. 500) and check how the page shows it
+- Wait for real calls with page.waitForResponse(response => response.url().includes('/api/path')) and assert on response.status() and the JSON body
+- Write API contract tests with the request fixture (async ({ request }) => { const response = await request.get(url); expect(response.status()).toBe(200); }) that check the status and the fields of the response shape`
+    : `- Stub calls with cy.intercept('GET', '**/api/path/*', { statusCode, body }).as('alias') before cy.visit, including an error response (e.g. 500) and check how the page shows it
+- Spy on real calls with cy.intercept('GET', '**/api/path/*').as('alias'), then cy.wait('@alias').its('response.statusCode').should('eq', 200)
+- Write API contract tests with cy.request('GET', url) that check .its('status') and the fields of .its('body') against the response shape
+- Use .its() and .should() rather than .then() callbacks`;
+}
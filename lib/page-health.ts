@@ -0,0 +1,162 @@
+// Page health utilities for TestFlow AI
+//
+// Broken pages often show the problem only in the console. While a page loads we
+// record uncaught exceptions, console errors (including CSP violations), requests
+// that failed outright and assets answered with an error status, and note the
+// scripts and stylesheets the page depends on. The issues are shown as findings;
+// the assets feed a generated smoke test that also fails on uncaught exceptions.
+
+import type { Page, Request, Response } from 'playwright';
+import type { TestFramework } from './frameworks';
+import type { GeneratedTest } from './test-schema';
+
+export type PageIssueKind = 'exception' | 'console-error' | 'csp-violation' | 'request-failed' | 'http-error';
+
+export interface PageIssue {
+  kind: PageIssueKind;
+  message: string;
+  url?: string; // the resource, for failed requests and error responses
+  status?: number; // for error responses
+}
+
+export interface PageHealth {
+  issues: PageIssue[];
+  criticalAssets: string[]; // scripts and stylesheets the page loaded, successfully or not
+}
+
+export const PAGE_HEALTH_LIMITS = {
+  maxIssues: 50,
+  maxMessageLength: 500,
+  maxAssets: 10,
+};
+
+// Error responses to these are API behaviour, which network.ts records
+const API_RESOURCE_TYPES = new Set(['xhr', 'fetch']);
+const CRITICAL_RESOURCE_TYPES = new Set(['script', 'stylesheet']);
+
+export const ISSUE_LABELS: Record<PageIssueKind, string> = {
+  exception: 'Uncaught exception',
+  'console-error': 'Console error',
+  'csp-violation': 'CSP violation',
+  'request-failed': 'Failed request',
+  'http-error': 'Error response',
+};
+
+export interface PageHealthRecorder {
+  stop: () => PageHealth;
+}
+
+// Start recording the page's errors and critical assets; `stop` returns each issue once
+export function recordPageHealth(page: Page): PageHealthRecorder {
+  const issues = new Map<string, PageIssue>();
+  const assets = new Set<string>();
+  const add = (issue: PageIssue) => {
+    const message = issue.message.slice(0, PAGE_HEALTH_LIMITS.maxMessageLength);
+    const key = `${issue.kind} ${issue.url ?? ''} ${message}`;
+    if (!issues.has(key) && issues.size < PAGE_HEALTH_LIMITS.maxIssues) issues.set(key, { ...issue, message });
+  };
+
+  const onPageError = (error: Error) => add({ kind: 'exception', message: error.message });
+  const onConsole = (message: { type: () => string; text: () => string }) => {
+    if (message.type() !== 'error') return;
+    const text = message.text();
+    // Chromium logs every error response; those are recorded with their URL below
+    if (text.startsWith('Failed to load resource')) return;
+    add({ kind: text.includes('Content Security Policy') ? 'csp-violation' : 'console-error', message: text });
+  };
+  const onRequest = (request: Request) => {
+    if (CRITICAL_RESOURCE_TYPES.has(request.resourceType()) && request.frame() === page.mainFrame() &&
+      assets.size < PAGE_HEALTH_LIMITS.maxAssets) {
+      assets.add(request.url());
+    }
+  };
+  const onRequestFailed = (request: Request) => {
+    add({ kind: 'request-failed', message: request.failure()?.errorText || 'Request failed', url: request.url() });
+  };
+  const onResponse = (response: Response) => {
+    if (response.status() < 400 || API_RESOURCE_TYPES.has(response.request().resourceType())) return;
+    add({ kind: 'http-error', message: `${response.status()} ${response.statusText()}`.trim(), url: response.url(), status: response.status() });
+  };
+
+  page.on('pageerror', onPageError);
+  page.on('console', onConsole);
+  page.on('request', onRequest);
+  page.on('requestfailed', onRequestFailed);
+  page.on('response', onResponse);
+
+  return {
+    stop: () => {
+      page.off('pageerror', onPageError);
+      page.off('console', onConsole);
+      page.off('request', onRequest);
+      page.off('requestfailed', onRequestFailed);
+      page.off('response', onResponse);
+      return { issues: [...issues.values()], criticalAssets: [...assets] };
+    },
+  };
+}
+
+// A line per issue, e.g. `Error response: 404 Not Found (https://shop.test/app.js)`
+export function formatPageIssues(issues: PageIssue[]): string {
+  return issues
+    .map(issue => `  - ${ISSUE_LABELS[issue.kind]}: ${issue.message}${issue.url ? ` (${issue.url})` : ''}`)
+    .join('\n');
+}
+
+function quote(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+// A smoke test that visits the page, fails on uncaught exceptions and checks each critical asset loads
+export function buildSmokeTest(url: string, criticalAssets: string[], framework: TestFramework): GeneratedTest {
+  const path = new URL(url).pathname;
+  const title = `Smoke: ${path} loads without uncaught exceptions or missing assets`;
+  const assets = criticalAssets.slice(0, PAGE_HEALTH_LIMITS.maxAssets);
+
+  const body = framework === 'playwright'
+    ? [
+      'const errors = [];',
+      "page.on('pageerror', error => errors.push(error.message));",
+      `await page.goto(${quote(url)});`,
+      "await expect(page.locator('body')).toBeVisible();",
+      'expect(errors).toEqual([]);',
+      ...assets.map(asset => `expect((await request.get(${quote(asset)})).status()).toBeLessThan(400);`),
+    ]
+    : [
+      `cy.visit(${quote(url)});`,
+      "cy.get('body').should('be.visible');",
+      ...assets.map(asset => `cy.request(${quote(asset)}).its('status').should('be.lessThan', 400);`),
+    ];
+  const lines = body.map(line => `    ${line}`).join('\n');
+
+  const code = framework === 'playwright'
+    ? `import { test, expect } from '@playwright/test';
+
+test.describe('Smoke test', () => {
+  test(${quote(title)}, async ({ page, request }) => {
+${lines}
+  });
+});`
+    : `describe('Smoke test', () => {
+  Cypress.on('uncaught:exception', error => {
+    throw new Error(\`Uncaught exception on the page: \${error.message}\`);
+  });
+
+  it(${quote(title)}, () => {
+${lines}
+  });
+});`;
+
+  return {
+    title,
+    why: 'Broken pages often show the problem only in the console or as a missing script or stylesheet',
+    steps: [
+      `Visit ${url}`,
+      'Fail on any uncaught exception',
+      ...(assets.length > 0 ? [`Check that ${assets.length} critical scripts and stylesheets load`] : []),
+    ],
+    code,
+    category: 'general',
+    selectors: ['body'],
+  };
+}
@@ -0,0 +1,173 @@
+// Network guard for test runs
+//
+// Test code is user code, so the requests of a run must not reach what only the
+// server can: local files, cloud metadata endpoints, hosts on the private network.
+// The sandbox sends every context it creates or hands to test code through
+// guardContext(): page requests, WebSockets, Playwright's API client, route handlers
+// and navigations all pass the URL policy of `url-policy.ts` before they are sent.
+//
+// Chromium continues the later hops of a redirect without routing them, so the
+// guard follows redirects itself and checks each hop. A page that redirected keeps
+// the URL it was requested at.
+
+import type { APIRequestContext, APIResponse, Browser, BrowserContext, BrowserContextOptions, Frame, Page, Request, Route } from 'playwright';
+import { validateUrl } from './url-policy';
+
+const MAX_REDIRECTS = 20;
+
+export interface NetworkPolicy {
+  allowPrivateHosts: boolean;
+  baseURL?: string; // relative URLs of the context resolve against it
+}
+
+// One request of a redirect chain
+export interface Hop {
+  url: string;
+  method: string;
+  dropBody: boolean; // the redirect turned it into a GET
+}
+
+// A request the policy does not allow
+export class BlockedRequestError extends Error {
+  constructor(url: string, reason: string) {
+    super(`Blocked request to ${url}: ${reason}`);
+    this.name = 'BlockedRequestError';
+  }
+}
+
+function assertAllowed(url: string, policy: NetworkPolicy) {
+  const { isValid, error } = validateUrl(url, policy.allowPrivateHosts);
+  if (!isValid) throw new BlockedRequestError(url, error || 'not allowed');
+}
+
+// An absolute URL for `url`, or undefined when it doesn't parse
+function resolve(url: string, baseURL?: string): string | undefined {
+  try {
+    return new URL(url, baseURL).toString();
+  } catch {
+    return undefined;
+  }
+}
+
+// Send a request hop by hop, checking every URL before it is requested. Like browsers,
+// a 303, or a 301 or 302 after a POST, continues as a GET without a body.
+export async function followRedirects(url: string, method: string, policy: NetworkPolicy, send: (hop: Hop) => Promise<APIResponse>): Promise<APIResponse> {
+  let hop: Hop = { url, method: method.toUpperCase(), dropBody: false };
+  for (let redirects = 0; ; redirects++) {
+    assertAllowed(hop.url, policy);
+    const response = await send(hop);
+    const status = response.status();
+    const location = response.headers()['location'];
+    if (status < 300 || status >= 400 || !location) return response;
+    if (redirects === MAX_REDIRECTS) throw new Error(`Too many redirects from ${url}`);
+
+    await response.dispose();
+    const toGet = status === 303 || ((status === 301 || status === 302) && hop.method === 'POST');
+    hop = { url: new URL(location, hop.url).toString(), method: toGet ? 'GET' : hop.method, dropBody: hop.dropBody || toGet };
+  }
+}
+
+// route.fetch() through the policy
+function fetchRoute(route: Route, policy: NetworkPolicy, overrides: Parameters<Route['fetch']>[0] = {}): Promise<APIResponse> {
+  const request = route.request();
+  return followRedirects(overrides.url ?? request.url(), overrides.method ?? request.method(), policy, hop =>
+    route.fetch({ ...overrides, url: hop.url, method: hop.method, maxRedirects: 0, ...(hop.dropBody && { postData: '' }) }));
+}
+
+async function abortBlocked(route: Route, err: unknown) {
+  await route.abort(err instanceof BlockedRequestError ? 'blockedbyclient' : 'failed').catch(() => {});
+}
+
+// A route for test code's handlers whose fetch() and continue() keep to the policy.
+// continue() would send the request past the guard's own route, so it fetches here.
+function guardedRoute(route: Route, policy: NetworkPolicy): Route {
+  const fetch: Route['fetch'] = options => fetchRoute(route, policy, options);
+  const proceed: Route['continue'] = async options => {
+    try {
+      await route.fulfill({ response: await fetchRoute(route, policy, options) });
+    } catch (err) {
+      await abortBlocked(route, err);
+    }
+  };
+  return new Proxy(route, {
+    get(target, property) {
+      if (property === 'fetch') return fetch;
+      if (property === 'continue') return proceed;
+      const value = Reflect.get(target, property);
+      return typeof value === 'function' ? value.bind(target) : value;
+    },
+  });
+}
+
+// Wrap the route handlers of a page or context as they are added
+function guardRouteHandlers(target: Page | BrowserContext, policy: NetworkPolicy) {
+  const route = target.route.bind(target);
+  target.route = ((url, handler, options) =>
+    route(url, (r: Route, request: Request) => handler(guardedRoute(r, policy), request), options)) as typeof target.route;
+}
+
+// Check navigations the API starts; links the page follows are routed like any request
+function guardNavigation(frame: Frame, policy: NetworkPolicy) {
+  const goto = frame.goto.bind(frame);
+  frame.goto = (url, options) => {
+    const target = resolve(url, policy.baseURL);
+    if (target) assertAllowed(target, policy);
+    return goto(url, options);
+  };
+}
+
+function guardPage(page: Page, policy: NetworkPolicy) {
+  guardRouteHandlers(page, policy);
+  guardNavigation(page.mainFrame(), policy);
+  page.on('frameattached', frame => guardNavigation(frame, policy));
+}
+
+// Playwright's API client, used by cy.request(), the `request` fixture and page.request
+function guardApiRequests(request: APIRequestContext, policy: NetworkPolicy) {
+  const fetch = request.fetch.bind(request);
+  request.fetch = (urlOrRequest, options = {}) => {
+    const fromRequest = typeof urlOrRequest === 'string'
+      ? {}
+      : { method: urlOrRequest.method(), headers: urlOrRequest.headers(), data: urlOrRequest.postDataBuffer() ?? undefined };
+    const url = typeof urlOrRequest === 'string' ? urlOrRequest : urlOrRequest.url();
+    const sent = { ...fromRequest, ...options };
+    return followRedirects(resolve(url, policy.baseURL) ?? url, sent.method ?? 'GET', policy, hop => fetch(hop.url, {
+      ...sent,
+      method: hop.method,
+      maxRedirects: 0,
+      ...(hop.dropBody && { data: undefined, form: undefined, multipart: undefined }),
+    }));
+  };
+}
+
+// Keep every request of a context to the policy
+export async function guardContext(context: BrowserContext, policy: NetworkPolicy): Promise<void> {
+  await context.route('**/*', async route => {
+    try {
+      await route.fulfill({ response: await fetchRoute(route, policy) });
+    } catch (err) {
+      await abortBlocked(route, err);
+    }
+  });
+  await context.routeWebSocket(/./, ws => {
+    const { isValid, error } = validateUrl(ws.url().replace(/^ws/, 'http'), policy.allowPrivateHosts);
+    if (!isValid) return ws.close({ code: 1008, reason: error });
+    ws.connectToServer();
+  });
+  guardApiRequests(context.request, policy);
+  guardRouteHandlers(context, policy);
+  context.pages().forEach(page => guardPage(page, policy));
+  context.on('page', page => guardPage(page, policy));
+}
+
+// Guard every context created through `browser`, including by test code. Service
+// workers are blocked because their requests are not routed, and a proxy would
+// take requests past the guard.
+export function guardBrowser(browser: Browser, allowPrivateHosts: boolean) {
+  const newContext = browser.newContext.bind(browser);
+  browser.newContext = async (options: BrowserContextOptions = {}) => {
+    const context = await newContext({ ...options, proxy: undefined, serviceWorkers: 'block' });
+    await guardContext(context, { allowPrivateHosts, baseURL: options.baseURL });
+    return context;
+  };
+}
@@ -0,0 +1,184 @@
+// Selector synthesis utilities for TestFlow AI
+//
+// For each interactive element in a snapshot we build candidate selectors
+// (data-cy/data-testid, id, name, role and accessible name, text, and a
+// structural CSS path), keep only those that match exactly that one element
+// on the live page, and rank them by how likely they are to survive changes
+// to the page. The prompts hand the model these selectors and nothing else,
+// so generated tests don't guess at selectors from truncated HTML.
+
+import type { Page } from 'playwright';
+import { parseAriaNode } from './accessibility';
+import type { HtmlElementInfo } from './snapshot';
+import type { TestFramework } from './frameworks';
+
+export type SelectorStrategy = 'data-cy' | 'data-testid' | 'data-test' | 'id' | 'name' | 'role' | 'text' | 'css';
+
+export interface SelectorCandidate {
+  strategy: SelectorStrategy;
+  selector: string; // CSS; the ARIA role for 'role' and the tag for 'text'
+  text?: string; // the accessible name for 'role', the contained text for 'text'
+  score: number; // 0-100, higher is more stable
+}
+
+// Test attributes exist for tests; ids and names usually carry meaning; structure changes most
+const BASE_SCORES: Record<SelectorStrategy, number> = {
+  'data-cy': 100,
+  'data-testid': 95,
+  'data-test': 95,
+  id: 85,
+  name: 75,
+  role: 70,
+  text: 55,
+  css: 25,
+};
+
+export function isSelectorStrategy(value: unknown): value is SelectorStrategy {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(BASE_SCORES, value);
+}
+
+const TEST_ATTRIBUTES = ['data-cy', 'data-testid', 'data-test'] as const;
+
+const MAX_TEXT_LENGTH = 80;
+
+// Time allowed for reading one element's accessible name
+const ELEMENT_TIMEOUT_MS = 1000;
+
+// Ids from frameworks and build tools that change between renders or deploys
+function isGeneratedId(id: string): boolean {
+  return /\d{4,}|[0-9a-f]{8,}|^(?:ember|react|mui|radix|headlessui|:r)|:/i.test(id);
+}
+
+// Whether `selector` is CSS (rather than a role or tag qualifying `text`)
+export function isCssCandidate(candidate: Pick<SelectorCandidate, 'strategy'>): boolean {
+  return candidate.strategy !== 'role' && candidate.strategy !== 'text';
+}
+
+export function scoreSelector(candidate: Omit<SelectorCandidate, 'score'>): number {
+  let score = BASE_SCORES[candidate.strategy];
+  if (candidate.strategy === 'id' && isGeneratedId(candidate.selector.replace(/^#|^\[id="|"\]$/g, ''))) score -= 50;
+  if ((candidate.strategy === 'role' || candidate.strategy === 'text') && (candidate.text?.length ?? 0) > 40) score -= 15;
+  if (candidate.strategy === 'css') score -= 3 * (candidate.selector.split('>').length - 1);
+  return Math.max(1, score);
+}
+
+// Highest score first, each selector once
+export function rankSelectors(candidates: Omit<SelectorCandidate, 'score'>[]): SelectorCandidate[] {
+  const seen = new Set<string>();
+  return candidates
+    .map(candidate => ({ ...candidate, score: scoreSelector(candidate) }))
+    .sort((a, b) => b.score - a.score)
+    .filter(candidate => {
+      const key = `${isCssCandidate(candidate) ? 'css' : candidate.strategy}:${candidate.selector}:${candidate.text ?? ''}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+function quote(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+// The candidate as the code a test would use to find the element
+export function toLocator(candidate: SelectorCandidate, framework: TestFramework): string {
+  const { strategy, selector, text = '' } = candidate;
+  if (framework === 'playwright') {
+    if (strategy === 'role') return `page.getByRole(${quote(selector)}, { name: ${quote(text)}, exact: true })`;
+    if (strategy === 'text') return `page.locator(${quote(selector)}, { hasText: ${quote(text)} })`;
+    if (strategy === 'data-testid') return `page.getByTestId(${quote(JSON.parse(selector.slice('[data-testid='.length, -1)))})`;
+    return `page.locator(${quote(selector)})`;
+  }
+  if (strategy === 'role') return `cy.findByRole(${quote(selector)}, { name: ${quote(text)} })`;
+  if (strategy === 'text') return `cy.contains(${quote(selector)}, ${quote(text)})`;
+  return `cy.get(${quote(selector)})`;
+}
+
+// Rank the selectors for each element (located by its `path`) and keep those unique on the page
+export async function attachSelectors(page: Page, elements: HtmlElementInfo[]): Promise<void> {
+  const found = await page.evaluate(({ paths, testAttributes, maxTextLength }) => {
+    const count = (selector: string) => {
+      try {
+        return document.querySelectorAll(selector).length;
+      } catch {
+        return 0;
+      }
+    };
+    const normalize = (text: string | null) => (text || '').replace(/\s+/g, ' ').trim();
+
+    return paths.map(path => {
+      const el = path ? document.querySelector(path) : null;
+      if (!el) return [];
+      const tag = el.tagName.toLowerCase();
+      const candidates: { strategy: string; selector: string; text?: string }[] = [];
+
+      for (const attribute of testAttributes) {
+        const value = el.getAttribute(attribute);
+        if (value) candidates.push({ strategy: attribute, selector: `[${attribute}=${JSON.stringify(value)}]` });
+      }
+      if (el.id) {
+        candidates.push({ strategy: 'id', selector: /^[A-Za-z][\w-]*$/.test(el.id) ? `#${el.id}` : `[id=${JSON.stringify(el.id)}]` });
+      }
+      const name = el.getAttribute('name');
+      if (name) candidates.push({ strategy: 'name', selector: `${tag}[name=${JSON.stringify(name)}]` });
+      candidates.push({ strategy: 'css', selector: path });
+
+      const unique = candidates.filter(candidate => count(candidate.selector) === 1);
+
+      // Like cy.contains: the text appears in this element and no other element of its tag
+      const text = normalize(el.textContent);
+      if (text && text.length <= maxTextLength &&
+        Array.from(document.querySelectorAll(tag)).filter(other => normalize(other.textContent).includes(text)).length === 1) {
+        unique.push({ strategy: 'text', selector: tag, text });
+      }
+      return unique;
+    });
+  }, { paths: elements.map(el => el.path || ''), testAttributes: [...TEST_ATTRIBUTES], maxTextLength: MAX_TEXT_LENGTH });
+
+  for (const [idx, element] of elements.entries()) {
+    const candidates = found[idx] as Omit<SelectorCandidate, 'score'>[];
+    if (element.path) {
+      const role = await roleCandidate(page, element.path);
+      if (role) candidates.push(role);
+    }
+    element.selectors = rankSelectors(candidates);
+  }
+}
+
+// Role and accessible name, when exactly one visible element has them
+async function roleCandidate(page: Page, path: string): Promise<Omit<SelectorCandidate, 'score'> | null> {
+  try {
+    const node = parseAriaNode(await page.locator(path).ariaSnapshot({ timeout: ELEMENT_TIMEOUT_MS }));
+    if (!node?.name || node.name.length > MAX_TEXT_LENGTH) return null;
+    const matches = await page.getByRole(node.role as Parameters<Page['getByRole']>[0], { name: node.name, exact: true }).count();
+    return matches === 1 ? { strategy: 'role', selector: node.role, text: node.name } : null;
+  } catch {
+    return null;
+  }
+}
+
+// The element's selectors as code, most stable first
+export function formatSelectors(element: HtmlElementInfo, framework: TestFramework, max: number = 3): string {
+  return (element.selectors || []).slice(0, max).map(candidate => toLocator(candidate, framework)).join(' | ');
+}
+
+// One line per element that has selectors, e.g. `1. BUTTON "Add to cart": cy.get('#add-to-cart') | ...`
+export function formatAllowedSelectors(elements: HtmlElementInfo[], framework: TestFramework, maxElements: number = 40): string {
+  return elements
+    .filter(el => el.selectors?.length)
+    .slice(0, maxElements)
+    .map((el, idx) => {
+      const label = el.text || el.name || el.placeholder || el.href || '';
+      return `  ${idx + 1}. ${el.type.toUpperCase()}${label ? ` ${JSON.stringify(label.substring(0, 50))}` : ''}: ${formatSelectors(el, framework)}`;
+    })
+    .join('\n');
+}
+
+// Prompt rules that keep the model to the verified selectors
+export function selectorPromptRules(framework: TestFramework): string {
+  return [
+    '- Find interactive elements ONLY with the selectors listed for them, copied exactly; the first one listed is the most stable',
+    '- Never write a selector that is not listed: it has not been checked against the page',
+    `- To check text outside these elements (headings, messages), use ${framework === 'playwright' ? "page.getByText('...')" : "cy.contains('...')"}`,
+  ].join('\n');
+}
@@ -0,0 +1,172 @@
+// Self-healing loop for generated tests
+//
+// Each test is executed; when it fails, the failing code, the error and a fresh
+// DOM excerpt are sent back to the model to get a corrected version. This repeats
+// until the test passes or the attempt budget is spent.
+//
+// The repaired code is written by a model that reads the page under test, so
+// healing is off unless the deployment sets SELF_HEAL_MAX_ATTEMPTS, only runs for
+// signed-in users, and every attempt runs in the test runner's sandbox.
+
+import { runTestCode, RunnerUnavailableError, type RunStatus, type TestRunResult } from './test-runner';
+import { captureSnapshot, formatDomExcerpt } from './snapshot';
+import { FRAMEWORK_LABELS, type TestFramework } from './frameworks';
+import type { LoginRecipe } from './login-recipes';
+
+export type HealStatus = 'passed' | 'healed' | 'unfixable';
+
+export interface TestRevision {
+  attempt: number;
+  code: string;
+  status: RunStatus;
+  error?: string;
+  failingCommand?: string;
+  explanation?: string;
+}
+
+export interface HealableTest {
+  title?: string;
+  code?: string;
+}
+
+// Ask the model for a fixed version; resolves to parsed JSON or throws
+export type RepairFn = (prompt: string) => Promise<{ code?: unknown; explanation?: unknown }>;
+
+const MAX_HEAL_ATTEMPTS = 5;
+
+// The deployment's attempt budget; 0 (the default) turns healing off
+function configuredMaxHealAttempts(): number {
+  const value = parseInt(process.env.SELF_HEAL_MAX_ATTEMPTS || '0');
+  return Math.max(0, Math.min(MAX_HEAL_ATTEMPTS, Number.isFinite(value) ? value : 0));
+}
+
+// A request may ask for fewer attempts than the deployment allows, never more
+export function resolveMaxHealAttempts(requested?: number): number {
+  const cap = configuredMaxHealAttempts();
+  const value = requested ?? cap;
+  return Math.max(0, Math.min(cap, Number.isFinite(value) ? value : 0));
+}
+
+// Keep a request's selfHeal flag only for a signed-in user on a deployment that heals
+export function allowSelfHeal<T extends { selfHeal: boolean }>(input: T, userId: string | null | undefined): T {
+  return { ...input, selfHeal: input.selfHeal && Boolean(userId) && configuredMaxHealAttempts() > 0 };
+}
+
+export function buildRepairPrompt(
+  test: HealableTest,
+  code: string,
+  run: TestRunResult,
+  domExcerpt: string,
+  framework: TestFramework = 'cypress'
+): string {
+  const label = FRAMEWORK_LABELS[framework];
+  return `You are a QA automation engineer fixing a failing ${label} test.
+
+Test: ${test.title || 'Untitled Test'}
+
+CURRENT CODE:
+${code}
+
+FAILURE:
+Error: ${run.error || 'Unknown error'}
+Failing command: ${run.failingCommand || 'unknown'}
+
+CURRENT PAGE STRUCTURE:
+${domExcerpt}
+
+Fix the test so it passes against the page as it is now. Keep the intent of the test.
+- Only use selectors that match elements listed in the page structure above
+- Correct URL and title assertions to match the real page
+- Do not remove assertions just to make the test pass
+
+Return **ONLY valid JSON**, no markdown or explanations.
+JSON format:
+{
+  "code": "Complete corrected ${label} test code${framework === 'playwright' ? ' including the @playwright/test import' : ' with describe/it blocks'}",
+  "explanation": "One sentence on what was wrong"
+}`;
+}
+
+// Run a test and repair it until it passes; returns null if no browser is available
+export async function healTest(
+  test: HealableTest,
+  url: string,
+  repair: RepairFn,
+  maxAttempts: number,
+  framework: TestFramework = 'cypress',
+  loginRecipe: LoginRecipe | null = null
+): Promise<{ code: string; healStatus: HealStatus; revisions: TestRevision[]; lastRun: TestRunResult } | null> {
+  let code = typeof test.code === 'string' ? test.code : '';
+  let explanation: string | undefined;
+  const revisions: TestRevision[] = [];
+
+  for (let attempt = 0; ; attempt++) {
+    let run: TestRunResult;
+    try {
+      run = await runTestCode(code, url, { framework, loginRecipe });
+    } catch (err) {
+      if (err instanceof RunnerUnavailableError) {
+        console.warn('Self-healing skipped:', err.message);
+        return null;
+      }
+      throw err;
+    }
+
+    revisions.push({
+      attempt,
+      code,
+      status: run.status,
+      error: run.error,
+      failingCommand: run.failingCommand,
+      explanation,
+    });
+
+    if (run.status === 'passed' || run.status === 'skipped') {
+      return { code, healStatus: attempt === 0 ? 'passed' : 'healed', revisions, lastRun: run };
+    }
+    if (attempt >= maxAttempts) {
+      return { code, healStatus: 'unfixable', revisions, lastRun: run };
+    }
+
+    try {
+      const snapshot = await captureSnapshot(url, { screenshot: false, loginRecipe });
+      const repaired = await repair(buildRepairPrompt(test, code, run, formatDomExcerpt(url, snapshot), framework));
+      if (typeof repaired.code !== 'string' || !repaired.code.trim()) {
+        return { code, healStatus: 'unfixable', revisions, lastRun: run };
+      }
+      code = repaired.code;
+      explanation = typeof repaired.explanation === 'string' ? repaired.explanation : undefined;
+    } catch (err) {
+      console.error(`Repair attempt ${attempt + 1} failed for "${test.title}":`, err);
+      return { code, healStatus: 'unfixable', revisions, lastRun: run };
+    }
+  }
+}
+
+// Heal every test in turn (sequentially, to keep one browser running at a time)
+export async function healTests<T extends HealableTest>(
+  tests: T[],
+  url: string,
+  repair: RepairFn,
+  maxAttempts: number,
+  framework: TestFramework = 'cypress',
+  loginRecipe: LoginRecipe | null = null
+) {
+  const healed: (T & Partial<{ healStatus: HealStatus; revisions: TestRevision[]; lastRun: TestRunResult }>)[] = [];
+
+  for (const test of tests) {
+    if (typeof test.code !== 'string' || !test.code.trim()) {
+      healed.push(test);
+      continue;
+    }
+    const result = await healTest(test, url, repair, maxAttempts, framework, loginRecipe);
+    if (!result) {
+      // No browser available; the remaining tests can't be run either
+      healed.push(...tests.slice(healed.length));
+      break;
+    }
+    healed.push({ ...test, ...result });
+  }
+
+  return healed;
+}
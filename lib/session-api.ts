@@ -0,0 +1,202 @@
+// Session API contracts for TestFlow AI
+//
+// Saved tests are stored by the server: the page saves, loads and deletes them
+// through /api/sessions and never talks to the database itself. These are the
+// request and response bodies of those routes, and the helpers the page calls
+// them with. Without a database the routes answer 503 and the page keeps its
+// tests in localStorage under LOCAL_SESSION_PREFIX; once a database is set up,
+// those entries are imported through /api/sessions/import and removed.
+// Sessions can belong to a project (/api/projects), which scopes saving and loading.
+
+import type { SiteMapNode } from './crawler';
+import type { TestRevision } from './self-heal';
+import type { TestRunResult } from './test-runner';
+import type { ValidationWarning } from './test-validator';
+
+// localStorage key prefix of sessions saved without a database, followed by the URL
+export const LOCAL_SESSION_PREFIX = 'testflow_tests_';
+
+// A generated test as the page holds it
+export interface SessionTest {
+  id?: string; // set once stored
+  title: string;
+  why?: string;
+  steps?: string[]; // only while freshly generated; not stored
+  code: string;
+  category?: string;
+  testType?: string;
+  pageUrl?: string;
+  healStatus?: string;
+  warnings?: ValidationWarning[]; // recomputed by the server on save
+  revisions?: TestRevision[];
+  lastRun?: TestRunResult;
+}
+
+export interface StoredSession {
+  sessionId?: string;
+  url: string;
+  projectId?: string;
+  tests: SessionTest[];
+  summary: string;
+  timestamp: number;
+  userDescription?: string;
+  siteMap?: SiteMapNode[];
+}
+
+// POST /api/sessions
+export interface SaveSessionRequest {
+  url: string;
+  tests: SessionTest[];
+  summary: string;
+  siteMap?: SiteMapNode[];
+  projectId?: string;
+}
+
+export interface SaveSessionResponse {
+  sessionId: string;
+  testCount: number;
+}
+
+// GET /api/sessions/latest?url=&projectId=
+export interface LatestSessionResponse {
+  session: StoredSession | null;
+}
+
+// DELETE /api/sessions?url=
+export interface DeleteUrlResponse {
+  deleted: { sessions: number; baselines: number };
+}
+
+// POST /api/sessions/import
+export interface ImportSessionsRequest {
+  sessions: StoredSession[];
+}
+
+// Results carry each session's URL as it was sent
+export interface ImportSessionsResponse {
+  imported: { url: string; sessionId: string; added: number }[];
+  skipped: { url: string; reason: 'already-stored' | 'invalid'; details?: string[] }[];
+}
+
+// GET /api/projects lists these; POST /api/projects returns one. Dates arrive as JSON strings.
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  description?: string;
+  baseUrl?: string;
+  sessionCount: number;
+  testCount: number;
+  suiteCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// POST /api/projects
+export interface CreateProjectRequest {
+  name: string;
+  description?: string;
+  baseUrl?: string;
+}
+
+// Errors every route answers with; `details` lists validation failures
+export interface ApiErrorResponse {
+  error: string;
+  details?: string[];
+}
+
+// The server has no database; the page keeps its tests in localStorage instead
+export class StorageUnavailableError extends Error {
+  constructor(message: string = 'Stored tests need a database') {
+    super(message);
+    this.name = 'StorageUnavailableError';
+  }
+}
+
+async function call<T>(path: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(path, init);
+  const data = await res.json().catch(() => ({}));
+  if (res.status === 503) throw new StorageUnavailableError((data as ApiErrorResponse).error);
+  if (!res.ok) {
+    const { error, details } = data as ApiErrorResponse;
+    throw new Error(details?.length ? `${error}: ${details.join(', ')}` : error || `Request failed with HTTP ${res.status}`);
+  }
+  return data as T;
+}
+
+const postJson = (body: object): RequestInit => ({
+  method: 'POST',
+  headers: { 'Content-Type': 'application/json' },
+  body: JSON.stringify(body),
+});
+
+export function saveSession(request: SaveSessionRequest): Promise<SaveSessionResponse> {
+  return call('/api/sessions', postJson(request));
+}
+
+// The newest session for the URL in the project, or among sessions without a project
+export async function loadLatestSession(url: string, projectId?: string): Promise<StoredSession | null> {
+  const query = new URLSearchParams({ url, ...(projectId && { projectId }) });
+  const { session } = await call<LatestSessionResponse>(`/api/sessions/latest?${query}`);
+  return session;
+}
+
+// Resolves to zero counts when nothing was stored for the URL
+export async function deleteStoredUrl(url: string): Promise<DeleteUrlResponse['deleted']> {
+  const res = await fetch(`/api/sessions?url=${encodeURIComponent(url)}`, { method: 'DELETE' });
+  if (res.status === 404) return { sessions: 0, baselines: 0 };
+  if (res.status === 503) throw new StorageUnavailableError();
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error((data as ApiErrorResponse).error || `Request failed with HTTP ${res.status}`);
+  return (data as DeleteUrlResponse).deleted;
+}
+
+export function importSessions(request: ImportSessionsRequest): Promise<ImportSessionsResponse> {
+  return call('/api/sessions/import', postJson(request));
+}
+
+export async function listProjects(): Promise<ProjectSummary[]> {
+  const { projects } = await call<{ projects: ProjectSummary[] }>('/api/projects');
+  return projects;
+}
+
+export async function createProject(request: CreateProjectRequest): Promise<ProjectSummary> {
+  const { project } = await call<{ project: ProjectSummary }>('/api/projects', postJson(request));
+  return project;
+}
+
+// Sessions saved in localStorage, keyed by their localStorage key; unreadable entries are left alone
+export function readLocalSessions(storage: Storage): Map<string, StoredSession> {
+  const sessions = new Map<string, StoredSession>();
+  for (let i = 0; i < storage.length; i++) {
+    const key = storage.key(i);
+    if (!key?.startsWith(LOCAL_SESSION_PREFIX)) continue;
+    try {
+      const session = JSON.parse(storage.getItem(key) || '');
+      if (session && Array.isArray(session.tests)) {
+        sessions.set(key, { ...session, url: session.url || key.slice(LOCAL_SESSION_PREFIX.length) });
+      }
+    } catch {
+      // Not ours, or corrupted; keep it for the user to deal with
+    }
+  }
+  return sessions;
+}
+
+// Move sessions saved in localStorage into the database, removing the ones the server took.
+// Returns null when the server has no database, leaving localStorage as it was.
+export async function importLocalSessions(storage: Storage): Promise<ImportSessionsResponse | null> {
+  const local = readLocalSessions(storage);
+  if (local.size === 0) return { imported: [], skipped: [] };
+
+  try {
+    const result = await importSessions({ sessions: [...local.values()] });
+    const done = new Set([...result.imported, ...result.skipped.filter(entry => entry.reason === 'already-stored')].map(entry => entry.url));
+    for (const [key, session] of local) {
+      if (done.has(session.url)) storage.removeItem(key);
+    }
+    return result;
+  } catch (error) {
+    if (error instanceof StorageUnavailableError) return null;
+    throw error;
+  }
+}
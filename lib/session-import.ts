@@ -0,0 +1,50 @@
+// Session import utilities for TestFlow AI
+//
+// Before saving went through the server, the page kept every scan's tests in
+// localStorage. The page sends those sessions here once; each is merged into
+// the signed-in user's stored tests for the URL the way a new scan is, so
+// importing twice adds nothing.
+
+import { DatabaseService } from './database';
+import { mergeNewTests } from './jobs';
+import { sanitizeSessionSave } from './validation';
+import type { ImportSessionsResponse } from './session-api';
+
+export const IMPORT_LIMITS = {
+  maxSessions: 200,
+};
+
+export async function importStoredSessions(
+  sessions: unknown[],
+  meta: { userId: string; userAgent?: string; ipAddress?: string }
+): Promise<ImportSessionsResponse> {
+  const result: ImportSessionsResponse = { imported: [], skipped: [] };
+
+  for (const raw of sessions.slice(0, IMPORT_LIMITS.maxSessions)) {
+    const sentUrl = raw && typeof raw === 'object' && typeof (raw as { url?: unknown }).url === 'string' ? (raw as { url: string }).url : '';
+    const { session, errors } = sanitizeSessionSave(raw);
+    if (errors.length > 0) {
+      result.skipped.push({ url: sentUrl, reason: 'invalid', details: errors });
+      continue;
+    }
+
+    if (session.projectId && !(await DatabaseService.getProject(session.projectId, meta.userId))) {
+      result.skipped.push({ url: sentUrl, reason: 'invalid', details: ['Project: not found'] });
+      continue;
+    }
+
+    const previous = await DatabaseService.getLatestTestsForUrl(session.url, meta.userId, session.projectId);
+    const { tests, added } = mergeNewTests(previous?.tests || [], session.tests);
+    if (previous && added === 0) {
+      result.skipped.push({ url: sentUrl, reason: 'already-stored' });
+      continue;
+    }
+
+    const saved = await DatabaseService.saveTestSession(
+      session.url, tests, session.summary || previous?.summary || '', meta.userAgent, meta.ipAddress, session.siteMap || previous?.siteMap, session.projectId, meta.userId
+    );
+    result.imported.push({ url: sentUrl, sessionId: saved.sessionId, added });
+  }
+
+  return result;
+}
@@ -0,0 +1,206 @@
+// Page capture utilities for TestFlow AI
+import type { Page } from 'playwright';
+import { getBrowserPool } from './browser-pool';
+import { newScanContext, type LoginRecipe } from './login-recipes';
+import { captureContextOptions, gotoForCapture, type CaptureOptions } from './capture';
+import { extractAccessibleElements, formatAccessibleElements, type AccessibleElement } from './accessibility';
+import { attachSelectors, type SelectorCandidate } from './selectors';
+import { recordApiCalls, type ApiCall, type ApiCallRecorder } from './network';
+import { recordPageHealth, type PageHealthRecorder, type PageIssue } from './page-health';
+
+export interface DomData {
+  title: string;
+  headings: string[];
+  buttons: string[];
+  inputs: { name: string; type: string; placeholder: string }[];
+  links: { text: string; href: string }[];
+}
+
+export interface HtmlElementInfo {
+  type: string;
+  html: string;
+  text?: string;
+  id?: string;
+  className?: string;
+  name?: string;
+  inputType?: string;
+  placeholder?: string;
+  href?: string;
+  attributes: Record<string, string>;
+  path?: string; // structural CSS path from the nearest ancestor with a unique id (or the root)
+  selectors?: SelectorCandidate[]; // verified unique on the page, most stable first
+}
+
+export interface PageSnapshot {
+  screenshot?: string;
+  domData: DomData;
+  htmlElements: HtmlElementInfo[];
+  accessibleElements: AccessibleElement[]; // by ARIA role, including shadow DOM and same-origin iframes
+  apiCalls: ApiCall[]; // same-origin XHR and fetch calls made while the page loaded
+  pageIssues: PageIssue[]; // uncaught exceptions, console errors and failed requests while it loaded
+  criticalAssets: string[]; // scripts and stylesheets the page loaded
+}
+
+// Load a page in headless Chromium, emulating the requested device, and extract what the generators need
+export async function captureSnapshot(
+  url: string,
+  options: { screenshot?: boolean; capture?: CaptureOptions; loginRecipe?: LoginRecipe | null } = {}
+): Promise<PageSnapshot> {
+  const recipe = options.loginRecipe ?? null;
+  return getBrowserPool().withContext(
+    // Signed in through the user's login recipe for the origin, if there is one
+    browser => newScanContext(browser, recipe, captureContextOptions(options.capture)),
+    async context => {
+      const page = await context.newPage();
+      const network = recordApiCalls(page);
+      const health = recordPageHealth(page);
+      await gotoForCapture(page, url, options.capture, recipe);
+      return extractSnapshot(page, { screenshot: options.screenshot, network, health });
+    }
+  );
+}
+
+// Extract screenshot, DOM summary and interactive elements from a loaded page. `network`
+// and `health` are recordings started before the page was loaded; without them no API
+// calls, issues or assets are reported.
+export async function extractSnapshot(
+  page: Page,
+  options: { screenshot?: boolean; network?: ApiCallRecorder; health?: PageHealthRecorder } = {}
+): Promise<PageSnapshot> {
+  // Take screenshot
+  let screenshot: string | undefined;
+  if (options.screenshot !== false) {
+    const buffer = await page.screenshot({ type: 'png', fullPage: true });
+    screenshot = buffer.toString('base64');
+  }
+
+  // Extract DOM data for text-only models
+  const title = await page.title();
+  const headings = await page.$$eval('h1, h2, h3', els =>
+    els.map(e => e.textContent?.trim()).filter(Boolean) as string[]
+  );
+  const buttons = await page.$$eval("button, [role='button'], input[type='submit']", els =>
+    els.map(e => e.textContent?.trim() || e.getAttribute('value')).filter(Boolean) as string[]
+  );
+  const inputs = await page.$$eval('input, textarea, select', els =>
+    els.map(e => ({
+      name: e.getAttribute('name') || e.getAttribute('id') || '',
+      type: e.getAttribute('type') || e.tagName.toLowerCase(),
+      placeholder: e.getAttribute('placeholder') || ''
+    })).filter(el => el.name || el.placeholder)
+  );
+  const links = await page.$$eval('a[href]', els =>
+    els.map(e => ({
+      text: e.textContent?.trim() || '',
+      href: e.getAttribute('href') || ''
+    })).filter(el => el.text && el.href).slice(0, 20) // Limit to first 20 links
+  );
+
+  // Extract HTML for interactive elements (buttons, forms, inputs, links)
+  const htmlElements = await page.evaluate(() => {
+    const elements: HtmlElementInfo[] = [];
+
+    // e.g. `#main > form > button:nth-of-type(2)`
+    const cssPath = (el: Element): string => {
+      const parts: string[] = [];
+      for (let node: Element | null = el; node && node !== document.documentElement; node = node.parentElement) {
+        if (node !== el && node.id && /^[A-Za-z][\w-]*$/.test(node.id) && document.querySelectorAll(`#${node.id}`).length === 1) {
+          parts.unshift(`#${node.id}`);
+          break;
+        }
+        const tagName = node.tagName;
+        const siblings = node.parentElement ? Array.from(node.parentElement.children).filter(child => child.tagName === tagName) : [];
+        parts.unshift(siblings.length > 1 ? `${tagName.toLowerCase()}:nth-of-type(${siblings.indexOf(node) + 1})` : tagName.toLowerCase());
+      }
+      return parts.join(' > ');
+    };
+
+    // Get all buttons with their HTML
+    document.querySelectorAll("button, [role='button'], input[type='submit'], input[type='button']").forEach((el, idx) => {
+      if (idx < 30) { // Limit to 30 buttons
+        elements.push({
+          type: 'button',
+          html: el.outerHTML.substring(0, 500), // Limit HTML length
+          text: el.textContent?.trim() || el.getAttribute('value') || '',
+          id: el.id || '',
+          className: typeof el.className === 'string' ? el.className : '',
+          attributes: Array.from(el.attributes).reduce((acc: Record<string, string>, attr) => {
+            acc[attr.name] = attr.value;
+            return acc;
+          }, {}),
+          path: cssPath(el)
+        });
+      }
+    });
+
+    // Get all form inputs
+    document.querySelectorAll('input, textarea, select').forEach((el, idx) => {
+      if (idx < 30) { // Limit to 30 inputs
+        elements.push({
+          type: el.tagName.toLowerCase(),
+          html: el.outerHTML.substring(0, 500),
+          name: el.getAttribute('name') || el.id || '',
+          inputType: el.getAttribute('type') || '',
+          placeholder: el.getAttribute('placeholder') || '',
+          attributes: Array.from(el.attributes).reduce((acc: Record<string, string>, attr) => {
+            acc[attr.name] = attr.value;
+            return acc;
+          }, {}),
+          path: cssPath(el)
+        });
+      }
+    });
+
+    // Get all links
+    document.querySelectorAll('a[href]').forEach((el, idx) => {
+      if (idx < 30) { // Limit to 30 links
+        elements.push({
+          type: 'link',
+          html: el.outerHTML.substring(0, 500),
+          text: el.textContent?.trim() || '',
+          href: el.getAttribute('href') || '',
+          attributes: Array.from(el.attributes).reduce((acc: Record<string, string>, attr) => {
+            acc[attr.name] = attr.value;
+            return acc;
+          }, {}),
+          path: cssPath(el)
+        });
+      }
+    });
+
+    return elements;
+  });
+  await attachSelectors(page, htmlElements);
+
+  // Custom components, dialogs, tabs and menus the selectors above miss
+  const accessibleElements = await extractAccessibleElements(page);
+  const apiCalls = (await options.network?.stop()) ?? [];
+  const { issues: pageIssues, criticalAssets } = options.health?.stop() ?? { issues: [], criticalAssets: [] };
+
+  return {
+    screenshot,
+    domData: { title, headings, buttons, inputs, links },
+    htmlElements,
+    accessibleElements,
+    apiCalls,
+    pageIssues,
+    criticalAssets,
+  };
+}
+
+// Compact text description of a snapshot, small enough to include in a prompt
+export function formatDomExcerpt(url: string, snapshot: PageSnapshot, maxElements: number = 40): string {
+  const elements = snapshot.htmlElements
+    .slice(0, maxElements)
+    .map((el, idx) => `  ${idx + 1}. ${el.type?.toUpperCase() || 'ELEMENT'}: ${el.html?.substring(0, 200) || 'N/A'}`)
+    .join('\n');
+  const roles = formatAccessibleElements(snapshot.accessibleElements || [], maxElements);
+
+  return `URL: ${url}
+Page Title: ${snapshot.domData.title || 'N/A'}
+Headings: ${snapshot.domData.headings.slice(0, 10).join(' | ') || 'None'}
+Interactive elements:
+${elements || '  None'}${roles ? `
+Elements by role:
+${roles}` : ''}`;
+}
@@ -0,0 +1,207 @@
+// Test execution for TestFlow AI
+//
+// Runs a stored test's code against its target URL and reports the outcome.
+// Cypress tests run in headless Chromium through the Cypress emulation in
+// `cypress-shim.ts`; Playwright specs run through a small Playwright Test
+// harness. Either way the code runs in the sandbox process of `test-sandbox.ts`,
+// never in the server: each run gets its own Chromium, which the sandbox drives
+// over Playwright's WebSocket protocol. Pages behind a login recipe are signed in
+// to here, and the sandbox only gets the resulting storage state.
+
+import os from 'os';
+import path from 'path';
+import { spawn } from 'child_process';
+import playwright, { type BrowserServer } from 'playwright';
+import type { TestFramework } from './frameworks';
+import { loginStorageState, redactSecrets, stripLoginHelper, type LoginRecipe, type StorageState } from './login-recipes';
+import type { SandboxJob, SandboxReply } from './test-sandbox';
+import { privateHostsAllowed } from './url-policy';
+
+export type RunStatus = 'passed' | 'failed' | 'error' | 'skipped';
+// 'cypress' only appears on runs stored before local Cypress runs were removed
+export type RunnerKind = 'playwright' | 'cypress' | 'playwright-test';
+
+export interface TestCaseResult {
+  title: string;
+  status: RunStatus;
+  durationMs: number;
+  error?: string;
+  failingCommand?: string;
+}
+
+export interface TestRunResult {
+  status: RunStatus;
+  durationMs: number;
+  error?: string;
+  failingCommand?: string;
+  runner: RunnerKind;
+  cases: TestCaseResult[];
+}
+
+export interface RunOptions {
+  framework?: TestFramework;
+  testTimeoutMs?: number;
+  loginRecipe?: LoginRecipe | null; // the signed-in user's recipe for the target origin
+}
+
+// The runner itself could not start, so the result says nothing about the test
+export class RunnerUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RunnerUnavailableError';
+  }
+}
+
+const DEFAULT_TEST_TIMEOUT = parseInt(process.env.TEST_RUN_TIMEOUT_MS || '30000');
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+// Loads test-sandbox.ts in the child, transpiling TypeScript on the fly like test code
+const SANDBOX_BOOTSTRAP = `
+const fs = require('fs');
+const load = require('module').createRequire(process.argv[1]);
+const ts = load('typescript');
+require.extensions['.ts'] = (module, filename) => {
+  const { outputText } = ts.transpileModule(fs.readFileSync(filename, 'utf8'), {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020, esModuleInterop: true },
+  });
+  module._compile(outputText, filename);
+};
+load(process.argv[1]).serveSandbox();
+`;
+
+// Largest reply or log output kept from a sandbox
+const MAX_SANDBOX_OUTPUT = 64 * 1024;
+
+// Node flags for the sandbox: read access to the code it loads and nothing else.
+// Without --allow-child-process, --allow-worker and --allow-fs-write those are denied.
+function sandboxArgs(root: string): string[] {
+  const permission = process.allowedNodeEnvironmentFlags.has('--permission') ? '--permission' : '--experimental-permission';
+  return [
+    permission,
+    `--allow-fs-read=${path.join(root, 'lib')}${path.sep}*`,
+    `--allow-fs-read=${path.join(root, 'node_modules')}${path.sep}*`,
+    '--max-old-space-size=512',
+    '--no-warnings',
+  ];
+}
+
+// Run a job in a fresh sandbox process, killing it if it outlives `timeoutMs`
+export function runInSandbox(job: SandboxJob, timeoutMs: number): Promise<SandboxReply> {
+  const root = process.cwd();
+  return new Promise((resolve, reject) => {
+    // No environment: the sandbox must not see API keys, the database URL or login secrets
+    const child = spawn(process.execPath, [...sandboxArgs(root), '-e', SANDBOX_BOOTSTRAP, path.join(root, 'lib', 'test-sandbox.ts')], {
+      cwd: os.tmpdir(),
+      env: {} as NodeJS.ProcessEnv,
+      stdio: ['ignore', 'ignore', 'pipe', 'ipc'],
+    });
+    let reply: SandboxReply | undefined;
+    let stderr = '';
+    const timer = setTimeout(() => child.kill('SIGKILL'), timeoutMs);
+
+    child.stderr!.on('data', chunk => {
+      if (stderr.length < MAX_SANDBOX_OUTPUT) stderr += chunk;
+    });
+    child.on('message', message => {
+      reply = message as SandboxReply;
+    });
+    child.on('error', err => {
+      clearTimeout(timer);
+      reject(new RunnerUnavailableError(`Could not start the test sandbox: ${err.message}`));
+    });
+    child.on('exit', (code, signal) => {
+      clearTimeout(timer);
+      if (reply) resolve(reply);
+      else if (signal === 'SIGKILL') resolve({ error: `Test run timed out after ${timeoutMs}ms` });
+      else reject(new RunnerUnavailableError(`The test sandbox exited with code ${code}: ${stderr.trim().slice(-2000)}`));
+    });
+    child.send(job);
+  });
+}
+
+// What the run's Chromium may see of the server's environment: none of its secrets
+const BROWSER_ENV_KEYS = ['PATH', 'HOME', 'TMPDIR', 'LANG', 'TZ'];
+
+function browserEnv(): Record<string, string> {
+  return Object.fromEntries(BROWSER_ENV_KEYS.flatMap(key => (process.env[key] ? [[key, process.env[key]!]] : [])));
+}
+
+// A Chromium of its own for one run, so the sandbox never holds a connection to a browser scans share
+async function withBrowserServer<T>(task: (server: BrowserServer) => Promise<T>): Promise<T> {
+  let server: BrowserServer;
+  try {
+    server = await playwright.chromium.launchServer({ env: browserEnv() });
+  } catch (err) {
+    throw new RunnerUnavailableError(`Could not launch Chromium: ${errorMessage(err)}`);
+  }
+  try {
+    return await task(server);
+  } finally {
+    await server.close().catch(() => {});
+  }
+}
+
+// Log in through the recipe in the run's browser and return the session
+async function signIn(server: BrowserServer, recipe: LoginRecipe): Promise<StorageState> {
+  const browser = await playwright.chromium.connect(server.wsEndpoint());
+  try {
+    return await loginStorageState(browser, recipe);
+  } finally {
+    await browser.close().catch(() => {});
+  }
+}
+
+// Run a single test's code and aggregate the per-case results.
+// Throws RunnerUnavailableError when no browser or sandbox could be started.
+export async function runTestCode(code: string, targetUrl: string, options: RunOptions = {}): Promise<TestRunResult> {
+  const framework = options.framework ?? 'cypress';
+  const runner: RunnerKind = framework === 'playwright' ? 'playwright-test' : 'playwright';
+  const testTimeoutMs = options.testTimeoutMs || DEFAULT_TEST_TIMEOUT;
+  const started = Date.now();
+
+  const recipe = options.loginRecipe ?? null;
+
+  const reply = await withBrowserServer(async (server): Promise<SandboxReply> => {
+    let storageState: StorageState | undefined;
+    if (recipe) {
+      try {
+        storageState = await signIn(server, recipe);
+      } catch (err) {
+        return { error: `Could not sign in to ${recipe.origin}: ${errorMessage(err)}` };
+      }
+    }
+    return runInSandbox({
+      // The sandbox provides login(); the helper would only look for credentials it doesn't have
+      code: recipe ? stripLoginHelper(code) : code,
+      targetUrl,
+      framework,
+      wsEndpoint: server.wsEndpoint(),
+      testTimeoutMs,
+      storageState,
+      allowPrivateHosts: privateHostsAllowed(),
+    }, testTimeoutMs * 4);
+  });
+
+  // Credentials never reach the sandbox, but a test may still have typed one into a message
+  const redact = (text?: string) => (text && recipe ? redactSecrets(text, recipe) : text);
+
+  // Errors outside a test body (syntax errors, a lost browser, a failed login)
+  if ('error' in reply) {
+    return { status: 'error', durationMs: Date.now() - started, error: redact(reply.error), failingCommand: redact(reply.failingCommand), runner, cases: [] };
+  }
+
+  const cases = reply.cases.map(c => ({ ...c, error: redact(c.error), failingCommand: redact(c.failingCommand) }));
+  const failed = cases.find(c => c.status === 'failed');
+  const allSkipped = cases.length > 0 && cases.every(c => c.status === 'skipped');
+  return {
+    status: failed ? 'failed' : allSkipped ? 'skipped' : 'passed',
+    durationMs: Date.now() - started,
+    error: failed?.error,
+    failingCommand: failed?.failingCommand,
+    runner,
+    cases,
+  };
+}
@@ -0,0 +1,404 @@
+// Sandboxed test execution for TestFlow AI
+//
+// Test code comes from a model prompted with text from the pages under test, and
+// users can edit it, so it never runs in the server process. test-runner.ts
+// starts this module in a child Node process under the permission model: no
+// environment variables, read access to `lib` and `node_modules` only, and no
+// file writes, child processes or workers. The child connects to a browser the
+// server launched for the run, runs the tests and sends back one result per test.
+//
+// Cypress tests run through the emulation in `cypress-shim.ts`. Playwright specs
+// run through a small `test`/`describe` harness with Playwright's own `expect`.
+// Pages behind a login recipe get the storage state of a login the server did;
+// `Cypress.env()` is always empty and the generated `login()` helper is a no-op.
+// Every context on the run's browser is guarded by `sandbox-network.ts`.
+
+import vm from 'vm';
+import ts from 'typescript';
+import { chromium, type APIRequestContext, type Browser, type BrowserContext, type BrowserContextOptions, type Page } from 'playwright';
+import { expect as playwrightExpect } from 'playwright/test';
+import { CommandError, CypressShim, createExpect } from './cypress-shim';
+import type { TestFramework } from './frameworks';
+import type { StorageState } from './login-recipes';
+import { guardBrowser } from './sandbox-network';
+import type { TestCaseResult } from './test-runner';
+
+// What the server sends the sandbox to run
+export interface SandboxJob {
+  code: string;
+  targetUrl: string;
+  framework: TestFramework;
+  wsEndpoint: string; // of the browser launched for this run
+  testTimeoutMs: number;
+  storageState?: StorageState; // of the server's login through the user's recipe
+  allowPrivateHosts?: boolean; // the server's URL policy; private hosts are blocked without it
+}
+
+// What the sandbox sends back: per-test results, or why the file could not run at all
+export type SandboxReply =
+  | { cases: TestCaseResult[] }
+  | { error: string; failingCommand?: string };
+
+type Hook<F> = (fixtures: F) => unknown;
+
+interface CollectedTest<F> {
+  title: string;
+  fn?: Hook<F>;
+  skip: boolean;
+  beforeEach: Hook<F>[];
+  afterEach: Hook<F>[];
+  use: BrowserContextOptions; // Playwright's test.use(), outermost first
+}
+
+interface Suite<F> {
+  title: string;
+  skip: boolean;
+  beforeEach: Hook<F>[];
+  afterEach: Hook<F>[];
+  use: BrowserContextOptions;
+}
+
+export interface CollectedTests<F> {
+  tests: CollectedTest<F>[];
+  before: Hook<F>[];
+  after: Hook<F>[];
+}
+
+// Thrown by test.skip() inside a Playwright test body
+class SkipSignal extends Error {}
+
+// Stands in for `cy` while a file is collected without a browser: any property read
+// or call returns itself
+const inert: unknown = new Proxy(function () {}, { get: () => inert, apply: () => inert });
+
+const CONTEXT_OPTIONS: BrowserContextOptions = { viewport: { width: 1000, height: 660 } };
+
+// Remove module syntax and TypeScript annotations that a plain script context cannot evaluate
+export function toScript(code: string): string {
+  const withoutModules = code
+    .replace(/^\s*import\s+[^;]+;?\s*$/gm, '')
+    .replace(/^\s*export\s+(default\s+)?/gm, '');
+  const { outputText, diagnostics } = ts.transpileModule(withoutModules, {
+    compilerOptions: { target: ts.ScriptTarget.ES2020, module: ts.ModuleKind.None },
+    reportDiagnostics: true,
+  });
+  // transpileModule repairs a broken file rather than rejecting it
+  const [syntaxError] = diagnostics || [];
+  if (syntaxError) {
+    const line = syntaxError.file && syntaxError.start !== undefined
+      ? syntaxError.file.getLineAndCharacterOfPosition(syntaxError.start).line + 1
+      : undefined;
+    const message = ts.flattenDiagnosticMessageText(syntaxError.messageText, ' ');
+    throw new SyntaxError(line ? `${message} (line ${line})` : message);
+  }
+  return outputText;
+}
+
+// Errors thrown by test code come from the script's own realm, where `instanceof Error` fails
+function isError(err: unknown): err is { message: unknown; stack?: unknown } {
+  return typeof err === 'object' && err !== null && 'message' in err;
+}
+
+function errorMessage(err: unknown): string {
+  // Strip ANSI colour codes from Playwright's expect output
+  return (isError(err) ? String(err.message) : String(err)).replace(/\u001b\[[0-9;]*m/g, '');
+}
+
+// The describe/it structure shared by both frameworks. Hooks registered outside any
+// describe block apply to every test in the file.
+function createCollector<F>() {
+  const collected: CollectedTests<F> = { tests: [], before: [], after: [] };
+  const stack: Suite<F>[] = [{ title: '', skip: false, beforeEach: [], afterEach: [], use: {} }];
+  const current = () => stack[stack.length - 1];
+
+  const describe = (skip: boolean) => (titleOrBody: string | (() => void), body?: () => void) => {
+    const [title, fn] = typeof titleOrBody === 'function' ? ['', titleOrBody] : [titleOrBody, body];
+    stack.push({ title, skip: skip || current().skip, beforeEach: [], afterEach: [], use: {} });
+    try {
+      fn?.();
+    } finally {
+      stack.pop();
+    }
+  };
+
+  const test = (skip: boolean) => (title: string, fn?: Hook<F>) => {
+    collected.tests.push({
+      title: [...stack.map(suite => suite.title), title].filter(Boolean).join(' > '),
+      fn,
+      skip: skip || !fn || current().skip,
+      beforeEach: stack.flatMap(suite => suite.beforeEach),
+      afterEach: stack.flatMap(suite => suite.afterEach).reverse(),
+      use: Object.assign({}, ...stack.map(suite => suite.use)),
+    });
+  };
+
+  return {
+    collected,
+    describe,
+    test,
+    current,
+    beforeAll: (fn: Hook<F>) => collected.before.push(fn),
+    afterAll: (fn: Hook<F>) => collected.after.push(fn),
+    beforeEach: (fn: Hook<F>) => current().beforeEach.push(fn),
+    afterEach: (fn: Hook<F>) => current().afterEach.push(fn),
+  };
+}
+
+// Evaluate the test file in a fresh context with only `globals` and the test API
+function evaluate(code: string, filename: string, globals: Record<string, unknown>) {
+  const context = vm.createContext({ ...globals });
+  new vm.Script(toScript(code), { filename }).runInContext(context, { timeout: 1000 });
+}
+
+// Collect a Cypress (Mocha-style) test file
+export function collectCypressTests(code: string, globals: Record<string, unknown>): CollectedTests<void> {
+  const collector = createCollector<void>();
+  const describe = Object.assign(collector.describe(false), { skip: collector.describe(true), only: collector.describe(false) });
+  const it = Object.assign(collector.test(false), { skip: collector.test(true), only: collector.test(false) });
+
+  evaluate(code, 'generated.cy.js', {
+    ...globals,
+    describe,
+    context: describe,
+    it,
+    specify: it,
+    xit: collector.test(true),
+    xdescribe: collector.describe(true),
+    before: collector.beforeAll,
+    after: collector.afterAll,
+    beforeEach: collector.beforeEach,
+    afterEach: collector.afterEach,
+  });
+  return collector.collected;
+}
+
+export interface PlaywrightFixtures {
+  page: Page;
+  context: BrowserContext;
+  request: APIRequestContext;
+  browser: Browser;
+  baseURL: string;
+}
+
+// Collect a Playwright Test spec: test(), test.describe(), hooks, test.use() and test.skip()
+export function collectPlaywrightTests(code: string, globals: Record<string, unknown>): CollectedTests<PlaywrightFixtures> {
+  const collector = createCollector<PlaywrightFixtures>();
+  let running = false;
+
+  // test.skip(title, fn) skips a test; test.skip() or test.skip(condition) skips the
+  // surrounding describe block, or the running test when called inside one
+  const skip = (...args: unknown[]) => {
+    if (typeof args[0] === 'string') return collector.test(true)(args[0], args[1] as Hook<PlaywrightFixtures>);
+    if (args.length > 0 && !args[0]) return;
+    if (running) throw new SkipSignal(typeof args[1] === 'string' ? args[1] : 'Skipped');
+    collector.current().skip = true;
+  };
+
+  const describe = Object.assign(collector.describe(false), {
+    skip: collector.describe(true),
+    fixme: collector.describe(true),
+    only: collector.describe(false),
+    serial: collector.describe(false),
+    parallel: collector.describe(false),
+    configure: () => {},
+  });
+  const test = Object.assign(collector.test(false), {
+    only: collector.test(false),
+    skip,
+    fixme: skip,
+    slow: () => {},
+    setTimeout: () => {},
+    describe,
+    beforeAll: collector.beforeAll,
+    afterAll: collector.afterAll,
+    beforeEach: collector.beforeEach,
+    afterEach: collector.afterEach,
+    use: (options: BrowserContextOptions) => Object.assign(collector.current().use, options),
+    step: async (_title: string, body: () => unknown) => body(),
+  });
+
+  evaluate(code, 'generated.spec.js', { ...globals, test, expect: playwrightExpect });
+  // Hooks and test bodies only run after collection
+  running = true;
+  return collector.collected;
+}
+
+// Race `work` against the per-test timeout
+async function withTimeout(work: Promise<unknown>, timeoutMs: number) {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`Test timed out after ${timeoutMs}ms`)), timeoutMs);
+  });
+  try {
+    await Promise.race([work, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// The `Cypress` global: an empty env, and uncaught exception handlers
+function cypressGlobal(onUncaughtException: (handler: (error: Error) => unknown) => void) {
+  return {
+    env: (key?: string) => (key === undefined ? {} : undefined),
+    on: (event: string, handler: (error: Error) => unknown) => {
+      if (event === 'uncaught:exception') onUncaughtException(handler);
+    },
+    config: () => undefined,
+  };
+}
+
+// Globals of a Cypress file besides `cy` and `Cypress`. Signed-in runs start with the
+// server's session, so the login() the generator calls before each test has nothing to do.
+function cypressGlobals(job: SandboxJob): Record<string, unknown> {
+  return { expect: createExpect(), console, ...(job.storageState && { login: () => {} }) };
+}
+
+// Run a Cypress test file on one page through the shim
+async function runCypressTests(browser: Browser, job: SandboxJob): Promise<TestCaseResult[]> {
+  const context = await browser.newContext({ ...CONTEXT_OPTIONS, storageState: job.storageState });
+  const page = await context.newPage();
+  const shim = new CypressShim(page, job.targetUrl);
+
+  const { tests, before, after } = collectCypressTests(job.code, {
+    ...cypressGlobals(job),
+    cy: shim.createCy(),
+    Cypress: cypressGlobal(handler => shim.onUncaughtException(handler)),
+  });
+
+  const runHooks = async (hooks: Hook<void>[]) => {
+    for (const hook of hooks) {
+      hook();
+      await shim.flush();
+    }
+  };
+
+  const results: TestCaseResult[] = [];
+  await runHooks(before);
+
+  for (const test of tests) {
+    if (test.skip) {
+      results.push({ title: test.title, status: 'skipped', durationMs: 0 });
+      continue;
+    }
+
+    const started = Date.now();
+    await shim.reset();
+    // Cypress isolates tests by clearing browser state between them; the login survives
+    await context.clearCookies();
+    if (job.storageState) await context.addCookies(job.storageState.cookies);
+    await page.goto('about:blank');
+
+    try {
+      await withTimeout((async () => {
+        await runHooks(test.beforeEach);
+        test.fn!();
+        await shim.flush();
+        await runHooks(test.afterEach);
+      })(), job.testTimeoutMs);
+      results.push({ title: test.title, status: 'passed', durationMs: Date.now() - started });
+    } catch (err) {
+      results.push({
+        title: test.title,
+        status: 'failed',
+        durationMs: Date.now() - started,
+        error: errorMessage(err),
+        failingCommand: err instanceof CommandError ? err.command : shim.lastCommand ?? undefined,
+      });
+    }
+  }
+
+  await runHooks(after);
+  return results;
+}
+
+// The spec line an error was thrown from, as the failing command
+function failingLine(err: unknown, scriptLines: string[]): string | undefined {
+  const line = isError(err) ? String(err.stack).match(/generated\.spec\.js:(\d+)/)?.[1] : undefined;
+  return line ? scriptLines[Number(line) - 1]?.trim() : undefined;
+}
+
+// Run a Playwright spec with a fresh context and page per test, like Playwright Test
+async function runPlaywrightTests(browser: Browser, job: SandboxJob): Promise<TestCaseResult[]> {
+  const { tests, before, after } = collectPlaywrightTests(job.code, { console });
+  const scriptLines = toScript(job.code).split('\n');
+  const baseURL = job.targetUrl;
+
+  const withFixtures = async (use: BrowserContextOptions, task: (fixtures: PlaywrightFixtures) => Promise<void>) => {
+    const context = await browser.newContext({ ...CONTEXT_OPTIONS, storageState: job.storageState, ...use, baseURL });
+    try {
+      await task({ page: await context.newPage(), context, request: context.request, browser, baseURL });
+    } finally {
+      await context.close().catch(() => {});
+    }
+  };
+  const runHooks = async (hooks: Hook<PlaywrightFixtures>[], fixtures: PlaywrightFixtures) => {
+    for (const hook of hooks) await hook(fixtures);
+  };
+
+  const results: TestCaseResult[] = [];
+  await withFixtures({}, fixtures => runHooks(before, fixtures));
+
+  for (const test of tests) {
+    if (test.skip) {
+      results.push({ title: test.title, status: 'skipped', durationMs: 0 });
+      continue;
+    }
+
+    const started = Date.now();
+    try {
+      await withTimeout(withFixtures(test.use, async fixtures => {
+        await runHooks(test.beforeEach, fixtures);
+        await test.fn!(fixtures);
+        await runHooks(test.afterEach, fixtures);
+      }), job.testTimeoutMs);
+      results.push({ title: test.title, status: 'passed', durationMs: Date.now() - started });
+    } catch (err) {
+      results.push(err instanceof SkipSignal
+        ? { title: test.title, status: 'skipped', durationMs: Date.now() - started }
+        : {
+          title: test.title,
+          status: 'failed',
+          durationMs: Date.now() - started,
+          error: errorMessage(err),
+          failingCommand: failingLine(err, scriptLines),
+        });
+    }
+  }
+
+  await withFixtures({}, fixtures => runHooks(after, fixtures));
+  return results;
+}
+
+// Run one test file. Errors outside a test body (syntax errors, a lost browser) are
+// reported for the whole file.
+export async function runSandboxJob(job: SandboxJob): Promise<SandboxReply> {
+  let browser: Browser | undefined;
+  try {
+    // Collect once without a browser, so a file that doesn't parse or has no tests fails fast
+    const { tests } = job.framework === 'playwright'
+      ? collectPlaywrightTests(job.code, { console })
+      : collectCypressTests(job.code, { ...cypressGlobals(job), cy: inert, Cypress: cypressGlobal(() => {}) });
+    if (tests.length === 0) {
+      throw new Error(`No ${job.framework === 'playwright' ? 'test()' : 'it()'} blocks found in test code`);
+    }
+
+    browser = await chromium.connect(job.wsEndpoint);
+    guardBrowser(browser, job.allowPrivateHosts ?? false);
+    const cases = job.framework === 'playwright'
+      ? await runPlaywrightTests(browser, job)
+      : await runCypressTests(browser, job);
+    return { cases };
+  } catch (err) {
+    return { error: errorMessage(err), failingCommand: err instanceof CommandError ? err.command : undefined };
+  } finally {
+    await browser?.close().catch(() => {});
+  }
+}
+
+// Entry point of the sandbox process: run the job the server sends, reply and exit
+export function serveSandbox() {
+  process.once('message', async (job: SandboxJob) => {
+    const reply = await runSandboxJob(job);
+    process.send!(reply, undefined, undefined, () => process.exit(0));
+  });
+}
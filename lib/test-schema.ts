@@ -0,0 +1,209 @@
+// Generated test-suite schema utilities for TestFlow AI
+//
+// The generation routes ask for a suite with this shape through the provider's
+// JSON-schema output mode where it has one, and check every reply against it at
+// runtime either way. A field that is missing or has the wrong type is asked for
+// again on its own instead of regenerating the whole suite.
+
+import type { JSONSchemaFormat } from './llm';
+
+export type TestCategory = 'general' | 'navigation' | 'form' | 'element' | 'error-handling' | 'api';
+
+export const TEST_CATEGORIES: TestCategory[] = ['general', 'navigation', 'form', 'element', 'error-handling', 'api'];
+
+export interface GeneratedTest {
+  title: string;
+  why: string;
+  steps: string[];
+  code: string;
+  category: TestCategory;
+  selectors: string[]; // selectors the code relies on
+}
+
+export interface TestSuite {
+  summary: string;
+  tests: GeneratedTest[];
+}
+
+type RequiredField = 'title' | 'why' | 'steps' | 'code';
+
+export interface SchemaIssue {
+  field: RequiredField | 'summary';
+  testIndex?: number; // unset for suite-level fields
+  message: string;
+}
+
+const MAX_FIELD_REPAIRS = 5;
+
+const TEST_PROPERTIES = {
+  title: { type: 'string', description: 'Descriptive test name' },
+  why: { type: 'string', description: 'Why this test is important' },
+  steps: { type: 'array', items: { type: 'string' }, description: 'Steps the test performs, in order' },
+  code: { type: 'string', description: 'Complete, runnable test code' },
+  category: { type: 'string', enum: TEST_CATEGORIES },
+  selectors: { type: 'array', items: { type: 'string' }, description: 'Selectors the code uses' },
+};
+
+export const TEST_SUITE_SCHEMA: JSONSchemaFormat = {
+  name: 'test_suite',
+  schema: {
+    type: 'object',
+    properties: {
+      summary: { type: 'string', description: 'What the page does and its key testable features' },
+      tests: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: TEST_PROPERTIES,
+          required: Object.keys(TEST_PROPERTIES),
+          additionalProperties: false,
+        },
+      },
+    },
+    required: ['summary', 'tests'],
+    additionalProperties: false,
+  },
+};
+
+// Reply to a regenerate or repair prompt
+export const CODE_FIX_SCHEMA: JSONSchemaFormat = {
+  name: 'code_fix',
+  schema: {
+    type: 'object',
+    properties: {
+      code: { type: 'string' },
+      explanation: { type: 'string' },
+    },
+    required: ['code', 'explanation'],
+    additionalProperties: false,
+  },
+};
+
+const FIELD_SCHEMAS: Record<SchemaIssue['field'], Record<string, unknown>> = {
+  summary: { type: 'string' },
+  title: TEST_PROPERTIES.title,
+  why: TEST_PROPERTIES.why,
+  steps: TEST_PROPERTIES.steps,
+  code: TEST_PROPERTIES.code,
+};
+
+const FIELD_EXAMPLES: Record<SchemaIssue['field'], string> = {
+  summary: '"Brief summary of what the page does and what the tests cover"',
+  title: '"Descriptive test name"',
+  why: '"Why this test is important"',
+  steps: '["step1", "step2"]',
+  code: '"Complete test code"',
+};
+
+function fieldSchema(field: SchemaIssue['field']): JSONSchemaFormat {
+  return {
+    name: `${field}_field`,
+    schema: {
+      type: 'object',
+      properties: { value: FIELD_SCHEMAS[field] },
+      required: ['value'],
+      additionalProperties: false,
+    },
+  };
+}
+
+// Problem with a field value, or null if it is valid
+function checkField(field: SchemaIssue['field'], value: unknown): string | null {
+  if (field === 'steps') {
+    if (!Array.isArray(value) || value.length === 0) return 'must be a non-empty array of strings';
+    return value.every(step => typeof step === 'string' && step.trim()) ? null : 'must contain only non-empty strings';
+  }
+  if (typeof value !== 'string') return 'must be a string';
+  return value.trim() ? null : 'must not be empty';
+}
+
+function stringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && !!item.trim()) : [];
+}
+
+// Check a parsed reply against the schema. Invalid required fields are left
+// empty and reported; optional ones (category, selectors) fall back to defaults.
+export function checkTestSuite(data: unknown): { suite: TestSuite; issues: SchemaIssue[] } {
+  const raw = (data && typeof data === 'object' ? data : {}) as Record<string, unknown>;
+  const issues: SchemaIssue[] = [];
+
+  const summaryProblem = checkField('summary', raw.summary);
+  if (summaryProblem) issues.push({ field: 'summary', message: `summary ${summaryProblem}` });
+
+  const rawTests = Array.isArray(raw.tests) ? raw.tests : [];
+  const tests = rawTests
+    .filter((test): test is Record<string, unknown> => !!test && typeof test === 'object' && !Array.isArray(test))
+    .map((test, testIndex) => {
+      for (const field of ['title', 'why', 'steps', 'code'] as const) {
+        const problem = checkField(field, test[field]);
+        if (problem) issues.push({ field, testIndex, message: `${field} ${problem}` });
+      }
+      return {
+        title: typeof test.title === 'string' ? test.title : '',
+        why: typeof test.why === 'string' ? test.why : '',
+        steps: stringList(test.steps),
+        code: typeof test.code === 'string' ? test.code : '',
+        category: TEST_CATEGORIES.includes(test.category as TestCategory) ? test.category as TestCategory : 'general',
+        selectors: stringList(test.selectors),
+      };
+    });
+
+  return { suite: { summary: typeof raw.summary === 'string' ? raw.summary : '', tests }, issues };
+}
+
+export function buildFieldRepairPrompt(suite: TestSuite, issue: SchemaIssue): string {
+  const context = issue.testIndex === undefined
+    ? `TESTS:\n${suite.tests.map(test => `- ${test.title || 'Untitled Test'}`).join('\n') || '- None'}`
+    : `TEST:\n${JSON.stringify({ ...suite.tests[issue.testIndex], [issue.field]: undefined }, null, 2)}`;
+
+  return `You are a QA automation engineer. A generated test suite has an invalid field.
+
+${context}
+
+FIELD: ${issue.field}
+PROBLEM: ${issue.message}
+
+Provide only the value of this field, consistent with the rest of the ${issue.testIndex === undefined ? 'suite' : 'test'}.
+
+Return **ONLY valid JSON**, no markdown or explanations.
+JSON format:
+{
+  "value": ${FIELD_EXAMPLES[issue.field]}
+}`;
+}
+
+// Check a generated suite and re-request each invalid field on its own.
+// Tests whose title or code still can't be obtained are dropped.
+export async function enforceTestSuite(
+  data: unknown,
+  requestField: (prompt: string, schema: JSONSchemaFormat) => Promise<{ value?: unknown }>
+): Promise<TestSuite> {
+  const { suite, issues } = checkTestSuite(data);
+  const unresolved = new Set<number>();
+
+  for (const [index, issue] of issues.entries()) {
+    let value: unknown;
+    if (index < MAX_FIELD_REPAIRS) {
+      try {
+        value = (await requestField(buildFieldRepairPrompt(suite, issue), fieldSchema(issue.field))).value;
+      } catch (err) {
+        console.error(`Re-requesting ${issue.field} failed:`, err);
+      }
+    }
+
+    if (value !== undefined && !checkField(issue.field, value)) {
+      if (issue.testIndex === undefined) {
+        suite.summary = value as string;
+      } else {
+        Object.assign(suite.tests[issue.testIndex], { [issue.field]: value });
+      }
+    } else if (issue.testIndex !== undefined && (issue.field === 'title' || issue.field === 'code')) {
+      unresolved.add(issue.testIndex);
+    }
+  }
+
+  if (unresolved.size > 0) {
+    console.warn(`Dropping ${unresolved.size} generated test(s) without a usable title or code`);
+  }
+  return { ...suite, tests: suite.tests.filter((_, index) => !unresolved.has(index)) };
+}
@@ -0,0 +1,356 @@
+// Static validation of generated test code for TestFlow AI
+//
+// Parses each test with the TypeScript compiler API (no type checking) and
+// reports structured warnings: syntax errors, a missing page visit, calls to
+// commands Cypress doesn't have, and selectors that match none of the
+// interactive elements captured by the snapshot.
+
+import ts from 'typescript';
+import type { HtmlElementInfo } from './snapshot';
+import { isCssCandidate } from './selectors';
+import { FRAMEWORK_LABELS, type TestFramework } from './frameworks';
+
+export type ValidationWarningCode =
+  | 'syntax-error'
+  | 'missing-visit'
+  | 'unknown-command'
+  | 'selector-not-found';
+
+export interface ValidationWarning {
+  code: ValidationWarningCode;
+  severity: 'error' | 'warning';
+  message: string;
+  line?: number;
+}
+
+export interface CodeValidationOptions {
+  framework?: TestFramework;
+  htmlElements?: HtmlElementInfo[];
+}
+
+// Commands added by Cypress plugins, keyed by the package that adds them. The runner
+// emulates them; exported projects install the package and load it in their support file.
+export const CYPRESS_PLUGIN_COMMANDS = {
+  '@testing-library/cypress': ['findByRole', 'findAllByRole'],
+};
+
+// Every command on the `cy` chain in Cypress 13/14, plus the plugin commands
+const CYPRESS_COMMANDS = new Set([
+  // Queries
+  'as', 'children', 'closest', 'contains', 'document', 'eq', 'filter', 'find', 'first', 'focused',
+  'get', 'hash', 'invoke', 'its', 'last', 'location', 'next', 'nextAll', 'nextUntil', 'not',
+  'parent', 'parents', 'parentsUntil', 'prev', 'prevAll', 'prevUntil', 'root', 'shadow',
+  'siblings', 'title', 'url', 'window',
+  // Assertions
+  'should', 'and',
+  // Actions
+  'check', 'clear', 'click', 'dblclick', 'rightclick', 'scrollIntoView', 'scrollTo', 'select',
+  'selectFile', 'trigger', 'type', 'uncheck', 'press',
+  // Other commands
+  'blur', 'clearAllCookies', 'clearAllLocalStorage', 'clearAllSessionStorage', 'clearCookie',
+  'clearCookies', 'clearLocalStorage', 'clock', 'debug', 'each', 'end', 'exec', 'fixture', 'focus',
+  'getAllCookies', 'getAllLocalStorage', 'getAllSessionStorage', 'getCookie', 'getCookies', 'go',
+  'intercept', 'log', 'origin', 'pause', 'readFile', 'reload', 'request', 'screenshot', 'session',
+  'setCookie', 'spread', 'spy', 'stub', 'submit', 'task', 'then', 'tick', 'viewport', 'visit',
+  'wait', 'within', 'wrap', 'writeFile',
+  ...Object.values(CYPRESS_PLUGIN_COMMANDS).flat(),
+]);
+
+// Tags we capture in htmlElements; selectors aimed elsewhere can't be verified
+const CAPTURED_TAGS = new Set(['button', 'input', 'textarea', 'select', 'a']);
+const CAPTURED_ATTRIBUTES = new Set(['name', 'type', 'placeholder', 'href', 'value', 'role']);
+
+interface CompoundSelector {
+  tag?: string;
+  id?: string;
+  classes: string[];
+  attributes: { name: string; op?: string; value?: string }[];
+}
+
+interface ChainCall {
+  name: string;
+  args: readonly ts.Expression[];
+  node: ts.CallExpression;
+}
+
+function lineOf(source: ts.SourceFile, node: ts.Node): number {
+  return source.getLineAndCharacterOfPosition(node.getStart(source)).line + 1;
+}
+
+function stringArg(arg?: ts.Expression): string | undefined {
+  if (arg && (ts.isStringLiteral(arg) || ts.isNoSubstitutionTemplateLiteral(arg))) return arg.text;
+  return undefined;
+}
+
+// Flatten `root.a().b().c()` into its calls; returns null unless the chain starts at `root`
+function chainFrom(expression: ts.Expression, root: string): ChainCall[] | null {
+  if (ts.isIdentifier(expression)) return expression.text === root ? [] : null;
+  if (ts.isCallExpression(expression) && ts.isPropertyAccessExpression(expression.expression)) {
+    const inner = chainFrom(expression.expression.expression, root);
+    if (!inner) return null;
+    return [...inner, { name: expression.expression.name.text, args: expression.arguments, node: expression }];
+  }
+  return null;
+}
+
+// Outermost calls only, so each chain is visited once
+function isOutermostCall(node: ts.CallExpression): boolean {
+  const parent = node.parent;
+  return !(ts.isPropertyAccessExpression(parent) && parent.expression === node &&
+    ts.isCallExpression(parent.parent) && parent.parent.expression === parent);
+}
+
+// Split on a separator that is not inside brackets, parentheses or quotes
+function splitTopLevel(selector: string, separator: RegExp): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let current = '';
+
+  for (const char of selector) {
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '[' || char === '(') {
+      depth++;
+    } else if (char === ']' || char === ')') {
+      depth--;
+    } else if (depth === 0 && separator.test(char)) {
+      parts.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.map(part => part.trim()).filter(Boolean);
+}
+
+export function parseCompoundSelector(compound: string): CompoundSelector | null {
+  // Pseudo-classes (:visible, :first, :contains(...)) don't narrow which element is meant
+  const stripped = compound.replace(/::?[\w-]+(\((?:[^()]|\([^()]*\))*\))?/g, '');
+  const result: CompoundSelector = { classes: [], attributes: [] };
+  const pattern = /^(\*|[a-zA-Z][\w-]*)|#([\w-]+)|\.([\w-]+)|\[\s*([\w:-]+)\s*(?:([~|^$*]?=)\s*(?:"([^"]*)"|'([^']*)'|([^\]\s]+))\s*(?:[is]\s*)?)?\]/g;
+  let consumed = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(stripped)) !== null) {
+    if (match.index !== consumed) return null;
+    consumed = match.index + match[0].length;
+    if (match[1]) result.tag = match[1] === '*' ? undefined : match[1].toLowerCase();
+    else if (match[2]) result.id = match[2];
+    else if (match[3]) result.classes.push(match[3]);
+    else if (match[4]) {
+      result.attributes.push({ name: match[4].toLowerCase(), op: match[5], value: match[6] ?? match[7] ?? match[8] });
+    }
+  }
+
+  return consumed === stripped.length ? result : null;
+}
+
+function tagOf(element: HtmlElementInfo): string {
+  return element.html?.match(/^<([a-zA-Z][\w-]*)/)?.[1].toLowerCase() || element.type;
+}
+
+function matchesCompound(element: HtmlElementInfo, selector: CompoundSelector): boolean {
+  const attributes = element.attributes || {};
+  if (selector.tag && tagOf(element) !== selector.tag) return false;
+  if (selector.id && attributes.id !== selector.id) return false;
+
+  const classes = (attributes.class || '').split(/\s+/);
+  if (!selector.classes.every(cls => classes.includes(cls))) return false;
+
+  return selector.attributes.every(({ name, op, value }) => {
+    const actual = attributes[name];
+    if (actual === undefined) return false;
+    if (!op || value === undefined) return true;
+    switch (op) {
+      case '=': return actual === value;
+      case '~=': return actual.split(/\s+/).includes(value);
+      case '|=': return actual === value || actual.startsWith(`${value}-`);
+      case '^=': return actual.startsWith(value);
+      case '$=': return actual.endsWith(value);
+      case '*=': return actual.includes(value);
+      default: return false;
+    }
+  });
+}
+
+// Whether a selector could only match elements the snapshot would have captured
+function isVerifiable(selector: CompoundSelector): boolean {
+  if (selector.tag) return CAPTURED_TAGS.has(selector.tag);
+  return selector.attributes.some(attr => CAPTURED_ATTRIBUTES.has(attr.name));
+}
+
+// true/false when the selector was checked, null when it can't be verified
+export function selectorExists(selector: string, htmlElements: HtmlElementInfo[]): boolean | null {
+  // One of the selectors verified on the live page
+  if (htmlElements.some(element => element.selectors?.some(candidate => isCssCandidate(candidate) && candidate.selector === selector))) return true;
+
+  const alternatives = splitTopLevel(selector, /,/);
+  let verifiable = false;
+
+  for (const alternative of alternatives) {
+    // Only the rightmost compound names the element itself; ancestors aren't captured
+    const compounds = splitTopLevel(alternative, /[\s>+~]/);
+    const target = parseCompoundSelector(compounds[compounds.length - 1] || '');
+    if (!target || !isVerifiable(target)) return null;
+    verifiable = true;
+    if (htmlElements.some(element => matchesCompound(element, target))) return true;
+  }
+
+  return verifiable ? false : null;
+}
+
+// Validate one test's code; an empty array means nothing to report
+export function validateTestCode(code: string, options: CodeValidationOptions = {}): ValidationWarning[] {
+  const framework = options.framework || 'cypress';
+  const warnings: ValidationWarning[] = [];
+
+  if (!code || !code.trim()) {
+    return [{ code: 'syntax-error', severity: 'error', message: 'Test code is empty' }];
+  }
+
+  const source = ts.createSourceFile('generated.ts', code, ts.ScriptTarget.Latest, true, ts.ScriptKind.TS);
+  const { diagnostics = [] } = ts.transpileModule(code, {
+    reportDiagnostics: true,
+    compilerOptions: { target: ts.ScriptTarget.ES2020, module: ts.ModuleKind.ESNext },
+  });
+
+  for (const diagnostic of diagnostics) {
+    warnings.push({
+      code: 'syntax-error',
+      severity: 'error',
+      message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+      line: diagnostic.start !== undefined
+        ? source.getLineAndCharacterOfPosition(diagnostic.start).line + 1
+        : undefined,
+    });
+  }
+  // Further checks would only repeat the parse errors
+  if (warnings.length > 0) return warnings;
+
+  const root = framework === 'playwright' ? 'page' : 'cy';
+  const visitCommand = framework === 'playwright' ? 'goto' : 'visit';
+  const selectorCommands = framework === 'playwright' ? ['locator'] : ['get', 'find'];
+  let hasVisit = false;
+
+  const checkSelector = (selector: string | undefined, node: ts.Node) => {
+    if (!selector || selector.startsWith('@') || !options.htmlElements?.length) return;
+    if (selectorExists(selector, options.htmlElements) === false) {
+      warnings.push({
+        code: 'selector-not-found',
+        severity: 'warning',
+        message: `Selector '${selector}' does not match any element captured from the page`,
+        line: lineOf(source, node),
+      });
+    }
+  };
+
+  const visit = (node: ts.Node) => {
+    if (ts.isCallExpression(node) && isOutermostCall(node)) {
+      const chain = chainFrom(node, root);
+      if (chain) {
+        for (const call of chain) {
+          if (call.name === visitCommand) hasVisit = true;
+
+          if (framework === 'cypress' && !CYPRESS_COMMANDS.has(call.name)) {
+            warnings.push({
+              code: 'unknown-command',
+              severity: 'error',
+              message: `.${call.name}() is not a Cypress command`,
+              line: lineOf(source, call.node),
+            });
+          }
+
+          if (selectorCommands.includes(call.name)) {
+            checkSelector(stringArg(call.args[0]), call.node);
+          } else if (framework === 'cypress' && call.name === 'contains' && call.args.length > 1) {
+            checkSelector(stringArg(call.args[0]), call.node);
+          }
+        }
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(source);
+
+  if (!hasVisit) {
+    warnings.push({
+      code: 'missing-visit',
+      severity: 'warning',
+      message: `Test never calls ${root}.${visitCommand}(), so it depends on whatever page is already open`,
+    });
+  }
+
+  return warnings;
+}
+
+function isUnparseable(warnings: ValidationWarning[] = []): boolean {
+  return warnings.some(warning => warning.code === 'syntax-error');
+}
+
+export function buildRegeneratePrompt(
+  test: { title?: unknown; code?: unknown },
+  warnings: ValidationWarning[],
+  framework: TestFramework
+): string {
+  const label = FRAMEWORK_LABELS[framework];
+  const problems = warnings
+    .map(warning => `- ${warning.line ? `Line ${warning.line}: ` : ''}${warning.message}`)
+    .join('\n');
+
+  return `You are a QA automation engineer. The following ${label} test does not compile.
+
+Test: ${test.title || 'Untitled Test'}
+
+CODE:
+${typeof test.code === 'string' ? test.code : ''}
+
+PROBLEMS:
+${problems}
+
+Rewrite the test so it is valid ${label} code with the same intent.
+
+Return **ONLY valid JSON**, no markdown or explanations.
+JSON format:
+{
+  "code": "Complete corrected ${label} test code"
+}`;
+}
+
+// Attach warnings to every test, regenerating unparseable ones once.
+// Tests that still can't be parsed keep their warnings so they are flagged.
+export async function validateTests<T extends { title?: unknown; code?: unknown }>(
+  tests: T[],
+  options: CodeValidationOptions,
+  regenerate?: (prompt: string) => Promise<{ code?: unknown }>
+): Promise<(T & { warnings: ValidationWarning[] })[]> {
+  const framework = options.framework || 'cypress';
+  const validated: (T & { warnings: ValidationWarning[] })[] = [];
+
+  for (const test of tests) {
+    const code = typeof test.code === 'string' ? test.code : '';
+    const warnings = validateTestCode(code, options);
+
+    if (isUnparseable(warnings) && regenerate && code.trim()) {
+      try {
+        const fixed = await regenerate(buildRegeneratePrompt(test, warnings, framework));
+        if (typeof fixed.code === 'string') {
+          const fixedWarnings = validateTestCode(fixed.code, options);
+          if (!isUnparseable(fixedWarnings)) {
+            validated.push({ ...test, code: fixed.code, warnings: fixedWarnings });
+            continue;
+          }
+        }
+      } catch (err) {
+        console.error(`Regenerating unparseable test "${test.title}" failed:`, err);
+      }
+    }
+
+    validated.push({ ...test, warnings });
+  }
+
+  return validated;
+}
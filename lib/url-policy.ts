@@ -0,0 +1,121 @@
+// URL policy for TestFlow AI
+//
+// Which URLs the app will scan or let tests load. Kept apart from validation.ts, and
+// free of runtime imports, so the test sandbox can check every request a run makes.
+
+import type { ValidationResult } from './validation';
+
+// Outside production the apps under test usually run locally
+export function privateHostsAllowed(): boolean {
+  return process.env.NODE_ENV !== 'production';
+}
+
+// URL validation and security
+export function validateUrl(url: string, allowPrivateHosts = privateHostsAllowed()): ValidationResult {
+  try {
+    // Basic format check
+    if (!url || typeof url !== 'string') {
+      return { isValid: false, error: 'URL is required and must be a string' };
+    }
+
+    const trimmedUrl = url.trim();
+
+    // Length check
+    if (trimmedUrl.length > 2048) {
+      return { isValid: false, error: 'URL is too long (max 2048 characters)' };
+    }
+
+    // Parse URL
+    const parsedUrl = new URL(trimmedUrl);
+
+    // Protocol validation
+    if (!['http:', 'https:'].includes(parsedUrl.protocol)) {
+      return { isValid: false, error: 'Only HTTP and HTTPS URLs are allowed' };
+    }
+
+    // Block localhost and private IPs
+    if (!allowPrivateHosts) {
+      const hostname = parsedUrl.hostname.toLowerCase();
+
+      // Block localhost and common local development addresses
+      const blockedHosts = [
+        'localhost',
+        '127.0.0.1',
+        '0.0.0.0',
+        '[::1]'
+      ];
+
+      if (blockedHosts.includes(hostname)) {
+        return { isValid: false, error: 'Localhost URLs are not allowed in production' };
+      }
+
+      // Block private IP ranges
+      if (isPrivateIP(hostname)) {
+        return { isValid: false, error: 'Private IP addresses are not allowed' };
+      }
+
+      // Block common internal hostnames
+      const internalHosts = [
+        'internal',
+        'intranet',
+        'corp',
+        'company',
+        'enterprise'
+      ];
+
+      if (internalHosts.some(host => hostname.includes(host))) {
+        return { isValid: false, error: 'Internal network URLs are not allowed' };
+      }
+    }
+
+    // Additional security checks
+    const suspiciousPatterns = [
+      /\.\./,  // Directory traversal
+      /[<>'"]/, // HTML injection
+      /javascript:/i, // JavaScript URLs
+      /data:/i, // Data URLs (except for our base64 images)
+      /vbscript:/i, // VBScript URLs
+    ];
+
+    for (const pattern of suspiciousPatterns) {
+      if (pattern.test(trimmedUrl)) {
+        return { isValid: false, error: 'URL contains potentially malicious content' };
+      }
+    }
+
+    return { isValid: true, sanitizedValue: trimmedUrl };
+  } catch {
+    return { isValid: false, error: 'Invalid URL format' };
+  }
+}
+
+// Check if IP is in private ranges
+function isPrivateIP(hostname: string): boolean {
+  try {
+    const ip = hostname;
+    const parts = ip.split('.');
+
+    if (parts.length !== 4) return false;
+
+    const [a, b] = parts.map(Number);
+
+    // 10.0.0.0/8
+    if (a === 10) return true;
+
+    // 172.16.0.0/12
+    if (a === 172 && b >= 16 && b <= 31) return true;
+
+    // 192.168.0.0/16
+    if (a === 192 && b === 168) return true;
+
+    // 127.0.0.0/8 (loopback)
+    if (a === 127) return true;
+
+    // 169.254.0.0/16 (link-local, including cloud metadata endpoints)
+    if (a === 169 && b === 254) return true;
+
+    return false;
+  } catch {
+    return false;
+  }
+}
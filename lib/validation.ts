@@ -1,4 +1,20 @@
 // Input validation and security utilities for TestFlow AI
+import { isTestFramework, TEST_FRAMEWORKS, type TestFramework } from './frameworks';
+import { allowedModels, isLLMProviderName, LLM_PROVIDERS, type LLMOptions } from './llm';
+import { CAPTURE_LIMITS, COLOR_SCHEMES, isDeviceName, WAIT_STRATEGIES, type CaptureOptions } from './capture';
+import { ACCESSIBILITY_LIMITS, type AccessibleElement } from './accessibility';
+import { NETWORK_LIMITS, type ApiCall } from './network';
+import { ISSUE_LABELS, PAGE_HEALTH_LIMITS, type PageIssue, type PageIssueKind } from './page-health';
+import { TEST_CATEGORIES, type TestCategory } from './test-schema';
+import type { RunStatus } from './test-runner';
+import type { SaveSessionRequest, SessionTest } from './session-api';
+import type { LoginRecipe } from './login-recipes';
+import type { DomData, HtmlElementInfo } from './snapshot';
+import type { SiteMapNode } from './crawler';
+import { isSelectorStrategy, type SelectorCandidate } from './selectors';
+import { validateUrl } from './url-policy';
+
+export { validateUrl };
 
 export interface ValidationResult {
   isValid: boolean;
@@ -10,118 +26,29 @@ export interface SanitizedInput {
   url: string;
   userDescription: string;
   screenshot?: string;
-  domData?: any;
-  htmlElements?: any[];
+  domData?: DomData;
+  htmlElements?: HtmlElementInfo[];
+  accessibleElements?: AccessibleElement[];
+  apiCalls?: ApiCall[];
+  pageIssues?: PageIssue[];
+  criticalAssets?: string[];
+  framework: TestFramework;
+  selfHeal: boolean;
+  maxHealAttempts?: number;
+  crawl?: { maxDepth?: number; maxPages?: number };
+  capture?: CaptureOptions;
+  llm: LLMOptions;
+  projectId?: string;
+  loginRecipe?: LoginRecipe | null; // set by the server for the signed-in user, never read from the request
   isValid: boolean;
   errors: string[];
 }
 
-// URL validation and security
-export function validateUrl(url: string): ValidationResult {
-  try {
-    // Basic format check
-    if (!url || typeof url !== 'string') {
-      return { isValid: false, error: 'URL is required and must be a string' };
-    }
-
-    const trimmedUrl = url.trim();
-
-    // Length check
-    if (trimmedUrl.length > 2048) {
-      return { isValid: false, error: 'URL is too long (max 2048 characters)' };
-    }
-
-    // Parse URL
-    const parsedUrl = new URL(trimmedUrl);
-
-    // Protocol validation
-    if (!['http:', 'https:'].includes(parsedUrl.protocol)) {
-      return { isValid: false, error: 'Only HTTP and HTTPS URLs are allowed' };
-    }
-
-    // Block localhost and private IPs in production
-    if (process.env.NODE_ENV === 'production') {
-      const hostname = parsedUrl.hostname.toLowerCase();
-
-      // Block localhost and common local development addresses
-      const blockedHosts = [
-        'localhost',
-        '127.0.0.1',
-        '0.0.0.0',
-        '::1'
-      ];
-
-      if (blockedHosts.includes(hostname)) {
-        return { isValid: false, error: 'Localhost URLs are not allowed in production' };
-      }
-
-      // Block private IP ranges
-      if (isPrivateIP(hostname)) {
-        return { isValid: false, error: 'Private IP addresses are not allowed' };
-      }
-
-      // Block common internal hostnames
-      const internalHosts = [
-        'internal',
-        'intranet',
-        'corp',
-        'company',
-        'enterprise'
-      ];
-
-      if (internalHosts.some(host => hostname.includes(host))) {
-        return { isValid: false, error: 'Internal network URLs are not allowed' };
-      }
-    }
-
-    // Additional security checks
-    const suspiciousPatterns = [
-      /\.\./,  // Directory traversal
-      /[<>'"]/, // HTML injection
-      /javascript:/i, // JavaScript URLs
-      /data:/i, // Data URLs (except for our base64 images)
-      /vbscript:/i, // VBScript URLs
-    ];
-
-    for (const pattern of suspiciousPatterns) {
-      if (pattern.test(trimmedUrl)) {
-        return { isValid: false, error: 'URL contains potentially malicious content' };
-      }
-    }
-
-    return { isValid: true, sanitizedValue: trimmedUrl };
-  } catch (error) {
-    return { isValid: false, error: 'Invalid URL format' };
-  }
-}
-
-// Check if IP is in private ranges
-function isPrivateIP(hostname: string): boolean {
-  try {
-    const ip = hostname;
-    const parts = ip.split('.');
-
-    if (parts.length !== 4) return false;
-
-    const [a, b, c] = parts.map(Number);
-
-    // 10.0.0.0/8
-    if (a === 10) return true;
-
-    // 172.16.0.0/12
-    if (a === 172 && b >= 16 && b <= 31) return true;
-
-    // 192.168.0.0/16
-    if (a === 192 && b === 168) return true;
-
-    // 127.0.0.0/8 (loopback)
-    if (a === 127) return true;
-
-    return false;
-  } catch {
-    return false;
-  }
-}
+// Upper bounds for multi-page crawls
+export const CRAWL_LIMITS = {
+  maxDepth: 3,
+  maxPages: 20,
+};
 
 // User description validation and sanitization
 export function validateUserDescription(description: string): ValidationResult {
@@ -155,6 +82,147 @@ export function validateUserDescription(description: string): ValidationResult {
   }
 }
 
+// Check that Intl knows the IANA time zone name
+function isTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Keep well-formed elements from a client-supplied snapshot; they end up in prompts
+function sanitizeAccessibleElements(value: unknown): AccessibleElement[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  return value
+    .filter(el => el && typeof el.role === 'string' && typeof el.name === 'string')
+    .slice(0, ACCESSIBILITY_LIMITS.maxElements)
+    .map(el => ({
+      role: el.role.substring(0, 40),
+      name: el.name.substring(0, ACCESSIBILITY_LIMITS.maxNameLength),
+      states: Array.isArray(el.states) ? el.states.filter((state: unknown) => typeof state === 'string').slice(0, 5) : [],
+      visible: el.visible !== false,
+      enabled: el.enabled !== false,
+      ...(typeof el.unique === 'boolean' && { unique: el.unique }),
+      tag: typeof el.tag === 'string' ? el.tag.substring(0, 40) : '',
+      ...(typeof el.id === 'string' && el.id && { id: el.id.substring(0, 100) }),
+      ...(typeof el.testId === 'string' && el.testId && { testId: el.testId.substring(0, 100) }),
+      ...(el.inShadowDom === true && { inShadowDom: true }),
+      ...(typeof el.frameUrl === 'string' && { frameUrl: el.frameUrl.substring(0, 500) }),
+    }));
+}
+
+function strings(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+}
+
+// Keep the well-formed parts of a client-supplied page summary; it ends up in prompts
+function sanitizeDomData(value: unknown): DomData | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+  const dom = value as Record<string, unknown>;
+  const text = (field: unknown) => (typeof field === 'string' ? field : '');
+  return {
+    title: text(dom.title),
+    headings: strings(dom.headings),
+    buttons: strings(dom.buttons),
+    inputs: (Array.isArray(dom.inputs) ? dom.inputs : [])
+      .filter(input => input && typeof input === 'object')
+      .map(input => ({ name: text(input.name), type: text(input.type), placeholder: text(input.placeholder) })),
+    links: (Array.isArray(dom.links) ? dom.links : [])
+      .filter(link => link && typeof link === 'object')
+      .map(link => ({ text: text(link.text), href: text(link.href) })),
+  };
+}
+
+// Keep well-formed elements and selector candidates from a client-supplied snapshot
+function sanitizeHtmlElements(value: unknown): HtmlElementInfo[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  const text = (field: unknown) => (typeof field === 'string' ? field : undefined);
+  return value
+    .filter(el => el && typeof el.type === 'string' && typeof el.html === 'string')
+    .map(el => ({
+      type: el.type,
+      html: el.html,
+      text: text(el.text),
+      id: text(el.id),
+      className: text(el.className),
+      name: text(el.name),
+      inputType: text(el.inputType),
+      placeholder: text(el.placeholder),
+      href: text(el.href),
+      attributes: Object.fromEntries(
+        Object.entries(el.attributes && typeof el.attributes === 'object' ? el.attributes : {})
+          .filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+      ),
+      path: text(el.path),
+      ...(Array.isArray(el.selectors) && {
+        selectors: el.selectors
+          .filter((candidate: Record<string, unknown>) => candidate && isSelectorStrategy(candidate.strategy) &&
+            typeof candidate.selector === 'string' && typeof candidate.score === 'number')
+          .map((candidate: SelectorCandidate) => ({
+            strategy: candidate.strategy,
+            selector: candidate.selector,
+            ...(typeof candidate.text === 'string' && { text: candidate.text }),
+            score: candidate.score,
+          })),
+      }),
+    }));
+}
+
+// Keep well-formed API calls from a client-supplied snapshot
+function sanitizeApiCalls(value: unknown): ApiCall[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  const text = (field: unknown, max: number) => (typeof field === 'string' && field ? field.substring(0, max) : undefined);
+  return value
+    .filter(call => call && typeof call.method === 'string' && typeof call.pattern === 'string' &&
+      Number.isInteger(call.status) && validateUrl(call.url).isValid)
+    .slice(0, NETWORK_LIMITS.maxCalls)
+    .map(call => {
+      const query = Array.isArray(call.query) ? call.query.filter((key: unknown) => typeof key === 'string').slice(0, 20) : [];
+      const contentType = text(call.contentType, 100);
+      const requestShape = text(call.requestShape, NETWORK_LIMITS.maxShapeLength + 3);
+      const responseShape = text(call.responseShape, NETWORK_LIMITS.maxShapeLength + 3);
+      return {
+        method: call.method.substring(0, 10).toUpperCase(),
+        url: call.url,
+        pattern: call.pattern.substring(0, 500),
+        ...(query.length > 0 && { query }),
+        status: call.status,
+        ...(contentType && { contentType }),
+        ...(requestShape && { requestShape }),
+        ...(responseShape && { responseShape }),
+      };
+    });
+}
+
+// Keep well-formed issues from a client-supplied snapshot
+function sanitizePageIssues(value: unknown): PageIssue[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  return value
+    .filter(issue => issue && Object.prototype.hasOwnProperty.call(ISSUE_LABELS, issue.kind) && typeof issue.message === 'string')
+    .slice(0, PAGE_HEALTH_LIMITS.maxIssues)
+    .map(issue => ({
+      kind: issue.kind as PageIssueKind,
+      message: issue.message.substring(0, PAGE_HEALTH_LIMITS.maxMessageLength),
+      ...(typeof issue.url === 'string' && issue.url && { url: issue.url.substring(0, 2000) }),
+      ...(Number.isInteger(issue.status) && { status: issue.status }),
+    }));
+}
+
+// Asset URLs are written into the generated smoke test, so only valid HTTP(S) URLs are kept
+function sanitizeCriticalAssets(value: unknown): string[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  return value
+    .filter((asset): asset is string => typeof asset === 'string' && validateUrl(asset).isValid)
+    .slice(0, PAGE_HEALTH_LIMITS.maxAssets);
+}
+
+// Database ids are cuids; anything else can't name a row
+export function sanitizeId(value: unknown): string | undefined {
+  return typeof value === 'string' && /^[A-Za-z0-9_-]{1,64}$/.test(value) ? value : undefined;
+}
+
 // Comprehensive input sanitization
 export function sanitizeRequest(body: any): SanitizedInput {
   const errors: string[] = [];
@@ -185,8 +253,8 @@ export function sanitizeRequest(body: any): SanitizedInput {
 
   // Additional security checks
   if (body.screenshot) {
-    // Validate base64 image data
-    if (typeof body.screenshot !== 'string' || !body.screenshot.startsWith('data:image/png;base64,')) {
+    // Validate base64 PNG data, raw (as /api/snapshot returns it) or as a data URL
+    if (typeof body.screenshot !== 'string' || !/^(data:image\/png;base64,)?[A-Za-z0-9+/]+={0,2}$/.test(body.screenshot)) {
       errors.push('Screenshot: Invalid screenshot format');
     }
 
@@ -197,17 +265,539 @@ export function sanitizeRequest(body: any): SanitizedInput {
     }
   }
 
+  // Project the tests are saved to; whether it exists is checked where they are saved
+  const projectId = sanitizeId(body.projectId);
+  if (body.projectId !== undefined && body.projectId !== null && body.projectId !== '' && !projectId) {
+    errors.push('Project: projectId must be an id');
+  }
+
+  // Output framework (defaults to Cypress)
+  let framework: TestFramework = 'cypress';
+  if (body.framework !== undefined) {
+    if (isTestFramework(body.framework)) {
+      framework = body.framework;
+    } else {
+      errors.push(`Framework: must be one of ${TEST_FRAMEWORKS.join(', ')}`);
+    }
+  }
+
+  // Self-healing options
+  let maxHealAttempts: number | undefined;
+  if (body.maxHealAttempts !== undefined) {
+    maxHealAttempts = Number(body.maxHealAttempts);
+    if (!Number.isInteger(maxHealAttempts) || maxHealAttempts < 0 || maxHealAttempts > 5) {
+      errors.push('Self-heal: maxHealAttempts must be an integer between 0 and 5');
+    }
+  }
+
+  // Crawl mode: `crawl: true` or `crawl: { maxDepth, maxPages }`
+  let crawl: SanitizedInput['crawl'];
+  if (body.crawl !== undefined && body.crawl !== false) {
+    if (body.crawl === true) {
+      crawl = {};
+    } else if (typeof body.crawl === 'object' && body.crawl !== null) {
+      crawl = {};
+      if (body.crawl.maxDepth !== undefined) {
+        crawl.maxDepth = Number(body.crawl.maxDepth);
+        if (!Number.isInteger(crawl.maxDepth) || crawl.maxDepth < 0 || crawl.maxDepth > CRAWL_LIMITS.maxDepth) {
+          errors.push(`Crawl: maxDepth must be an integer between 0 and ${CRAWL_LIMITS.maxDepth}`);
+        }
+      }
+      if (body.crawl.maxPages !== undefined) {
+        crawl.maxPages = Number(body.crawl.maxPages);
+        if (!Number.isInteger(crawl.maxPages) || crawl.maxPages < 1 || crawl.maxPages > CRAWL_LIMITS.maxPages) {
+          errors.push(`Crawl: maxPages must be an integer between 1 and ${CRAWL_LIMITS.maxPages}`);
+        }
+      }
+    } else {
+      errors.push('Crawl: must be a boolean or an object with maxDepth and maxPages');
+    }
+  }
+
+  // Page capture: `capture: { device, viewport, colorScheme, locale, timezoneId, waitUntil, waitForSelector, delayMs, timeoutMs }`
+  let capture: CaptureOptions | undefined;
+  if (body.capture !== undefined) {
+    if (typeof body.capture !== 'object' || body.capture === null) {
+      errors.push('Capture: must be an object');
+    } else {
+      capture = {};
+      const { device, viewport, colorScheme, locale, timezoneId, waitUntil, waitForSelector, delayMs, timeoutMs } = body.capture;
+      if (device !== undefined) {
+        if (isDeviceName(device)) {
+          capture.device = device;
+        } else {
+          errors.push('Capture: device must be a Playwright device name, e.g. "iPhone 13"');
+        }
+      }
+      if (viewport !== undefined) {
+        const width = Number(viewport?.width);
+        const height = Number(viewport?.height);
+        const inRange = (size: number) =>
+          Number.isInteger(size) && size >= CAPTURE_LIMITS.minViewport && size <= CAPTURE_LIMITS.maxViewport;
+        if (inRange(width) && inRange(height)) {
+          capture.viewport = { width, height };
+        } else {
+          errors.push(`Capture: viewport width and height must be integers between ${CAPTURE_LIMITS.minViewport} and ${CAPTURE_LIMITS.maxViewport}`);
+        }
+      }
+      if (colorScheme !== undefined) {
+        if (COLOR_SCHEMES.includes(colorScheme)) {
+          capture.colorScheme = colorScheme;
+        } else {
+          errors.push(`Capture: colorScheme must be one of ${COLOR_SCHEMES.join(', ')}`);
+        }
+      }
+      if (locale !== undefined) {
+        if (typeof locale === 'string' && /^[a-zA-Z]{2,3}(-[a-zA-Z0-9]{2,8})*$/.test(locale)) {
+          capture.locale = locale;
+        } else {
+          errors.push('Capture: locale must be a language tag, e.g. "en-US"');
+        }
+      }
+      if (timezoneId !== undefined) {
+        if (typeof timezoneId === 'string' && isTimeZone(timezoneId)) {
+          capture.timezoneId = timezoneId;
+        } else {
+          errors.push('Capture: timezoneId must be an IANA time zone, e.g. "Europe/Berlin"');
+        }
+      }
+      if (waitUntil !== undefined) {
+        if (WAIT_STRATEGIES.includes(waitUntil)) {
+          capture.waitUntil = waitUntil;
+        } else {
+          errors.push(`Capture: waitUntil must be one of ${WAIT_STRATEGIES.join(', ')}`);
+        }
+      }
+      if (capture.waitUntil === 'selector') {
+        if (typeof waitForSelector === 'string' && waitForSelector.trim() && waitForSelector.length <= 500) {
+          capture.waitForSelector = waitForSelector.trim();
+        } else {
+          errors.push('Capture: waitForSelector is required with waitUntil "selector"');
+        }
+      }
+      if (capture.waitUntil === 'delay') {
+        capture.delayMs = Number(delayMs);
+        if (!Number.isInteger(capture.delayMs) || capture.delayMs < 0 || capture.delayMs > CAPTURE_LIMITS.maxDelayMs) {
+          errors.push(`Capture: delayMs must be an integer between 0 and ${CAPTURE_LIMITS.maxDelayMs} with waitUntil "delay"`);
+        }
+      }
+      if (timeoutMs !== undefined) {
+        capture.timeoutMs = Number(timeoutMs);
+        if (!Number.isInteger(capture.timeoutMs) || capture.timeoutMs < 1000 || capture.timeoutMs > CAPTURE_LIMITS.maxTimeoutMs) {
+          errors.push(`Capture: timeoutMs must be an integer between 1000 and ${CAPTURE_LIMITS.maxTimeoutMs}`);
+        }
+      }
+    }
+  }
+
+  // Per-request model selection: `llm: { provider, model, temperature, maxTokens }`
+  const llm: LLMOptions = {};
+  if (body.llm !== undefined) {
+    if (typeof body.llm !== 'object' || body.llm === null) {
+      errors.push('LLM: must be an object');
+    } else {
+      const { provider, model, temperature, maxTokens } = body.llm;
+      if (provider !== undefined) {
+        if (isLLMProviderName(provider)) {
+          llm.provider = provider;
+        } else {
+          errors.push(`LLM: provider must be one of ${LLM_PROVIDERS.join(', ')}`);
+        }
+      }
+      if (model !== undefined) {
+        // Only models the deployment has allowed, so a request can't run up costs on any model the key reaches
+        const allowed = allowedModels();
+        if (typeof model === 'string' && allowed.includes(model)) {
+          llm.model = model;
+        } else if (allowed.length === 0) {
+          errors.push('LLM: choosing a model is not enabled on this server');
+        } else {
+          errors.push(`LLM: model must be one of ${allowed.join(', ')}`);
+        }
+      }
+      if (temperature !== undefined) {
+        llm.temperature = Number(temperature);
+        if (!Number.isFinite(llm.temperature) || llm.temperature < 0 || llm.temperature > 2) {
+          errors.push('LLM: temperature must be a number between 0 and 2');
+        }
+      }
+      if (maxTokens !== undefined) {
+        llm.maxTokens = Number(maxTokens);
+        if (!Number.isInteger(llm.maxTokens) || llm.maxTokens < 1 || llm.maxTokens > 32000) {
+          errors.push('LLM: maxTokens must be an integer between 1 and 32000');
+        }
+      }
+    }
+  }
+
   return {
     url,
     userDescription,
     screenshot: body.screenshot,
-    domData: body.domData,
-    htmlElements: body.htmlElements,
+    domData: sanitizeDomData(body.domData),
+    htmlElements: sanitizeHtmlElements(body.htmlElements),
+    accessibleElements: sanitizeAccessibleElements(body.accessibleElements),
+    apiCalls: sanitizeApiCalls(body.apiCalls),
+    pageIssues: sanitizePageIssues(body.pageIssues),
+    criticalAssets: sanitizeCriticalAssets(body.criticalAssets),
+    framework,
+    selfHeal: body.selfHeal === true,
+    maxHealAttempts,
+    crawl,
+    capture,
+    llm,
+    ...(projectId && { projectId }),
     isValid: errors.length === 0,
     errors
   };
 }
 
+// Upper bounds for listing and editing stored tests
+export const TEST_LIBRARY_LIMITS = {
+  defaultResults: 200,
+  maxResults: 500,
+  maxQueryLength: 200,
+  maxTitleLength: 300,
+  maxDescriptionLength: 5000,
+  maxCodeLength: 200000,
+  maxSessionTests: 500,
+  maxSummaryLength: 50000,
+};
+
+// The latest run's status, or 'not-run' for tests that never ran
+export type RunStatusFilter = RunStatus | 'not-run';
+
+export const RUN_STATUS_FILTERS: RunStatusFilter[] = ['passed', 'failed', 'error', 'skipped', 'not-run'];
+
+export interface TestFilters {
+  query?: string; // matched against title, description and code
+  category?: TestCategory;
+  testType?: TestFramework;
+  status?: RunStatusFilter;
+  from?: Date; // created on or after
+  to?: Date; // created before
+  url?: string;
+  sessionId?: string;
+  projectId?: string;
+  limit: number;
+  offset?: number; // matching tests to skip, for the next page
+}
+
+export interface TestUpdate {
+  title?: string;
+  description?: string;
+  code?: string;
+  category?: TestCategory;
+}
+
+// A YYYY-MM-DD date at midnight UTC
+function parseDay(value: string): Date | undefined {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return undefined;
+  const date = new Date(`${value}T00:00:00Z`);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+// Filters for /api/tests from its query string; `to` includes the whole day
+export function sanitizeTestFilters(params: URLSearchParams): { filters: TestFilters; errors: string[] } {
+  const errors: string[] = [];
+  const filters: TestFilters = { limit: TEST_LIBRARY_LIMITS.defaultResults };
+
+  const query = params.get('q')?.trim();
+  if (query) filters.query = query.substring(0, TEST_LIBRARY_LIMITS.maxQueryLength);
+
+  const category = params.get('category');
+  if (category) {
+    if (TEST_CATEGORIES.includes(category as TestCategory)) filters.category = category as TestCategory;
+    else errors.push(`Category: must be one of ${TEST_CATEGORIES.join(', ')}`);
+  }
+
+  const testType = params.get('testType');
+  if (testType) {
+    if (isTestFramework(testType)) filters.testType = testType;
+    else errors.push(`Test type: must be one of ${TEST_FRAMEWORKS.join(', ')}`);
+  }
+
+  const status = params.get('status');
+  if (status) {
+    if (RUN_STATUS_FILTERS.includes(status as RunStatusFilter)) filters.status = status as RunStatusFilter;
+    else errors.push(`Status: must be one of ${RUN_STATUS_FILTERS.join(', ')}`);
+  }
+
+  for (const field of ['from', 'to'] as const) {
+    const value = params.get(field);
+    if (!value) continue;
+    const day = parseDay(value);
+    if (!day) {
+      errors.push(`${field === 'from' ? 'From' : 'To'}: must be a date like 2025-01-31`);
+    } else {
+      filters[field] = field === 'to' ? new Date(day.getTime() + 24 * 60 * 60 * 1000) : day;
+    }
+  }
+
+  const url = params.get('url');
+  if (url) filters.url = url;
+  const sessionId = params.get('sessionId');
+  if (sessionId) filters.sessionId = sessionId;
+  const projectId = params.get('projectId');
+  if (projectId) filters.projectId = projectId;
+
+  const limit = params.get('limit');
+  if (limit) {
+    const n = Number(limit);
+    if (Number.isInteger(n) && n >= 1 && n <= TEST_LIBRARY_LIMITS.maxResults) filters.limit = n;
+    else errors.push(`Limit: must be an integer between 1 and ${TEST_LIBRARY_LIMITS.maxResults}`);
+  }
+
+  const offset = params.get('offset');
+  if (offset) {
+    const n = Number(offset);
+    if (Number.isInteger(n) && n >= 0) filters.offset = n;
+    else errors.push('Offset: must be a non-negative integer');
+  }
+
+  return { filters, errors };
+}
+
+// Fields a user may edit on a stored test; anything else in the body is ignored
+export function sanitizeTestUpdate(body: unknown): { update: TestUpdate; errors: string[] } {
+  const errors: string[] = [];
+  const update: TestUpdate = {};
+  if (!body || typeof body !== 'object') return { update, errors: ['Body: must be a JSON object'] };
+  const { title, description, code, category } = body as Record<string, unknown>;
+
+  if (title !== undefined) {
+    const trimmed = typeof title === 'string' ? title.trim() : '';
+    if (!trimmed) errors.push('Title: must be a non-empty string');
+    else if (trimmed.length > TEST_LIBRARY_LIMITS.maxTitleLength) errors.push(`Title: must be at most ${TEST_LIBRARY_LIMITS.maxTitleLength} characters`);
+    else update.title = trimmed;
+  }
+
+  if (description !== undefined) {
+    if (typeof description !== 'string') errors.push('Description: must be a string');
+    else if (description.length > TEST_LIBRARY_LIMITS.maxDescriptionLength) errors.push(`Description: must be at most ${TEST_LIBRARY_LIMITS.maxDescriptionLength} characters`);
+    else update.description = description.trim();
+  }
+
+  if (code !== undefined) {
+    if (typeof code !== 'string' || !code.trim()) errors.push('Code: must be a non-empty string');
+    else if (code.length > TEST_LIBRARY_LIMITS.maxCodeLength) errors.push(`Code: must be at most ${TEST_LIBRARY_LIMITS.maxCodeLength} characters`);
+    else update.code = code;
+  }
+
+  if (category !== undefined) {
+    if (TEST_CATEGORIES.includes(category as TestCategory)) update.category = category as TestCategory;
+    else errors.push(`Category: must be one of ${TEST_CATEGORIES.join(', ')}`);
+  }
+
+  if (errors.length === 0 && Object.keys(update).length === 0) {
+    errors.push('Body: nothing to update (title, description, code or category)');
+  }
+
+  return { update, errors };
+}
+
+// Site map nodes with the crawler's shape; anything else is dropped
+function sanitizeSiteMap(value: unknown): SiteMapNode[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  return value
+    .filter(node => node && typeof node.url === 'string' && Number.isInteger(node.depth))
+    .slice(0, CRAWL_LIMITS.maxPages)
+    .map(node => ({
+      url: node.url.substring(0, 2000),
+      title: typeof node.title === 'string' ? node.title.substring(0, TEST_LIBRARY_LIMITS.maxTitleLength) : '',
+      depth: Math.min(Math.max(node.depth, 0), CRAWL_LIMITS.maxDepth),
+      ...(typeof node.parent === 'string' && { parent: node.parent.substring(0, 2000) }),
+      links: strings(node.links).slice(0, 100).map(link => link.substring(0, 2000)),
+      ...(typeof node.error === 'string' && { error: node.error.substring(0, 500) }),
+    }));
+}
+
+// One test of a saved session: only the fields the page edits. Warnings, runs, revisions and
+// heal status come from the server, so whatever the client sends for them is ignored.
+function sanitizeSessionTest(test: unknown, index: number, errors: string[]): SessionTest | null {
+  const fields = (test && typeof test === 'object' ? test : {}) as Record<string, unknown>;
+  const label = `Tests: test ${index + 1}`;
+  if (typeof fields.code !== 'string' || fields.code.length > TEST_LIBRARY_LIMITS.maxCodeLength) {
+    errors.push(`${label} needs code of at most ${TEST_LIBRARY_LIMITS.maxCodeLength} characters`);
+    return null;
+  }
+
+  const sanitized: SessionTest = {
+    title: typeof fields.title === 'string' && fields.title.trim() ? fields.title.trim().substring(0, TEST_LIBRARY_LIMITS.maxTitleLength) : 'Untitled Test',
+    code: fields.code,
+  };
+  if (typeof fields.why === 'string' && fields.why.trim()) {
+    sanitized.why = fields.why.substring(0, TEST_LIBRARY_LIMITS.maxDescriptionLength);
+  }
+  if (fields.category !== undefined && fields.category !== null) {
+    if (TEST_CATEGORIES.includes(fields.category as TestCategory)) sanitized.category = fields.category as TestCategory;
+    else errors.push(`${label} category must be one of ${TEST_CATEGORIES.join(', ')}`);
+  }
+  if (fields.testType !== undefined && fields.testType !== null) {
+    if (isTestFramework(fields.testType)) sanitized.testType = fields.testType;
+    else errors.push(`${label} test type must be one of ${TEST_FRAMEWORKS.join(', ')}`);
+  }
+  if (fields.pageUrl !== undefined && fields.pageUrl !== null) {
+    const pageUrl = validateUrl(fields.pageUrl as string);
+    if (pageUrl.isValid) sanitized.pageUrl = pageUrl.sanitizedValue;
+    else errors.push(`${label} page URL: ${pageUrl.error}`);
+  }
+  return sanitized;
+}
+
+// A session the page saves or imports. Tests need code; only their editable fields are kept.
+export function sanitizeSessionSave(body: unknown): { session: SaveSessionRequest; errors: string[] } {
+  const errors: string[] = [];
+  const fields = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+
+  const urlValidation = validateUrl(fields.url as string);
+  if (!urlValidation.isValid) errors.push(`URL: ${urlValidation.error}`);
+
+  const tests: SessionTest[] = [];
+  if (!Array.isArray(fields.tests)) {
+    errors.push('Tests: must be an array');
+  } else if (fields.tests.length > TEST_LIBRARY_LIMITS.maxSessionTests) {
+    errors.push(`Tests: at most ${TEST_LIBRARY_LIMITS.maxSessionTests} per session`);
+  } else {
+    fields.tests.forEach((test, i) => {
+      const sanitized = sanitizeSessionTest(test, i, errors);
+      if (sanitized) tests.push(sanitized);
+    });
+  }
+
+  const summary = typeof fields.summary === 'string' ? fields.summary.substring(0, TEST_LIBRARY_LIMITS.maxSummaryLength) : '';
+  const siteMap = sanitizeSiteMap(fields.siteMap);
+  const projectId = sanitizeId(fields.projectId);
+  if (fields.projectId !== undefined && fields.projectId !== null && !projectId) errors.push('Project: projectId must be an id');
+
+  return {
+    session: { url: urlValidation.sanitizedValue || '', tests, summary, ...(siteMap && { siteMap }), ...(projectId && { projectId }) },
+    errors,
+  };
+}
+
+export const PROJECT_LIMITS = {
+  maxNameLength: 100,
+  maxDescriptionLength: 2000,
+  maxSuiteTests: 1000,
+};
+
+export interface ProjectInput {
+  name?: string;
+  description?: string | null;
+  baseUrl?: string | null; // null clears it
+}
+
+export interface SuiteInput {
+  name?: string;
+  description?: string | null;
+  addTestIds?: string[]; // appended in order
+  removeTestIds?: string[];
+}
+
+// Name and description shared by projects and suites; `partial` allows leaving the name out for updates
+function sanitizeNamed(fields: Record<string, unknown>, partial: boolean, errors: string[]) {
+  const result: { name?: string; description?: string | null } = {};
+  if (fields.name !== undefined || !partial) {
+    const name = typeof fields.name === 'string' ? fields.name.trim() : '';
+    if (!name) errors.push('Name: must be a non-empty string');
+    else if (name.length > PROJECT_LIMITS.maxNameLength) errors.push(`Name: must be at most ${PROJECT_LIMITS.maxNameLength} characters`);
+    else result.name = name;
+  }
+  if (fields.description === null) {
+    result.description = null;
+  } else if (fields.description !== undefined) {
+    if (typeof fields.description !== 'string') errors.push('Description: must be a string');
+    else if (fields.description.length > PROJECT_LIMITS.maxDescriptionLength) errors.push(`Description: must be at most ${PROJECT_LIMITS.maxDescriptionLength} characters`);
+    else result.description = fields.description.trim() || null;
+  }
+  return result;
+}
+
+// A project to create, or with `partial`, the fields of one to update
+export function sanitizeProjectInput(body: unknown, partial: boolean = false): { project: ProjectInput; errors: string[] } {
+  const errors: string[] = [];
+  const fields = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+  const project: ProjectInput = sanitizeNamed(fields, partial, errors);
+
+  if (fields.baseUrl === null || fields.baseUrl === '') {
+    project.baseUrl = null;
+  } else if (fields.baseUrl !== undefined) {
+    const urlValidation = validateUrl(fields.baseUrl as string);
+    if (urlValidation.isValid) project.baseUrl = urlValidation.sanitizedValue;
+    else errors.push(`Base URL: ${urlValidation.error}`);
+  }
+
+  if (partial && errors.length === 0 && Object.keys(project).length === 0) {
+    errors.push('Body: nothing to update (name, description or baseUrl)');
+  }
+  return { project, errors };
+}
+
+// A suite to create, or with `partial`, its fields and test membership changes
+export function sanitizeSuiteInput(body: unknown, partial: boolean = false): { suite: SuiteInput; errors: string[] } {
+  const errors: string[] = [];
+  const fields = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+  const suite: SuiteInput = sanitizeNamed(fields, partial, errors);
+
+  for (const field of ['addTestIds', 'removeTestIds'] as const) {
+    const value = fields[field];
+    if (value === undefined) continue;
+    const ids = Array.isArray(value) ? value.map(sanitizeId) : [];
+    if (!Array.isArray(value) || ids.some(id => !id) || ids.length > PROJECT_LIMITS.maxSuiteTests) {
+      errors.push(`${field}: must be an array of at most ${PROJECT_LIMITS.maxSuiteTests} test ids`);
+    } else {
+      suite[field] = [...new Set(ids as string[])];
+    }
+  }
+
+  if (partial && errors.length === 0 && Object.keys(suite).length === 0) {
+    errors.push('Body: nothing to update (name, description, addTestIds or removeTestIds)');
+  }
+  return { suite, errors };
+}
+
+export const CREDENTIAL_LIMITS = {
+  maxEmailLength: 254,
+  minPasswordLength: 8,
+  maxPasswordLength: 200,
+  maxNameLength: 100,
+};
+
+export interface Credentials {
+  email: string; // trimmed and lowercased
+  password?: string;
+  name?: string;
+}
+
+// An email, and a password unless `passwordless` (magic links). Passwords are kept as sent.
+export function sanitizeCredentials(body: unknown, passwordless: boolean = false): { credentials: Credentials; errors: string[] } {
+  const errors: string[] = [];
+  const fields = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+
+  const email = typeof fields.email === 'string' ? fields.email.trim().toLowerCase() : '';
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email) || email.length > CREDENTIAL_LIMITS.maxEmailLength) {
+    errors.push('Email: must be a valid email address');
+  }
+  const credentials: Credentials = { email };
+
+  if (!passwordless) {
+    const { minPasswordLength, maxPasswordLength } = CREDENTIAL_LIMITS;
+    if (typeof fields.password !== 'string' || fields.password.length < minPasswordLength || fields.password.length > maxPasswordLength) {
+      errors.push(`Password: must be ${minPasswordLength} to ${maxPasswordLength} characters`);
+    } else {
+      credentials.password = fields.password;
+    }
+  }
+
+  if (typeof fields.name === 'string' && fields.name.trim()) {
+    if (fields.name.trim().length > CREDENTIAL_LIMITS.maxNameLength) errors.push(`Name: must be at most ${CREDENTIAL_LIMITS.maxNameLength} characters`);
+    else credentials.name = fields.name.trim();
+  }
+
+  return { credentials, errors };
+}
+
 // Rate limiting helper
 export class RateLimiter {
   private requests: Map<string, number[]> = new Map();
@@ -235,6 +825,13 @@ export class RateLimiter {
     return true;
   }
 
+  // Allowed only while every identifier is; the request then counts against each
+  isAllowedForAll(identifiers: string[]): boolean {
+    if (identifiers.some(identifier => this.getRemainingRequests(identifier) === 0)) return false;
+    identifiers.forEach(identifier => this.isAllowed(identifier));
+    return true;
+  }
+
   getRemainingRequests(identifier: string): number {
     const now = Date.now();
     const requests = this.requests.get(identifier) || [];
@@ -251,8 +848,18 @@ export class RateLimiter {
   }
 }
 
-// Export singleton rate limiter (per IP for production)
+// Export singleton rate limiter (per user, or per IP when signed out; see checkRateLimit)
 export const globalRateLimiter = new RateLimiter(
   parseInt(process.env.RATE_LIMIT_WINDOW_MS || '60000'), // 1 minute
   parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || '10') // 10 requests per minute
 );
+
+// Anonymous requests whose address no trusted proxy reported, all together: a ceiling
+// for clients that make up addresses
+export const anonymousRateLimiter = new RateLimiter(
+  parseInt(process.env.RATE_LIMIT_WINDOW_MS || '60000'),
+  parseInt(process.env.RATE_LIMIT_ANONYMOUS_MAX_REQUESTS || '100')
+);
+
+// Sign-in attempts and emailed links, per email address and per trusted client address
+export const authRateLimiter = new RateLimiter(15 * 60 * 1000, 20);
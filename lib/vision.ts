@@ -0,0 +1,77 @@
+// Screenshot utilities for vision-capable models in TestFlow AI
+//
+// When OPENAI_VISION_MODEL is set, the page screenshot is sent to that model as
+// image content next to the DOM-text prompt. Full-page captures can be very tall,
+// so by default they are downscaled, or split into tiles that are read top to bottom.
+
+import sharp from 'sharp';
+
+export type ScreenshotMode = 'full' | 'downscale' | 'tiles';
+
+const SCREENSHOT_MODES: ScreenshotMode[] = ['full', 'downscale', 'tiles'];
+const DEFAULT_MAX_WIDTH = 1024;
+const MAX_TILES = 4;
+
+export interface VisionImage {
+  dataUrl: string;
+  width: number;
+  height: number;
+}
+
+export function resolveVisionModel(): string | null {
+  return process.env.OPENAI_VISION_MODEL?.trim() || null;
+}
+
+export function resolveScreenshotMode(): ScreenshotMode {
+  const mode = process.env.VISION_SCREENSHOT_MODE as ScreenshotMode;
+  return SCREENSHOT_MODES.includes(mode) ? mode : 'downscale';
+}
+
+// Accepts raw base64 or a data URL
+function decodeScreenshot(screenshot: string): Buffer {
+  return Buffer.from(screenshot.replace(/^data:image\/png;base64,/, ''), 'base64');
+}
+
+async function toImage(image: sharp.Sharp): Promise<VisionImage> {
+  const { data, info } = await image.png().toBuffer({ resolveWithObject: true });
+  return { dataUrl: `data:image/png;base64,${data.toString('base64')}`, width: info.width, height: info.height };
+}
+
+// Turn a captured PNG into the image(s) to attach to the prompt
+export async function prepareScreenshot(
+  screenshot: string,
+  mode: ScreenshotMode = resolveScreenshotMode(),
+  maxWidth: number = parseInt(process.env.VISION_MAX_WIDTH || String(DEFAULT_MAX_WIDTH))
+): Promise<VisionImage[]> {
+  const source = decodeScreenshot(screenshot);
+  if (mode === 'full') {
+    return [await toImage(sharp(source))];
+  }
+
+  const scaled = await sharp(source)
+    .resize({ width: maxWidth, withoutEnlargement: true })
+    .png()
+    .toBuffer({ resolveWithObject: true });
+  if (mode === 'downscale') {
+    return [await toImage(sharp(scaled.data))];
+  }
+
+  // Up to MAX_TILES tiles covering the whole page, each at least as tall as it is wide
+  const { width, height } = scaled.info;
+  const tileHeight = Math.max(width, Math.ceil(height / MAX_TILES));
+  const tiles: VisionImage[] = [];
+  for (let top = 0; top < height && tiles.length < MAX_TILES; top += tileHeight) {
+    tiles.push(await toImage(sharp(scaled.data).extract({ left: 0, top, width, height: Math.min(tileHeight, height - top) })));
+  }
+  return tiles;
+}
+
+// Text that tells the model what the attached images are
+export function describeScreenshots(images: VisionImage[]): string {
+  if (images.length === 0) return '';
+  const what = images.length === 1
+    ? 'A screenshot of the page is attached.'
+    : `Screenshots of the page are attached as ${images.length} tiles, in order from top to bottom.`;
+  return `SCREENSHOT:
+${what} Use ${images.length === 1 ? 'it' : 'them'} to understand layout, visual state (disabled buttons, open menus, error messages) and which elements are actually visible. Selectors must still come from the page structure above.`;
+}
@@ -0,0 +1,282 @@
+// Visual regression utilities for TestFlow AI
+//
+// Every scan's full-page screenshot is stored with its session, as a PNG file in
+// the screenshot directory. The first screenshot of a URL at a viewport becomes
+// its baseline; later ones are compared with it pixel by pixel, ignoring masked
+// regions with dynamic content (dates, ads, carousels). A reviewer can accept a
+// screenshot as the new baseline. Screenshots past the retention period are deleted.
+
+import { randomUUID } from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import pixelmatch from 'pixelmatch';
+import sharp from 'sharp';
+import { resolveViewport, type CaptureOptions } from './capture';
+import { DatabaseService } from './database';
+
+export interface Region {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface VisualDiff {
+  mismatchPercent: number; // of the pixels outside the masks, rounded to 2 decimals
+  mismatchedPixels: number;
+  comparedPixels: number;
+  sizeChanged: boolean;
+  diffImage: string; // base64 PNG: mismatches in red over a faded copy of the screenshot
+}
+
+// The outcome of checking a scan's screenshot against its baseline
+export interface VisualCheck {
+  screenshotId: string;
+  viewport: string;
+  isNewBaseline: boolean; // no baseline existed, so this screenshot became it
+  mismatchPercent?: number;
+}
+
+export const VISUAL_LIMITS = {
+  maxMasks: 50,
+  maxDimension: 20000,
+};
+
+export const DEFAULT_SCREENSHOT_RETENTION_DAYS = 30;
+
+// Image files nothing refers to are kept this long: a scan writes its files before the row
+const UNREFERENCED_FILE_GRACE_MS = 60 * 60 * 1000;
+
+// Per-pixel color difference, as a fraction of the largest possible, above which a pixel counts as changed
+export const DEFAULT_PIXEL_THRESHOLD = 0.1;
+
+// Changed pixels in the diff image, as pixelmatch draws them
+const DIFF_COLOR = [255, 0, 0, 255];
+
+// Baselines are kept per URL and viewport, e.g. '1600x1200' or 'iPhone 13 390x664'
+export function viewportKey(capture: CaptureOptions = {}): string {
+  const { width, height } = resolveViewport(capture);
+  return `${capture.device ? `${capture.device} ` : ''}${width}x${height}`;
+}
+
+// Whole, non-negative pixel rectangles; anything else is dropped
+export function sanitizeRegions(value: unknown): Region[] {
+  if (!Array.isArray(value)) return [];
+  const isCoordinate = (n: unknown, min: number) => Number.isInteger(n) && (n as number) >= min && (n as number) <= VISUAL_LIMITS.maxDimension;
+  return value
+    .filter(region => region && isCoordinate(region.x, 0) && isCoordinate(region.y, 0) && isCoordinate(region.width, 1) && isCoordinate(region.height, 1))
+    .slice(0, VISUAL_LIMITS.maxMasks)
+    .map(({ x, y, width, height }) => ({ x, y, width, height }));
+}
+
+interface RawImage {
+  data: Uint8Array;
+  width: number;
+  height: number;
+}
+
+async function decodePng(image: string): Promise<RawImage> {
+  const { data, info } = await sharp(Buffer.from(image.replace(/^data:image\/png;base64,/, ''), 'base64'))
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  return { data, width: info.width, height: info.height };
+}
+
+// The top-left width x height pixels of an RGBA image
+function crop(image: RawImage, width: number, height: number): Uint8Array {
+  if (image.width === width && image.height === height) return Uint8Array.from(image.data);
+  const cropped = new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    cropped.set(image.data.subarray(y * image.width * 4, (y * image.width + width) * 4), y * width * 4);
+  }
+  return cropped;
+}
+
+// One byte per pixel of a width x height frame, 1 where a mask covers it
+function maskBitmap(masks: Region[], width: number, height: number): Uint8Array {
+  const bitmap = new Uint8Array(width * height);
+  for (const mask of masks) {
+    const left = Math.min(mask.x, width);
+    const right = Math.min(mask.x + mask.width, width);
+    for (let y = mask.y; y < Math.min(mask.y + mask.height, height); y++) {
+      bitmap.fill(1, y * width + left, y * width + right);
+    }
+  }
+  return bitmap;
+}
+
+// Compare a screenshot with its baseline. Where the sizes differ, the area covered by
+// only one of them counts as changed.
+export async function diffScreenshots(
+  baseline: string,
+  current: string,
+  options: { masks?: Region[]; threshold?: number } = {}
+): Promise<VisualDiff> {
+  const [before, after] = await Promise.all([decodePng(baseline), decodePng(current)]);
+  const width = Math.max(before.width, after.width);
+  const height = Math.max(before.height, after.height);
+  const masked = maskBitmap(options.masks || [], width, height);
+
+  // pixelmatch compares the area both cover; masked pixels are copied from the current
+  // screenshot into the baseline so they never differ
+  const overlapWidth = Math.min(before.width, after.width);
+  const overlapHeight = Math.min(before.height, after.height);
+  const previous = crop(before, overlapWidth, overlapHeight);
+  const latest = crop(after, overlapWidth, overlapHeight);
+  for (let y = 0; y < overlapHeight; y++) {
+    for (let x = 0; x < overlapWidth; x++) {
+      if (masked[y * width + x]) {
+        const i = (y * overlapWidth + x) * 4;
+        previous.set(latest.subarray(i, i + 4), i);
+      }
+    }
+  }
+  const overlapDiff = new Uint8Array(overlapWidth * overlapHeight * 4);
+  // The diff draws a faded copy of the first image under the mismatches
+  let mismatched = pixelmatch(latest, previous, overlapDiff, overlapWidth, overlapHeight, {
+    threshold: options.threshold ?? DEFAULT_PIXEL_THRESHOLD,
+    includeAA: true,
+  });
+
+  const diff = Buffer.alloc(width * height * 4, 255);
+  for (let y = 0; y < overlapHeight; y++) {
+    diff.set(overlapDiff.subarray(y * overlapWidth * 4, (y + 1) * overlapWidth * 4), y * width * 4);
+  }
+  // Outside the overlap, unmasked pixels are changed; the rest stays white
+  for (let y = 0; y < height; y++) {
+    for (let x = y < overlapHeight ? overlapWidth : 0; x < width; x++) {
+      if (masked[y * width + x]) continue;
+      mismatched++;
+      diff.set(DIFF_COLOR, (y * width + x) * 4);
+    }
+  }
+
+  // Masked regions are tinted yellow
+  let maskedPixels = 0;
+  for (let i = 0; i < masked.length; i++) {
+    if (!masked[i]) continue;
+    maskedPixels++;
+    diff[i * 4 + 2] = Math.round(diff[i * 4] * 0.6);
+  }
+
+  const compared = width * height - maskedPixels;
+  const png = await sharp(diff, { raw: { width, height, channels: 4 } }).png().toBuffer();
+  return {
+    mismatchPercent: compared > 0 ? Math.round((mismatched / compared) * 10000) / 100 : 0,
+    mismatchedPixels: mismatched,
+    comparedPixels: compared,
+    sizeChanged: before.width !== after.width || before.height !== after.height,
+    diffImage: png.toString('base64'),
+  };
+}
+
+function screenshotDir(): string {
+  return path.resolve(process.env.SCREENSHOT_DIR || path.join('.testflow', 'screenshots'));
+}
+
+// Write a base64 PNG to the screenshot directory; returns its file name
+async function storeImage(image: string): Promise<string> {
+  const dir = screenshotDir();
+  await fs.mkdir(dir, { recursive: true });
+  const file = `${randomUUID()}.png`;
+  await fs.writeFile(path.join(dir, file), Buffer.from(image.replace(/^data:image\/png;base64,/, ''), 'base64'));
+  return file;
+}
+
+// A stored PNG as base64, or undefined if its file is gone
+async function readImage(file: string): Promise<string | undefined> {
+  const data = await fs.readFile(path.join(screenshotDir(), path.basename(file))).catch(() => null);
+  return data?.toString('base64');
+}
+
+// Days a scan's screenshot and diff are kept; a baseline's image is kept while it is the baseline
+export function resolveScreenshotRetentionDays(): number {
+  const days = Number(process.env.SCREENSHOT_RETENTION_DAYS);
+  return Number.isInteger(days) && days > 0 ? days : DEFAULT_SCREENSHOT_RETENTION_DAYS;
+}
+
+// Delete the screenshots past the retention period, then the image files no screenshot or
+// baseline refers to any more: those of deleted sessions, replaced diffs and old baselines
+export async function pruneScreenshots(now: Date = new Date()): Promise<{ screenshots: number; files: number }> {
+  const cutoff = new Date(now.getTime() - resolveScreenshotRetentionDays() * 24 * 60 * 60 * 1000);
+  const screenshots = await DatabaseService.deleteScreenshotsBefore(cutoff);
+  const referenced = new Set(await DatabaseService.getScreenshotFiles());
+
+  const dir = screenshotDir();
+  let files = 0;
+  for (const name of await fs.readdir(dir).catch(() => [] as string[])) {
+    if (referenced.has(name)) continue;
+    const file = path.join(dir, name);
+    const stats = await fs.stat(file).catch(() => null);
+    if (!stats || now.getTime() - stats.mtimeMs < UNREFERENCED_FILE_GRACE_MS) continue;
+    await fs.rm(file, { force: true });
+    files++;
+  }
+  return { screenshots, files };
+}
+
+// Store a scan's screenshot and compare it with its owner's baseline for its URL and viewport.
+// The first screenshot taken there becomes the baseline.
+export async function checkScreenshot(
+  sessionId: string,
+  url: string,
+  image: string,
+  capture: CaptureOptions | undefined,
+  userId: string | null
+): Promise<VisualCheck> {
+  const viewport = viewportKey(capture);
+  const imagePath = await storeImage(image);
+  const baseline = await DatabaseService.getVisualBaseline(url, viewport, userId);
+  const baselineImage = baseline && await readImage(baseline.imagePath);
+  if (!baseline || !baselineImage) {
+    const { screenshotId } = await DatabaseService.saveScreenshot({ sessionId, url, viewport, imagePath });
+    await DatabaseService.setVisualBaseline({ id: screenshotId, url, viewport, imagePath, userId });
+    return { screenshotId, viewport, isNewBaseline: true };
+  }
+
+  const { mismatchPercent, diffImage } = await diffScreenshots(baselineImage, image, { masks: baseline.masks });
+  const diffPath = await storeImage(diffImage);
+  const { screenshotId } = await DatabaseService.saveScreenshot({
+    sessionId, url, viewport, imagePath, baselineId: baseline.id, mismatchPercent, diffPath,
+  });
+  return { screenshotId, viewport, isNewBaseline: false, mismatchPercent };
+}
+
+// One of a user's screenshots, with its diff and the baseline it is reviewed against read
+// from disk, or null if they have no such screenshot
+export async function getVisualReview(screenshotId: string, userId: string) {
+  const screenshot = await DatabaseService.getScreenshot(screenshotId, userId);
+  if (!screenshot) return null;
+  const baseline = await DatabaseService.getVisualBaseline(screenshot.url, screenshot.viewport, userId);
+  return {
+    screenshot: {
+      ...screenshot,
+      image: await readImage(screenshot.imagePath),
+      diffImage: screenshot.diffPath ? await readImage(screenshot.diffPath) : undefined,
+    },
+    baseline: baseline && { ...baseline, image: await readImage(baseline.imagePath) },
+    isBaseline: baseline?.screenshotId === screenshot.id,
+  };
+}
+
+// Set the baseline's masks and compare the screenshot with it again
+export async function updateMasks(screenshotId: string, userId: string, masks: Region[]) {
+  const review = await getVisualReview(screenshotId, userId);
+  if (!review?.baseline) return null;
+  await DatabaseService.setBaselineMasks(review.baseline.id, masks);
+  if (review.isBaseline || !review.baseline.image || !review.screenshot.image) return getVisualReview(screenshotId, userId);
+
+  const { mismatchPercent, diffImage } = await diffScreenshots(review.baseline.image, review.screenshot.image, { masks });
+  const diffPath = await storeImage(diffImage);
+  await DatabaseService.updateScreenshotDiff(screenshotId, { baselineId: review.baseline.id, mismatchPercent, diffPath });
+  return getVisualReview(screenshotId, userId);
+}
+
+// Accept a screenshot as the new baseline for its URL and viewport, keeping the masks
+export async function acceptScreenshot(screenshotId: string, userId: string) {
+  const screenshot = await DatabaseService.getScreenshot(screenshotId, userId);
+  if (!screenshot) return null;
+  await DatabaseService.setVisualBaseline(screenshot);
+  return getVisualReview(screenshotId, userId);
+}
@@ -0,0 +1,77 @@
+#!/usr/bin/env node
+
+/**
+ * Snapshot benchmark for TestFlow AI
+ * Sends concurrent requests to /api/snapshot on a running server and reports
+ * latency and the browser pool's counters (including server memory).
+ *
+ * Usage: node scripts/benchmark-snapshot.js <page-url> [requests=10] [concurrency=4]
+ * Set BASE_URL to benchmark a server other than http://localhost:3000, and
+ * BROWSER_POOL_TOKEN to the server's token for reading the pool's counters.
+ * Start the server with BROWSER_POOL_MAX_USES=1 to compare with a browser launch per scan.
+ */
+
+const baseUrl = process.env.BASE_URL || 'http://localhost:3000';
+const [pageUrl, requestsArg = '10', concurrencyArg = '4'] = process.argv.slice(2);
+const total = parseInt(requestsArg);
+const concurrency = parseInt(concurrencyArg);
+
+if (!pageUrl) {
+  console.error('Usage: node scripts/benchmark-snapshot.js <page-url> [requests] [concurrency]');
+  process.exit(1);
+}
+
+async function poolStatus() {
+  const res = await fetch(`${baseUrl}/api/browser-pool`, {
+    headers: { Authorization: `Bearer ${process.env.BROWSER_POOL_TOKEN || ''}` },
+  });
+  if (res.status === 404) throw new Error('Set BROWSER_POOL_TOKEN to the server\'s token to read the browser pool');
+  return res.json();
+}
+
+function percentile(sorted, p) {
+  return sorted[Math.min(sorted.length - 1, Math.floor((sorted.length * p) / 100))];
+}
+
+async function main() {
+  const before = await poolStatus();
+  const latencies = [];
+  let failures = 0;
+  let sent = 0;
+
+  // Each request uses its own client address so the rate limiter doesn't skew the result
+  const worker = async () => {
+    while (sent < total) {
+      const id = sent++;
+      const started = Date.now();
+      const res = await fetch(`${baseUrl}/api/snapshot`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'x-forwarded-for': `10.99.0.${id % 250}` },
+        body: JSON.stringify({ url: pageUrl }),
+      });
+      await res.arrayBuffer();
+      if (res.ok) latencies.push(Date.now() - started);
+      else failures++;
+    }
+  };
+
+  const started = Date.now();
+  await Promise.all(Array.from({ length: concurrency }, worker));
+  const elapsed = Date.now() - started;
+  const after = await poolStatus();
+
+  latencies.sort((a, b) => a - b);
+  const mb = bytes => `${Math.round(bytes / 1024 / 1024)} MB`;
+  console.log(`${total} snapshots of ${pageUrl}, ${concurrency} at a time, in ${elapsed}ms (${failures} failed)`);
+  if (latencies.length > 0) {
+    console.log(`Latency: p50 ${percentile(latencies, 50)}ms, p95 ${percentile(latencies, 95)}ms, max ${latencies[latencies.length - 1]}ms`);
+  }
+  console.log(`Browser launches: ${after.metrics.launches - before.metrics.launches}, avg launch ${after.metrics.avgLaunchMs}ms`);
+  console.log(`Server memory: ${mb(before.metrics.rssBytes)} before, ${mb(after.metrics.rssBytes)} after`);
+  console.log(`Pool: ${after.browsers.length} browser(s), peak waiting ${after.metrics.peakWaiting}, status ${after.status}`);
+}
+
+main().catch(error => {
+  console.error('❌ Benchmark failed:', error.message);
+  process.exit(1);
+});
@@ -0,0 +1,56 @@
+#!/usr/bin/env node
+
+/**
+ * Hand the data stored before accounts existed (rows without an owner) to one account.
+ * The account must have verified its email address, and everything moves in one transaction.
+ *
+ * Usage: npm run db:claim-legacy -- you@example.com
+ */
+
+import { PrismaClient } from '@prisma/client';
+
+async function main() {
+  const email = (process.argv[2] || '').trim().toLowerCase();
+  if (!email) {
+    console.error('Usage: npm run db:claim-legacy -- <email>');
+    process.exit(1);
+  }
+
+  const prisma = new PrismaClient();
+  try {
+    const user = await prisma.user.findUnique({ where: { email } });
+    if (!user) {
+      console.error(`❌ No account uses ${email}`);
+      process.exitCode = 1;
+      return;
+    }
+    if (!user.emailVerifiedAt) {
+      console.error(`❌ ${email} has not verified its email address yet`);
+      process.exitCode = 1;
+      return;
+    }
+
+    const unowned = { where: { userId: null }, data: { userId: user.id } };
+    const [projects, sessions, tests, scanJobs, generations, baselines] = await prisma.$transaction([
+      prisma.project.updateMany(unowned),
+      prisma.testSession.updateMany(unowned),
+      prisma.test.updateMany(unowned),
+      prisma.scanJob.updateMany(unowned),
+      prisma.generationRecord.updateMany(unowned),
+      prisma.visualBaseline.updateMany(unowned),
+    ]);
+
+    console.log(`✅ ${email} now owns the unowned data:`);
+    console.log(`- ${projects.count} projects`);
+    console.log(`- ${sessions.count} sessions with ${tests.count} tests`);
+    console.log(`- ${scanJobs.count} scans and ${generations.count} generation records`);
+    console.log(`- ${baselines.count} visual baselines`);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main().catch(error => {
+  console.error('❌ Claiming the data failed:', error);
+  process.exit(1);
+});
@@ -30,6 +30,9 @@ RATE_LIMIT_MAX_REQUESTS=10
 
 # Max tokens for AI responses
 MAX_TOKENS=4000
+
+# Local mail outbox readable by anyone at /outbox (development only)
+MAIL_OUTBOX_PUBLIC=1
 `;
 
   fs.writeFileSync(envPath, envContent);
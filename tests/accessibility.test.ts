@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { formatAccessibleElements, parseAriaNode, rolePromptNotes, type AccessibleElement } from '@/lib/accessibility';
+
+describe('parseAriaNode', () => {
+  it.each([
+    ['- button "Add to cart"', { role: 'button', name: 'Add to cart', states: [] }],
+    ['- checkbox "Remember me" [checked]', { role: 'checkbox', name: 'Remember me', states: ['checked'] }],
+    ['- tab "Reviews" [disabled] [selected]', { role: 'tab', name: 'Reviews', states: ['disabled', 'selected'] }],
+    ['- dialog "Newsletter":\n  - button "Subscribe"', { role: 'dialog', name: 'Newsletter', states: [] }],
+    ['- textbox "Email": ada@example.com', { role: 'textbox', name: 'Email', states: [] }],
+    ['- button', { role: 'button', name: '', states: [] }],
+    [`- 'button "Say \\"hi\\": it''s me"'`, { role: 'button', name: 'Say "hi": it\'s me', states: [] }],
+  ])('reads %s', (snapshot, expected) => {
+    expect(parseAriaNode(snapshot)).toEqual(expected);
+  });
+
+  it('returns null for an empty snapshot', () => {
+    expect(parseAriaNode('')).toBeNull();
+  });
+});
+
+describe('formatAccessibleElements', () => {
+  const elements: AccessibleElement[] = [
+    { role: 'tab', name: 'Reviews', states: ['selected'], visible: true, enabled: true, tag: 'div' },
+    { role: 'button', name: 'Increase quantity', states: [], visible: true, enabled: true, tag: 'button', testId: 'increment', inShadowDom: true },
+    { role: 'button', name: 'Subscribe', states: [], visible: false, enabled: true, tag: 'button' },
+    { role: 'button', name: 'Apply', states: ['disabled'], visible: true, enabled: false, tag: 'button', frameUrl: 'about:srcdoc' },
+  ];
+
+  it('lists role, name, states and where each element lives', () => {
+    expect(formatAccessibleElements(elements).split('\n')).toEqual([
+      '  1. tab "Reviews" [selected]',
+      '  2. button "Increase quantity" (data-testid/data-cy="increment", shadow DOM)',
+      '  3. button "Subscribe" (hidden)',
+      '  4. button "Apply" [disabled] (iframe about:srcdoc)',
+    ]);
+  });
+
+  it('tells Cypress tests how to reach shadow DOM and iframe elements', () => {
+    const notes = rolePromptNotes(elements, 'cypress');
+    expect(notes).toContain('cy.findByRole(');
+    expect(notes).toContain('includeShadowDom');
+    expect(rolePromptNotes(elements, 'playwright')).toContain('page.frameLocator(');
+  });
+});
@@ -0,0 +1,218 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  appOrigin,
+  AuthError,
+  checkAuthRateLimit,
+  checkRateLimit,
+  clientIp,
+  hashPassword,
+  rateLimitKey,
+  redeemLoginLink,
+  requestMagicLink,
+  signInWithPassword,
+  signUp,
+  verifyPassword,
+} from '@/lib/auth';
+import { DatabaseService } from '@/lib/database';
+import { readOutbox, sendMail } from '@/lib/mailer';
+import { GET as getOutbox } from '@/app/api/auth/outbox/route';
+
+const ORIGIN = 'https://testflow.test';
+
+const alice = { id: 'user-1', email: 'alice@example.com', emailVerified: true };
+
+function request(headers: Record<string, string> = {}) {
+  return new Request(`${ORIGIN}/api/jobs`, { headers });
+}
+
+// The token in the last link mailed to `to`
+async function mailedToken(to: string) {
+  const [message] = await readOutbox(to, 1);
+  return message?.text.match(/token=(\S+)/)?.[1];
+}
+
+let outbox: string;
+
+beforeEach(async () => {
+  outbox = await fs.mkdtemp(path.join(os.tmpdir(), 'testflow-outbox-'));
+  vi.stubEnv('MAIL_OUTBOX_DIR', outbox);
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(DatabaseService, 'createLoginToken').mockResolvedValue(undefined);
+  vi.spyOn(DatabaseService, 'createAuthSession').mockResolvedValue(undefined);
+});
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  vi.unstubAllEnvs();
+  await fs.rm(outbox, { recursive: true, force: true });
+});
+
+describe('password hashing', () => {
+  it('verifies the password it hashed and nothing else', async () => {
+    const stored = await hashPassword('correct horse');
+    expect(stored).toMatch(/^scrypt\$/);
+    expect(await verifyPassword('correct horse', stored)).toBe(true);
+    expect(await verifyPassword('wrong horse', stored)).toBe(false);
+    expect(await verifyPassword('correct horse', 'plain')).toBe(false);
+  });
+});
+
+describe('rateLimitKey', () => {
+  it('keys signed-in requests by user and others by the address the trusted proxies forwarded', () => {
+    vi.stubEnv('TRUST_PROXY', '2');
+    const req = request({ 'x-forwarded-for': '203.0.113.7, 10.0.0.1' });
+    expect(rateLimitKey(req, alice)).toBe('user:user-1');
+    expect(rateLimitKey(req, null)).toBe('ip:203.0.113.7');
+  });
+
+  it('keeps addresses a client could have set apart from trusted ones', () => {
+    const spoofed = request({ 'x-forwarded-for': '198.51.100.1, 203.0.113.7', 'x-real-ip': '198.51.100.1' });
+    expect(rateLimitKey(spoofed, null)).toBe('claimed-ip:203.0.113.7');
+    expect(clientIp(spoofed)).toBe('unknown');
+
+    vi.stubEnv('TRUST_PROXY', 'true');
+    expect(rateLimitKey(spoofed, null)).toBe('ip:203.0.113.7');
+  });
+});
+
+describe('checkRateLimit', () => {
+  it('limits each claimed address, under a ceiling they all share', () => {
+    const from = (address: string) => request({ 'x-forwarded-for': address });
+    for (let i = 0; i < 10; i++) expect(checkRateLimit(from('198.51.100.1'), null)).toBeNull();
+    expect(checkRateLimit(from('198.51.100.1'), null)).toBeGreaterThan(Date.now());
+    expect(checkRateLimit(from('198.51.100.2'), null)).toBeNull();
+
+    // Made-up addresses get no further than the shared ceiling of 100
+    for (let i = 3; i < 92; i++) expect(checkRateLimit(from(`198.51.100.${i}`), null)).toBeNull();
+    expect(checkRateLimit(from('198.51.100.200'), null)).toBeGreaterThan(Date.now());
+    expect(checkRateLimit(from('198.51.100.200'), alice)).toBeNull();
+  });
+});
+
+describe('checkAuthRateLimit', () => {
+  it('limits attempts per email address, and per address only behind a trusted proxy', () => {
+    const anyone = request();
+    for (let i = 0; i < 20; i++) expect(checkAuthRateLimit(anyone, 'bob@example.com')).toBeNull();
+    expect(checkAuthRateLimit(anyone, ' Bob@Example.com ')).toBeGreaterThan(Date.now());
+    // Other accounts can still sign in from the same untrusted address
+    expect(checkAuthRateLimit(anyone, alice.email)).toBeNull();
+
+    vi.stubEnv('TRUST_PROXY', '1');
+    const proxied = request({ 'x-forwarded-for': '203.0.113.9' });
+    for (let i = 0; i < 20; i++) expect(checkAuthRateLimit(proxied, `user${i}@example.com`)).toBeNull();
+    expect(checkAuthRateLimit(proxied, 'carol@example.com')).toBeGreaterThan(Date.now());
+  });
+});
+
+describe('appOrigin', () => {
+  it('uses APP_URL, and falls back to the request only outside production', () => {
+    const forged = new Request('https://attacker.test/api/auth/magic-link');
+    expect(appOrigin(forged)).toBe('https://attacker.test');
+
+    vi.stubEnv('APP_URL', 'https://testflow.test/');
+    expect(appOrigin(forged)).toBe(ORIGIN);
+
+    vi.stubEnv('APP_URL', '');
+    vi.stubEnv('NODE_ENV', 'production');
+    expect(() => appOrigin(forged)).toThrow('APP_URL must be set in production');
+  });
+});
+
+describe('signUp', () => {
+  it('mails a verification link and stores only its hash', async () => {
+    vi.spyOn(DatabaseService, 'getUserByEmail').mockResolvedValue(null);
+    const create = vi.spyOn(DatabaseService, 'createUser').mockResolvedValue({ ...alice, emailVerified: false });
+
+    await signUp({ email: alice.email, password: 'correct horse' }, ORIGIN);
+
+    expect(create.mock.calls[0][0].passwordHash).toMatch(/^scrypt\$/);
+    const token = await mailedToken(alice.email);
+    expect(token).toBeTruthy();
+    const stored = vi.mocked(DatabaseService.createLoginToken).mock.calls[0][0];
+    expect(stored).toMatchObject({ userId: 'user-1', purpose: 'verify-email' });
+    expect(stored.tokenHash).not.toBe(token);
+  });
+
+  it('refuses an address that already has an account', async () => {
+    vi.spyOn(DatabaseService, 'getUserByEmail').mockResolvedValue({ user: alice, passwordHash: null });
+
+    await expect(signUp({ email: alice.email, password: 'correct horse' }, ORIGIN))
+      .rejects.toMatchObject({ status: 409 });
+  });
+});
+
+describe('signInWithPassword', () => {
+  it('starts a session with the request metadata for the right password', async () => {
+    vi.spyOn(DatabaseService, 'getUserByEmail').mockResolvedValue({ user: alice, passwordHash: await hashPassword('correct horse') });
+
+    const session = await signInWithPassword({ email: alice.email, password: 'correct horse' }, ORIGIN, { ipAddress: '203.0.113.7' });
+
+    expect(session.user).toEqual(alice);
+    expect(session.token).toBeTruthy();
+    expect(DatabaseService.createAuthSession).toHaveBeenCalledWith(expect.objectContaining({
+      userId: 'user-1',
+      ipAddress: '203.0.113.7',
+    }));
+  });
+
+  it('answers the same for a wrong password and an unknown address', async () => {
+    vi.spyOn(DatabaseService, 'getUserByEmail')
+      .mockResolvedValueOnce({ user: alice, passwordHash: await hashPassword('correct horse') })
+      .mockResolvedValueOnce(null);
+
+    await expect(signInWithPassword({ email: alice.email, password: 'wrong horse' }, ORIGIN, {}))
+      .rejects.toThrow(new AuthError('Wrong email or password', 401));
+    await expect(signInWithPassword({ email: 'bob@example.com', password: 'correct horse' }, ORIGIN, {}))
+      .rejects.toThrow(new AuthError('Wrong email or password', 401));
+    expect(DatabaseService.createAuthSession).not.toHaveBeenCalled();
+  });
+
+  it('resends the verification link to an unverified account', async () => {
+    const unverified = { ...alice, emailVerified: false };
+    vi.spyOn(DatabaseService, 'getUserByEmail').mockResolvedValue({ user: unverified, passwordHash: await hashPassword('correct horse') });
+
+    await expect(signInWithPassword({ email: alice.email, password: 'correct horse' }, ORIGIN, {}))
+      .rejects.toMatchObject({ status: 403 });
+    expect(await mailedToken(alice.email)).toBeTruthy();
+    expect(DatabaseService.createAuthSession).not.toHaveBeenCalled();
+  });
+});
+
+describe('magic links', () => {
+  it('creates a passwordless account for a new address and signs in with the mailed link', async () => {
+    vi.spyOn(DatabaseService, 'getUserByEmail').mockResolvedValue(null);
+    const create = vi.spyOn(DatabaseService, 'createUser').mockResolvedValue({ ...alice, emailVerified: false });
+
+    await requestMagicLink(alice.email, ORIGIN);
+
+    expect(create).toHaveBeenCalledWith({ email: alice.email });
+    const [message] = await readOutbox(alice.email);
+    expect(message.text).toContain(`${ORIGIN}/api/auth/callback?token=`);
+
+    const { tokenHash } = vi.mocked(DatabaseService.createLoginToken).mock.calls[0][0];
+    const consume = vi.spyOn(DatabaseService, 'consumeLoginToken')
+      .mockImplementation(async hash => (hash === tokenHash ? alice : null));
+    const session = await redeemLoginLink((await mailedToken(alice.email))!, {});
+    expect(session?.user).toEqual(alice);
+
+    expect(await redeemLoginLink('made-up', {})).toBeNull();
+    expect(consume).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('outbox route', () => {
+  it('serves mail only to its signed-in recipient unless the outbox is made public', async () => {
+    await sendMail({ to: alice.email, subject: 'Sign in to TestFlow AI', text: 'token=secret' });
+    const outboxRequest = new Request(`${ORIGIN}/api/auth/outbox?to=${alice.email}`);
+
+    const signedOut = await getOutbox(outboxRequest);
+    expect(signedOut.status).toBe(401);
+
+    vi.stubEnv('MAIL_OUTBOX_PUBLIC', '1');
+    const open = await getOutbox(outboxRequest);
+    expect((await open.json()).messages.map((message: { to: string }) => message.to)).toEqual([alice.email]);
+  });
+});
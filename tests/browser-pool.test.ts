@@ -0,0 +1,129 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { Browser, BrowserContext } from 'playwright';
+import { BrowserLaunchError, BrowserPool } from '@/lib/browser-pool';
+
+// Stand-in for a Chromium instance: tracks its open contexts and can "crash"
+class FakeBrowser {
+  openContexts = 0;
+  closed = false;
+  private onDisconnect?: () => void;
+
+  on(event: string, handler: () => void) {
+    if (event === 'disconnected') this.onDisconnect = handler;
+  }
+  isConnected() {
+    return !this.closed;
+  }
+  async newContext() {
+    this.openContexts++;
+    return { close: async () => { this.openContexts--; } } as unknown as BrowserContext;
+  }
+  async close() {
+    if (this.closed) return;
+    this.closed = true;
+    this.onDisconnect?.();
+  }
+  crash() {
+    this.closed = true;
+    this.onDisconnect?.();
+  }
+}
+
+function fakeLauncher() {
+  const launched: FakeBrowser[] = [];
+  const launch = async () => {
+    const browser = new FakeBrowser();
+    launched.push(browser);
+    return browser as unknown as Browser;
+  };
+  return { launched, launch };
+}
+
+const newContext = (browser: Browser) => browser.newContext();
+
+let pool: BrowserPool | undefined;
+
+afterEach(async () => {
+  await pool?.close();
+  vi.restoreAllMocks();
+});
+
+describe('BrowserPool', () => {
+  it('reuses a warm browser and closes each context after use', async () => {
+    const { launched, launch } = fakeLauncher();
+    pool = new BrowserPool({ maxBrowsers: 2 }, launch);
+
+    for (let i = 0; i < 3; i++) {
+      await pool.withContext(newContext, async () => i);
+    }
+
+    expect(launched).toHaveLength(1);
+    expect(launched[0].openContexts).toBe(0);
+    expect(pool.metrics()).toMatchObject({ launches: 1, contextsServed: 3, activeContexts: 0 });
+  });
+
+  it('queues requests beyond maxContexts', async () => {
+    const { launch } = fakeLauncher();
+    pool = new BrowserPool({ maxBrowsers: 2, maxContexts: 2 }, launch);
+
+    let running = 0;
+    let peak = 0;
+    const releases: (() => void)[] = [];
+    const use = () => pool!.withContext(newContext, () => {
+      peak = Math.max(peak, ++running);
+      return new Promise<void>(resolve => releases.push(() => { running--; resolve(); }));
+    });
+
+    const uses = [use(), use(), use(), use()];
+    await vi.waitFor(() => expect(releases).toHaveLength(2));
+    expect(pool.metrics().waiting).toBe(2);
+
+    // Each finished use lets one waiting request in
+    while (releases.length > 0) {
+      releases.shift()!();
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+    await Promise.all(uses);
+    expect(peak).toBe(2);
+    expect(pool.metrics()).toMatchObject({ contextsServed: 4, peakWaiting: 2, waiting: 0 });
+  });
+
+  it('replaces a browser after maxUsesPerBrowser uses', async () => {
+    const { launched, launch } = fakeLauncher();
+    pool = new BrowserPool({ maxUsesPerBrowser: 2 }, launch);
+
+    for (let i = 0; i < 3; i++) {
+      await pool.withContext(newContext, async () => i);
+    }
+
+    expect(launched).toHaveLength(2);
+    expect(launched[0].closed).toBe(true);
+    expect(pool.metrics()).toMatchObject({ recycled: 1, crashes: 0 });
+  });
+
+  it('drops a crashed browser and launches a new one', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const { launched, launch } = fakeLauncher();
+    pool = new BrowserPool({}, launch);
+
+    await pool.withContext(newContext, async () => launched[0].crash());
+    await pool.withContext(newContext, async () => undefined);
+
+    expect(launched).toHaveLength(2);
+    expect(pool.metrics().crashes).toBe(1);
+    expect(pool.health().browsers.map(browser => browser.connected)).toEqual([true]);
+  });
+
+  it('reports launch failures and recovers once Chromium starts', async () => {
+    const { launch } = fakeLauncher();
+    const failing = vi.fn(launch).mockRejectedValueOnce(new Error('Executable doesn\'t exist'));
+    pool = new BrowserPool({}, failing);
+
+    await expect(pool.withContext(newContext, async () => undefined)).rejects.toBeInstanceOf(BrowserLaunchError);
+    expect(pool.health()).toMatchObject({ status: 'degraded', lastError: 'Executable doesn\'t exist' });
+
+    await pool.withContext(newContext, async () => undefined);
+    expect(pool.health().status).toBe('ok');
+    expect(pool.metrics()).toMatchObject({ launches: 1, launchFailures: 1 });
+  });
+});
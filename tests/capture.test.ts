@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import {
+  captureContextOptions,
+  capturePromptNotes,
+  stripViewportSetup,
+  testViewport,
+  withViewportSetup,
+  withViewportSetups,
+} from '@/lib/capture';
+
+const CYPRESS_TEST = "describe('Menu', () => {\n  it('opens', () => {\n    cy.visit('/');\n  });\n});";
+const PLAYWRIGHT_TEST = "import { test, expect } from '@playwright/test';\n\ntest('opens', async ({ page }) => {\n  await page.goto('/');\n});";
+
+describe('captureContextOptions', () => {
+  it('emulates a device, with a custom viewport taking precedence', () => {
+    expect(captureContextOptions({ device: 'iPhone 13', locale: 'fr-FR' })).toMatchObject({
+      viewport: { width: 390, height: 664 },
+      isMobile: true,
+      hasTouch: true,
+      locale: 'fr-FR',
+    });
+    expect(captureContextOptions({ device: 'iPhone 13', viewport: { width: 320, height: 568 } }).viewport)
+      .toEqual({ width: 320, height: 568 });
+  });
+
+  it('keeps the desktop default without options', () => {
+    expect(captureContextOptions()).toEqual({ viewport: { width: 1600, height: 1200 } });
+    expect(testViewport({ waitUntil: 'load' })).toBeNull();
+  });
+});
+
+describe('viewport setup', () => {
+  it('adds a cy.viewport beforeEach once, replacing an earlier copy', () => {
+    const code = withViewportSetup(CYPRESS_TEST, { width: 390, height: 664 }, 'cypress');
+    expect(code).toContain('cy.viewport(390, 664);');
+    expect(code.endsWith(CYPRESS_TEST)).toBe(true);
+
+    const resized = withViewportSetup(code, { width: 768, height: 1024 }, 'cypress');
+    expect(resized.match(/cy\.viewport/g)).toHaveLength(1);
+    expect(resized).toContain('cy.viewport(768, 1024);');
+    expect(stripViewportSetup(resized)).toBe(CYPRESS_TEST);
+  });
+
+  it('puts test.use after the imports of a Playwright spec', () => {
+    const code = withViewportSetup(PLAYWRIGHT_TEST, { width: 390, height: 664 }, 'playwright');
+    const lines = code.split('\n');
+    expect(lines[0]).toBe("import { test, expect } from '@playwright/test';");
+    expect(code.indexOf('test.use({ viewport: { width: 390, height: 664 } });')).toBeGreaterThan(lines[0].length);
+    expect(stripViewportSetup(code)).toBe(PLAYWRIGHT_TEST);
+  });
+
+  it('leaves tests alone for a default desktop capture', () => {
+    const tests = [{ code: CYPRESS_TEST }];
+    expect(withViewportSetups(tests, undefined, 'cypress')).toBe(tests);
+    expect(withViewportSetups(tests, { device: 'Pixel 7' }, 'cypress')[0].code).toContain('cy.viewport(412, 839);');
+  });
+});
+
+describe('capturePromptNotes', () => {
+  it('describes the device and tells the model not to set the viewport', () => {
+    const notes = capturePromptNotes({ device: 'iPhone 13', locale: 'de-DE' }, 'cypress');
+    expect(notes).toContain('iPhone 13 390x664, mobile, touch');
+    expect(notes).toContain('a cy.viewport() setup is added to every test file automatically');
+    expect(notes).toContain('de-DE locale');
+    expect(capturePromptNotes({}, 'cypress')).toBe('');
+  });
+});
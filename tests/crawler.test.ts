@@ -0,0 +1,57 @@
+import fs from 'fs';
+import { chromium } from 'playwright';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { crawlSite, normalizeCrawlUrl } from '@/lib/crawler';
+import { getBrowserPool } from '@/lib/browser-pool';
+import { startFixtureServer, type FixtureServer } from './helpers/fixture-server';
+
+// Browser tests need `npx playwright install chromium`
+const hasChromium = fs.existsSync(chromium.executablePath());
+
+describe('normalizeCrawlUrl', () => {
+  const base = 'https://shop.test/products/';
+
+  it('resolves relative links and drops the hash and trailing slashes', () => {
+    expect(normalizeCrawlUrl('../about/#team', base)).toBe('https://shop.test/about');
+    expect(normalizeCrawlUrl('/', base)).toBe('https://shop.test/');
+    expect(normalizeCrawlUrl('?page=2', base)).toBe('https://shop.test/products?page=2');
+  });
+
+  it('skips other origins, other schemes and files', () => {
+    expect(normalizeCrawlUrl('https://cdn.shop.test/', base)).toBeNull();
+    expect(normalizeCrawlUrl('http://shop.test/', base)).toBeNull();
+    expect(normalizeCrawlUrl('mailto:help@shop.test', base)).toBeNull();
+    expect(normalizeCrawlUrl('javascript:void(0)', base)).toBeNull();
+    expect(normalizeCrawlUrl('/catalog.pdf', base)).toBeNull();
+    expect(normalizeCrawlUrl('/logo.PNG', base)).toBeNull();
+  });
+
+  it('rejects hrefs that are not URLs', () => {
+    expect(normalizeCrawlUrl('http://[bad', base)).toBeNull();
+  });
+});
+
+describe.skipIf(!hasChromium)('crawlSite', () => {
+  let server: FixtureServer;
+
+  beforeAll(async () => {
+    server = await startFixtureServer();
+  });
+
+  afterAll(async () => {
+    await server.close();
+    await getBrowserPool().close();
+  });
+
+  it('stops at the page limit and links each page to its parent', async () => {
+    const { pages, siteMap } = await crawlSite(`${server.url}/index.html`, { maxDepth: 2, maxPages: 2 });
+
+    expect(siteMap.map(node => [node.url, node.depth, node.parent])).toEqual([
+      [`${server.url}/index.html`, 0, undefined],
+      [`${server.url}/about.html`, 1, `${server.url}/index.html`],
+    ]);
+    expect(siteMap[0].links).toEqual([`${server.url}/about.html`, `${server.url}/contact.html`]);
+    // Only the start page is screenshotted
+    expect(pages.map(page => Boolean(page.screenshot))).toEqual([true, false]);
+  });
+});
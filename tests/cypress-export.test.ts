@@ -0,0 +1,113 @@
+import JSZip from 'jszip';
+import { describe, expect, it } from 'vitest';
+import { buildCypressProject, slugify, zipCypressProject, type ExportableSession } from '@/lib/cypress-export';
+import { withViewportSetup } from '@/lib/capture';
+import { withLoginHelper, type LoginRecipe } from '@/lib/login-recipes';
+import { toLocator } from '@/lib/selectors';
+import { CYPRESS_PLUGIN_COMMANDS, validateTestCode } from '@/lib/test-validator';
+
+const session: ExportableSession = {
+  id: 'session-1',
+  url: 'https://shop.test/products?page=2',
+  tests: [
+    { title: 'Adds a product to the cart', code: "describe('Cart', () => {\n  it('adds', () => {});\n});\n", category: 'Cart flows' },
+    { title: 'Shows the product list', code: "describe('List', () => {\n  it('lists', () => {});\n});", category: null },
+    { title: 'Removes a product', code: "describe('Cart', () => {\n  it('removes', () => {});\n});", category: 'Cart flows' },
+  ],
+};
+
+describe('slugify', () => {
+  it('keeps lowercase letters and digits, dash-separated', () => {
+    expect(slugify('Adds a product to the Cart!')).toBe('adds-a-product-to-the-cart');
+    expect(slugify('  --  ')).toBe('test');
+    expect(slugify('x'.repeat(80))).toHaveLength(60);
+  });
+});
+
+describe('buildCypressProject', () => {
+  it('writes one numbered spec per test against the session origin', () => {
+    const files = buildCypressProject(session);
+
+    expect([...files.keys()].filter(path => path.startsWith('cypress/e2e/'))).toEqual([
+      'cypress/e2e/01-adds-a-product-to-the-cart.cy.ts',
+      'cypress/e2e/02-shows-the-product-list.cy.ts',
+      'cypress/e2e/03-removes-a-product.cy.ts',
+    ]);
+    expect(files.get('cypress/e2e/02-shows-the-product-list.cy.ts'))
+      .toBe("// Generated by TestFlow AI from https://shop.test/products?page=2\n\ndescribe('List', () => {\n  it('lists', () => {});\n});\n");
+    expect(files.get('cypress.config.ts')).toContain("baseUrl: 'https://shop.test'");
+    expect(JSON.parse(files.get('package.json')!)).toMatchObject({ name: 'testflow-shop-test', private: true });
+  });
+
+  it('groups tests by category', () => {
+    const files = buildCypressProject(session, { groupBy: 'category' });
+
+    const specs = [...files.keys()].filter(path => path.startsWith('cypress/e2e/'));
+    expect(specs).toEqual(['cypress/e2e/cart-flows.cy.ts', 'cypress/e2e/general.cy.ts']);
+    const cart = files.get('cypress/e2e/cart-flows.cy.ts')!;
+    expect(cart).toContain('// Adds a product to the cart');
+    expect(cart).toContain('// Removes a product');
+  });
+
+  it('declares the login() helper and viewport setup once per grouped spec', () => {
+    const recipe = {
+      origin: 'https://shop.test',
+      loginUrl: 'https://shop.test/login',
+      usernameSelector: '#email',
+      passwordSelector: '#password',
+      submitSelector: 'button[type=submit]',
+      username: { env: 'SHOP_USERNAME' },
+      password: { env: 'SHOP_PASSWORD' },
+    } as LoginRecipe;
+    const tests = session.tests.map(test => ({
+      ...test,
+      code: withViewportSetup(withLoginHelper(test.code, recipe), { width: 390, height: 664 }, 'cypress'),
+    }));
+
+    const cart = buildCypressProject({ ...session, tests }, { groupBy: 'category' }).get('cypress/e2e/cart-flows.cy.ts')!;
+
+    expect(cart.match(/function login\(\)/g)).toHaveLength(1);
+    expect(cart.match(/cy\.viewport\(390, 664\)/g)).toHaveLength(1);
+    expect(cart.indexOf('function login()')).toBeLessThan(cart.indexOf('// Adds a product to the cart'));
+    expect(cart).toContain("// Removes a product\ndescribe('Cart', () => {\n  it('removes', () => {});\n});\n");
+  });
+
+  it('documents the Cypress env keys the tests sign in with', () => {
+    const readme = buildCypressProject(session, { env: ['SHOP_USERNAME', 'SHOP_PASSWORD'] }).get('README.md')!;
+    expect(readme).toContain('CYPRESS_SHOP_USERNAME=... CYPRESS_SHOP_PASSWORD=... npx cypress run');
+    expect(buildCypressProject(session).get('README.md')).not.toContain('CYPRESS_');
+  });
+});
+
+describe('project dependencies', () => {
+  it('install and load every plugin whose commands generated tests may use', () => {
+    const files = buildCypressProject(session);
+    const { devDependencies } = JSON.parse(files.get('package.json')!);
+    const support = files.get('cypress/support/e2e.ts')!;
+    const { compilerOptions } = JSON.parse(files.get('cypress/tsconfig.json')!);
+
+    for (const pkg of Object.keys(CYPRESS_PLUGIN_COMMANDS)) {
+      expect(devDependencies[pkg]).toBeDefined();
+      expect(support).toContain(`import '${pkg}/`);
+      expect(compilerOptions.types).toContain(pkg);
+    }
+  });
+
+  it('cover the role queries the selector hints suggest', () => {
+    const code = `cy.visit('/');\n${toLocator({ strategy: 'role', selector: 'button', text: 'Add to cart', score: 90 }, 'cypress')}.click();`;
+
+    expect(code).toContain("cy.findByRole('button'");
+    expect(validateTestCode(code)).toEqual([]);
+    expect(Object.values(CYPRESS_PLUGIN_COMMANDS).flat()).toContain('findByRole');
+  });
+});
+
+describe('zipCypressProject', () => {
+  it('zips every project file', async () => {
+    const zip = await JSZip.loadAsync(await zipCypressProject(session));
+    const paths = Object.keys(zip.files).filter(path => !zip.files[path].dir);
+
+    expect(paths.sort()).toEqual([...buildCypressProject(session).keys()].sort());
+    expect(await zip.file('cypress/support/e2e.ts')!.async('string')).toContain("import '@testing-library/cypress/add-commands';");
+  });
+});
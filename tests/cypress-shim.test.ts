@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { checkValue, createExpect, matchesUrl, normalizeChainer, toPlaywrightSelector } from '@/lib/cypress-shim';
+
+describe('matchesUrl', () => {
+  it('matches a path against the path and query, and a glob against the whole URL', () => {
+    expect(matchesUrl('https://shop.test/api/products?page=2', '/api/products?page=2')).toBe(true);
+    expect(matchesUrl('https://shop.test/api/products?page=2', '/api/products')).toBe(true);
+    expect(matchesUrl('https://shop.test/api/products/42', '/api/products')).toBe(false);
+    expect(matchesUrl('https://shop.test/api/products/42', '**/api/products/*')).toBe(true);
+    expect(matchesUrl('https://shop.test/api/products/42/reviews', '/api/products/*')).toBe(false);
+    expect(matchesUrl('https://shop.test/api/products/42/reviews', '/api/**')).toBe(true);
+  });
+
+  it('tests a RegExp against the whole URL', () => {
+    expect(matchesUrl('https://shop.test/api/cart', /\/api\/cart$/)).toBe(true);
+    expect(matchesUrl('https://shop.test/api/cart/items', /\/api\/cart$/)).toBe(false);
+  });
+});
+
+describe('normalizeChainer', () => {
+  it('drops connector words and notes negation', () => {
+    expect(normalizeChainer('to.be.visible')).toEqual({ negate: false, key: 'visible' });
+    expect(normalizeChainer('not.have.length.greaterThan')).toEqual({ negate: true, key: 'length.greaterThan' });
+    expect(normalizeChainer('deep.equal')).toEqual({ negate: false, key: 'equal' });
+  });
+});
+
+describe('checkValue', () => {
+  it('returns null for a passing assertion and a message for a failing one', () => {
+    expect(checkValue('Cart (2)', 'include', ['Cart'])).toBeNull();
+    expect(checkValue([1, 2, 3], 'length', [3])).toBeNull();
+    expect(checkValue({ a: 1 }, 'eql', [{ a: 1 }])).toBeNull();
+    expect(checkValue(5, 'within', [1, 10])).toBeNull();
+    expect(checkValue('Cart', 'equal', ['Basket'])).toBe("expected 'Cart' to equal 'Basket'");
+    expect(checkValue([1], 'length.greaterThan', [2])).toBe('expected [1] to length greaterThan 2');
+  });
+
+  it('throws on assertions it does not know', () => {
+    expect(() => checkValue(1, 'satisfy', [() => true])).toThrow('Unsupported assertion: satisfy');
+  });
+});
+
+// What createExpect()'s proxy chains look like to test code
+type Chain = { [word: string]: Chain } & ((...args: unknown[]) => Chain);
+
+describe('createExpect', () => {
+  const chaiExpect = createExpect() as (value: unknown) => Chain;
+
+  it('supports method and getter assertions, negated or not', () => {
+    expect(() => chaiExpect(3).to.equal(3)).not.toThrow();
+    expect(() => chaiExpect([]).to.be.empty).not.toThrow();
+    expect(() => chaiExpect('a').to.not.equal('b')).not.toThrow();
+    expect(() => chaiExpect(null).to.exist).toThrow('expected null to exist');
+    expect(() => chaiExpect(3).to.not.equal(3)).toThrow('expected 3 not to equal');
+  });
+});
+
+describe('toPlaywrightSelector', () => {
+  it('rewrites jQuery :contains() to :has-text()', () => {
+    expect(toPlaywrightSelector("button:contains('Add to cart')")).toBe('button:has-text("Add to cart")');
+    expect(toPlaywrightSelector('#checkout')).toBe('#checkout');
+  });
+});
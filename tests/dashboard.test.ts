@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { buildDashboard, windowStart, type DashboardData } from '@/lib/dashboard';
+
+const now = new Date('2025-03-10T15:00:00Z');
+
+function data(overrides: Partial<DashboardData> = {}): DashboardData {
+  return {
+    totals: { totalSessions: 0, totalTests: 0, uniqueUrls: 0, totalRuns: 0, projects: 0 },
+    testDates: [],
+    runs: [],
+    generations: [],
+    sessions: [],
+    ...overrides,
+  };
+}
+
+describe('buildDashboard', () => {
+  it('counts tests per UTC day across the whole window', () => {
+    const { testsPerDay } = buildDashboard(data({
+      testDates: [new Date('2025-03-08T23:59:00Z'), new Date('2025-03-10T00:00:00Z'), new Date('2025-03-10T14:00:00Z')],
+    }), 3, now);
+
+    expect(windowStart(3, now)).toEqual(new Date('2025-03-08T00:00:00Z'));
+    expect(testsPerDay).toEqual([
+      { date: '2025-03-08', count: 1 },
+      { date: '2025-03-09', count: 0 },
+      { date: '2025-03-10', count: 2 },
+    ]);
+  });
+
+  it('counts tests that both passed and failed as flaky', () => {
+    const { totals } = buildDashboard(data({
+      runs: [
+        { testId: 'a', status: 'passed' }, { testId: 'a', status: 'failed' },
+        { testId: 'b', status: 'passed' }, { testId: 'b', status: 'error' },
+        { testId: 'c', status: 'failed' }, { testId: 'c', status: 'failed' },
+        { testId: 'd', status: 'passed' }, { testId: 'd', status: 'skipped' },
+      ],
+    }), 30, now);
+    expect(totals.flakyTests).toBe(2);
+  });
+
+  it('breaks generation outcomes down by model, busiest first', () => {
+    const { models } = buildDashboard(data({
+      generations: [
+        { provider: 'ollama', model: 'llama3.1', status: 'succeeded' },
+        { provider: 'openai', model: 'gpt-4o', status: 'succeeded' },
+        { provider: 'openai', model: 'gpt-4o', status: 'succeeded' },
+        { provider: 'openai', model: 'gpt-4o', status: 'parse-failed' },
+      ],
+    }), 30, now);
+
+    expect(models).toEqual([
+      { provider: 'openai', model: 'gpt-4o', total: 3, succeeded: 2, parseFailed: 1, failed: 0, successRate: 66.7, parseFailureRate: 33.3 },
+      { provider: 'ollama', model: 'llama3.1', total: 1, succeeded: 1, parseFailed: 0, failed: 0, successRate: 100, parseFailureRate: 0 },
+    ]);
+  });
+
+  it('ranks URLs and recent scans by their latest session', () => {
+    const { topUrls, recentPages } = buildDashboard(data({
+      sessions: [
+        { url: 'https://b.test/', createdAt: new Date('2025-03-10T10:00:00Z'), testCount: 3 },
+        { url: 'https://a.test/', createdAt: new Date('2025-03-09T10:00:00Z'), testCount: 5 },
+        { url: 'https://b.test/', createdAt: new Date('2025-03-08T10:00:00Z'), testCount: 2 },
+      ],
+    }), 30, now);
+
+    expect(topUrls).toEqual([{ url: 'https://a.test/', testCount: 5 }, { url: 'https://b.test/', testCount: 3 }]);
+    expect(recentPages.map(page => page.url)).toEqual(['https://b.test/', 'https://a.test/']);
+  });
+});
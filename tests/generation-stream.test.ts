@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { encodeEvent, readEventStream, StreamingTestParser, type GenerationEvent } from '@/lib/generation-stream';
+import { loadResponse } from './helpers/recorded-provider';
+
+function chunks(text: string, size: number): string[] {
+  const result: string[] = [];
+  for (let i = 0; i < text.length; i += size) result.push(text.slice(i, i + size));
+  return result;
+}
+
+describe('StreamingTestParser', () => {
+  it('yields each test as soon as its object closes', () => {
+    const parser = new StreamingTestParser();
+    const text = loadResponse('valid.json').text;
+    const secondStart = text.indexOf('{', text.indexOf('"title": "Navigates'));
+
+    // Everything up to the second test: only the first one is complete
+    const first = parser.push(text.slice(0, text.lastIndexOf('{', secondStart)));
+    expect(first.map(test => test.title)).toEqual(['Adds a product to the cart']);
+
+    const rest = parser.push(text.slice(text.lastIndexOf('{', secondStart)));
+    expect(rest.map(test => test.title)).toEqual(['Navigates to the about page']);
+  });
+
+  it('is not confused by braces and quotes inside strings', () => {
+    const parser = new StreamingTestParser();
+    const tests = chunks(loadResponse('fenced.txt').text, 7).flatMap(chunk => parser.push(chunk));
+    expect(tests).toHaveLength(1);
+    expect(tests[0].code).toContain("describe('Home', () => {");
+  });
+
+  it('ignores objects after the tests array', () => {
+    const parser = new StreamingTestParser();
+    expect(parser.push('{"tests": [], "meta": {"title": "not a test"}}')).toEqual([]);
+  });
+});
+
+describe('readEventStream', () => {
+  it('decodes events split across chunks', async () => {
+    const events: GenerationEvent[] = [
+      { type: 'stage', stage: 'generating', source: 'general', message: 'Waiting for the model...' },
+      { type: 'tokens', source: 'general', tokens: 12, attempt: 1 },
+      { type: 'done' },
+    ];
+    const body = new TextEncoder().encode(events.map(encodeEvent).join(''));
+    const stream = new ReadableStream({
+      start(controller) {
+        for (let i = 0; i < body.length; i += 5) controller.enqueue(body.slice(i, i + 5));
+        controller.close();
+      },
+    });
+
+    const received: GenerationEvent[] = [];
+    await readEventStream(new Response(stream), event => received.push(event));
+    expect(received).toEqual(events);
+  });
+});
@@ -0,0 +1,34 @@
+// Static server for the HTML fixture pages (and the JSON they fetch) used by the end-to-end tests
+import fs from 'fs';
+import http from 'http';
+import path from 'path';
+import type { AddressInfo } from 'net';
+
+const PAGES_DIR = path.resolve(__dirname, '../fixtures/pages');
+
+export interface FixtureServer {
+  url: string; // origin, without a trailing slash
+  close: () => Promise<void>;
+}
+
+export async function startFixtureServer(): Promise<FixtureServer> {
+  const server = http.createServer((req, res) => {
+    const pathname = new URL(req.url || '/', 'http://localhost').pathname;
+    const file = path.join(PAGES_DIR, pathname === '/' ? 'index.html' : path.normalize(pathname));
+    if (!file.startsWith(PAGES_DIR) || !fs.existsSync(file)) {
+      res.writeHead(404, { 'Content-Type': 'text/plain' });
+      res.end('Not found');
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': file.endsWith('.json') ? 'application/json' : 'text/html; charset=utf-8' });
+    fs.createReadStream(file).pipe(res);
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    close: () => new Promise(resolve => server.close(() => resolve())),
+  };
+}
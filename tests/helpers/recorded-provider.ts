@@ -0,0 +1,59 @@
+// LLM provider that replays recorded model replies instead of calling a model
+import fs from 'fs';
+import path from 'path';
+import type { JSONSchemaFormat, LLMContent, LLMProvider, LLMProviderName, LLMRequest } from '@/lib/llm';
+
+const RESPONSES_DIR = path.resolve(__dirname, '../fixtures/responses');
+const STREAM_CHUNK_SIZE = 40;
+
+export interface RecordedResponse {
+  text: string;
+  finishReason?: string;
+}
+
+export function loadResponse(name: string, finishReason: string = 'stop'): RecordedResponse {
+  return { text: fs.readFileSync(path.join(RESPONSES_DIR, name), 'utf8'), finishReason };
+}
+
+function promptText(content: LLMContent): string {
+  if (typeof content === 'string') return content;
+  return content.map(part => (part.type === 'text' ? part.text : '')).join('\n');
+}
+
+export class RecordedProvider implements LLMProvider {
+  readonly defaultModel = 'recorded';
+  readonly supportsJsonSchema = true;
+  readonly prompts: string[] = [];
+  readonly contents: LLMContent[] = [];
+  readonly models: string[] = [];
+  readonly temperatures: number[] = [];
+  readonly schemas: (JSONSchemaFormat | undefined)[] = [];
+  private readonly responses: RecordedResponse[];
+
+  constructor(responses: RecordedResponse[], readonly name: LLMProviderName = 'openai') {
+    this.responses = [...responses];
+  }
+
+  async complete(request: LLMRequest) {
+    this.prompts.push(promptText(request.content));
+    this.contents.push(request.content);
+    this.models.push(request.model);
+    this.temperatures.push(request.temperature);
+    this.schemas.push(request.schema);
+
+    const next = this.responses.shift();
+    if (!next) throw new Error('No recorded response left');
+
+    // Replay the reply in small chunks, like a streamed completion
+    if (request.onDelta) {
+      for (let i = 0; i < next.text.length; i += STREAM_CHUNK_SIZE) {
+        request.onDelta(next.text.slice(i, i + STREAM_CHUNK_SIZE));
+      }
+    }
+    return {
+      text: next.text,
+      finishReason: next.finishReason || 'stop',
+      usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+    };
+  }
+}
@@ -0,0 +1,159 @@
+import fs from 'fs';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DatabaseService } from '@/lib/database';
+import { mergeNewTests, runScanJob, startScanWorker, submitScanJob, type ScanJob, type ScanJobUpdate } from '@/lib/jobs';
+import { registerProvider, resetProviders } from '@/lib/llm';
+import { loadResponse, RecordedProvider } from './helpers/recorded-provider';
+
+const recordedSnapshot = JSON.parse(
+  fs.readFileSync(path.resolve(__dirname, 'fixtures/snapshots/index.json'), 'utf8')
+);
+
+// The page is "captured" from the recorded snapshot, so no browser is needed
+const snapshotRelease: ((error?: Error) => void)[] = [];
+vi.mock('@/lib/snapshot', async importOriginal => ({
+  ...await importOriginal<typeof import('@/lib/snapshot')>(),
+  captureSnapshot: vi.fn(() => new Promise((resolve, reject) => {
+    snapshotRelease.push(error => (error ? reject(error) : resolve(recordedSnapshot)));
+  })),
+}));
+
+function queuedJob(id: string): ScanJob {
+  const now = new Date();
+  return {
+    id,
+    url: 'http://127.0.0.1:3000/index.html',
+    status: 'snapshotting',
+    options: { userDescription: '', framework: 'cypress', selfHeal: false, llm: {} },
+    progress: 0,
+    preview: [],
+    attempts: 1,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+// Records every update a job makes, in order
+function trackUpdates() {
+  const updates: Record<string, ScanJobUpdate[]> = {};
+  vi.spyOn(DatabaseService, 'updateScanJob').mockImplementation(async (id, update) => {
+    (updates[id] ??= []).push(update);
+  });
+  return updates;
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  resetProviders();
+  snapshotRelease.length = 0;
+});
+
+describe('mergeNewTests', () => {
+  it('appends only tests that are not already saved for the same page', () => {
+    const previous = [{ title: 'Loads', pageUrl: '/a' }, { title: 'Submits' }];
+    const fresh = [{ title: 'Loads', pageUrl: '/a' }, { title: 'Loads', pageUrl: '/b' }, { title: 'Submits' }];
+
+    const { tests, added } = mergeNewTests(previous, fresh);
+    expect(added).toBe(1);
+    expect(tests).toEqual([...previous, { title: 'Loads', pageUrl: '/b' }]);
+  });
+});
+
+describe('runScanJob', () => {
+  it('generates, merges with the previous session and records the result', async () => {
+    registerProvider(new RecordedProvider([loadResponse('valid.json'), loadResponse('valid.json')]));
+    const updates = trackUpdates();
+    vi.spyOn(DatabaseService, 'getLatestTestsForUrl').mockResolvedValue({
+      sessionId: 'previous',
+      url: 'http://127.0.0.1:3000/index.html',
+      tests: [{ title: 'Adds a product to the cart' }],
+      summary: '',
+      timestamp: 0,
+    } as Awaited<ReturnType<typeof DatabaseService.getLatestTestsForUrl>>);
+    const save = vi.spyOn(DatabaseService, 'saveTestSession').mockResolvedValue({ sessionId: 'saved', testCount: 3 });
+    const record = vi.spyOn(DatabaseService, 'recordGeneration').mockResolvedValue({ recordId: 'record' });
+
+    const run = runScanJob(queuedJob('job-1'));
+    await vi.waitFor(() => expect(snapshotRelease).toHaveLength(1));
+    snapshotRelease[0]();
+    await run;
+
+    const statuses = updates['job-1'].map(update => update.status).filter(Boolean);
+    expect(statuses[0]).toBe('snapshotting');
+    expect(statuses).toContain('generating');
+    expect(statuses.at(-1)).toBe('done');
+
+    // Both generations return the same two titles; only the one not saved before is new
+    const [, savedTests] = save.mock.calls[0];
+    expect(savedTests.map(test => test.title)).toEqual([
+      'Adds a product to the cart',
+      'Navigates to the about page',
+      'Navigates to the about page',
+    ]);
+    expect(updates['job-1'].at(-1)).toMatchObject({
+      sessionId: 'saved',
+      result: { general: 2, elements: 2, added: 2 },
+    });
+    expect(record.mock.calls.map(([data]) => data)).toEqual(expect.arrayContaining([
+      expect.objectContaining({ jobId: 'job-1', source: 'general', provider: 'openai', model: 'recorded', status: 'succeeded', testCount: 2 }),
+      expect.objectContaining({ jobId: 'job-1', source: 'elements', status: 'succeeded', testCount: 2 }),
+    ]));
+  });
+
+  it('fails the job without saving when generation fails', async () => {
+    // Enough unparseable replies for every retry of both generations
+    registerProvider(new RecordedProvider(Array.from({ length: 5 }, () => loadResponse('malformed.txt'))));
+    const updates = trackUpdates();
+    const save = vi.spyOn(DatabaseService, 'saveTestSession');
+    const record = vi.spyOn(DatabaseService, 'recordGeneration').mockResolvedValue({ recordId: 'record' });
+
+    const run = runScanJob(queuedJob('job-2'));
+    await vi.waitFor(() => expect(snapshotRelease).toHaveLength(1));
+    snapshotRelease[0]();
+    await run;
+
+    expect(save).not.toHaveBeenCalled();
+    expect(updates['job-2'].at(-1)).toMatchObject({ status: 'failed' });
+    expect(record.mock.calls.map(([data]) => [data.source, data.status])).toEqual(expect.arrayContaining([
+      ['general', 'parse-failed'],
+      ['elements', 'parse-failed'],
+    ]));
+  });
+});
+
+describe('scan worker', () => {
+  it('resumes interrupted jobs on start and runs at most SCAN_CONCURRENCY at once', async () => {
+    vi.stubEnv('SCAN_CONCURRENCY', '2');
+    trackUpdates();
+    const requeue = vi.spyOn(DatabaseService, 'requeueInterruptedScanJobs').mockResolvedValue({ requeued: 2, failed: 0 });
+    const queue = ['job-a', 'job-b'];
+    const claim = vi.spyOn(DatabaseService, 'claimNextScanJob')
+      .mockImplementation(async () => (queue.length ? queuedJob(queue.shift()!) : null));
+    vi.spyOn(DatabaseService, 'createScanJob').mockImplementation(async url => {
+      queue.push('job-c');
+      return { ...queuedJob('job-c'), url, status: 'queued' };
+    });
+
+    await startScanWorker();
+    expect(requeue).toHaveBeenCalledWith(3);
+    await vi.waitFor(() => expect(snapshotRelease).toHaveLength(2));
+
+    // A third job waits for a free slot
+    await submitScanJob('http://127.0.0.1:3000/index.html', queuedJob('job-c').options);
+    expect(queue).toEqual(['job-c']);
+    expect(snapshotRelease).toHaveLength(2);
+
+    // The first job failing frees its slot
+    snapshotRelease[0](new Error('Page did not load'));
+    await vi.waitFor(() => expect(snapshotRelease).toHaveLength(3));
+    expect(queue).toEqual([]);
+    expect(claim.mock.calls.length).toBeGreaterThanOrEqual(3);
+    vi.unstubAllEnvs();
+  });
+});
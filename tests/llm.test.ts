@@ -0,0 +1,145 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { generateJSON, getProvider, LLMParseError, registerProvider, resetProviders, tryParseJSON } from '@/lib/llm';
+import { TEST_SUITE_SCHEMA } from '@/lib/test-schema';
+import { loadResponse, RecordedProvider } from './helpers/recorded-provider';
+
+describe('tryParseJSON', () => {
+  it('parses a plain JSON reply', () => {
+    const result = tryParseJSON('{"summary": "Shop", "tests": [{"title": "Loads"}]}');
+    expect(result.success).toBe(true);
+    expect(result.data?.tests).toEqual([{ title: 'Loads' }]);
+  });
+
+  it('extracts JSON from a code-fenced reply with surrounding prose', () => {
+    const result = tryParseJSON(loadResponse('fenced.txt').text);
+    expect(result.success).toBe(true);
+    expect(result.data?.summary).toBe('Shop page tests');
+    expect(result.data?.tests).toHaveLength(1);
+  });
+
+  it('does not patch up trailing commas or a reply that was cut off', () => {
+    expect(tryParseJSON('{"summary": "Shop", "tests": [],}').success).toBe(false);
+    expect(tryParseJSON(loadResponse('truncated.txt').text).success).toBe(false);
+    expect(tryParseJSON(loadResponse('truncated-tests.txt').text).success).toBe(false);
+  });
+
+  it('rejects malformed JSON and replies that are not objects', () => {
+    expect(tryParseJSON(loadResponse('malformed.txt').text).success).toBe(false);
+    expect(tryParseJSON('[{"title": "Loads"}]')).toEqual({ success: false, error: 'Reply is not a JSON object' });
+  });
+
+  it('leaves a missing tests array missing', () => {
+    expect(tryParseJSON('{"summary": "Nothing to test"}').data).toEqual({ summary: 'Nothing to test' });
+  });
+});
+
+describe('generateJSON', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    resetProviders();
+  });
+
+  it('retries with the strict suffix and a lower temperature after an unparseable reply', async () => {
+    const provider = new RecordedProvider([loadResponse('malformed.txt'), loadResponse('valid.json')]);
+    registerProvider(provider);
+
+    const pending = generateJSON('Generate tests', { strictSuffix: 'JSON ONLY' });
+    await vi.runAllTimersAsync();
+    const data = await pending;
+
+    expect(data.tests).toHaveLength(2);
+    expect(provider.prompts).toEqual(['Generate tests', 'Generate tests\n\nJSON ONLY']);
+    expect(provider.temperatures).toEqual([0.7, 0.3]);
+  });
+
+  it('asks again for a reply that was cut off at the token limit', async () => {
+    const provider = new RecordedProvider([loadResponse('truncated.txt', 'length'), loadResponse('valid.json')]);
+    registerProvider(provider);
+
+    const pending = generateJSON('Generate tests');
+    await vi.runAllTimersAsync();
+
+    expect((await pending).tests).toHaveLength(2);
+    expect(provider.prompts).toHaveLength(2);
+  });
+
+  it('asks again for a reply without the properties the schema requires', async () => {
+    const provider = new RecordedProvider([{ text: '{"summary": "Shop"}' }, loadResponse('valid.json')]);
+    registerProvider(provider);
+
+    const pending = generateJSON('Generate tests', { schema: TEST_SUITE_SCHEMA });
+    await vi.runAllTimersAsync();
+
+    expect((await pending).tests).toHaveLength(2);
+    expect(provider.schemas).toEqual([TEST_SUITE_SCHEMA, TEST_SUITE_SCHEMA]);
+  });
+
+  it('throws LLMParseError with the last reply once the retries are used up', async () => {
+    const provider = new RecordedProvider([loadResponse('malformed.txt'), loadResponse('truncated-tests.txt', 'length')]);
+    registerProvider(provider);
+
+    const pending = generateJSON('Generate tests', { maxRetries: 2 });
+    const assertion = expect(pending).rejects.toSatisfy(
+      (err: unknown) => err instanceof LLMParseError && err.rawResponse === loadResponse('truncated-tests.txt').text
+    );
+    await vi.runAllTimersAsync();
+    await assertion;
+    expect(provider.prompts).toHaveLength(2);
+  });
+});
+
+describe('OpenAI-compatible provider', () => {
+  const schema = { name: 'reply', schema: { type: 'object' } };
+  let bodies: Record<string, unknown>[];
+
+  // Answers like a server without structured output: 400 for response_format, `reject` for anything else
+  function useServer(reject?: { message: string; param: string }) {
+    bodies = [];
+    vi.stubGlobal('fetch', vi.fn(async (_url: string, init: RequestInit) => {
+      const body = JSON.parse(init.body as string);
+      bodies.push(body);
+      const error = body.response_format ? { message: 'response_format json_schema is not supported', param: 'response_format' } : reject;
+      if (error) return Response.json({ error }, { status: 400 });
+      return Response.json({ choices: [{ message: { role: 'assistant', content: '{"ok": true}' }, finish_reason: 'stop' }] });
+    }));
+  }
+
+  beforeEach(() => {
+    vi.stubEnv('OPENAI_API_KEY', 'sk-test');
+    vi.stubEnv('OPENAI_BASE_URL', 'http://llm.test/v1');
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    resetProviders();
+  });
+
+  it('drops a rejected response_format for that call only', async () => {
+    useServer();
+    const provider = getProvider('openai');
+
+    await provider.complete({ model: 'm', content: 'Hi', temperature: 0, maxTokens: 10, schema });
+    await provider.complete({ model: 'm', content: 'Hi', temperature: 0, maxTokens: 10, schema });
+
+    expect(bodies.map(body => Boolean(body.response_format))).toEqual([true, false, true, false]);
+    expect(provider.supportsJsonSchema).toBe(true);
+  });
+
+  it('does not retry other bad requests', async () => {
+    useServer({ message: 'max_tokens is too large', param: 'max_tokens' });
+
+    await expect(getProvider('openai').complete({ model: 'm', content: 'Hi', temperature: 0, maxTokens: 10, schema }))
+      .rejects.toThrow('max_tokens is too large');
+    expect(bodies).toHaveLength(2);
+  });
+});
@@ -0,0 +1,118 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { findLoginRecipe, loadLoginRecipes, redactSecrets, stripLoginHelper, withLoginHelper, type LoginRecipe } from '@/lib/login-recipes';
+import { runInSandbox } from '@/lib/test-runner';
+
+const db = vi.hoisted(() => ({ available: true }));
+
+vi.mock('@/lib/database', async importOriginal => ({
+  ...await importOriginal<typeof import('@/lib/database')>(),
+  get isDatabaseAvailable() {
+    return db.available;
+  },
+}));
+
+const recipe = {
+  origin: 'https://shop.test',
+  owner: 'Ada@Example.com',
+  loginUrl: '/login',
+  usernameSelector: '#email',
+  passwordSelector: '#password',
+  submitSelector: 'button[type=submit]',
+  username: { env: 'SHOP_USERNAME' },
+  password: { env: 'SHOP_PASSWORD' },
+};
+
+let dir: string;
+
+function writeRecipes(recipes: unknown[]) {
+  fs.writeFileSync(path.join(dir, 'login-recipes.json'), JSON.stringify({ recipes }));
+}
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'testflow-recipes-'));
+  vi.stubEnv('LOGIN_RECIPES_FILE', path.join(dir, 'login-recipes.json'));
+  db.available = true;
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('loadLoginRecipes', () => {
+  it('resolves the login URL against the origin and lowercases the owner', () => {
+    writeRecipes([recipe]);
+    expect(loadLoginRecipes()).toEqual([
+      expect.objectContaining({ origin: 'https://shop.test', owner: 'ada@example.com', loginUrl: 'https://shop.test/login' }),
+    ]);
+  });
+
+  it('rejects an owner that is not an email address', () => {
+    writeRecipes([{ ...recipe, owner: 'ada' }]);
+    expect(() => loadLoginRecipes()).toThrow('Login recipe 1: owner must be the email address of an account');
+  });
+});
+
+describe('findLoginRecipe', () => {
+  const url = 'https://shop.test/account/orders';
+
+  it('only gives a recipe to its verified owner', () => {
+    writeRecipes([recipe]);
+
+    expect(findLoginRecipe(url, { email: 'ada@example.com', emailVerified: true })?.owner).toBe('ada@example.com');
+    expect(findLoginRecipe(url, { email: 'ada@example.com', emailVerified: false })).toBeNull();
+    expect(findLoginRecipe(url, { email: 'eve@example.com', emailVerified: true })).toBeNull();
+    expect(findLoginRecipe(url, null)).toBeNull();
+    expect(findLoginRecipe('https://other.test/', { email: 'ada@example.com', emailVerified: true })).toBeNull();
+  });
+
+  it('applies a recipe without an owner only when there are no accounts', () => {
+    writeRecipes([{ ...recipe, owner: undefined }]);
+
+    expect(findLoginRecipe(url, { email: 'ada@example.com', emailVerified: true })).toBeNull();
+    db.available = false;
+    expect(findLoginRecipe(url, null)?.origin).toBe('https://shop.test');
+  });
+});
+
+describe('redactSecrets', () => {
+  it('replaces the resolved credentials and skips the ones that are not set', () => {
+    vi.stubEnv('SHOP_PASSWORD', 'hunter2');
+    vi.stubEnv('SHOP_USERNAME', '');
+
+    expect(redactSecrets('Typed hunter2 into #password, then hunter2 again', recipe as LoginRecipe))
+      .toBe('Typed [redacted] into #password, then [redacted] again');
+  });
+});
+
+describe('stripLoginHelper', () => {
+  it('removes the helper withLoginHelper added', () => {
+    writeRecipes([recipe]);
+    const code = "describe('Orders', () => {\n  it('lists', () => {});\n});";
+
+    const withHelper = withLoginHelper(code, loadLoginRecipes()[0]);
+    expect(withHelper).toContain('function login()');
+    expect(stripLoginHelper(withHelper)).toBe(code);
+  });
+});
+
+describe('runInSandbox with a signed-in session', () => {
+  it('gives the test code a no-op login() and no Cypress env', async () => {
+    vi.stubEnv('SHOP_PASSWORD', 'hunter2');
+    const code = 'throw new Error(JSON.stringify({ env: Cypress.env(), password: Cypress.env("SHOP_PASSWORD") ?? null, login: login() ?? null }));';
+
+    const reply = await runInSandbox({
+      code,
+      targetUrl: 'https://shop.test/',
+      framework: 'cypress',
+      wsEndpoint: 'ws://127.0.0.1:9/',
+      testTimeoutMs: 1000,
+      storageState: { cookies: [], origins: [] },
+    }, 20000);
+
+    expect(JSON.parse((reply as { error: string }).error)).toEqual({ env: {}, password: null, login: null });
+  }, 30000);
+});
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { describeJsonShape, formatApiCalls, urlPattern } from '@/lib/network';
+import { matchesUrl } from '@/lib/cypress-shim';
+
+describe('urlPattern', () => {
+  it('replaces ids in the path and drops the query', () => {
+    expect(urlPattern('https://shop.test/api/products/42?ref=home')).toBe('/api/products/*');
+    expect(urlPattern('https://shop.test/api/orders/3f2b9c1e-7d4a-4b8e-9a1f-0c2d3e4f5a6b/items')).toBe('/api/orders/*/items');
+    expect(urlPattern('https://shop.test/api/v2/search')).toBe('/api/v2/search');
+  });
+});
+
+describe('describeJsonShape', () => {
+  it('summarizes objects and arrays by their first item', () => {
+    expect(describeJsonShape({ items: [{ id: 1, title: 'Mug' }], total: 1, next: null, 'x-tag': true }))
+      .toBe('{ items: { id: number, title: string }[], total: number, next: null, "x-tag": boolean }');
+    expect(describeJsonShape([])).toBe('unknown[]');
+  });
+
+  it('stops at nested objects three levels down', () => {
+    expect(describeJsonShape({ a: { b: { c: { d: 1 } } } })).toBe('{ a: { b: { c: object } } }');
+  });
+});
+
+describe('formatApiCalls', () => {
+  it('lists each call with its query parameters and body shapes', () => {
+    expect(formatApiCalls([
+      { method: 'GET', url: 'https://shop.test/api/products?page=2', pattern: '/api/products', query: ['page'], status: 200, contentType: 'application/json', responseShape: '{ items: unknown[] }' },
+      { method: 'POST', url: 'https://shop.test/api/cart', pattern: '/api/cart', status: 201, requestShape: '{ productId: number }' },
+    ])).toBe([
+      '  1. GET /api/products?page= -> 200 application/json (e.g. /api/products?page=2)',
+      '     response body: { items: unknown[] }',
+      '  2. POST /api/cart -> 201 (e.g. /api/cart)',
+      '     request body: { productId: number }',
+    ].join('\n'));
+  });
+});
+
+describe('matchesUrl', () => {
+  const url = 'http://localhost:3000/api/products/42?ref=home';
+
+  it.each([
+    ['**/api/products/*', true],
+    ['/api/products/*', true],
+    ['/api/**', true],
+    ['/api/products/42', true],
+    ['/api/products', false],
+    ['**/api/users/*', false],
+    ['http://localhost:3000/api/products/42?ref=home', true],
+  ])('matches %s: %s', (matcher, expected) => {
+    expect(matchesUrl(url, matcher)).toBe(expected);
+  });
+
+  it('tests a RegExp against the whole URL', () => {
+    expect(matchesUrl(url, /products\/\d+\?ref=/)).toBe(true);
+  });
+});
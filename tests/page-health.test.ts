@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { buildSmokeTest, formatPageIssues } from '@/lib/page-health';
+import { validateTestCode } from '@/lib/test-validator';
+
+const url = 'https://shop.test/cart';
+const assets = ['https://shop.test/app.js', 'https://cdn.test/styles.css'];
+
+describe('buildSmokeTest', () => {
+  it('writes a Cypress test that fails on uncaught exceptions and requests each asset', () => {
+    const test = buildSmokeTest(url, assets, 'cypress');
+
+    expect(test.title).toBe('Smoke: /cart loads without uncaught exceptions or missing assets');
+    expect(test.code).toContain("Cypress.on('uncaught:exception', error => {");
+    expect(test.code).toContain("    cy.visit('https://shop.test/cart');");
+    expect(test.code).toContain("    cy.request('https://cdn.test/styles.css').its('status').should('be.lessThan', 400);");
+    expect(validateTestCode(test.code, { framework: 'cypress' })).toEqual([]);
+  });
+
+  it('writes a Playwright test that collects page errors', () => {
+    const test = buildSmokeTest(url, [], 'playwright');
+
+    expect(test.code).toContain("page.on('pageerror', error => errors.push(error.message));");
+    expect(test.code).toContain('    expect(errors).toEqual([]);\n  });');
+    expect(test.code).not.toContain('request.get');
+    expect(test.steps).toEqual([`Visit ${url}`, 'Fail on any uncaught exception']);
+    expect(validateTestCode(test.code, { framework: 'playwright' })).toEqual([]);
+  });
+});
+
+describe('formatPageIssues', () => {
+  it('labels each issue and names the resource', () => {
+    expect(formatPageIssues([
+      { kind: 'exception', message: 'cart is not defined' },
+      { kind: 'http-error', message: '404 Not Found', url: 'https://shop.test/app.js', status: 404 },
+    ])).toBe([
+      '  - Uncaught exception: cart is not defined',
+      '  - Error response: 404 Not Found (https://shop.test/app.js)',
+    ].join('\n'));
+  });
+});
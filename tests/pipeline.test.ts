@@ -0,0 +1,335 @@
+import fs from 'fs';
+import path from 'path';
+import { chromium } from 'playwright';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { POST as generateTests } from '@/app/api/ai-testgen/route';
+import { POST as generateElementTests } from '@/app/api/ai-testgen-elements/route';
+import { POST as snapshotPage } from '@/app/api/snapshot/route';
+import { POST as streamTests } from '@/app/api/ai-testgen/stream/route';
+import type { AuthUser } from '@/lib/auth';
+import { getBrowserPool } from '@/lib/browser-pool';
+import { DatabaseService } from '@/lib/database';
+import { readEventStream, type GenerationEvent } from '@/lib/generation-stream';
+import { registerProvider, resetProviders } from '@/lib/llm';
+import type { HtmlElementInfo } from '@/lib/snapshot';
+import { startFixtureServer, type FixtureServer } from './helpers/fixture-server';
+import { loadResponse, RecordedProvider, type RecordedResponse } from './helpers/recorded-provider';
+
+// Browser tests need `npx playwright install chromium`; everything else runs offline
+const hasChromium = fs.existsSync(chromium.executablePath());
+
+const auth = vi.hoisted(() => ({ user: null as AuthUser | null }));
+
+vi.mock('@/lib/auth', async importOriginal => ({
+  ...await importOriginal<typeof import('@/lib/auth')>(),
+  getCurrentUser: async () => auth.user,
+}));
+
+const recordedSnapshot = JSON.parse(
+  fs.readFileSync(path.resolve(__dirname, 'fixtures/snapshots/index.json'), 'utf8')
+);
+
+// Every request gets its own client IP so the shared rate limiter doesn't interfere
+let clientCounter = 0;
+function post(handler: (req: Request) => Promise<Response>, body: unknown, clientIP: string = `10.0.0.${++clientCounter}`) {
+  return handler(new Request('http://localhost/api', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'x-forwarded-for': clientIP },
+    body: JSON.stringify(body),
+  }));
+}
+
+function useRecordedModel(responses: RecordedResponse[]): RecordedProvider {
+  const provider = new RecordedProvider(responses);
+  registerProvider(provider);
+  return provider;
+}
+
+beforeEach(() => {
+  // The per-request client addresses below come from a trusted proxy
+  vi.stubEnv('TRUST_PROXY', '1');
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllEnvs();
+  resetProviders();
+  auth.user = null;
+});
+
+describe('POST /api/ai-testgen', () => {
+  const url = 'http://127.0.0.1:4000/index.html';
+
+  it('returns the recorded tests tagged with their framework', async () => {
+    const provider = useRecordedModel([loadResponse('valid.json')]);
+
+    const res = await post(generateTests, { url, ...recordedSnapshot });
+    expect(res.status).toBe(200);
+    const data = await res.json();
+
+    expect(data.summary).toContain('add-to-cart button');
+    expect(data.tests).toHaveLength(2);
+    for (const test of data.tests) {
+      expect(test.testType).toBe('cypress');
+      expect(test.warnings).toEqual([]);
+    }
+    expect(provider.prompts[0]).toContain('Page Title: Fixture Shop');
+    expect(provider.prompts[0]).toContain('"Add to cart"');
+    expect(provider.prompts[0]).toContain('1. button "Add to cart" (data-testid/data-cy="add-to-cart", #add-to-cart)');
+    expect(provider.prompts[0]).toContain(`1. BUTTON "Add to cart": cy.get('[data-cy="add-to-cart"]') | cy.get('#add-to-cart') | cy.findByRole('button', { name: 'Add to cart' })`);
+  });
+
+  it('adds a smoke test for a snapshot that recorded its critical assets', async () => {
+    const provider = useRecordedModel([loadResponse('valid.json')]);
+    const pageIssues = [{ kind: 'exception', message: 'cart is not defined' }];
+    const criticalAssets = ['http://127.0.0.1:4000/app.js'];
+
+    const data = await (await post(generateTests, { url, ...recordedSnapshot, pageIssues, criticalAssets })).json();
+
+    expect(data.tests).toHaveLength(3);
+    expect(data.tests[2]).toMatchObject({ title: 'Smoke: /index.html loads without uncaught exceptions or missing assets', warnings: [] });
+    expect(data.tests[2].code).toContain("cy.request('http://127.0.0.1:4000/app.js')");
+    expect(provider.prompts[0]).toContain('  - Uncaught exception: cart is not defined');
+  });
+
+  it('flags selectors that match nothing on the page', async () => {
+    useRecordedModel([loadResponse('unknown-selector.json')]);
+
+    const data = await (await post(generateTests, { url, ...recordedSnapshot })).json();
+    expect(data.tests[0].warnings).toEqual([
+      expect.objectContaining({ code: 'selector-not-found', severity: 'warning' }),
+    ]);
+  });
+
+  it('recovers from a code-fenced reply', async () => {
+    useRecordedModel([loadResponse('fenced.txt')]);
+
+    const data = await (await post(generateTests, { url, ...recordedSnapshot })).json();
+    expect(data.tests.map((test: { title: string }) => test.title)).toEqual(['Shows the heading']);
+  });
+
+  it('re-requests invalid fields one at a time', async () => {
+    const provider = useRecordedModel([
+      loadResponse('invalid-fields.json'),
+      loadResponse('field-steps.json'),
+      loadResponse('field-code.json'),
+    ]);
+
+    const data = await (await post(generateTests, { url, ...recordedSnapshot })).json();
+
+    expect(provider.schemas.map(schema => schema?.name)).toEqual(['test_suite', 'steps_field', 'code_field']);
+    expect(provider.prompts[2]).toContain('FIELD: code');
+    expect(data.tests[1]).toMatchObject({
+      title: 'Navigates to the about page',
+      steps: ['Visit the home page', 'Click About', 'Check the URL'],
+      category: 'navigation',
+      selectors: [],
+      warnings: [],
+    });
+    expect(data.tests[1].code).toContain("cy.get('#about-link').click()");
+  });
+
+  it('reports an error without guessing at tests when no reply parses', async () => {
+    useRecordedModel([
+      loadResponse('malformed.txt'),
+      loadResponse('truncated-tests.txt', 'length'),
+      loadResponse('truncated-tests.txt', 'length'),
+    ]);
+
+    const res = await post(generateTests, { url, ...recordedSnapshot });
+    const body = await res.json();
+
+    expect(body._error).toBe(true);
+    expect(body.summary).toContain('Failed to parse AI response after 3 retry attempts');
+    expect(body.tests).toEqual([]);
+    expect(body._rawResponse).toBe(loadResponse('truncated-tests.txt').text);
+  });
+
+  it('records the generation for a signed-in user', async () => {
+    useRecordedModel([loadResponse('valid.json'), loadResponse('valid.json')]);
+    const record = vi.spyOn(DatabaseService, 'recordGeneration').mockResolvedValue({ recordId: 'record' });
+
+    await post(generateTests, { url, ...recordedSnapshot });
+    expect(record).not.toHaveBeenCalled();
+
+    auth.user = { id: 'user-1', email: 'ada@example.com', emailVerified: true };
+    await post(generateTests, { url, ...recordedSnapshot });
+    expect(record).toHaveBeenCalledTimes(1);
+    expect(record.mock.calls[0][0]).toMatchObject({ userId: 'user-1', url, source: 'general', status: 'succeeded', testCount: 2 });
+  });
+
+  it('rejects an invalid request', async () => {
+    const res = await post(generateTests, { url: 'ftp://example.com' });
+    expect(res.status).toBe(400);
+    expect((await res.json()).summary).toBe('Validation failed: URL: Only HTTP and HTTPS URLs are allowed');
+  });
+
+  it('rate limits a client after 10 requests a minute', async () => {
+    const clientIP = '10.1.0.1';
+    for (let i = 0; i < 10; i++) {
+      expect((await post(generateTests, {}, clientIP)).status).toBe(400);
+    }
+
+    const res = await post(generateTests, {}, clientIP);
+    expect(res.status).toBe(429);
+    expect((await res.json()).resetTime).toBeGreaterThan(Date.now());
+  });
+});
+
+describe('POST /api/ai-testgen-elements', () => {
+  const url = 'http://127.0.0.1:4000/index.html';
+
+  it('reports an unparseable reply the way page-level generation does', async () => {
+    useRecordedModel([loadResponse('malformed.txt'), loadResponse('malformed.txt')]);
+
+    const res = await post(generateElementTests, { url, ...recordedSnapshot });
+    expect(res.status).toBe(200);
+    const body = await res.json();
+
+    expect(body).toMatchObject({ tests: [], _error: true, _parseFailed: true, _rawResponse: loadResponse('malformed.txt').text });
+    expect(body.summary).toContain('Failed to parse AI response after 2 retry attempts');
+  });
+});
+
+describe('POST /api/ai-testgen/stream', () => {
+  const url = 'http://127.0.0.1:4000/index.html';
+
+  async function collect(res: Response): Promise<GenerationEvent[]> {
+    const events: GenerationEvent[] = [];
+    await readEventStream(res, event => events.push(event));
+    return events;
+  }
+
+  it('streams stages, each parsed test and the validated results', async () => {
+    useRecordedModel([loadResponse('valid.json'), loadResponse('fenced.txt')]);
+
+    const res = await post(streamTests, { url, ...recordedSnapshot });
+    expect(res.headers.get('content-type')).toBe('text/event-stream');
+    const events = await collect(res);
+
+    const general = events.filter(event => 'source' in event && event.source === 'general');
+    expect(general.map(event => event.type === 'stage' ? event.stage : event.type)).toEqual(
+      expect.arrayContaining(['prompt', 'generating', 'test', 'validating', 'result'])
+    );
+
+    const parsed = events.filter(event => event.type === 'test');
+    expect(parsed).toHaveLength(3);
+    // Each test is sent before its generation finishes
+    const firstResult = events.findIndex(event => event.type === 'result');
+    expect(events.findIndex(event => event.type === 'test')).toBeLessThan(firstResult);
+
+    const results = events.filter(event => event.type === 'result');
+    expect(results.map(event => event.tests.length).sort()).toEqual([1, 2]);
+    expect(results.every(event => event.tests.every((test: { warnings?: unknown[] }) => Array.isArray(test.warnings)))).toBe(true);
+    expect(events.at(-1)).toEqual({ type: 'done' });
+  });
+
+  it('rejects an invalid request before streaming', async () => {
+    const res = await post(streamTests, { url: 'ftp://example.com' });
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({ error: 'Validation failed', details: ['URL: Only HTTP and HTTPS URLs are allowed'] });
+  });
+});
+
+describe.skipIf(!hasChromium)('full scan against the fixture pages', () => {
+  let server: FixtureServer;
+
+  beforeAll(async () => {
+    server = await startFixtureServer();
+  });
+
+  afterAll(async () => {
+    await server.close();
+    await getBrowserPool().close();
+  });
+
+  it('snapshots a page', async () => {
+    const res = await post(snapshotPage, { url: `${server.url}/index.html` });
+    expect(res.status).toBe(200);
+    const data = await res.json();
+
+    expect(typeof data.screenshot).toBe('string');
+    expect(data.domData).toEqual(recordedSnapshot.domData);
+    expect(data.htmlElements).toContainEqual(expect.objectContaining({ type: 'button', id: 'add-to-cart' }));
+    // Every selector candidate was checked against the live page
+    const selectors = (elements: HtmlElementInfo[]) => elements.map(el => el.selectors);
+    expect(selectors(data.htmlElements)).toEqual(selectors(recordedSnapshot.htmlElements));
+  });
+
+  it('snapshots a page as an emulated device, waiting for a selector', async () => {
+    const res = await post(snapshotPage, {
+      url: `${server.url}/index.html`,
+      capture: { device: 'iPhone 13', waitUntil: 'selector', waitForSelector: '#add-to-cart' },
+    });
+    expect(res.status).toBe(200);
+    const data = await res.json();
+
+    // The full-page screenshot is rendered at the device's width and pixel ratio
+    const png = Buffer.from(data.screenshot, 'base64');
+    expect(png.readUInt32BE(16)).toBe(390 * 3);
+  });
+
+  it('finds elements by role in shadow DOM and same-origin iframes', async () => {
+    const res = await post(snapshotPage, { url: `${server.url}/widgets.html` });
+    const { accessibleElements } = await res.json();
+
+    expect(accessibleElements).toEqual(expect.arrayContaining([
+      expect.objectContaining({ role: 'tab', name: 'Details', states: ['selected'], visible: true }),
+      expect.objectContaining({ role: 'switch', name: 'Dark mode', enabled: true }),
+      expect.objectContaining({ role: 'dialog', name: 'Newsletter', visible: false }),
+      expect.objectContaining({ role: 'button', name: 'Increase quantity', testId: 'increment', inShadowDom: true }),
+      expect.objectContaining({ role: 'button', name: 'Apply', enabled: false, frameUrl: 'about:srcdoc' }),
+    ]));
+  });
+
+  it('records the API calls a page makes while loading', async () => {
+    const res = await post(snapshotPage, { url: `${server.url}/products.html` });
+    const { apiCalls } = await res.json();
+
+    expect(apiCalls).toEqual([{
+      method: 'GET',
+      url: `${server.url}/api/products.json?page=1`,
+      pattern: '/api/products.json',
+      query: ['page'],
+      status: 200,
+      contentType: 'application/json',
+      responseShape: '{ items: { id: number, title: string, price: number }[], total: number }',
+    }]);
+  });
+
+  it('records errors and failed assets while a page loads', async () => {
+    const res = await post(snapshotPage, { url: `${server.url}/broken.html` });
+    const { pageIssues, criticalAssets } = await res.json();
+
+    expect(pageIssues).toEqual(expect.arrayContaining([
+      { kind: 'exception', message: 'cart is not defined' },
+      { kind: 'console-error', message: 'Checkout widget failed to start' },
+      { kind: 'http-error', message: '404 Not Found', url: `${server.url}/missing.css`, status: 404 },
+    ]));
+    expect(criticalAssets).toEqual([`${server.url}/missing.css`]);
+  });
+
+  it('crawls the same-origin pages', async () => {
+    const res = await post(snapshotPage, { url: `${server.url}/index.html`, crawl: { maxDepth: 1 } });
+    const data = await res.json();
+
+    expect(data.siteMap.map((node: { url: string }) => new URL(node.url).pathname)).toEqual(['/index.html', '/about.html', '/contact.html']);
+    expect(data.pages[2].htmlElements).toContainEqual(expect.objectContaining({ type: 'input', name: 'email' }));
+  });
+
+  it('generates tests from a live snapshot', async () => {
+    useRecordedModel([loadResponse('valid.json')]);
+    const url = `${server.url}/index.html`;
+
+    const snapshot = await (await post(snapshotPage, { url })).json();
+    const res = await post(generateTests, { url, ...snapshot });
+    const data = await res.json();
+
+    expect(res.status).toBe(200);
+    // The recorded tests and the smoke test built from the snapshot
+    expect(data.tests).toHaveLength(3);
+    expect(data.tests.flatMap((test: { warnings: unknown[] }) => test.warnings)).toEqual([]);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import type { APIResponse } from 'playwright';
+import { followRedirects, type Hop } from '@/lib/sandbox-network';
+
+// An APIResponse with a status and headers, enough for the redirect loop
+function response(status: number, headers: Record<string, string> = {}): APIResponse {
+  return { status: () => status, headers: () => headers, dispose: async () => {} } as unknown as APIResponse;
+}
+
+// Replies from a map of URL to response and records the hops it was sent
+function server(routes: Record<string, APIResponse>) {
+  const hops: Hop[] = [];
+  const send = async (hop: Hop) => {
+    hops.push(hop);
+    return routes[hop.url] ?? response(404);
+  };
+  return { hops, send };
+}
+
+describe('followRedirects', () => {
+  const strict = { allowPrivateHosts: false };
+
+  it('follows redirects hop by hop and turns a POST into a GET after a 303', async () => {
+    const { hops, send } = server({
+      'https://shop.test/login': response(303, { location: '/account' }),
+      'https://shop.test/account': response(200),
+    });
+
+    const final = await followRedirects('https://shop.test/login', 'post', strict, send);
+
+    expect(final.status()).toBe(200);
+    expect(hops).toEqual([
+      { url: 'https://shop.test/login', method: 'POST', dropBody: false },
+      { url: 'https://shop.test/account', method: 'GET', dropBody: true },
+    ]);
+  });
+
+  it('checks every hop against the URL policy before sending it', async () => {
+    const { hops, send } = server({
+      'https://shop.test/go': response(302, { location: 'http://169.254.169.254/latest/meta-data/' }),
+    });
+
+    await expect(followRedirects('https://shop.test/go', 'GET', strict, send))
+      .rejects.toThrow('Blocked request to http://169.254.169.254/latest/meta-data/: Private IP addresses are not allowed');
+    await expect(followRedirects('file:///app/.env.local', 'GET', strict, send))
+      .rejects.toThrow('Only HTTP and HTTPS URLs are allowed');
+    expect(hops.map(hop => hop.url)).toEqual(['https://shop.test/go']);
+  });
+
+  it('allows private hosts only when the policy does', async () => {
+    const { send } = server({ 'http://localhost:3000/': response(200) });
+
+    await expect(followRedirects('http://localhost:3000/', 'GET', strict, send)).rejects.toThrow('Localhost URLs are not allowed');
+    expect((await followRedirects('http://localhost:3000/', 'GET', { allowPrivateHosts: true }, send)).status()).toBe(200);
+  });
+
+  it('gives up on a redirect loop', async () => {
+    const { send } = server({ 'https://shop.test/loop': response(302, { location: '/loop' }) });
+    await expect(followRedirects('https://shop.test/loop', 'GET', strict, send)).rejects.toThrow('Too many redirects from https://shop.test/loop');
+  });
+});
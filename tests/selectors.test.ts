@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { rankSelectors, scoreSelector, toLocator, type SelectorCandidate } from '@/lib/selectors';
+import { selectorExists } from '@/lib/test-validator';
+import type { HtmlElementInfo } from '@/lib/snapshot';
+
+describe('rankSelectors', () => {
+  it('puts test attributes first and structural CSS last', () => {
+    const ranked = rankSelectors([
+      { strategy: 'css', selector: 'body > form > button:nth-of-type(2)' },
+      { strategy: 'text', selector: 'button', text: 'Sign in' },
+      { strategy: 'id', selector: '#sign-in' },
+      { strategy: 'role', selector: 'button', text: 'Sign in' },
+      { strategy: 'data-testid', selector: '[data-testid="sign-in"]' },
+    ]);
+    expect(ranked.map(candidate => candidate.strategy)).toEqual(['data-testid', 'id', 'role', 'text', 'css']);
+    expect(ranked[4].score).toBe(19);
+  });
+
+  it('ranks generated ids below role and text', () => {
+    expect(scoreSelector({ strategy: 'id', selector: '#react-select-3-input' })).toBe(35);
+    expect(scoreSelector({ strategy: 'id', selector: '[id=":r1:"]' })).toBeLessThan(scoreSelector({ strategy: 'text', selector: 'a', text: 'Home' }));
+  });
+
+  it('keeps one copy of a selector found by two strategies', () => {
+    const ranked = rankSelectors([{ strategy: 'css', selector: '#menu' }, { strategy: 'id', selector: '#menu' }]);
+    expect(ranked).toEqual([{ strategy: 'id', selector: '#menu', score: 85 }]);
+  });
+});
+
+describe('toLocator', () => {
+  const candidates: SelectorCandidate[] = [
+    { strategy: 'data-testid', selector: '[data-testid="cart"]', score: 95 },
+    { strategy: 'role', selector: 'button', text: "Don't ask again", score: 70 },
+    { strategy: 'text', selector: 'a', text: 'About', score: 55 },
+  ];
+
+  it('writes Cypress commands', () => {
+    expect(candidates.map(candidate => toLocator(candidate, 'cypress'))).toEqual([
+      `cy.get('[data-testid="cart"]')`,
+      `cy.findByRole('button', { name: 'Don\\'t ask again' })`,
+      `cy.contains('a', 'About')`,
+    ]);
+  });
+
+  it('writes Playwright locators', () => {
+    expect(candidates.map(candidate => toLocator(candidate, 'playwright'))).toEqual([
+      `page.getByTestId('cart')`,
+      `page.getByRole('button', { name: 'Don\\'t ask again', exact: true })`,
+      `page.locator('a', { hasText: 'About' })`,
+    ]);
+  });
+});
+
+describe('selectorExists', () => {
+  const button: HtmlElementInfo = {
+    type: 'button',
+    html: '<button>Save</button>',
+    attributes: {},
+    selectors: [
+      { strategy: 'css', selector: 'main > div:nth-of-type(2) > button', score: 16 },
+      { strategy: 'text', selector: 'button', text: 'Save', score: 55 },
+    ],
+  };
+
+  it('accepts a verified selector the snapshot attributes could not confirm', () => {
+    expect(selectorExists('main > div:nth-of-type(2) > button', [button])).toBe(true);
+    expect(selectorExists('button.primary', [button])).toBe(false);
+  });
+});
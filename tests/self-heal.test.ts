@@ -0,0 +1,117 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { allowSelfHeal, healTest, healTests, resolveMaxHealAttempts } from '@/lib/self-heal';
+import { runTestCode, RunnerUnavailableError, type TestRunResult } from '@/lib/test-runner';
+import { captureSnapshot } from '@/lib/snapshot';
+
+vi.mock('@/lib/test-runner', async importOriginal => ({
+  ...await importOriginal<typeof import('@/lib/test-runner')>(),
+  runTestCode: vi.fn(),
+}));
+
+vi.mock('@/lib/snapshot', async importOriginal => ({
+  ...await importOriginal<typeof import('@/lib/snapshot')>(),
+  captureSnapshot: vi.fn(),
+}));
+
+const url = 'https://shop.test/';
+
+function run(status: TestRunResult['status'], error?: string): TestRunResult {
+  return { status, error, durationMs: 10, runner: 'playwright', cases: [] };
+}
+
+beforeEach(() => {
+  vi.mocked(captureSnapshot).mockResolvedValue({
+    domData: { title: 'Shop', headings: ['Products'] },
+    htmlElements: [{ type: 'button', html: '<button id="add-to-cart">Add</button>' }],
+    accessibleElements: [],
+  } as unknown as Awaited<ReturnType<typeof captureSnapshot>>);
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.resetAllMocks();
+  vi.restoreAllMocks();
+  vi.unstubAllEnvs();
+});
+
+describe('resolveMaxHealAttempts', () => {
+  it('is off unless the deployment sets a budget', () => {
+    vi.stubEnv('SELF_HEAL_MAX_ATTEMPTS', '');
+    expect(resolveMaxHealAttempts()).toBe(0);
+    expect(resolveMaxHealAttempts(3)).toBe(0);
+  });
+
+  it('lets a request lower the budget but never raise it', () => {
+    vi.stubEnv('SELF_HEAL_MAX_ATTEMPTS', '2');
+    expect(resolveMaxHealAttempts()).toBe(2);
+    expect(resolveMaxHealAttempts(1)).toBe(1);
+    expect(resolveMaxHealAttempts(5)).toBe(2);
+
+    vi.stubEnv('SELF_HEAL_MAX_ATTEMPTS', '50');
+    expect(resolveMaxHealAttempts()).toBe(5);
+  });
+});
+
+describe('allowSelfHeal', () => {
+  it('keeps the flag only for a signed-in user on a deployment that heals', () => {
+    vi.stubEnv('SELF_HEAL_MAX_ATTEMPTS', '');
+    expect(allowSelfHeal({ selfHeal: true }, 'user-1').selfHeal).toBe(false);
+
+    vi.stubEnv('SELF_HEAL_MAX_ATTEMPTS', '2');
+    expect(allowSelfHeal({ selfHeal: true }, 'user-1').selfHeal).toBe(true);
+    expect(allowSelfHeal({ selfHeal: true }, null).selfHeal).toBe(false);
+    expect(allowSelfHeal({ selfHeal: true }, undefined).selfHeal).toBe(false);
+    expect(allowSelfHeal({ selfHeal: false }, 'user-1').selfHeal).toBe(false);
+  });
+});
+
+describe('healTest', () => {
+  const test = { title: 'adds to cart', code: "cy.get('#add').click();" };
+
+  it('reruns the repaired code and records each revision', async () => {
+    vi.mocked(runTestCode)
+      .mockResolvedValueOnce(run('failed', 'expected element to exist in the DOM'))
+      .mockResolvedValueOnce(run('passed'));
+    const repair = vi.fn().mockResolvedValue({ code: "cy.get('#add-to-cart').click();", explanation: 'The id changed' });
+
+    const result = await healTest(test, url, repair, 2);
+
+    expect(result).toMatchObject({ code: "cy.get('#add-to-cart').click();", healStatus: 'healed' });
+    expect(result?.revisions.map(r => [r.attempt, r.status, r.explanation])).toEqual([
+      [0, 'failed', undefined],
+      [1, 'passed', 'The id changed'],
+    ]);
+    expect(repair.mock.calls[0][0]).toContain('expected element to exist in the DOM');
+    expect(repair.mock.calls[0][0]).toContain('<button id="add-to-cart">Add</button>');
+    expect(vi.mocked(runTestCode).mock.calls[1][0]).toBe("cy.get('#add-to-cart').click();");
+  });
+
+  it('gives up once the attempts are spent', async () => {
+    vi.mocked(runTestCode).mockResolvedValue(run('failed', 'still broken'));
+    const repair = vi.fn().mockResolvedValue({ code: 'cy.visit("/")' });
+
+    const result = await healTest(test, url, repair, 1);
+
+    expect(result?.healStatus).toBe('unfixable');
+    expect(repair).toHaveBeenCalledTimes(1);
+    expect(runTestCode).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not ask the model when the test passes', async () => {
+    vi.mocked(runTestCode).mockResolvedValue(run('passed'));
+    const repair = vi.fn();
+
+    expect((await healTest(test, url, repair, 2))?.healStatus).toBe('passed');
+    expect(repair).not.toHaveBeenCalled();
+  });
+});
+
+describe('healTests', () => {
+  it('leaves the remaining tests as they are when no runner is available', async () => {
+    vi.mocked(runTestCode).mockRejectedValue(new RunnerUnavailableError('No Chromium'));
+    const tests = [{ title: 'a', code: 'cy.visit("/")' }, { title: 'b', code: 'cy.visit("/")' }];
+
+    expect(await healTests(tests, url, vi.fn(), 2)).toEqual(tests);
+    expect(runTestCode).toHaveBeenCalledTimes(1);
+  });
+});
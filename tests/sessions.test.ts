@@ -0,0 +1,102 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { DatabaseService } from '@/lib/database';
+import { importStoredSessions } from '@/lib/session-import';
+import { importLocalSessions, LOCAL_SESSION_PREFIX, readLocalSessions, type StoredSession } from '@/lib/session-api';
+
+// localStorage for Node
+class MemoryStorage implements Storage {
+  private items = new Map<string, string>();
+  get length() { return this.items.size; }
+  key(index: number) { return [...this.items.keys()][index] ?? null; }
+  getItem(key: string) { return this.items.get(key) ?? null; }
+  setItem(key: string, value: string) { this.items.set(key, value); }
+  removeItem(key: string) { this.items.delete(key); }
+  clear() { this.items.clear(); }
+}
+
+function session(url: string, titles: string[]): StoredSession {
+  return { url, summary: 'Shop', timestamp: 0, tests: titles.map(title => ({ title, code: `cy.visit('${url}');` })) };
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+describe('importStoredSessions', () => {
+  it('merges each session into the stored tests for its URL', async () => {
+    vi.spyOn(DatabaseService, 'getLatestTestsForUrl').mockImplementation(async url => (url === 'https://b.test/'
+      ? { sessionId: 'old', url, tests: [{ title: 'Loads' }], summary: 'Before', timestamp: 0 }
+      : null) as Awaited<ReturnType<typeof DatabaseService.getLatestTestsForUrl>>);
+    const save = vi.spyOn(DatabaseService, 'saveTestSession').mockResolvedValue({ sessionId: 'new', testCount: 2 });
+
+    const result = await importStoredSessions([
+      session('https://a.test/', ['Loads']),
+      session('https://b.test/', ['Loads', 'Adds to cart']),
+      session('https://b.test/', ['Loads']),
+      { url: 'ftp://c.test/', tests: [] },
+    ], { userId: 'user-1', userAgent: 'browser' });
+
+    expect(result.imported).toEqual([
+      { url: 'https://a.test/', sessionId: 'new', added: 1 },
+      { url: 'https://b.test/', sessionId: 'new', added: 1 },
+    ]);
+    expect(result.skipped).toEqual([
+      { url: 'https://b.test/', reason: 'already-stored' },
+      { url: 'ftp://c.test/', reason: 'invalid', details: ['URL: Only HTTP and HTTPS URLs are allowed'] },
+    ]);
+    expect(save.mock.calls[1][0]).toBe('https://b.test/');
+    expect(save.mock.calls[1][1].map(test => test.title)).toEqual(['Loads', 'Adds to cart']);
+    expect(save.mock.calls[1][3]).toBe('browser');
+    expect(save.mock.calls[1][7]).toBe('user-1');
+  });
+
+  it('merges within the session\'s project and skips unknown projects', async () => {
+    vi.spyOn(DatabaseService, 'getProject').mockImplementation(async id => (id === 'p1'
+      ? { id } : null) as Awaited<ReturnType<typeof DatabaseService.getProject>>);
+    const latest = vi.spyOn(DatabaseService, 'getLatestTestsForUrl').mockResolvedValue(null);
+    const save = vi.spyOn(DatabaseService, 'saveTestSession').mockResolvedValue({ sessionId: 'new', testCount: 1 });
+
+    const result = await importStoredSessions([
+      { ...session('https://a.test/', ['Loads']), projectId: 'p1' },
+      { ...session('https://b.test/', ['Loads']), projectId: 'gone' },
+    ], { userId: 'user-1' });
+
+    expect(result.imported).toEqual([{ url: 'https://a.test/', sessionId: 'new', added: 1 }]);
+    expect(result.skipped).toEqual([{ url: 'https://b.test/', reason: 'invalid', details: ['Project: not found'] }]);
+    expect(latest).toHaveBeenCalledWith('https://a.test/', 'user-1', 'p1');
+    expect(save.mock.calls[0][6]).toBe('p1');
+  });
+});
+
+describe('importLocalSessions', () => {
+  it('sends the saved sessions and removes the ones the server took', async () => {
+    const storage = new MemoryStorage();
+    storage.setItem(`${LOCAL_SESSION_PREFIX}https://a.test/`, JSON.stringify(session('https://a.test/', ['Loads'])));
+    storage.setItem(`${LOCAL_SESSION_PREFIX}https://b.test/`, JSON.stringify(session('https://b.test/', ['Loads'])));
+    storage.setItem(`${LOCAL_SESSION_PREFIX}https://c.test/`, JSON.stringify(session('https://c.test/', [])));
+    storage.setItem(`${LOCAL_SESSION_PREFIX}broken`, '{');
+    storage.setItem('testflow_active_job', '{}');
+    const fetch = vi.fn<typeof globalThis.fetch>(async () => new Response(JSON.stringify({
+      imported: [{ url: 'https://a.test/', sessionId: 's1', added: 1 }],
+      skipped: [{ url: 'https://b.test/', reason: 'already-stored' }, { url: 'https://c.test/', reason: 'invalid', details: [] }],
+    })));
+    vi.stubGlobal('fetch', fetch);
+
+    expect([...readLocalSessions(storage).values()].map(entry => entry.url)).toEqual(['https://a.test/', 'https://b.test/', 'https://c.test/']);
+    const result = await importLocalSessions(storage);
+
+    expect(result?.imported).toHaveLength(1);
+    expect(JSON.parse(String(fetch.mock.calls[0][1]?.body)).sessions).toHaveLength(3);
+    expect([storage.key(0), storage.key(1), storage.key(2)]).toEqual([`${LOCAL_SESSION_PREFIX}https://c.test/`, `${LOCAL_SESSION_PREFIX}broken`, 'testflow_active_job']);
+  });
+
+  it('leaves localStorage alone when the server has no database', async () => {
+    const storage = new MemoryStorage();
+    storage.setItem(`${LOCAL_SESSION_PREFIX}https://a.test/`, JSON.stringify(session('https://a.test/', ['Loads'])));
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({ error: 'Stored tests need a database' }), { status: 503 })));
+
+    expect(await importLocalSessions(storage)).toBeNull();
+    expect(storage.length).toBe(1);
+  });
+});
@@ -0,0 +1,59 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { runInSandbox } from '@/lib/test-runner';
+import type { SandboxJob } from '@/lib/test-sandbox';
+
+// Nothing listens here: the sandbox fails to connect once collection succeeds
+const job: Omit<SandboxJob, 'code'> = {
+  targetUrl: 'https://shop.test/',
+  framework: 'cypress',
+  wsEndpoint: 'ws://127.0.0.1:9/',
+  testTimeoutMs: 1000,
+};
+
+// Escapes the vm context the way test code could, tries what a hostile test would, and
+// reports the outcomes as the error of the run
+const ESCAPE = `
+const proc = console.constructor.constructor('return process')();
+const attempt = fn => { try { fn(); return 'allowed'; } catch (err) { return err.code || err.message; } };
+const load = proc.getBuiltinModule;
+throw new Error(JSON.stringify({
+  env: Object.keys(proc.env),
+  exec: attempt(() => load('child_process').execSync('id')),
+  read: attempt(() => load('fs').readFileSync(proc.argv[1].replace(/lib\\/test-sandbox\\.ts$/, 'package.json'))),
+  write: attempt(() => load('fs').writeFileSync(load('os').tmpdir() + '/testflow-escape', 'x')),
+  worker: attempt(() => new (load('worker_threads').Worker)('0', { eval: true })),
+}));
+`;
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('runInSandbox', () => {
+  it('gives code that escapes the vm no environment, files or processes', async () => {
+    vi.stubEnv('OPENAI_API_KEY', 'sk-test-secret');
+
+    const reply = await runInSandbox({ ...job, code: ESCAPE }, 20000);
+
+    expect('error' in reply).toBe(true);
+    const probe = JSON.parse((reply as { error: string }).error);
+    expect(probe).toEqual({
+      env: [],
+      exec: 'ERR_ACCESS_DENIED',
+      read: 'ERR_ACCESS_DENIED',
+      write: 'ERR_ACCESS_DENIED',
+      worker: 'ERR_ACCESS_DENIED',
+    });
+  }, 30000);
+
+  it('reports a file without tests before connecting to a browser', async () => {
+    const reply = await runInSandbox({ ...job, code: "describe('Cart', () => {});" }, 20000);
+    expect(reply).toEqual({ error: 'No it() blocks found in test code' });
+  }, 30000);
+
+  it('kills a run that outlives its time limit', async () => {
+    const code = "console.constructor.constructor('return setTimeout')()(() => { while (true) {} }, 0);\nit('spins', () => {});";
+    const reply = await runInSandbox({ ...job, code }, 3000);
+    expect(reply).toEqual({ error: 'Test run timed out after 3000ms' });
+  }, 30000);
+});
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { collectCypressTests, collectPlaywrightTests, toScript } from '@/lib/test-sandbox';
+
+describe('toScript', () => {
+  it('removes imports, exports and type annotations', () => {
+    const script = toScript("import { test } from '@playwright/test';\nexport const total: number = 2;\n");
+    expect(script).not.toMatch(/import|export|: number/);
+    expect(script).toContain('const total = 2;');
+  });
+});
+
+describe('collectCypressTests', () => {
+  it('names tests after their describe blocks and collects hooks from every level', () => {
+    const { tests, before } = collectCypressTests(`
+      before(() => {});
+      beforeEach(() => 'root');
+      describe('Cart', () => {
+        beforeEach(() => 'cart');
+        it('adds an item', () => {});
+        it.skip('removes an item', () => {});
+        describe.skip('Coupons', () => {
+          it('applies a code', () => {});
+        });
+      });
+      it('loads the page', () => {});
+    `, {});
+
+    expect(tests.map(t => [t.title, t.skip])).toEqual([
+      ['Cart > adds an item', false],
+      ['Cart > removes an item', true],
+      ['Cart > Coupons > applies a code', true],
+      ['loads the page', false],
+    ]);
+    expect(tests[0].beforeEach.map(hook => hook())).toEqual(['root', 'cart']);
+    expect(tests[3].beforeEach).toHaveLength(1);
+    expect(before).toHaveLength(1);
+  });
+
+  it('reports a syntax error in the file', () => {
+    expect(() => collectCypressTests("it('broken', () => {", {})).toThrow("'}' expected. (line 1)");
+  });
+});
+
+describe('collectPlaywrightTests', () => {
+  it('collects test.describe, test.use and test.skip', () => {
+    const { tests } = collectPlaywrightTests(`
+      import { test, expect } from '@playwright/test';
+      test.use({ viewport: { width: 375, height: 667 } });
+      test.describe('Mobile menu', () => {
+        test.use({ locale: 'de-DE' });
+        test('opens', async ({ page }) => {});
+        test.skip('closes', async ({ page }) => {});
+      });
+      test.describe('Checkout', () => {
+        test.skip();
+        test('pays', async ({ page }) => {});
+      });
+    `, {});
+
+    expect(tests.map(t => [t.title, t.skip])).toEqual([
+      ['Mobile menu > opens', false],
+      ['Mobile menu > closes', true],
+      ['Checkout > pays', true],
+    ]);
+    expect(tests[0].use).toEqual({ viewport: { width: 375, height: 667 }, locale: 'de-DE' });
+  });
+
+  it('stops a file whose top level never returns', () => {
+    expect(() => collectPlaywrightTests('while (true) {}', {})).toThrow(/timed out/);
+  });
+});
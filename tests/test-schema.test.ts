@@ -0,0 +1,76 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { checkTestSuite, enforceTestSuite } from '@/lib/test-schema';
+
+const validTest = {
+  title: 'Loads',
+  why: 'Smoke test',
+  steps: ['Visit the page'],
+  code: "cy.visit('/')",
+  category: 'general',
+  selectors: [],
+};
+
+describe('checkTestSuite', () => {
+  it('accepts a suite that matches the schema', () => {
+    expect(checkTestSuite({ summary: 'Shop', tests: [validTest] })).toEqual({
+      suite: { summary: 'Shop', tests: [validTest] },
+      issues: [],
+    });
+  });
+
+  it('defaults optional fields instead of reporting them', () => {
+    const { suite, issues } = checkTestSuite({
+      summary: 'Shop',
+      tests: [{ ...validTest, category: 'smoke', selectors: ['#a', 3, ''] }],
+    });
+    expect(issues).toEqual([]);
+    expect(suite.tests[0]).toMatchObject({ category: 'general', selectors: ['#a'] });
+  });
+
+  it('reports each invalid required field', () => {
+    const { issues } = checkTestSuite({
+      tests: [validTest, { title: 'Broken', why: 7, steps: [], code: '  ' }, 'not a test'],
+    });
+    expect(issues).toEqual([
+      { field: 'summary', message: 'summary must be a string' },
+      { field: 'why', testIndex: 1, message: 'why must be a string' },
+      { field: 'steps', testIndex: 1, message: 'steps must be a non-empty array of strings' },
+      { field: 'code', testIndex: 1, message: 'code must not be empty' },
+    ]);
+  });
+});
+
+describe('enforceTestSuite', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('fills in re-requested fields', async () => {
+    const requestField = vi.fn().mockResolvedValue({ value: 'Shop page tests' });
+
+    const suite = await enforceTestSuite({ tests: [validTest] }, requestField);
+
+    expect(suite.summary).toBe('Shop page tests');
+    expect(requestField).toHaveBeenCalledTimes(1);
+    expect(requestField.mock.calls[0][1].name).toBe('summary_field');
+  });
+
+  it('drops tests whose code still cannot be obtained', async () => {
+    const requestField = vi.fn()
+      .mockResolvedValueOnce({ value: 42 })
+      .mockRejectedValueOnce(new Error('model unavailable'));
+
+    const suite = await enforceTestSuite({
+      summary: 'Shop',
+      tests: [{ ...validTest, code: undefined }, { ...validTest, title: 'Second', code: null }],
+    }, requestField);
+
+    expect(suite.tests).toEqual([]);
+    expect(requestField).toHaveBeenCalledTimes(2);
+  });
+});
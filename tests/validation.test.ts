@@ -0,0 +1,433 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  RateLimiter,
+  sanitizeCredentials,
+  sanitizeProjectInput,
+  sanitizeRequest,
+  sanitizeSessionSave,
+  sanitizeSuiteInput,
+  sanitizeTestFilters,
+  sanitizeTestUpdate,
+} from '@/lib/validation';
+
+describe('sanitizeRequest', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('accepts a minimal request with defaults', () => {
+    const result = sanitizeRequest({ url: 'https://example.com/shop' });
+    expect(result.isValid).toBe(true);
+    expect(result).toMatchObject({
+      url: 'https://example.com/shop',
+      userDescription: '',
+      framework: 'cypress',
+      selfHeal: false,
+      crawl: undefined,
+      llm: {},
+    });
+  });
+
+  it('requires a URL', () => {
+    const result = sanitizeRequest({});
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toContain('URL: URL is required');
+  });
+
+  it.each([
+    ['ftp://example.com', 'Only HTTP and HTTPS URLs are allowed'],
+    ['not a url', 'Invalid URL format'],
+    ['https://example.com/a/../b', 'URL contains potentially malicious content'],
+  ])('rejects %s', (url, error) => {
+    expect(sanitizeRequest({ url }).errors).toEqual([`URL: ${error}`]);
+  });
+
+  it('blocks localhost only in production', () => {
+    expect(sanitizeRequest({ url: 'http://localhost:3000' }).isValid).toBe(true);
+
+    vi.stubEnv('NODE_ENV', 'production');
+    try {
+      expect(sanitizeRequest({ url: 'http://localhost:3000' }).errors).toEqual([
+        'URL: Localhost URLs are not allowed in production',
+      ]);
+      expect(sanitizeRequest({ url: 'http://192.168.1.10' }).errors).toEqual([
+        'URL: Private IP addresses are not allowed',
+      ]);
+      expect(sanitizeRequest({ url: 'http://169.254.169.254/latest/meta-data/' }).errors).toEqual([
+        'URL: Private IP addresses are not allowed',
+      ]);
+      expect(sanitizeRequest({ url: 'http://[::1]:3000' }).errors).toEqual([
+        'URL: Localhost URLs are not allowed in production',
+      ]);
+    } finally {
+      vi.unstubAllEnvs();
+    }
+  });
+
+  it('strips markup characters from the description', () => {
+    const result = sanitizeRequest({ url: 'https://example.com', userDescription: '  Test the <b>cart</b> "flow" ' });
+    expect(result.userDescription).toBe('Test the bcart/b flow');
+  });
+
+  it('accepts raw and data-URL base64 screenshots', () => {
+    expect(sanitizeRequest({ url: 'https://example.com', screenshot: 'iVBORw0KGgo=' }).isValid).toBe(true);
+    expect(sanitizeRequest({ url: 'https://example.com', screenshot: 'data:image/png;base64,iVBORw0KGgo=' }).isValid).toBe(true);
+    expect(sanitizeRequest({ url: 'https://example.com', screenshot: 'data:image/jpeg;base64,abc' }).errors).toEqual([
+      'Screenshot: Invalid screenshot format',
+    ]);
+  });
+
+  it('validates the framework', () => {
+    expect(sanitizeRequest({ url: 'https://example.com', framework: 'playwright' }).framework).toBe('playwright');
+    expect(sanitizeRequest({ url: 'https://example.com', framework: 'selenium' }).errors).toEqual([
+      'Framework: must be one of cypress, playwright',
+    ]);
+  });
+
+  it('parses crawl options within limits', () => {
+    expect(sanitizeRequest({ url: 'https://example.com', crawl: true }).crawl).toEqual({});
+    expect(sanitizeRequest({ url: 'https://example.com', crawl: { maxDepth: 2, maxPages: 10 } }).crawl).toEqual({ maxDepth: 2, maxPages: 10 });
+    expect(sanitizeRequest({ url: 'https://example.com', crawl: { maxDepth: 4, maxPages: 0 } }).errors).toEqual([
+      'Crawl: maxDepth must be an integer between 0 and 3',
+      'Crawl: maxPages must be an integer between 1 and 20',
+    ]);
+    expect(sanitizeRequest({ url: 'https://example.com', crawl: 'yes' }).isValid).toBe(false);
+  });
+
+  it('parses capture options', () => {
+    const result = sanitizeRequest({
+      url: 'https://example.com',
+      capture: { device: 'iPhone 13', colorScheme: 'dark', locale: 'de-DE', timezoneId: 'Europe/Berlin', waitUntil: 'selector', waitForSelector: '#app' },
+    });
+    expect(result.capture).toEqual({
+      device: 'iPhone 13',
+      colorScheme: 'dark',
+      locale: 'de-DE',
+      timezoneId: 'Europe/Berlin',
+      waitUntil: 'selector',
+      waitForSelector: '#app',
+    });
+
+    expect(sanitizeRequest({
+      url: 'https://example.com',
+      capture: { device: 'Nokia 3310', viewport: { width: 100, height: 800 }, timezoneId: 'Mars/Olympus', waitUntil: 'delay', delayMs: 60000 },
+    }).errors).toEqual([
+      'Capture: device must be a Playwright device name, e.g. "iPhone 13"',
+      'Capture: viewport width and height must be integers between 200 and 3840',
+      'Capture: timezoneId must be an IANA time zone, e.g. "Europe/Berlin"',
+      'Capture: delayMs must be an integer between 0 and 30000 with waitUntil "delay"',
+    ]);
+    expect(sanitizeRequest({ url: 'https://example.com', capture: { waitUntil: 'selector' } }).errors).toEqual([
+      'Capture: waitForSelector is required with waitUntil "selector"',
+    ]);
+  });
+
+  it('validates per-request model options', () => {
+    vi.stubEnv('LLM_ALLOWED_MODELS', 'gpt-4o-mini, llama3.1:8b');
+    const result = sanitizeRequest({
+      url: 'https://example.com',
+      llm: { provider: 'ollama', model: 'llama3.1:8b', temperature: 0.2, maxTokens: 2000 },
+    });
+    expect(result.llm).toEqual({ provider: 'ollama', model: 'llama3.1:8b', temperature: 0.2, maxTokens: 2000 });
+
+    expect(sanitizeRequest({ url: 'https://example.com', llm: { provider: 'anthropic', temperature: 3 } }).errors).toEqual([
+      'LLM: provider must be one of openai, lmstudio, ollama, mock',
+      'LLM: temperature must be a number between 0 and 2',
+    ]);
+  });
+
+  it('only accepts the models the deployment allows', () => {
+    vi.stubEnv('LLM_ALLOWED_MODELS', 'gpt-4o-mini, llama3.1:8b');
+    expect(sanitizeRequest({ url: 'https://example.com', llm: { model: 'gpt-4o-mini' } }).llm).toEqual({ model: 'gpt-4o-mini' });
+    expect(sanitizeRequest({ url: 'https://example.com', llm: { model: 'o1-pro' } }).errors).toEqual([
+      'LLM: model must be one of gpt-4o-mini, llama3.1:8b',
+    ]);
+
+    vi.stubEnv('LLM_ALLOWED_MODELS', '');
+    expect(sanitizeRequest({ url: 'https://example.com', llm: { model: 'gpt-4o-mini' } }).errors).toEqual([
+      'LLM: choosing a model is not enabled on this server',
+    ]);
+  });
+
+  it('limits self-heal attempts', () => {
+    expect(sanitizeRequest({ url: 'https://example.com', selfHeal: true, maxHealAttempts: 2 })).toMatchObject({
+      selfHeal: true,
+      maxHealAttempts: 2,
+      isValid: true,
+    });
+    expect(sanitizeRequest({ url: 'https://example.com', maxHealAttempts: 6 }).isValid).toBe(false);
+  });
+
+  it('keeps only well-formed parts of a client page summary and its elements', () => {
+    const result = sanitizeRequest({
+      url: 'https://example.com',
+      domData: { title: 'Shop', headings: ['Cart', 3], buttons: 'Add', inputs: [{ name: 'q', type: 'search' }, null], links: [{ text: 'About', href: '/about' }] },
+      htmlElements: [
+        { type: 'button', html: '<button>Add</button>', attributes: { id: 'add', onclick: 1 }, selectors: [
+          { strategy: 'id', selector: '#add', score: 85 },
+          { strategy: 'xpath', selector: '//button', score: 10 },
+        ] },
+        { type: 'input' },
+      ],
+    });
+
+    expect(result.domData).toEqual({
+      title: 'Shop',
+      headings: ['Cart'],
+      buttons: [],
+      inputs: [{ name: 'q', type: 'search', placeholder: '' }],
+      links: [{ text: 'About', href: '/about' }],
+    });
+    expect(result.htmlElements).toEqual([
+      { type: 'button', html: '<button>Add</button>', attributes: { id: 'add' }, selectors: [{ strategy: 'id', selector: '#add', score: 85 }] },
+    ]);
+  });
+
+  it('keeps only well-formed elements from a client snapshot', () => {
+    const result = sanitizeRequest({
+      url: 'https://example.com',
+      accessibleElements: [
+        { role: 'tab', name: 'Reviews', states: ['selected', 3], visible: true, enabled: true, tag: 'div', onclick: 'x' },
+        { role: 'button' },
+        'link',
+      ],
+    });
+    expect(result.accessibleElements).toEqual([
+      { role: 'tab', name: 'Reviews', states: ['selected'], visible: true, enabled: true, tag: 'div' },
+    ]);
+  });
+
+  it('keeps only recorded API calls with a valid URL', () => {
+    const result = sanitizeRequest({
+      url: 'https://example.com',
+      apiCalls: [
+        { method: 'get', url: 'https://example.com/api/cart', pattern: '/api/cart', status: 200, responseShape: '{ items: unknown[] }', cookie: 'x' },
+        { method: 'GET', url: 'javascript:alert(1)', pattern: '/', status: 200 },
+        { method: 'POST', url: 'https://example.com/api/cart', pattern: '/api/cart' },
+      ],
+    });
+    expect(result.apiCalls).toEqual([
+      { method: 'GET', url: 'https://example.com/api/cart', pattern: '/api/cart', status: 200, responseShape: '{ items: unknown[] }' },
+    ]);
+  });
+
+  it('keeps only known page issues and HTTP(S) asset URLs', () => {
+    const result = sanitizeRequest({
+      url: 'https://example.com',
+      pageIssues: [
+        { kind: 'exception', message: 'x is not defined', stack: 'at app.js:1' },
+        { kind: 'warning', message: 'Deprecated API' },
+        { kind: 'http-error', message: '404 Not Found', url: 'https://example.com/app.js', status: 404 },
+      ],
+      criticalAssets: ['https://example.com/app.js', "javascript:alert('x')", 42],
+    });
+    expect(result.pageIssues).toEqual([
+      { kind: 'exception', message: 'x is not defined' },
+      { kind: 'http-error', message: '404 Not Found', url: 'https://example.com/app.js', status: 404 },
+    ]);
+    expect(result.criticalAssets).toEqual(['https://example.com/app.js']);
+  });
+});
+
+describe('sanitizeTestFilters', () => {
+  it('parses search, filters and an inclusive date range', () => {
+    const { filters, errors } = sanitizeTestFilters(new URLSearchParams(
+      'q=%20login%20&category=form&testType=playwright&status=not-run&from=2025-01-01&to=2025-01-31&url=https://shop.test/&limit=50'
+    ));
+    expect(errors).toEqual([]);
+    expect(filters).toEqual({
+      query: 'login',
+      category: 'form',
+      testType: 'playwright',
+      status: 'not-run',
+      from: new Date('2025-01-01T00:00:00Z'),
+      to: new Date('2025-02-01T00:00:00Z'),
+      url: 'https://shop.test/',
+      limit: 50,
+    });
+  });
+
+  it('pages with an offset', () => {
+    expect(sanitizeTestFilters(new URLSearchParams('offset=200')).filters).toEqual({ limit: 200, offset: 200 });
+    expect(sanitizeTestFilters(new URLSearchParams('offset=-1')).errors).toEqual(['Offset: must be a non-negative integer']);
+  });
+
+  it('reports unknown values', () => {
+    const { filters, errors } = sanitizeTestFilters(new URLSearchParams('category=smoke&testType=selenium&status=flaky&from=yesterday&limit=0'));
+    expect(errors).toHaveLength(5);
+    expect(filters).toEqual({ limit: 200 });
+  });
+});
+
+describe('sanitizeTestUpdate', () => {
+  it('keeps the editable fields only', () => {
+    expect(sanitizeTestUpdate({ title: ' Checkout ', code: "cy.visit('/')", category: 'navigation', sessionId: 'other' }))
+      .toEqual({ update: { title: 'Checkout', code: "cy.visit('/')", category: 'navigation' }, errors: [] });
+  });
+
+  it('rejects empty titles and code, and empty updates', () => {
+    expect(sanitizeTestUpdate({ title: '  ', code: '' }).errors).toEqual(['Title: must be a non-empty string', 'Code: must be a non-empty string']);
+    expect(sanitizeTestUpdate({}).errors).toHaveLength(1);
+    expect(sanitizeTestUpdate(null).errors).toEqual(['Body: must be a JSON object']);
+  });
+});
+
+describe('sanitizeSessionSave', () => {
+  it('keeps tests with code and drops their warnings for the server to compute', () => {
+    const { session, errors } = sanitizeSessionSave({
+      url: ' https://shop.test/ ',
+      tests: [{ title: ' Loads ', code: "cy.visit('/')", warnings: [{ severity: 'error' }] }, { code: 'cy.get("a")' }],
+      summary: 'Shop',
+    });
+    expect(errors).toEqual([]);
+    expect(session).toEqual({
+      url: 'https://shop.test/',
+      tests: [
+        { title: 'Loads', code: "cy.visit('/')", warnings: undefined },
+        { title: 'Untitled Test', code: 'cy.get("a")', warnings: undefined },
+      ],
+      summary: 'Shop',
+    });
+  });
+
+  it('keeps only the editable fields of each test', () => {
+    const { session, errors } = sanitizeSessionSave({
+      url: 'https://shop.test/',
+      tests: [{
+        title: 'Loads',
+        why: 'Smoke',
+        code: "cy.visit('/')",
+        category: 'navigation',
+        testType: 'playwright',
+        pageUrl: 'https://shop.test/cart',
+        id: 'someone-elses',
+        healStatus: 'healed',
+        revisions: [{ attempt: 1, code: 'x', status: 'passed' }],
+        lastRun: { status: 'passed', durationMs: 1, runner: 'playwright', cases: [] },
+      }],
+      siteMap: [{ url: 'https://shop.test/', title: 'Shop', depth: 0, links: ['https://shop.test/cart', 7], extra: true }, { depth: 'x' }],
+    });
+
+    expect(errors).toEqual([]);
+    expect(session.tests).toStrictEqual([{
+      title: 'Loads', why: 'Smoke', code: "cy.visit('/')", category: 'navigation', testType: 'playwright', pageUrl: 'https://shop.test/cart',
+    }]);
+    expect(session.siteMap).toStrictEqual([{ url: 'https://shop.test/', title: 'Shop', depth: 0, links: ['https://shop.test/cart'] }]);
+  });
+
+  it('rejects categories, test types and page URLs that are not allowed', () => {
+    const { errors } = sanitizeSessionSave({
+      url: 'https://shop.test/',
+      tests: [{ code: "cy.visit('/')", category: 'smoke', testType: 'selenium', pageUrl: 'ftp://shop.test/' }],
+    });
+    expect(errors).toEqual([
+      'Tests: test 1 category must be one of general, navigation, form, element, error-handling, api',
+      'Tests: test 1 test type must be one of cypress, playwright',
+      'Tests: test 1 page URL: Only HTTP and HTTPS URLs are allowed',
+    ]);
+  });
+
+  it('requires a URL and tests with code', () => {
+    expect(sanitizeSessionSave({ url: 'nope', tests: [{ title: 'No code' }] }).errors).toEqual([
+      'URL: Invalid URL format',
+      'Tests: test 1 needs code of at most 200000 characters',
+    ]);
+    expect(sanitizeSessionSave(null).errors).toContain('Tests: must be an array');
+  });
+
+  it('keeps a valid project id', () => {
+    const body = { url: 'https://shop.test/', tests: [{ code: 'cy.visit("/")' }], projectId: 'clx1abc' };
+    expect(sanitizeSessionSave(body).session.projectId).toBe('clx1abc');
+    expect(sanitizeSessionSave({ ...body, projectId: '../x' }).errors).toEqual(['Project: projectId must be an id']);
+  });
+});
+
+describe('sanitizeProjectInput', () => {
+  it('requires a name on create and validates the base URL', () => {
+    expect(sanitizeProjectInput({ name: ' Shop ', baseUrl: 'https://shop.test' })).toEqual({
+      project: { name: 'Shop', baseUrl: 'https://shop.test' },
+      errors: [],
+    });
+    expect(sanitizeProjectInput({ baseUrl: 'ftp://shop.test' }).errors).toEqual([
+      'Name: must be a non-empty string',
+      'Base URL: Only HTTP and HTTPS URLs are allowed',
+    ]);
+  });
+
+  it('clears the base URL and description on update, and rejects empty updates', () => {
+    expect(sanitizeProjectInput({ baseUrl: '', description: null }, true)).toEqual({
+      project: { baseUrl: null, description: null },
+      errors: [],
+    });
+    expect(sanitizeProjectInput({}, true).errors).toEqual(['Body: nothing to update (name, description or baseUrl)']);
+  });
+});
+
+describe('sanitizeSuiteInput', () => {
+  it('deduplicates the test ids to add and remove', () => {
+    expect(sanitizeSuiteInput({ addTestIds: ['t1', 't2', 't1'], removeTestIds: ['t3'] }, true)).toEqual({
+      suite: { addTestIds: ['t1', 't2'], removeTestIds: ['t3'] },
+      errors: [],
+    });
+  });
+
+  it('rejects ids that are not strings', () => {
+    expect(sanitizeSuiteInput({ name: 'Checkout', addTestIds: ['t1', 42] }).errors).toEqual([
+      'addTestIds: must be an array of at most 1000 test ids',
+    ]);
+  });
+});
+
+describe('sanitizeCredentials', () => {
+  it('normalizes the email and keeps a trimmed name', () => {
+    expect(sanitizeCredentials({ email: ' Alice@Example.com ', password: 'correct horse', name: ' Alice ' })).toEqual({
+      credentials: { email: 'alice@example.com', password: 'correct horse', name: 'Alice' },
+      errors: [],
+    });
+  });
+
+  it('rejects bad addresses and short passwords, and ignores passwords for magic links', () => {
+    expect(sanitizeCredentials({ email: 'alice', password: 'short' }).errors).toEqual([
+      'Email: must be a valid email address',
+      'Password: must be 8 to 200 characters',
+    ]);
+    expect(sanitizeCredentials({ email: 'alice@example.com' }, true)).toEqual({
+      credentials: { email: 'alice@example.com' },
+      errors: [],
+    });
+  });
+});
+
+describe('RateLimiter', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('allows up to the limit within the window, per identifier', () => {
+    const limiter = new RateLimiter(60000, 2);
+    expect(limiter.isAllowed('a')).toBe(true);
+    expect(limiter.getRemainingRequests('a')).toBe(1);
+    expect(limiter.isAllowed('a')).toBe(true);
+    expect(limiter.isAllowed('a')).toBe(false);
+    expect(limiter.getRemainingRequests('a')).toBe(0);
+    expect(limiter.isAllowed('b')).toBe(true);
+  });
+
+  it('frees up requests once the window has passed', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-01-01T00:00:00Z'));
+    const limiter = new RateLimiter(1000, 1);
+
+    expect(limiter.isAllowed('a')).toBe(true);
+    expect(limiter.getResetTime('a')).toBe(Date.now() + 1000);
+
+    vi.advanceTimersByTime(999);
+    expect(limiter.isAllowed('a')).toBe(false);
+    vi.advanceTimersByTime(1);
+    expect(limiter.isAllowed('a')).toBe(true);
+  });
+
+  it('reports no reset time for an unknown identifier', () => {
+    expect(new RateLimiter().getResetTime('nobody')).toBe(0);
+  });
+});
@@ -0,0 +1,129 @@
+import fs from 'fs';
+import path from 'path';
+import sharp from 'sharp';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { generateGeneralTests } from '@/lib/generation';
+import { registerProvider, resetProviders } from '@/lib/llm';
+import { sanitizeRequest } from '@/lib/validation';
+import { describeScreenshots, prepareScreenshot, resolveScreenshotMode, resolveVisionModel } from '@/lib/vision';
+import { loadResponse, RecordedProvider } from './helpers/recorded-provider';
+
+const recordedSnapshot = JSON.parse(
+  fs.readFileSync(path.resolve(__dirname, 'fixtures/snapshots/index.json'), 'utf8')
+);
+
+// A blank full-page capture, as base64 PNG
+async function screenshot(width: number, height: number): Promise<string> {
+  const png = await sharp({ create: { width, height, channels: 4, background: '#ffffff' } }).png().toBuffer();
+  return png.toString('base64');
+}
+
+function sizes(images: { width: number; height: number }[]) {
+  return images.map(image => [image.width, image.height]);
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllEnvs();
+  resetProviders();
+});
+
+describe('resolveVisionModel and resolveScreenshotMode', () => {
+  it('read the environment, downscaling unless told otherwise', () => {
+    vi.stubEnv('OPENAI_VISION_MODEL', ' gpt-4o ');
+    vi.stubEnv('VISION_SCREENSHOT_MODE', 'tiles');
+    expect(resolveVisionModel()).toBe('gpt-4o');
+    expect(resolveScreenshotMode()).toBe('tiles');
+
+    vi.stubEnv('OPENAI_VISION_MODEL', '');
+    vi.stubEnv('VISION_SCREENSHOT_MODE', 'huge');
+    expect(resolveVisionModel()).toBeNull();
+    expect(resolveScreenshotMode()).toBe('downscale');
+  });
+});
+
+describe('prepareScreenshot', () => {
+  it('downscales to the maximum width, keeping the aspect ratio', async () => {
+    const images = await prepareScreenshot(await screenshot(2048, 3000), 'downscale', 1024);
+    expect(sizes(images)).toEqual([[1024, 1500]]);
+    expect(images[0].dataUrl).toMatch(/^data:image\/png;base64,/);
+  });
+
+  it('never enlarges a narrow capture and accepts a data URL', async () => {
+    const images = await prepareScreenshot(`data:image/png;base64,${await screenshot(400, 300)}`, 'downscale', 1024);
+    expect(sizes(images)).toEqual([[400, 300]]);
+  });
+
+  it('keeps the original size in full mode', async () => {
+    expect(sizes(await prepareScreenshot(await screenshot(2048, 600), 'full', 1024))).toEqual([[2048, 600]]);
+  });
+
+  it('splits a tall page into at most four tiles, top to bottom', async () => {
+    expect(sizes(await prepareScreenshot(await screenshot(1000, 2500), 'tiles', 1000))).toEqual([
+      [1000, 1000],
+      [1000, 1000],
+      [1000, 500],
+    ]);
+    expect(sizes(await prepareScreenshot(await screenshot(500, 8000), 'tiles', 500))).toEqual([
+      [500, 2000],
+      [500, 2000],
+      [500, 2000],
+      [500, 2000],
+    ]);
+  });
+});
+
+describe('describeScreenshots', () => {
+  it('says how many images are attached', () => {
+    const image = { dataUrl: '', width: 1, height: 1 };
+    expect(describeScreenshots([])).toBe('');
+    expect(describeScreenshots([image])).toContain('A screenshot of the page is attached.');
+    expect(describeScreenshots([image, image])).toContain('attached as 2 tiles, in order from top to bottom');
+  });
+});
+
+describe('generateGeneralTests with a screenshot', () => {
+  const url = 'http://127.0.0.1:4000/index.html';
+
+  it('attaches the screenshot for the configured vision model', async () => {
+    vi.stubEnv('OPENAI_VISION_MODEL', 'gpt-4o');
+    vi.stubEnv('VISION_SCREENSHOT_MODE', 'downscale');
+    const provider = new RecordedProvider([loadResponse('valid.json')]);
+    registerProvider(provider);
+
+    await generateGeneralTests(sanitizeRequest({ url, ...recordedSnapshot, screenshot: await screenshot(1280, 900) }));
+
+    expect(provider.models).toEqual(['gpt-4o']);
+    const content = provider.contents[0];
+    expect(Array.isArray(content) && content.map(part => part.type)).toEqual(['text', 'image_url']);
+    expect(provider.prompts[0]).toContain('A screenshot of the page is attached.');
+    expect(provider.prompts[0]).toContain('Page Title: Fixture Shop');
+  });
+
+  it('sends the DOM-text prompt alone without a vision model', async () => {
+    vi.stubEnv('OPENAI_VISION_MODEL', '');
+    const provider = new RecordedProvider([loadResponse('valid.json')]);
+    registerProvider(provider);
+
+    await generateGeneralTests(sanitizeRequest({ url, ...recordedSnapshot, screenshot: await screenshot(1280, 900) }));
+
+    expect(typeof provider.contents[0]).toBe('string');
+    expect(provider.prompts[0]).not.toContain('SCREENSHOT:');
+  });
+
+  it('falls back to text when the screenshot cannot be decoded', async () => {
+    vi.stubEnv('OPENAI_VISION_MODEL', 'gpt-4o');
+    const provider = new RecordedProvider([loadResponse('valid.json')]);
+    registerProvider(provider);
+
+    await generateGeneralTests(sanitizeRequest({ url, ...recordedSnapshot, screenshot: 'bm90IGEgcG5n' }));
+
+    expect(typeof provider.contents[0]).toBe('string');
+    expect(provider.models).toEqual(['recorded']);
+  });
+});
@@ -0,0 +1,126 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import sharp from 'sharp';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DatabaseService } from '@/lib/database';
+import { checkScreenshot, diffScreenshots, pruneScreenshots, sanitizeRegions, viewportKey } from '@/lib/visual';
+
+// A white PNG, base64, with an optional black square
+async function png(width: number, height: number, square?: { left: number; top: number; size: number }) {
+  let image = sharp({ create: { width, height, channels: 4, background: '#ffffff' } });
+  if (square) {
+    const black = await sharp({ create: { width: square.size, height: square.size, channels: 4, background: '#000000' } }).png().toBuffer();
+    image = sharp(await image.png().toBuffer()).composite([{ input: black, left: square.left, top: square.top }]);
+  }
+  return (await image.png().toBuffer()).toString('base64');
+}
+
+let dir: string;
+
+function readStored(file: string) {
+  return fs.readFileSync(path.join(dir, file)).toString('base64');
+}
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'testflow-screenshots-'));
+  vi.stubEnv('SCREENSHOT_DIR', dir);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllEnvs();
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('diffScreenshots', () => {
+  it('reports the share of changed pixels and marks them in the diff image', async () => {
+    const diff = await diffScreenshots(await png(100, 100), await png(100, 100, { left: 20, top: 30, size: 10 }));
+
+    expect(diff).toMatchObject({ mismatchPercent: 1, mismatchedPixels: 100, comparedPixels: 10000, sizeChanged: false });
+    const { data, info } = await sharp(Buffer.from(diff.diffImage, 'base64')).raw().toBuffer({ resolveWithObject: true });
+    const pixel = (x: number, y: number) => [...data.subarray((y * info.width + x) * info.channels, (y * info.width + x) * info.channels + 3)];
+    expect(pixel(25, 35)).toEqual([255, 0, 0]);
+    expect(pixel(5, 5)).toEqual([255, 255, 255]);
+  });
+
+  it('ignores masked regions', async () => {
+    const diff = await diffScreenshots(await png(100, 100), await png(100, 100, { left: 20, top: 30, size: 10 }), {
+      masks: [{ x: 0, y: 25, width: 100, height: 20 }],
+    });
+    expect(diff).toMatchObject({ mismatchPercent: 0, comparedPixels: 8000 });
+  });
+
+  it('counts the area only one screenshot covers as changed', async () => {
+    const diff = await diffScreenshots(await png(100, 100), await png(100, 120));
+    expect(diff).toMatchObject({ sizeChanged: true, mismatchedPixels: 2000 });
+  });
+});
+
+describe('checkScreenshot', () => {
+  const url = 'https://shop.test/';
+
+  it('makes the first screenshot of a URL and viewport the baseline', async () => {
+    const getBaseline = vi.spyOn(DatabaseService, 'getVisualBaseline').mockResolvedValue(null);
+    const save = vi.spyOn(DatabaseService, 'saveScreenshot').mockResolvedValue({ screenshotId: 'shot-1' });
+    const setBaseline = vi.spyOn(DatabaseService, 'setVisualBaseline').mockResolvedValue({ baselineId: 'base-1' });
+    const image = await png(10, 10);
+
+    const check = await checkScreenshot('session-1', url, image, { device: 'iPhone 13' }, 'user-1');
+
+    expect(check).toEqual({ screenshotId: 'shot-1', viewport: 'iPhone 13 390x664', isNewBaseline: true });
+    const { imagePath } = save.mock.calls[0][0];
+    expect(save).toHaveBeenCalledWith({ sessionId: 'session-1', url, viewport: 'iPhone 13 390x664', imagePath });
+    expect(readStored(imagePath)).toBe(image);
+    expect(getBaseline).toHaveBeenCalledWith(url, 'iPhone 13 390x664', 'user-1');
+    expect(setBaseline).toHaveBeenCalledWith({ id: 'shot-1', url, viewport: 'iPhone 13 390x664', imagePath, userId: 'user-1' });
+  });
+
+  it('compares later screenshots with the baseline and its masks', async () => {
+    fs.writeFileSync(path.join(dir, 'baseline.png'), Buffer.from(await png(10, 10), 'base64'));
+    vi.spyOn(DatabaseService, 'getVisualBaseline').mockResolvedValue({
+      id: 'base-1', url, viewport: '1600x1200', imagePath: 'baseline.png', screenshotId: 'shot-1', masks: [{ x: 0, y: 0, width: 5, height: 10 }], updatedAt: new Date(),
+    });
+    const save = vi.spyOn(DatabaseService, 'saveScreenshot').mockResolvedValue({ screenshotId: 'shot-2' });
+
+    const check = await checkScreenshot('session-2', url, await png(10, 10, { left: 5, top: 0, size: 5 }), undefined, 'user-1');
+
+    expect(check).toEqual({ screenshotId: 'shot-2', viewport: '1600x1200', isNewBaseline: false, mismatchPercent: 50 });
+    expect(save.mock.calls[0][0]).toMatchObject({ baselineId: 'base-1', mismatchPercent: 50, diffPath: expect.any(String) });
+    expect(fs.existsSync(path.join(dir, save.mock.calls[0][0].diffPath!))).toBe(true);
+  });
+});
+
+describe('pruneScreenshots', () => {
+  it('deletes screenshots past the retention period and the files nothing refers to', async () => {
+    vi.stubEnv('SCREENSHOT_RETENTION_DAYS', '7');
+    const now = new Date('2026-10-19T12:00:00Z');
+    const deleteOld = vi.spyOn(DatabaseService, 'deleteScreenshotsBefore').mockResolvedValue(3);
+    vi.spyOn(DatabaseService, 'getScreenshotFiles').mockResolvedValue(['kept.png']);
+    const old = new Date('2026-10-19T10:00:00Z');
+    for (const name of ['kept.png', 'orphan.png']) {
+      fs.writeFileSync(path.join(dir, name), '');
+      fs.utimesSync(path.join(dir, name), old, old);
+    }
+    // Written moments ago, before the row that will refer to it
+    fs.writeFileSync(path.join(dir, 'fresh.png'), '');
+    fs.utimesSync(path.join(dir, 'fresh.png'), now, now);
+
+    expect(await pruneScreenshots(now)).toEqual({ screenshots: 3, files: 1 });
+    expect(deleteOld).toHaveBeenCalledWith(new Date('2026-10-12T12:00:00Z'));
+    expect(fs.readdirSync(dir).sort()).toEqual(['fresh.png', 'kept.png']);
+  });
+});
+
+describe('sanitizeRegions', () => {
+  it('keeps whole-pixel rectangles only', () => {
+    expect(sanitizeRegions([{ x: 0, y: 10, width: 50, height: 20, label: 'ad' }, { x: -1, y: 0, width: 5, height: 5 }, { x: 0, y: 0, width: 0, height: 5 }, 'x']))
+      .toEqual([{ x: 0, y: 10, width: 50, height: 20 }]);
+    expect(sanitizeRegions(undefined)).toEqual([]);
+  });
+
+  it('keys baselines by device and viewport', () => {
+    expect(viewportKey()).toBe('1600x1200');
+    expect(viewportKey({ viewport: { width: 800, height: 600 } })).toBe('800x600');
+  });
+});